@@ -1,11 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Layout from './components/Layout';
 import Scanner from './components/Scanner';
 import ResultView from './components/ResultView';
 import Dashboard from './components/Dashboard';
 import BatchResults from './components/BatchResults';
-import { ViewState, FileData, AnalysisResult, AnalysisStatus, HistoryItem, BatchAnalysisResult } from './types';
-import { analyzeContent, fileToBase64 } from './services/geminiService';
+import Calibration from './components/Calibration';
+import Evaluation from './components/Evaluation';
+import PromptProfiles from './components/PromptProfiles';
+import Settings from './components/Settings';
+import Integrations from './components/Integrations';
+import { ViewState, FileData, AnalysisResult, AnalysisStatus, AnalyticsRange, HistoryAnalytics, HistoryItem, HistoryFacets, HistoryQuery, BatchAnalysisResult, BatchInput, BatchItem, ForensicLayers, UrlSource, CalibrationInput, CalibrationItem, CalibrationModel, CalibrationSample, EvaluationRun, GroundTruthLabel, AppSettings, PromptProfileDraft, PromptProfileRef, PromptProfileVersion, SourceItem, SourceRecord } from './types';
+import { analyzeFile, configureEnsemble, resolveDetector, setEnsembleEnabled, setGeminiModel, setServerEndpoint } from './services/detectorService';
+import { testGeminiConnection } from './services/geminiService';
+import { testServerConnection } from './services/serverDetectorService';
+import { normalizeAnalysisResult } from './services/resultValidator';
+import { clearHistory, DEFAULT_HISTORY_QUERY, deleteHistoryItems, getHistoryItem, hasHistoryItem, historyMediaType, listHistorySince, queryHistory, saveHistoryItem, StoredHistoryItem, toHistoryItem } from './services/historyStore';
+import { hashFile } from './services/hashService';
+import { createThumbnail } from './services/thumbnailService';
+import { fetchMediaFromUrl } from './services/urlFetchService';
+import { BatchQueueController, createBatchQueue } from './services/batchQueue';
+import { deleteCalibration, getCalibration, putCalibration } from './services/calibrationStore';
+import { buildEvaluationRun, parseEvaluationRun, parseGroundTruth, resolveLabel } from './services/evaluationService';
+import { deleteEvaluationRun, listEvaluationRuns, putEvaluationRun } from './services/evaluationStore';
+import { createProfile, DEFAULT_PROFILE_ID, groupProfiles, nextVersion, resolveProfile } from './services/promptProfiles';
+import { addPromptVersion, deletePromptProfile, listPromptVersions } from './services/promptProfileStore';
+import { getGeminiApiKey, getSettings, saveSettings } from './services/settingsService';
+import { createSource, createSourceWatcher, SourceDraft, SourceWatcher } from './services/sourceWatcher';
+import { deleteSource, listSources, putSource } from './services/sourceStore';
+import { createSignedReport, ReportEntry } from './services/reportService';
+import { parseImportFile } from './services/resultImport';
+import { getSigningKey, verifyReportPdf } from './services/reportSigning';
+import { computeHistoryAnalytics, rangeStart } from './services/historyAnalytics';
 
 const FORENSIC_STEPS = [
   "INITIALIZING NEURAL LAYERS...",
@@ -26,14 +51,53 @@ const App: React.FC = () => {
   // Single Mode State
   const [currentFile, setCurrentFile] = useState<FileData | null>(null);
   const [currentResult, setCurrentResult] = useState<AnalysisResult | null>(null);
+  const [currentFromCache, setCurrentFromCache] = useState(false);
+  const [currentLayers, setCurrentLayers] = useState<ForensicLayers | undefined>(undefined);
   
   // Batch Mode State
-  const [batchQueue, setBatchQueue] = useState<File[]>([]);
-  const [batchResults, setBatchResults] = useState<BatchAnalysisResult[]>([]);
-  const [batchProgress, setBatchProgress] = useState(0);
+  const batchController = useRef<BatchQueueController<BatchInput, BatchAnalysisResult> | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [batchPaused, setBatchPaused] = useState(false);
 
-  // Global History
+  // Calibration: labeled reference run and the stored model for the active detector
+  const calibrationController = useRef<BatchQueueController<CalibrationInput, CalibrationSample> | null>(null);
+  const [calibrationItems, setCalibrationItems] = useState<CalibrationItem[]>([]);
+  const [calibration, setCalibration] = useState<CalibrationModel | undefined>(undefined);
+
+  // Evaluation: labeled benchmark batch and the stored runs it is compared against
+  const evaluationController = useRef<BatchQueueController<BatchInput, BatchAnalysisResult> | null>(null);
+  const evaluationMeta = useRef<{ id: string; name: string; detectorLabel: string; detectorVersion: string; promptProfile?: PromptProfileRef; unlabeled: string[] } | null>(null);
+  const [evaluationItems, setEvaluationItems] = useState<BatchItem[]>([]);
+  const [evaluationRuns, setEvaluationRuns] = useState<EvaluationRun[]>([]);
+  const [activeEvaluationId, setActiveEvaluationId] = useState<string | undefined>(undefined);
+
+  // Prompt profiles: built-ins plus stored versions. Scans and batches use the latest version of the selected profile
+  const [promptVersions, setPromptVersions] = useState<PromptProfileVersion[]>([]);
+  const promptProfiles = useMemo(() => groupProfiles(promptVersions), [promptVersions]);
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+  const [selectedProfileId, setSelectedProfileId] = useState(() => getSettings().defaultProfileId);
+  const [promptFocus, setPromptFocus] = useState<PromptProfileRef | undefined>(undefined);
+  const [reportKey, setReportKey] = useState<{ fingerprint: string; createdAt: string } | undefined>(undefined);
+  // Bumped whenever the ensemble is rebuilt, which happens outside React state
+  const [ensembleRevision, setEnsembleRevision] = useState(0);
+  const activeProfile = resolveProfile(promptProfiles, selectedProfileId);
+  const activeDetector = useMemo(() => resolveDetector(activeProfile), [activeProfile, settings, ensembleRevision]);
+
+  // Watched sources: the watcher polls in the background and owns each source's status
+  const sourceWatcher = useRef<SourceWatcher | null>(null);
+  const scanSourceItemRef = useRef<(item: SourceItem, source: SourceRecord) => Promise<void>>(async () => {});
+  const [sources, setSources] = useState<SourceRecord[]>([]);
+
+  // Global History (persisted in IndexedDB). The dashboard shows the entries matching historyQuery one page at a time
+  const [historyQuery, setHistoryQuery] = useState<HistoryQuery>(DEFAULT_HISTORY_QUERY);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historyStored, setHistoryStored] = useState(0);
+  const [historyFacets, setHistoryFacets] = useState<HistoryFacets>({ modelSignatures: [], watermarkProviders: [] });
+  const [historyRevision, setHistoryRevision] = useState(0); // Bumped on every write so the open dashboard re-queries
+  const [resultFromHistory, setResultFromHistory] = useState(false);
+  const [analyticsRange, setAnalyticsRange] = useState<AnalyticsRange>('30d');
+  const [analytics, setAnalytics] = useState<HistoryAnalytics | undefined>(undefined);
   const [scanStep, setScanStep] = useState(0);
   const [scanText, setScanText] = useState("");
 
@@ -44,6 +108,75 @@ const App: React.FC = () => {
     return () => clearTimeout(timer);
   }, []);
 
+  useEffect(() => {
+    listPromptVersions()
+      .then(setPromptVersions)
+      .catch(err => console.error("Prompt profiles load failed:", err));
+  }, []);
+
+  // "@profile:<id>" ensemble passes resolve against the stored profiles, so they are rebuilt as those load or change
+  useEffect(() => {
+    try {
+      configureEnsemble(settings.ensemblePasses, promptProfiles);
+      setEnsembleRevision(r => r + 1);
+    } catch (err) {
+      console.error("Ensemble passes invalid:", err);
+    }
+  }, [settings.ensemblePasses, promptProfiles]);
+
+  useEffect(() => {
+    const watcher = createSourceWatcher(
+      (item, source) => scanSourceItemRef.current(item, source),
+      (source) => setSources(prev => prev.map(s => (s.id === source.id ? source : s)))
+    );
+    sourceWatcher.current = watcher;
+    listSources()
+      .then(stored => setSources(watcher.sync(stored)))
+      .catch(err => console.error("Sources load failed:", err));
+    return () => watcher.stop();
+  }, []);
+
+  // The signing key is created on first use, so only when it is about to be shown
+  useEffect(() => {
+    if (view !== ViewState.SETTINGS || reportKey) return;
+    getSigningKey()
+      .then(key => setReportKey({ fingerprint: key.fingerprint, createdAt: key.createdAt }))
+      .catch(err => console.error("Signing key load failed:", err));
+  }, [view, reportKey]);
+
+  // Persisted history is only queried while the dashboard is open, batches elsewhere just bump the revision
+  useEffect(() => {
+    if (view !== ViewState.DASHBOARD) return;
+    let stale = false;
+    queryHistory(historyQuery)
+      .then(page => {
+        if (stale) return;
+        const items = page.items.map(toHistoryItem);
+        setHistory(prev => {
+          prev.forEach(h => h.thumbnail && URL.revokeObjectURL(h.thumbnail));
+          return items;
+        });
+        setHistoryTotal(page.total);
+        setHistoryStored(page.stored);
+        setHistoryFacets(page.facets);
+      })
+      .catch(err => console.error("History load failed:", err));
+    return () => { stale = true; };
+  }, [view, historyQuery, historyRevision]);
+
+  // Analytics cover the whole stored history in the range, independent of the explorer's filters
+  useEffect(() => {
+    if (view !== ViewState.DASHBOARD) return;
+    let stale = false;
+    const now = new Date();
+    listHistorySince(rangeStart(analyticsRange, now))
+      .then(items => {
+        if (!stale) setAnalytics(computeHistoryAnalytics(items, analyticsRange, now));
+      })
+      .catch(err => console.error("Analytics load failed:", err));
+    return () => { stale = true; };
+  }, [view, analyticsRange, historyRevision]);
+
   // Cycling forensic steps during scanning
   useEffect(() => {
     if (view === ViewState.SCANNING) {
@@ -92,24 +225,14 @@ const App: React.FC = () => {
           parsedData = result;
         }
 
-        // Map incoming data to internal AnalysisResult type
-        const mappedResult: AnalysisResult = {
-          isAI: parsedData.isAI || false,
-          score: typeof parsedData.score === 'number' ? parsedData.score : (parsedData.isAI ? 98 : 2),
-          verdict: parsedData.verdict || (parsedData.isAI ? "SYNTHETIC DETECTED" : "AUTHENTIC"),
-          reasoning: parsedData.reasoning || "Analysis provided by iOS Neural Engine Bridge.",
-          technicalDetails: parsedData.technicalDetails || ["External verification complete", "Bridge data integrity: OK"],
-          modelSignature: parsedData.modelSignature || { name: "External Model", confidence: 0 },
-          forensicMetrics: parsedData.forensicMetrics || {
-            biometricIntegrity: 50, textureFidelity: 50, lightingConsistency: 50, physicalLogic: 50
-          },
-          humanPerception: parsedData.humanPerception || {
-            realnessScore: 50, suspiciousnessScore: 50, perceptualInconsistency: 0, artifactLevel: 0
+        // Validate & repair incoming data into the internal AnalysisResult type
+        const mappedResult: AnalysisResult = normalizeAnalysisResult(parsedData, {
+          defaults: {
+            reasoning: "Analysis provided by iOS Neural Engine Bridge.",
+            technicalDetails: ["External verification complete", "Bridge data integrity: OK"],
+            modelSignature: { name: "External Model", confidence: 0 },
           },
-          suspiciousRegions: parsedData.suspiciousRegions || [],
-          watermark: parsedData.watermark || { detected: false, signatures: [] },
-          timestamp: new Date().toISOString()
-        };
+        });
 
         // If no file is loaded (started via iOS bridge without UI interaction), create a placeholder
         if (!currentFile) {
@@ -122,14 +245,12 @@ const App: React.FC = () => {
         }
 
         setCurrentResult(mappedResult);
+        setCurrentFromCache(false);
+        setCurrentLayers(undefined);
         setStatus(AnalysisStatus.COMPLETE);
         setView(ViewState.RESULT);
 
-        setHistory(prev => [{
-            ...mappedResult,
-            id: crypto.randomUUID(),
-            thumbnail: ""
-        }, ...prev]);
+        recordHistory(mappedResult, null);
 
       } catch (err) {
         console.error("iOS Bridge React Update Error:", err);
@@ -142,129 +263,651 @@ const App: React.FC = () => {
     };
   }, [currentFile]); 
 
-  // Process Batch Queue
+  // Cancel any in-flight batch when the app unmounts
+  useEffect(() => () => {
+    batchController.current?.cancel();
+    calibrationController.current?.cancel();
+    evaluationController.current?.cancel();
+  }, []);
+
   useEffect(() => {
-    const processQueue = async () => {
-      if (view === ViewState.BATCH_PROCESSING && batchQueue.length > 0) {
-        const file = batchQueue[0];
-        const remaining = batchQueue.slice(1);
-        
-        try {
-           const base64 = await fileToBase64(file);
-           const previewUrl = URL.createObjectURL(file);
-           
-           // Determine Mime Type - if optimized by fileToBase64, it's always jpeg for images
-           // But file.type might still say 'image/png'. We trust the logic in geminiService to handle base64 correctly.
-           const mimeType = file.type.startsWith('image/') ? 'image/jpeg' : file.type;
-
-           const result = await analyzeContent(base64, mimeType);
-           
-           const batchResult: BatchAnalysisResult = {
-             fileName: file.name,
-             result: result,
-             thumbnail: previewUrl
-           };
-           
-           setBatchResults(prev => [...prev, batchResult]);
-           
-           setHistory(prev => [{
-             ...result,
-             id: crypto.randomUUID(),
-             thumbnail: previewUrl
-           }, ...prev]);
-
-        } catch (error) {
-           console.error(`Failed to process ${file.name}`, error);
-        }
+    if (view !== ViewState.CALIBRATION) return;
+    getCalibration(activeDetector.version)
+      .then(setCalibration)
+      .catch(err => console.error("Calibration load failed:", err));
+  }, [view, activeDetector.version]);
 
-        setBatchQueue(remaining);
-        setBatchProgress(prev => prev + 1);
+  useEffect(() => {
+    if (view !== ViewState.EVALUATION) return;
+    listEvaluationRuns()
+      .then(setEvaluationRuns)
+      .catch(err => console.error("Evaluation runs load failed:", err));
+  }, [view]);
 
-        if (remaining.length === 0) {
-           setView(ViewState.BATCH_RESULT);
-           setStatus(AnalysisStatus.COMPLETE);
-        }
-      }
+  const recordHistory = async (result: AnalysisResult, file: File | null, fileName: string | undefined = file?.name) => {
+    const stored: StoredHistoryItem = {
+      ...result,
+      id: crypto.randomUUID(),
+      fileName,
+      mimeType: file?.type,
+      thumbnailBlob: file ? await createThumbnail(file) : null,
     };
 
-    if (view === ViewState.BATCH_PROCESSING && batchQueue.length > 0) {
-       processQueue();
+    try {
+      await saveHistoryItem(stored);
+      setHistoryRevision(prev => prev + 1);
+    } catch (err) {
+      console.error("History save failed:", err);
     }
-  }, [view, batchQueue]);
+  };
 
+  const loadMoreHistory = async () => {
+    try {
+      const page = await queryHistory(historyQuery, history.length);
+      setHistory(prev => [...prev, ...page.items.map(toHistoryItem)]);
+      setHistoryTotal(page.total);
+    } catch (err) {
+      console.error("History load failed:", err);
+    }
+  };
 
-  const handleScanStart = async (files: File[]) => {
-    if (files.length === 0) return;
+  const handleDeleteHistory = async (ids: string[]) => {
+    if (ids.length > 1 && !confirm(`Delete ${ids.length} stored scans? This cannot be undone.`)) return;
+    try {
+      await deleteHistoryItems(ids);
+    } catch (err) {
+      alert(`Could not delete: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    setHistoryRevision(prev => prev + 1);
+  };
 
-    if (files.length === 1) {
-      // Single File Mode
-      const file = files[0];
+  const handleClearHistory = async () => {
+    if (!confirm("Delete every stored scan? This cannot be undone.")) return;
+    try {
+      await clearHistory();
+    } catch (err) {
+      alert(`Could not clear history: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    setHistoryRevision(prev => prev + 1);
+  };
+
+  // Reopens a stored scan. History keeps a thumbnail, not the original media, so it stands in for the preview
+  const handleOpenHistoryItem = async (item: HistoryItem) => {
+    try {
+      const stored = await getHistoryItem(item.id);
+      if (!stored) throw new Error("The scan is no longer in history");
+      const { id, thumbnailBlob, fileName, mimeType, ...result } = stored;
+      resetScanner();
+      setCurrentFile({
+        file: null,
+        previewUrl: thumbnailBlob ? URL.createObjectURL(thumbnailBlob) : "",
+        mimeType: mimeType || (historyMediaType(stored) === 'video' ? 'video/unknown' : 'image/unknown'),
+        base64: "",
+        sourceUrl: result.sourceUrl,
+      });
+      setCurrentResult(result);
+      setCurrentFromCache(false);
+      setResultFromHistory(true);
+      setStatus(AnalysisStatus.COMPLETE);
+      setView(ViewState.RESULT);
+    } catch (err) {
+      alert(`Could not open scan: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  /**
+   * Runs stored scans again as a batch, bypassing the result cache. URL scans
+   * are fetched again; everything else needs its original file, matched to
+   * the stored entry by SHA-256 from `files`.
+   */
+  const handleReanalyzeHistory = async (items: HistoryItem[], files: File[]) => {
+    const byHash = new Map<string, File>();
+    for (const file of files) byHash.set(await hashFile(file), file);
+
+    const inputs = new Map<string, BatchInput>();
+    const missing: string[] = [];
+    for (const item of items) {
+      const name = item.fileName ?? item.sourceUrl ?? item.timestamp;
       try {
-        const previewUrl = URL.createObjectURL(file);
-        
-        setStatus(AnalysisStatus.ANALYZING);
-        setView(ViewState.SCANNING);
-
-        // Notify iOS bridge
-        if (window.webkit && window.webkit.messageHandlers && window.webkit.messageHandlers.upload) {
-            try {
-                window.webkit.messageHandlers.upload.postMessage("start");
-            } catch(e) {
-                console.log("iOS Bridge not available or failed");
-            }
+        const file = item.sourceHash ? byHash.get(item.sourceHash) : undefined;
+        if (file) {
+          if (!inputs.has(item.sourceHash!)) inputs.set(item.sourceHash!, { file, sourceHash: item.sourceHash!, duplicates: [], force: true });
+        } else if (item.sourceUrl) {
+          const { file: fetched, sourceUrl, finalUrl } = await fetchMediaFromUrl(item.sourceUrl);
+          const sourceHash = await hashFile(fetched);
+          if (!inputs.has(sourceHash)) inputs.set(sourceHash, { file: fetched, sourceHash, duplicates: [], force: true, source: { sourceUrl, finalUrl } });
+        } else {
+          missing.push(`${name}: original file not selected`);
+        }
+      } catch (err) {
+        missing.push(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    if (missing.length > 0) alert(`${missing.length} scan(s) cannot be re-analyzed:\n${missing.join('\n')}`);
+    if (inputs.size > 0) runBatch(Array.from(inputs.values()));
+  };
+
+  // Exported results come back into history (once) and open in the view that produced them
+  // Importing replaces batchItems, which a running queue would keep writing into, so it waits for the batch
+  const handleImportResults = async (file: File) => {
+    const batchState = batchController.current?.getState();
+    if ((batchState && !batchState.finished) || status === AnalysisStatus.ANALYZING) {
+      alert("A scan or batch is still running. Let it finish or cancel it, then import again.");
+      return;
+    }
+    try {
+      const report = await parseImportFile(file, reportKey?.fingerprint);
+      let added = 0;
+      const outputs: BatchAnalysisResult[] = [];
+      for (const [idx, item] of report.items.entries()) {
+        const fileName = item.fileName ?? (report.kind === 'batch' ? `Imported ${idx + 1}` : undefined);
+        const media = item.thumbnail ? await fetch(item.thumbnail).then(r => r.blob()).catch(() => null) : null;
+        const mediaFile = media ? new File([media], fileName ?? 'imported', { type: media.type }) : null;
+        if (!(await hasHistoryItem(item.result))) {
+          await recordHistory(item.result, mediaFile, fileName);
+          added++;
         }
+        outputs.push({
+          fileName: fileName ?? 'Imported result',
+          result: item.result,
+          thumbnail: mediaFile ? URL.createObjectURL(mediaFile) : '',
+          duplicates: item.duplicates,
+          label: item.label,
+        });
+      }
 
-        // Heavy lifting: Conversion + Optimization happens here
-        const base64 = await fileToBase64(file);
-        
-        // On iOS, we force 'image/jpeg' because fileToBase64 now converts everything to JPEG
-        // This ensures the API gets the correct MIME type even if the original file was HEIC
-        const effectiveMimeType = file.type.startsWith('image/') ? 'image/jpeg' : file.type;
-        
+      resetScanner();
+      if (report.kind === 'result') {
+        const [output] = outputs;
         setCurrentFile({
-          file,
-          previewUrl,
-          mimeType: effectiveMimeType,
-          base64
+          file: null,
+          previewUrl: output.thumbnail,
+          mimeType: output.result.videoAnalysis ? 'video/unknown' : 'image/unknown',
+          base64: "",
+          sourceUrl: output.result.sourceUrl,
         });
-
-        const result = await analyzeContent(base64, effectiveMimeType);
-        setCurrentResult(result);
-        
-        setHistory(prev => [{
-          ...result,
+        setCurrentResult(output.result);
+        setCurrentFromCache(false);
+        setStatus(AnalysisStatus.COMPLETE);
+        setView(ViewState.RESULT);
+      } else {
+        setBatchItems(outputs.map(output => ({
           id: crypto.randomUUID(),
-          thumbnail: previewUrl,
-        }, ...prev]);
+          input: { file: new File([], output.fileName), sourceHash: output.result.sourceHash ?? "", duplicates: output.duplicates ?? [], label: output.label },
+          status: 'done',
+          attempts: 0,
+          output,
+        })));
+        setStatus(AnalysisStatus.COMPLETE);
+        setView(ViewState.BATCH_RESULT);
+      }
 
+      const notes = [
+        added < report.items.length && `${report.items.length - added} already in history.`,
+        report.skipped.length > 0 && `Skipped ${report.skipped.length}:\n${report.skipped.join('\n')}`,
+        report.signature && !report.signature.ownKey && `Signed by another key: ${report.signature.keyFingerprint}`,
+      ].filter(Boolean);
+      if (notes.length > 0) alert(`Imported ${report.items.length} result(s). ${notes.join('\n')}`);
+    } catch (err) {
+      alert(`Could not import: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const processBatchFile = async (input: BatchInput): Promise<BatchAnalysisResult> => {
+    const { file } = input;
+
+    const analysis = await analyzeFile(file, input.sourceHash, input.force ?? false, activeProfile);
+    const result = input.source ? { ...analysis.result, ...input.source } : analysis.result;
+    await recordHistory(result, file);
+
+    // Created only once the item succeeded, so failed attempts and retries leave no object URL behind
+    return {
+      fileName: file.name,
+      result: result,
+      thumbnail: URL.createObjectURL(file),
+      duplicates: input.duplicates,
+      fromCache: analysis.fromCache,
+    };
+  };
+
+  const runBatch = (inputs: BatchInput[]) => {
+    batchController.current?.cancel();
+    setBatchItems([]);
+    setView(ViewState.BATCH_PROCESSING);
+    setStatus(AnalysisStatus.ANALYZING);
+
+    // A replaced or reset queue still reports its in-flight items as they settle, which must not reach the screen
+    const controller = createBatchQueue(inputs, processBatchFile, (state) => {
+      if (batchController.current !== controller) return;
+      setBatchItems(state.items);
+      setBatchPaused(state.paused);
+      if (state.finished) {
         setStatus(AnalysisStatus.COMPLETE);
-        setView(ViewState.RESULT);
+        setView(prev => prev === ViewState.BATCH_PROCESSING ? ViewState.BATCH_RESULT : prev);
+      }
+    });
+
+    batchController.current = controller;
+    controller.start();
+  };
+
+  const startBatch = async (files: File[]) => {
+    batchController.current?.cancel();
+    setBatchItems([]);
+    setView(ViewState.BATCH_PROCESSING);
+    setStatus(AnalysisStatus.ANALYZING);
 
-      } catch (error) {
-        console.error("Analysis Loop Error:", error);
-        setStatus(AnalysisStatus.ERROR);
-        const msg = error instanceof Error ? error.message : "Unknown error";
-        alert(`Analysis Error: ${msg}. Try a smaller image.`);
-        setView(ViewState.HOME);
+    // Collapse byte-identical files so each unique asset is analyzed once
+    const inputs = new Map<string, BatchInput>();
+    for (const file of files) {
+      const sourceHash = await hashFile(file);
+      const existing = inputs.get(sourceHash);
+      if (existing) {
+        existing.duplicates.push(file.name);
+      } else {
+        inputs.set(sourceHash, { file, sourceHash, duplicates: [] });
       }
-    } else {
-      setBatchQueue(files);
-      setBatchResults([]);
-      setBatchProgress(0);
-      setView(ViewState.BATCH_PROCESSING);
+    }
+
+    runBatch(Array.from(inputs.values()));
+  };
+
+  // Reference files are scored like any other scan but kept out of history
+  const processCalibrationFile = async (input: CalibrationInput): Promise<CalibrationSample> => {
+    const { result } = await analyzeFile(input.file, await hashFile(input.file), false, activeProfile);
+    return {
+      fileName: input.file.name,
+      rawScore: result.rawScore ?? result.score,
+      synthetic: input.synthetic,
+    };
+  };
+
+  const startCalibrationRun = (real: File[], synthetic: File[]) => {
+    calibrationController.current?.cancel();
+    const inputs: CalibrationInput[] = [
+      ...real.map(file => ({ file, synthetic: false })),
+      ...synthetic.map(file => ({ file, synthetic: true })),
+    ];
+    const controller = createBatchQueue(inputs, processCalibrationFile, (state) => {
+      if (calibrationController.current === controller) setCalibrationItems(state.items);
+    });
+    calibrationController.current = controller;
+    controller.start();
+  };
+
+  const handleSaveCalibration = async (model: CalibrationModel) => {
+    setCalibration(model);
+    try {
+      await putCalibration(model);
+    } catch (err) {
+      console.error("Calibration save failed:", err);
+    }
+  };
+
+  const handleDeleteCalibration = async () => {
+    if (!calibration) return;
+    if (!confirm("Remove this calibration? Scores will fall back to the raw detector output.")) return;
+    setCalibration(undefined);
+    try {
+      await deleteCalibration(calibration.detectorVersion);
+    } catch (err) {
+      setCalibration(calibration);
+      alert(`Could not remove calibration: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Benchmark files go through the batch pipeline but stay out of history
+  const processEvaluationFile = async (input: BatchInput): Promise<BatchAnalysisResult> => {
+    const { file } = input;
+    const { result, fromCache } = await analyzeFile(file, input.sourceHash, false, activeProfile);
+    return {
+      fileName: file.name,
+      result,
+      thumbnail: URL.createObjectURL(file),
+      duplicates: input.duplicates,
+      fromCache,
+      label: input.label,
+    };
+  };
+
+  const saveEvaluationRun = async (items: BatchItem[]) => {
+    const meta = evaluationMeta.current;
+    if (!meta) return;
+    const run = buildEvaluationRun(meta.id, meta.name, meta.detectorLabel, meta.detectorVersion, items, meta.unlabeled, meta.promptProfile);
+    // Retrying failed files re-finishes the queue, which replaces the run under the same id
+    setEvaluationRuns(prev => [run, ...prev.filter(r => r.id !== run.id)]);
+    setActiveEvaluationId(run.id);
+    try {
+      await putEvaluationRun(run);
+    } catch (err) {
+      console.error("Evaluation save failed:", err);
+    }
+  };
+
+  const startEvaluation = async (files: File[], labelsFile: File | null) => {
+    let labels: Map<string, GroundTruthLabel> | undefined;
+    if (labelsFile) {
+      try {
+        labels = parseGroundTruth(await labelsFile.text(), labelsFile.name);
+      } catch (err) {
+        alert(`Could not read labels: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+    }
+
+    const inputs = new Map<string, BatchInput>();
+    const unlabeled: string[] = [];
+    for (const file of files) {
+      const label = resolveLabel(file, labels);
+      if (!label) {
+        unlabeled.push(file.name);
+        continue;
+      }
+      const sourceHash = await hashFile(file);
+      const existing = inputs.get(sourceHash);
+      if (existing) {
+        existing.duplicates.push(file.name);
+      } else {
+        inputs.set(sourceHash, { file, sourceHash, duplicates: [], label });
+      }
+    }
+    if (inputs.size === 0) {
+      alert("None of the selected files has a label.");
+      return;
+    }
+
+    evaluationController.current?.cancel();
+    evaluationMeta.current = {
+      id: crypto.randomUUID(),
+      name: files[0]?.webkitRelativePath.split('/')[0] || labelsFile?.name || "Evaluation",
+      detectorLabel: activeDetector.label,
+      detectorVersion: activeDetector.version,
+      promptProfile: activeDetector.promptProfile,
+      unlabeled,
+    };
+    setEvaluationItems([]);
+
+    const controller = createBatchQueue(Array.from(inputs.values()), processEvaluationFile, (state) => {
+      if (evaluationController.current !== controller) return;
+      setEvaluationItems(state.items);
+      if (state.finished && !state.cancelled) saveEvaluationRun(state.items);
+    });
+    evaluationController.current = controller;
+    controller.start();
+  };
+
+  const handleImportEvaluation = async (file: File) => {
+    try {
+      const run = parseEvaluationRun(await file.text());
+      setEvaluationRuns(prev => [run, ...prev.filter(r => r.id !== run.id)]);
+      setActiveEvaluationId(run.id);
+      await putEvaluationRun(run);
+    } catch (err) {
+      alert(`Could not import run: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDeleteEvaluation = async (id: string) => {
+    if (!confirm("Delete this evaluation run?")) return;
+    setEvaluationRuns(prev => prev.filter(r => r.id !== id));
+    try {
+      await deleteEvaluationRun(id);
+    } catch (err) {
+      alert(`Could not delete run: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const resetEvaluation = () => {
+    evaluationController.current?.cancel();
+    evaluationController.current = null;
+    evaluationItems.forEach(item => item.output && URL.revokeObjectURL(item.output.thumbnail));
+    setEvaluationItems([]);
+  };
+
+  const handleSavePromptVersion = async (profileId: string, draft: PromptProfileDraft) => {
+    const profile = promptProfiles.find(p => p.id === profileId);
+    if (!profile) return;
+    const version = nextVersion(profile, draft);
+    try {
+      await addPromptVersion(version);
+      setPromptVersions(prev => [...prev, version]);
+    } catch (err) {
+      alert(`Could not save profile: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleCreatePromptProfile = async (draft: PromptProfileDraft) => {
+    const version = createProfile(promptProfiles, draft);
+    try {
+      await addPromptVersion(version);
+      setPromptVersions(prev => [...prev, version]);
+      setPromptFocus({ id: version.id, name: version.name, version: version.version });
+    } catch (err) {
+      alert(`Could not create profile: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Results keep their profile reference, so the history still names a deleted profile
+  const handleDeletePromptProfile = async (id: string) => {
+    if (!confirm("Delete this profile and all of its versions?")) return;
+    setPromptVersions(prev => prev.filter(v => v.id !== id));
+    if (selectedProfileId === id) setSelectedProfileId(DEFAULT_PROFILE_ID);
+    try {
+      await deletePromptProfile(id);
+    } catch (err) {
+      alert(`Could not delete profile: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleSaveSettings = (next: AppSettings) => {
+    try {
+      const saved = saveSettings(next);
+      if (saved.model !== settings.model) setGeminiModel(saved.model);
+      if (saved.serverUrl !== settings.serverUrl || saved.serverKey !== settings.serverKey) setServerEndpoint(saved.serverUrl, saved.serverKey);
+      if (saved.ensembleEnabled !== settings.ensembleEnabled) setEnsembleEnabled(saved.ensembleEnabled);
+      if (saved.defaultProfileId !== settings.defaultProfileId) setSelectedProfileId(saved.defaultProfileId);
+      setSettings(saved);
+    } catch (err) {
+      alert(`Could not save settings: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Items from watched sources are scanned like URL scans, straight into history
+  scanSourceItemRef.current = async (item: SourceItem, source: SourceRecord) => {
+    const { file, sourceUrl, finalUrl } = await fetchMediaFromUrl(item.url);
+    const { result } = await analyzeFile(file, await hashFile(file), false, activeProfile);
+    await recordHistory({
+      ...result,
+      sourceUrl,
+      finalUrl,
+      origin: { id: source.id, kind: source.kind, name: source.name, itemTitle: item.title },
+    }, file);
+  };
+
+  // Config changes go through the watcher first so they are saved with its latest status
+  const updateSources = async (next: SourceRecord[], changedId?: string) => {
+    const merged = sourceWatcher.current?.sync(next) ?? next;
+    setSources(merged);
+    const changed = merged.find(s => s.id === changedId);
+    if (changed) await putSource(changed);
+  };
+
+  const handleAddSource = async (draft: SourceDraft) => {
+    const source = createSource(draft);
+    try {
+      await updateSources([...sources, source], source.id);
+    } catch (err) {
+      alert(`Could not save source: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleToggleSource = async (id: string, enabled: boolean) => {
+    const source = sources.find(s => s.id === id);
+    if (!source) return;
+    try {
+      await updateSources(sources.map(s => (s.id === id ? { ...s, enabled } : s)), id);
+    } catch (err) {
+      console.error("Source save failed:", err);
+    }
+  };
+
+  const handleDeleteSource = async (id: string) => {
+    const source = sources.find(s => s.id === id);
+    if (!source) return;
+    const warning = source.kind === 'webhook' ? " Its endpoint will stop being drained." : "";
+    if (!confirm(`Remove "${source.name}"? Results it already scanned stay in history.${warning}`)) return;
+    try {
+      await updateSources(sources.filter(s => s.id !== id));
+      await deleteSource(id);
+    } catch (err) {
+      alert(`Could not remove source: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const showPromptVersion = (ref: PromptProfileRef) => {
+    setPromptFocus(ref);
+    setView(ViewState.PROMPTS);
+  };
+
+  const runSingleScan = async (file: File, force: boolean = false, source?: UrlSource) => {
+    try {
+      const previewUrl = URL.createObjectURL(file);
+      
       setStatus(AnalysisStatus.ANALYZING);
+      setView(ViewState.SCANNING);
+      setResultFromHistory(false);
+
+      // Notify iOS bridge
+      if (window.webkit && window.webkit.messageHandlers && window.webkit.messageHandlers.upload) {
+          try {
+              window.webkit.messageHandlers.upload.postMessage("start");
+          } catch(e) {
+              console.log("iOS Bridge not available or failed");
+          }
+      }
+
+      setCurrentFile({
+        file,
+        previewUrl,
+        mimeType: file.type,
+        base64: "",
+        sourceUrl: source?.sourceUrl
+      });
+
+      // Hash the original bytes before any re-encoding, then reuse a cached verdict if we have one
+      const sourceHash = await hashFile(file);
+
+      // Heavy lifting: Conversion + Optimization happens here (skipped on cache hits)
+      const analysis = await analyzeFile(file, sourceHash, force, activeProfile);
+      const { base64, mimeType, fromCache, layers } = analysis;
+      const result = source ? { ...analysis.result, ...source } : analysis.result;
+
+      setCurrentFile({
+        file,
+        previewUrl,
+        mimeType,
+        base64,
+        sourceUrl: source?.sourceUrl
+      });
+      setCurrentResult(result);
+      setCurrentFromCache(fromCache);
+      setCurrentLayers(layers);
+      
+      await recordHistory(result, file);
+
+      setStatus(AnalysisStatus.COMPLETE);
+      setView(ViewState.RESULT);
+
+    } catch (error) {
+      console.error("Analysis Loop Error:", error);
+      setStatus(AnalysisStatus.ERROR);
+      const msg = error instanceof Error ? error.message : "Unknown error";
+      alert(`Analysis Error: ${msg}. Try a smaller image.`);
+      setView(ViewState.HOME);
     }
   };
 
+  const handleScanStart = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    if (files.length === 1) {
+      // Single File Mode
+      await runSingleScan(files[0]);
+    } else {
+      await startBatch(files);
+    }
+  };
+
+  const handleUrlScan = async (url: string) => {
+    setStatus(AnalysisStatus.ANALYZING);
+    setView(ViewState.SCANNING);
+    setCurrentFile(null);
+
+    try {
+      const { file, sourceUrl, finalUrl } = await fetchMediaFromUrl(url);
+      await runSingleScan(file, false, { sourceUrl, finalUrl });
+    } catch (error) {
+      console.error("URL Fetch Error:", error);
+      setStatus(AnalysisStatus.ERROR);
+      const msg = error instanceof Error ? error.message : "Unknown error";
+      alert(`Could not fetch media: ${msg}`);
+      setView(ViewState.HOME);
+    }
+  };
+
+  const handleReanalyze = () => {
+    if (currentFile?.file) {
+      const source = currentResult?.sourceUrl
+        ? { sourceUrl: currentResult.sourceUrl, finalUrl: currentResult.finalUrl ?? currentResult.sourceUrl }
+        : undefined;
+      runSingleScan(currentFile.file, true, source);
+    }
+  };
+
+  const handleDownloadReport = async (entries: ReportEntry[], fileName: string) => {
+    try {
+      const url = URL.createObjectURL(await createSignedReport(entries));
+      const downloadAnchorNode = document.createElement('a');
+      downloadAnchorNode.setAttribute("href", url);
+      downloadAnchorNode.setAttribute("download", fileName);
+      document.body.appendChild(downloadAnchorNode);
+      downloadAnchorNode.click();
+      downloadAnchorNode.remove();
+      // Revoking right away can cancel the download in some browsers
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (err) {
+      console.error("Report Error:", err);
+      alert(`Could not create report: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDownloadBatchReport = (results: BatchAnalysisResult[]) => handleDownloadReport(
+    results.map(r => ({ fileName: r.fileName, result: r.result, media: r.thumbnail })),
+    `PIXIVERA_BATCH_REPORT_${new Date().toISOString().split('T')[0]}.pdf`
+  );
+
+  const closeHistoryResult = () => {
+    resetScanner();
+    setView(ViewState.DASHBOARD);
+  };
+
   const resetScanner = () => {
     setCurrentFile(null);
     setCurrentResult(null);
-    setBatchQueue([]);
-    setBatchResults([]);
+    setCurrentLayers(undefined);
+    batchController.current?.cancel();
+    batchController.current = null;
+    setBatchItems([]);
+    setResultFromHistory(false);
     setStatus(AnalysisStatus.IDLE);
     setView(ViewState.HOME);
   };
 
+  const batchSettled = batchItems.filter(i => i.status === 'done' || i.status === 'failed').length;
+  const batchRunning = batchItems.filter(i => i.status === 'running').length;
+  const batchFailed = batchItems.filter(i => i.status === 'failed').length;
+
   if (loading) {
     return (
       <div className="h-screen w-full bg-black flex flex-col items-center justify-center text-white font-mono">
@@ -293,7 +936,13 @@ const App: React.FC = () => {
             </p>
           </div>
           
-          <Scanner onScanStart={handleScanStart} />
+          <Scanner
+            onScanStart={handleScanStart}
+            onUrlScan={handleUrlScan}
+            profiles={promptProfiles}
+            profileId={activeProfile.id}
+            onProfileChange={setSelectedProfileId}
+          />
         </div>
       )}
 
@@ -321,27 +970,166 @@ const App: React.FC = () => {
       {/* BATCH PROCESSING */}
       {view === ViewState.BATCH_PROCESSING && (
          <div className="flex-1 flex flex-col items-center justify-center p-6">
-            <h2 className="text-2xl font-light mb-4 text-center">Batch Analysis in Progress</h2>
+            <h2 className="text-2xl font-light mb-4 text-center">
+              {batchPaused ? 'Batch Analysis Paused' : 'Batch Analysis in Progress'}
+            </h2>
             <div className="w-full max-w-md bg-white/5 rounded-full h-2 mb-4 overflow-hidden border border-white/10">
-               <div className="h-full bg-neon-blue transition-all duration-300" style={{ width: `${Math.round(((batchProgress) / (batchProgress + batchQueue.length)) * 100)}%` }}></div>
+               <div className="h-full bg-neon-blue transition-all duration-300" style={{ width: `${batchItems.length ? Math.round((batchSettled / batchItems.length) * 100) : 0}%` }}></div>
+            </div>
+            <p className="text-white/40 font-mono text-xs mb-6">
+              {batchSettled} OF {batchItems.length} PROCESSED // {batchRunning} RUNNING // {batchFailed} FAILED
+            </p>
+
+            <div className="flex gap-2 mb-8">
+              <button
+                onClick={() => batchPaused ? batchController.current?.resume() : batchController.current?.pause()}
+                className="px-4 py-2 border border-white/10 hover:bg-white/5 rounded-lg text-xs font-mono tracking-wider transition-colors"
+              >
+                {batchPaused ? 'RESUME' : 'PAUSE'}
+              </button>
+              <button
+                onClick={() => batchController.current?.cancel()}
+                className="px-4 py-2 border border-neon-red/30 text-neon-red hover:bg-neon-red/10 rounded-lg text-xs font-mono tracking-wider transition-colors"
+              >
+                CANCEL
+              </button>
             </div>
-            <p className="text-white/40 font-mono text-xs">PROCESSING ASSET {batchProgress + 1} OF {batchProgress + batchQueue.length}</p>
+
+            <ul className="w-full max-w-md space-y-1 max-h-64 overflow-y-auto">
+              {batchItems.map(item => (
+                <li key={item.id} className="flex justify-between items-center gap-4 text-[10px] font-mono px-3 py-1.5 rounded bg-white/5">
+                  <span className="truncate text-white/60" title={item.input.file.name}>{item.input.file.name}</span>
+                  <span className={`flex-shrink-0 uppercase ${
+                    item.status === 'done' ? 'text-neon-green'
+                    : item.status === 'failed' ? 'text-neon-red'
+                    : item.status === 'running' ? 'text-neon-blue animate-pulse'
+                    : 'text-white/30'}`}
+                  >
+                    {item.status === 'running' && item.error ? item.error : item.status}
+                  </span>
+                </li>
+              ))}
+            </ul>
          </div>
       )}
 
       {/* RESULT VIEW */}
       {view === ViewState.RESULT && currentResult && currentFile && (
-        <ResultView result={currentResult} fileData={currentFile} onReset={resetScanner} />
+        <ResultView
+          result={currentResult}
+          fileData={currentFile}
+          fromCache={currentFromCache}
+          layers={currentLayers}
+          onReanalyze={currentFile.file ? handleReanalyze : undefined}
+          onReset={resultFromHistory ? closeHistoryResult : resetScanner}
+          onViewPrompt={showPromptVersion}
+          onDownloadReport={() => handleDownloadReport(
+            [{ fileName: currentFile.file?.name, result: currentResult, media: currentFile.file ?? currentFile.previewUrl }],
+            `PIXIVERA_REPORT_${currentResult.timestamp.split('T')[0]}.pdf`
+          )}
+        />
       )}
 
       {/* BATCH RESULT VIEW */}
       {view === ViewState.BATCH_RESULT && (
-         <BatchResults results={batchResults} onReset={resetScanner} />
+         <BatchResults
+           items={batchItems}
+           onRetry={(id) => batchController.current?.retry(id)}
+           onReset={resetScanner}
+           onDownloadReport={handleDownloadBatchReport}
+         />
       )}
 
       {/* DASHBOARD VIEW */}
       {view === ViewState.DASHBOARD && (
-        <Dashboard history={history} />
+        <Dashboard
+          history={history}
+          total={historyTotal}
+          stored={historyStored}
+          analytics={analytics}
+          analyticsRange={analyticsRange}
+          onAnalyticsRangeChange={setAnalyticsRange}
+          facets={historyFacets}
+          query={historyQuery}
+          onQueryChange={setHistoryQuery}
+          onLoadMore={loadMoreHistory}
+          onOpen={handleOpenHistoryItem}
+          onDelete={handleDeleteHistory}
+          onReanalyze={handleReanalyzeHistory}
+          onDownloadReport={handleDownloadBatchReport}
+          onClearAll={handleClearHistory}
+          onImport={handleImportResults}
+        />
+      )}
+
+      {/* CALIBRATION VIEW */}
+      {view === ViewState.CALIBRATION && (
+        <Calibration
+          detectorLabel={activeDetector.label}
+          detectorVersion={activeDetector.version}
+          saved={calibration}
+          items={calibrationItems}
+          onRun={startCalibrationRun}
+          onCancelRun={() => calibrationController.current?.cancel()}
+          onSave={handleSaveCalibration}
+          onDelete={handleDeleteCalibration}
+        />
+      )}
+
+      {/* SETTINGS VIEW */}
+      {view === ViewState.SETTINGS && (
+        <Settings
+          settings={settings}
+          profiles={promptProfiles}
+          hasBuildKey={!!process.env.API_KEY}
+          onSave={handleSaveSettings}
+          onTest={(draft) => testGeminiConnection(getGeminiApiKey(draft), draft.model)}
+          onTestServer={(draft) => testServerConnection(draft.serverUrl.trim(), draft.serverKey.trim())}
+          reportKey={reportKey}
+          onVerifyReport={async (file) => verifyReportPdf(new Uint8Array(await file.arrayBuffer()), (await getSigningKey()).fingerprint)}
+        />
+      )}
+
+      {/* INTEGRATIONS VIEW */}
+      {view === ViewState.INTEGRATIONS && (
+        <Integrations
+          sources={sources}
+          onAdd={handleAddSource}
+          onToggle={handleToggleSource}
+          onPollNow={(id) => sourceWatcher.current?.pollNow(id)}
+          onDelete={handleDeleteSource}
+        />
+      )}
+
+      {/* PROMPT PROFILES VIEW */}
+      {view === ViewState.PROMPTS && (
+        <PromptProfiles
+          profiles={promptProfiles}
+          selectedId={activeProfile.id}
+          focus={promptFocus}
+          onSelect={setSelectedProfileId}
+          onSaveVersion={handleSavePromptVersion}
+          onCreate={handleCreatePromptProfile}
+          onDelete={handleDeletePromptProfile}
+        />
+      )}
+
+      {/* EVALUATION VIEW */}
+      {view === ViewState.EVALUATION && (
+        <Evaluation
+          detectorLabel={activeDetector.label}
+          detectorVersion={activeDetector.version}
+          items={evaluationItems}
+          runs={evaluationRuns}
+          activeRunId={activeEvaluationId}
+          onStart={startEvaluation}
+          onCancelRun={() => evaluationController.current?.cancel()}
+          onRetry={(id) => evaluationController.current?.retry(id)}
+          onReset={resetEvaluation}
+          onImport={handleImportEvaluation}
+          onDelete={handleDeleteEvaluation}
+          onDownloadReport={handleDownloadBatchReport}
+        />
       )}
       
     </Layout>
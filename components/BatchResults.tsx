@@ -1,36 +1,151 @@
-import React from 'react';
-import { BatchAnalysisResult } from '../types';
+import React, { useState } from 'react';
+import { BatchAnalysisResult, BatchItem } from '../types';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
+import { isInconclusive } from '../services/ensembleService';
+import { BatchExportFormat, DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, exportBatchTable, filterByScore, ScoreRange } from '../services/batchExport';
 
 interface BatchResultsProps {
-  results: BatchAnalysisResult[];
+  items: BatchItem[];
+  onRetry: (id: string) => void;
   onReset: () => void;
+  onDownloadReport: (results: BatchAnalysisResult[]) => Promise<void>; // Signed PDF covering every finished item
 }
 
-const BatchResults: React.FC<BatchResultsProps> = ({ results, onReset }) => {
+const COLUMN_GROUPS = Array.from(new Set(EXPORT_COLUMNS.map(c => c.group)));
+
+const downloadFile = (href: string, fileName: string) => {
+  const downloadAnchorNode = document.createElement('a');
+  downloadAnchorNode.setAttribute("href", href);
+  downloadAnchorNode.setAttribute("download", fileName);
+  document.body.appendChild(downloadAnchorNode);
+  downloadAnchorNode.click();
+  downloadAnchorNode.remove();
+};
+
+// Score range and column choice apply to CSV and XLSX; JSON keeps every field of the files in range
+const ExportPanel: React.FC<{ results: BatchAnalysisResult[] }> = ({ results }) => {
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [range, setRange] = useState<ScoreRange>([0, 100]);
+  const rows = filterByScore(results, range);
+
+  const toggleColumn = (id: string) => {
+    setColumns(prev => (prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]));
+  };
+
+  const setBound = (index: 0 | 1, value: number) => {
+    const clamped = Math.max(0, Math.min(100, Number.isFinite(value) ? value : index * 100));
+    setRange(prev => (index === 0 ? [Math.min(clamped, prev[1]), prev[1]] : [prev[0], Math.max(clamped, prev[0])]));
+  };
+
+  const handleExport = (format: BatchExportFormat) => {
+    const url = URL.createObjectURL(exportBatchTable(rows, columns, format));
+    downloadFile(url, `PIXIVERA_BATCH_${new Date().toISOString()}.${format}`);
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const handleExportJSON = () => {
+    downloadFile(
+      "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(rows, null, 2)),
+      `PIXIVERA_BATCH_REPORT_${new Date().toISOString()}.json`
+    );
+  };
+
+  const inputClass = "w-16 bg-black/40 border border-white/10 focus:border-neon-blue/50 rounded px-2 py-1 text-xs font-mono text-white outline-none";
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 mb-8 space-y-5 print:hidden">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest">Export</h3>
+        <div className="flex items-center gap-2 font-mono text-[10px] text-white/40">
+          SCORE
+          <input type="number" min={0} max={100} value={range[0]} onChange={(e) => setBound(0, Number(e.target.value))} className={inputClass} />
+          TO
+          <input type="number" min={0} max={100} value={range[1]} onChange={(e) => setBound(1, Number(e.target.value))} className={inputClass} />
+          <span className="ml-2">{rows.length} OF {results.length} FILES</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {COLUMN_GROUPS.map(group => (
+          <div key={group}>
+            <div className="text-[10px] font-mono text-white/30 uppercase tracking-widest mb-2">{group}</div>
+            <div className="space-y-1">
+              {EXPORT_COLUMNS.filter(c => c.group === group).map(column => (
+                <label key={column.id} className="flex items-center gap-2 text-xs text-white/70 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column.id)}
+                    onChange={() => toggleColumn(column.id)}
+                    className="accent-[#00f3ff]"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => handleExport('csv')}
+          disabled={rows.length === 0 || columns.length === 0}
+          className="px-4 py-2 border border-white/10 hover:bg-white/5 disabled:opacity-30 rounded-lg text-xs font-mono tracking-wider transition-colors"
+        >
+          CSV
+        </button>
+        <button
+          onClick={() => handleExport('xlsx')}
+          disabled={rows.length === 0 || columns.length === 0}
+          className="px-4 py-2 border border-white/10 hover:bg-white/5 disabled:opacity-30 rounded-lg text-xs font-mono tracking-wider transition-colors"
+        >
+          XLSX
+        </button>
+        <button
+          onClick={handleExportJSON}
+          disabled={rows.length === 0}
+          className="px-4 py-2 border border-white/10 hover:bg-white/5 disabled:opacity-30 rounded-lg text-xs font-mono tracking-wider transition-colors"
+        >
+          JSON
+        </button>
+        <button
+          onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)}
+          className="ml-auto text-[10px] font-mono text-white/30 hover:text-white/60 tracking-wider"
+        >
+          RESET COLUMNS
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const BatchResults: React.FC<BatchResultsProps> = ({ items, onRetry, onReset, onDownloadReport }) => {
+  const [reportBusy, setReportBusy] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const results: BatchAnalysisResult[] = items.flatMap(item => item.status === 'done' && item.output ? [item.output] : []);
+  const unfinished = items.filter(item => item.status !== 'done');
   const total = results.length;
-  const aiCount = results.filter(r => r.result.isAI).length;
-  const realCount = total - aiCount;
-  const aiPercentage = Math.round((aiCount / total) * 100);
+  const inconclusiveCount = results.filter(r => isInconclusive(r.result)).length;
+  const aiCount = results.filter(r => r.result.isAI && !isInconclusive(r.result)).length;
+  const realCount = total - aiCount - inconclusiveCount;
+  const conclusiveCount = total - inconclusiveCount;
+  const aiPercentage = conclusiveCount > 0 ? Math.round((aiCount / conclusiveCount) * 100) : 0;
 
   const chartData = [
     { name: 'Synthetic', value: aiCount, color: '#ff2a2a' },
     { name: 'Authentic', value: realCount, color: '#0aff68' },
-  ];
+    { name: 'Inconclusive', value: inconclusiveCount, color: '#bc13fe' },
+  ].filter(d => d.name !== 'Inconclusive' || d.value > 0);
 
-  const handlePrint = () => {
-    window.print();
+  const handleReport = async () => {
+    setReportBusy(true);
+    try {
+      await onDownloadReport(results);
+    } finally {
+      setReportBusy(false);
+    }
   };
 
-  const handleExportJSON = () => {
-     const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(results, null, 2));
-     const downloadAnchorNode = document.createElement('a');
-     downloadAnchorNode.setAttribute("href", dataStr);
-     downloadAnchorNode.setAttribute("download", `PIXIVERA_BATCH_REPORT_${new Date().toISOString()}.json`);
-     document.body.appendChild(downloadAnchorNode);
-     downloadAnchorNode.click();
-     downloadAnchorNode.remove();
-  };
 
   return (
     <div className="w-full max-w-7xl mx-auto p-4 md:p-8 animate-fade-in-up">
@@ -39,27 +154,32 @@ const BatchResults: React.FC<BatchResultsProps> = ({ results, onReset }) => {
       <div className="flex flex-col md:flex-row justify-between items-end mb-8 print:hidden">
         <div>
           <h1 className="text-3xl font-light tracking-tight mb-2">Batch Analysis Report</h1>
-          <p className="text-white/40 font-mono text-sm">PROCESSED {total} ASSETS</p>
+          <p className="text-white/40 font-mono text-sm">
+            PROCESSED {total} ASSETS{unfinished.length > 0 && <span className="text-neon-red"> // {unfinished.length} NOT ANALYZED</span>}
+          </p>
         </div>
         <div className="flex gap-2 mt-4 md:mt-0">
            <button 
-             onClick={handleExportJSON}
-             className="px-4 py-2 border border-white/10 hover:bg-white/5 rounded-lg text-xs font-mono tracking-wider transition-colors"
+             onClick={() => setShowExport(prev => !prev)}
+             className={`px-4 py-2 border rounded-lg text-xs font-mono tracking-wider transition-colors ${showExport ? 'border-neon-blue/50 text-neon-blue' : 'border-white/10 hover:bg-white/5'}`}
            >
-             EXPORT JSON
+             EXPORT DATA
            </button>
            <button 
-             onClick={handlePrint}
-             className="px-4 py-2 bg-neon-blue/10 border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/20 rounded-lg text-xs font-mono tracking-wider transition-colors flex items-center gap-2"
+             onClick={handleReport}
+             disabled={reportBusy || total === 0}
+             className="px-4 py-2 bg-neon-blue/10 border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/20 rounded-lg text-xs font-mono tracking-wider transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
            >
              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
              </svg>
-             DOWNLOAD PDF REPORT
+             {reportBusy ? 'SIGNING REPORT...' : 'DOWNLOAD SIGNED PDF'}
            </button>
         </div>
       </div>
 
+      {showExport && <ExportPanel results={results} />}
+
       {/* Stats Dashboard - Hidden in Print (Simplified Text for Print) */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8 print:hidden">
         
@@ -88,6 +208,15 @@ const BatchResults: React.FC<BatchResultsProps> = ({ results, onReset }) => {
               <div className="text-4xl font-bold text-neon-green mb-1">{realCount}</div>
               <div className="text-[10px] text-white/40 uppercase tracking-widest font-mono">Authentic</div>
            </div>
+           {inconclusiveCount > 0 && (
+             <>
+               <div className="h-12 w-px bg-white/10"></div>
+               <div className="text-center">
+                  <div className="text-4xl font-bold text-neon-purple mb-1">{inconclusiveCount}</div>
+                  <div className="text-[10px] text-white/40 uppercase tracking-widest font-mono">Inconclusive</div>
+               </div>
+             </>
+           )}
         </div>
 
         {/* Chart */}
@@ -129,6 +258,7 @@ const BatchResults: React.FC<BatchResultsProps> = ({ results, onReset }) => {
            <div>Total Files: {total}</div>
            <div>Synthetic Detected: {aiCount} ({aiPercentage}%)</div>
            <div>Authentic Detected: {realCount}</div>
+           {inconclusiveCount > 0 && <div>Inconclusive: {inconclusiveCount}</div>}
         </div>
       </div>
 
@@ -153,22 +283,49 @@ const BatchResults: React.FC<BatchResultsProps> = ({ results, onReset }) => {
                     <div className="hidden md:block col-span-1 font-mono text-xs text-white/50 print:text-black">#{idx + 1}</div>
                     
                     <div className="col-span-2 w-12 h-12 md:w-16 md:h-12 bg-black/50 rounded overflow-hidden flex-shrink-0">
-                       <img src={item.thumbnail} className="w-full h-full object-cover" alt="thumb" />
+                       {item.thumbnail
+                         ? <img src={item.thumbnail} className="w-full h-full object-cover" alt="thumb" />
+                         : <div className="w-full h-full flex items-center justify-center text-[8px] font-mono text-white/20">NO MEDIA</div>}
                     </div>
                     
-                    <div className="col-span-3 font-mono text-xs truncate print:text-black" title={item.fileName}>
-                       {item.fileName}
+                    <div className="col-span-3 min-w-0 print:text-black">
+                       <div className="font-mono text-xs truncate" title={item.fileName}>{item.fileName}</div>
+                       {(item.duplicates?.length || item.fromCache) && (
+                         <div className="flex gap-1 mt-1">
+                           {item.duplicates && item.duplicates.length > 0 && (
+                             <span
+                               className="text-[9px] font-mono px-1.5 py-0.5 rounded border border-neon-purple/30 text-neon-purple bg-neon-purple/10 print:border-black"
+                               title={`Identical to: ${item.duplicates.join(', ')}`}
+                             >
+                               +{item.duplicates.length} DUPLICATE{item.duplicates.length === 1 ? '' : 'S'}
+                             </span>
+                           )}
+                           {item.fromCache && (
+                             <span className="text-[9px] font-mono px-1.5 py-0.5 rounded border border-white/10 text-white/40 print:border-black">CACHED</span>
+                           )}
+                         </div>
+                       )}
                     </div>
 
                     <div className="col-span-2">
                         <span className={`
                           px-2 py-1 rounded text-[10px] font-bold tracking-wider uppercase border
-                          ${item.result.isAI 
+                          ${isInconclusive(item.result)
+                            ? 'bg-neon-purple/10 text-neon-purple border-neon-purple/30 print:border-black print:text-black'
+                            : item.result.isAI 
                             ? 'bg-neon-red/10 text-neon-red border-neon-red/30 print:border-black print:text-red-700' 
                             : 'bg-neon-green/10 text-neon-green border-neon-green/30 print:border-black print:text-green-700'}
                         `}>
-                          {item.result.isAI ? 'SYNTHETIC' : 'AUTHENTIC'}
+                          {isInconclusive(item.result) ? 'INCONCLUSIVE' : item.result.isAI ? 'SYNTHETIC' : 'AUTHENTIC'}
                         </span>
+                        {item.label && (
+                          <div
+                            className={`text-[9px] font-mono mt-1 ${isInconclusive(item.result) || item.label.synthetic === item.result.isAI ? 'text-white/30' : 'text-neon-red'} print:text-black`}
+                            title={item.label.generator}
+                          >
+                            {!isInconclusive(item.result) && item.label.synthetic === item.result.isAI ? 'MATCHES LABEL' : `LABELED ${item.label.synthetic ? 'SYNTHETIC' : 'AUTHENTIC'}`}
+                          </div>
+                        )}
                     </div>
 
                     <div className="col-span-1 font-mono text-xs font-bold print:text-black">
@@ -184,6 +341,35 @@ const BatchResults: React.FC<BatchResultsProps> = ({ results, onReset }) => {
         </div>
       </div>
 
+      {/* Failed / Retrying Assets */}
+      {unfinished.length > 0 && (
+        <div className="glass-panel rounded-2xl p-6 mt-6 border border-neon-red/20 print:border-black">
+          <h3 className="text-neon-red font-mono text-xs uppercase tracking-widest mb-4 print:text-black">Unprocessed Assets</h3>
+          <div className="space-y-2">
+            {unfinished.map(item => (
+              <div key={item.id} className="flex flex-col md:flex-row md:items-center gap-2 md:gap-4 p-2 rounded bg-white/5 print:bg-transparent">
+                <div className="flex-1 min-w-0">
+                  <div className="font-mono text-xs truncate print:text-black" title={item.input.file.name}>{item.input.file.name}</div>
+                  <div className="text-[10px] text-white/50 font-mono truncate print:text-black" title={item.error}>
+                    {item.status === 'failed' ? `${item.error} (${item.attempts} attempt${item.attempts === 1 ? '' : 's'})` : item.error || item.status.toUpperCase()}
+                  </div>
+                </div>
+                {item.status === 'failed' ? (
+                  <button
+                    onClick={() => onRetry(item.id)}
+                    className="px-4 py-1.5 border border-white/10 hover:bg-white/5 rounded-lg text-[10px] font-mono tracking-wider transition-colors print:hidden"
+                  >
+                    RETRY
+                  </button>
+                ) : (
+                  <span className="text-[10px] font-mono uppercase text-neon-blue animate-pulse">{item.status}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="mt-8 flex justify-center print:hidden">
          <button onClick={onReset} className="text-white/40 hover:text-white text-xs font-mono tracking-widest uppercase transition-colors">
             Start New Batch Scan
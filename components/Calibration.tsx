@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CalibrationItem, CalibrationMethod, CalibrationModel, CalibrationSample } from '../types';
+import { CartesianGrid, Line, LineChart, ReferenceDot, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { calibratedScore, fitCalibration, operatingPoint, precisionRecallCurve } from '../services/calibrationService';
+
+interface CalibrationProps {
+  detectorLabel: string;
+  detectorVersion: string;
+  saved?: CalibrationModel; // Calibration currently applied for this detector version
+  items: CalibrationItem[]; // Reference run in progress or just finished
+  onRun: (real: File[], synthetic: File[]) => void;
+  onCancelRun: () => void;
+  onSave: (model: CalibrationModel) => void;
+  onDelete: () => void;
+}
+
+// Fewer samples than this per class make the fitted curve mostly noise
+const RECOMMENDED_PER_CLASS = 20;
+
+const isMedia = (file: File) => file.type.startsWith('image/') || file.type.startsWith('video/');
+
+const Calibration: React.FC<CalibrationProps> = ({ detectorLabel, detectorVersion, saved, items, onRun, onCancelRun, onSave, onDelete }) => {
+  const realInputRef = useRef<HTMLInputElement>(null);
+  const syntheticInputRef = useRef<HTMLInputElement>(null);
+  const [realFiles, setRealFiles] = useState<File[]>([]);
+  const [syntheticFiles, setSyntheticFiles] = useState<File[]>([]);
+  const [method, setMethod] = useState<CalibrationMethod>(saved?.method ?? 'platt');
+  const [threshold, setThreshold] = useState<number | null>(saved?.threshold ?? null);
+
+  useEffect(() => {
+    if (saved) {
+      setMethod(saved.method);
+      setThreshold(saved.threshold);
+    }
+  }, [saved]);
+
+  // Folder pickers: keep media only, folders tend to contain .DS_Store and sidecar files
+  useEffect(() => {
+    realInputRef.current?.setAttribute('webkitdirectory', '');
+    syntheticInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const running = items.some(item => item.status === 'queued' || item.status === 'running');
+  const settled = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+  const failed = items.filter(item => item.status === 'failed').length;
+
+  // A fresh run replaces the samples stored with the saved calibration
+  const samples: CalibrationSample[] = useMemo(() => {
+    const fromRun = items.flatMap(item => (item.status === 'done' && item.output ? [item.output] : []));
+    return fromRun.length > 0 ? fromRun : saved?.samples ?? [];
+  }, [items, saved]);
+
+  const syntheticCount = samples.filter(s => s.synthetic).length;
+  const realCount = samples.length - syntheticCount;
+  const canFit = !running && syntheticCount > 0 && realCount > 0;
+
+  const draft: CalibrationModel | null = useMemo(() => {
+    if (!canFit) return null;
+    try {
+      return fitCalibration(detectorVersion, method, samples, threshold ?? undefined);
+    } catch (err) {
+      console.warn("Calibration fit failed:", err);
+      return null;
+    }
+  }, [canFit, detectorVersion, method, samples, threshold]);
+
+  const curve = useMemo(() => (draft ? precisionRecallCurve(draft, samples) : []), [draft, samples]);
+  const reliability = useMemo(
+    () => (draft ? Array.from({ length: 21 }, (_, i) => ({ raw: i * 5, calibrated: calibratedScore(draft, i * 5) })) : []),
+    [draft]
+  );
+  const point = draft ? operatingPoint(draft, samples, draft.threshold) : null;
+  // Without fitted parameters the model maps raw scores to themselves, i.e. today's behaviour
+  const rawPoint = draft
+    ? operatingPoint({ ...draft, platt: undefined, isotonic: undefined }, samples, 50)
+    : null;
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-4 md:p-10 animate-fade-in">
+      <div className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl md:text-3xl font-light mb-2 tracking-tight">Score Calibration</h2>
+          <p className="text-white/40 font-mono text-xs truncate" title={detectorVersion}>{detectorLabel.toUpperCase()} // {detectorVersion}</p>
+        </div>
+        {saved && (
+          <div className="flex items-center gap-3 font-mono text-[10px] text-white/50">
+            <span>
+              ACTIVE: {saved.method.toUpperCase()} @ {saved.threshold} // {saved.samples.length} SAMPLES // {new Date(saved.fittedAt).toLocaleDateString()}
+            </span>
+            <button onClick={onDelete} className="uppercase tracking-widest text-white/30 hover:text-neon-red transition-colors">Remove</button>
+          </div>
+        )}
+      </div>
+
+      {/* Reference set */}
+      <div className="glass-panel rounded-2xl p-4 md:p-6 mb-6">
+        <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest mb-4">Labeled Reference Set</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+          {([
+            ['REAL', realFiles, setRealFiles, realInputRef, 'text-neon-green border-neon-green/30'],
+            ['SYNTHETIC', syntheticFiles, setSyntheticFiles, syntheticInputRef, 'text-neon-red border-neon-red/30'],
+          ] as const).map(([label, files, setFiles, ref, color]) => (
+            <div key={label}>
+              <input
+                type="file"
+                ref={ref}
+                className="hidden"
+                multiple
+                onChange={(e) => setFiles(Array.from(e.target.files || []).filter(isMedia))}
+              />
+              <button
+                onClick={() => ref.current?.click()}
+                disabled={running}
+                className={`w-full px-4 py-4 border border-dashed rounded-xl font-mono text-xs tracking-widest hover:bg-white/5 disabled:opacity-30 transition-colors ${color}`}
+              >
+                {label} FOLDER // {files.length} FILES
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {running ? (
+            <button
+              onClick={onCancelRun}
+              className="px-4 py-2 border border-neon-red/30 text-neon-red hover:bg-neon-red/10 rounded-lg text-xs font-mono tracking-wider transition-colors"
+            >
+              CANCEL RUN
+            </button>
+          ) : (
+            <button
+              onClick={() => onRun(realFiles, syntheticFiles)}
+              disabled={realFiles.length === 0 || syntheticFiles.length === 0}
+              className="px-4 py-2 bg-neon-blue/10 border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/20 disabled:opacity-30 rounded-lg text-xs font-mono tracking-wider transition-colors"
+            >
+              RUN THROUGH DETECTOR
+            </button>
+          )}
+          {items.length > 0 && (
+            <span className="font-mono text-[10px] text-white/40">
+              {settled} OF {items.length} PROCESSED{failed > 0 && <span className="text-neon-red"> // {failed} FAILED</span>}
+            </span>
+          )}
+        </div>
+        {(realFiles.length > 0 || syntheticFiles.length > 0) && (realFiles.length < RECOMMENDED_PER_CLASS || syntheticFiles.length < RECOMMENDED_PER_CLASS) && (
+          <p className="font-mono text-[10px] text-white/30 mt-3">
+            AT LEAST {RECOMMENDED_PER_CLASS} FILES PER FOLDER ARE RECOMMENDED FOR A STABLE CURVE
+          </p>
+        )}
+      </div>
+
+      {draft && point && (
+        <>
+          {/* Method & threshold */}
+          <div className="glass-panel rounded-2xl p-4 md:p-6 mb-6">
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+              <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest mr-auto">
+                Fit // {realCount} Real + {syntheticCount} Synthetic
+              </h3>
+              {(['platt', 'isotonic'] as const).map(m => (
+                <button
+                  key={m}
+                  onClick={() => { setMethod(m); setThreshold(null); }}
+                  className={`px-3 py-1 rounded-full text-[10px] font-mono tracking-widest border transition-colors ${method === m ? 'bg-white text-black border-white' : 'border-white/10 text-white/50 hover:text-white'}`}
+                >
+                  {m.toUpperCase()}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-4 mb-4">
+              <span className="font-mono text-[10px] text-white/40 w-24">THRESHOLD</span>
+              <input
+                type="range"
+                min={1}
+                max={99}
+                value={draft.threshold}
+                onChange={(e) => setThreshold(Number(e.target.value))}
+                className="flex-1 accent-[#00f3ff]"
+              />
+              <span className="font-mono text-sm text-neon-blue w-10 text-right">{draft.threshold}</span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+              {[
+                ['PRECISION', point.precision, rawPoint?.precision],
+                ['RECALL', point.recall, rawPoint?.recall],
+                ['F1', point.f1, rawPoint?.f1],
+                ['FALSE POS. RATE', point.falsePositiveRate, rawPoint?.falsePositiveRate],
+              ].map(([label, value, raw]) => (
+                <div key={label as string} className="bg-black/40 border border-white/10 rounded-lg p-3">
+                  <div className="text-[10px] font-mono text-white/40 mb-1">{label}</div>
+                  <div className="text-xl font-mono text-white">{Math.round((value as number) * 100)}%</div>
+                  {raw !== undefined && (
+                    <div className="text-[9px] font-mono text-white/30">UNCALIBRATED @50: {Math.round((raw as number) * 100)}%</div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={() => onSave(draft)}
+              className="px-4 py-2 bg-neon-blue/10 border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/20 rounded-lg text-xs font-mono tracking-wider transition-colors"
+            >
+              {saved ? 'REPLACE CALIBRATION' : 'SAVE CALIBRATION'}
+            </button>
+          </div>
+
+          {/* Curves */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="glass-panel rounded-2xl p-4 md:p-6 h-64">
+              <span className="text-[10px] font-mono text-white/30">PRECISION / RECALL BY THRESHOLD</span>
+              <ResponsiveContainer width="100%" height="90%">
+                <LineChart data={curve}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                  <XAxis dataKey="threshold" type="number" domain={[0, 100]} tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.3)' }} />
+                  <YAxis domain={[0, 1]} tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.3)' }} />
+                  <Tooltip contentStyle={{ backgroundColor: '#0a0a0a', borderColor: '#333', fontSize: '12px' }} formatter={(v: number) => `${Math.round(v * 100)}%`} />
+                  <Line type="monotone" dataKey="precision" stroke="#00f3ff" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="recall" stroke="#bc13fe" strokeWidth={2} dot={false} />
+                  <ReferenceDot x={point.threshold} y={point.precision} r={4} fill="#fff" stroke="none" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="glass-panel rounded-2xl p-4 md:p-6 h-64">
+              <span className="text-[10px] font-mono text-white/30">RAW SCORE → CALIBRATED SCORE</span>
+              <ResponsiveContainer width="100%" height="90%">
+                <LineChart data={reliability}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                  <XAxis dataKey="raw" type="number" domain={[0, 100]} tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.3)' }} />
+                  <YAxis domain={[0, 100]} tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.3)' }} />
+                  <Tooltip contentStyle={{ backgroundColor: '#0a0a0a', borderColor: '#333', fontSize: '12px' }} />
+                  <Line type="linear" dataKey="raw" stroke="rgba(255,255,255,0.2)" strokeDasharray="4 4" dot={false} />
+                  <Line type="monotone" dataKey="calibrated" stroke="#0aff68" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Calibration;
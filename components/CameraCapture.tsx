@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+}
+
+// Longest clip we record before stopping automatically
+const MAX_CLIP_SECONDS = 10;
+
+const pickRecorderMimeType = (): string => {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm', 'video/mp4'];
+  return candidates.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type)) || '';
+};
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fallbackInputRef = useRef<HTMLInputElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
+
+  const canRecord = typeof MediaRecorder !== 'undefined';
+
+  // Start (or restart, when switching lenses) the camera preview
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError("Camera access is not available in this browser.");
+      return;
+    }
+
+    let cancelled = false;
+    setReady(false);
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode }, audio: false })
+      .then(stream => {
+        if (cancelled) {
+          stream.getTracks().forEach(t => t.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+        }
+        setCameraError(null);
+        setReady(true);
+      })
+      .catch(err => {
+        console.warn("Camera unavailable:", err);
+        setCameraError(err instanceof DOMException && err.name === 'NotAllowedError'
+          ? "Camera permission was denied."
+          : "No usable camera was found.");
+      });
+
+    return () => {
+      cancelled = true;
+      // Discard an in-progress clip rather than submitting it after the view is gone
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
+      }
+      streamRef.current?.getTracks().forEach(t => t.stop());
+      streamRef.current = null;
+    };
+  }, [facingMode]);
+
+  // Recording timer & auto-stop
+  useEffect(() => {
+    if (!recording) return;
+    const started = Date.now();
+    const interval = setInterval(() => {
+      const seconds = (Date.now() - started) / 1000;
+      setElapsed(seconds);
+      if (seconds >= MAX_CLIP_SECONDS) stopRecording();
+    }, 200);
+    return () => clearInterval(interval);
+  }, [recording]);
+
+  const snapStill = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      onCapture(new File([blob], `capture_${Date.now()}.png`, { type: 'image/png' }));
+    }, 'image/png');
+  };
+
+  const startRecording = () => {
+    if (!streamRef.current) return;
+    const mimeType = pickRecorderMimeType();
+    const recorder = new MediaRecorder(streamRef.current, mimeType ? { mimeType } : undefined);
+    chunksRef.current = [];
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunksRef.current.push(e.data);
+    };
+    recorder.onstop = () => {
+      const type = (recorder.mimeType || 'video/webm').split(';')[0];
+      const blob = new Blob(chunksRef.current, { type });
+      if (blob.size > 0) {
+        onCapture(new File([blob], `capture_${Date.now()}.${type.split('/')[1]}`, { type }));
+      }
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setElapsed(0);
+    setRecording(true);
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+    setRecording(false);
+  };
+
+  return (
+    <div className="relative w-full aspect-square md:aspect-video rounded-3xl border border-white/20 overflow-hidden bg-black flex flex-col items-center justify-center">
+      {/* Fallback: native picker with capture hint (opens the camera app on mobile) */}
+      <input
+        type="file"
+        ref={fallbackInputRef}
+        className="hidden"
+        accept="image/*,video/*"
+        capture="environment"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onCapture(file);
+        }}
+      />
+
+      {cameraError ? (
+        <div className="text-center p-8">
+          <h3 className="text-lg md:text-xl font-light tracking-wide mb-2">Camera Unavailable</h3>
+          <p className="text-xs text-white/40 font-mono mb-6">{cameraError.toUpperCase()}</p>
+          <button
+            onClick={() => fallbackInputRef.current?.click()}
+            className="px-6 py-3 bg-white/10 rounded-full text-xs font-mono tracking-widest text-white/90 border border-white/10 hover:bg-white/20 transition-colors"
+          >
+            CAPTURE WITH DEVICE
+          </button>
+        </div>
+      ) : (
+        <>
+          <video ref={videoRef} autoPlay muted playsInline className="absolute inset-0 w-full h-full object-cover" />
+
+          {!ready && (
+            <div className="relative z-10 text-neon-blue font-mono text-xs animate-pulse">STARTING CAMERA...</div>
+          )}
+
+          {recording && (
+            <div className="absolute top-4 left-4 z-10 flex items-center gap-2 bg-black/60 px-3 py-1 rounded-full font-mono text-[10px] text-neon-red">
+              <span className="w-2 h-2 rounded-full bg-neon-red animate-pulse"></span>
+              REC {elapsed.toFixed(1)}s / {MAX_CLIP_SECONDS}s
+            </div>
+          )}
+
+          {ready && (
+            <div className="absolute bottom-0 left-0 right-0 z-10 p-4 flex justify-center items-center gap-3 bg-gradient-to-t from-black to-transparent">
+              <button
+                onClick={() => setFacingMode(prev => prev === 'environment' ? 'user' : 'environment')}
+                disabled={recording}
+                className="px-3 py-2 rounded-full text-[10px] font-mono tracking-widest border border-white/10 text-white/60 hover:text-white disabled:opacity-30 transition-colors"
+              >
+                FLIP
+              </button>
+              <button
+                onClick={snapStill}
+                disabled={recording}
+                className="px-6 py-2 bg-white text-black font-mono text-xs font-bold tracking-widest rounded-full hover:bg-neon-blue disabled:opacity-30 transition-colors"
+              >
+                SNAP
+              </button>
+              {canRecord && (
+                <button
+                  onClick={recording ? stopRecording : startRecording}
+                  className={`px-6 py-2 rounded-full font-mono text-xs font-bold tracking-widest border transition-colors ${recording ? 'bg-neon-red text-black border-neon-red' : 'border-neon-red/50 text-neon-red hover:bg-neon-red/10'}`}
+                >
+                  {recording ? 'STOP' : 'RECORD'}
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CameraCapture;
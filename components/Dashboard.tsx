@@ -1,20 +1,60 @@
-
 import React from 'react';
-import { HistoryItem } from '../types';
-import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis } from 'recharts';
+import { AnalyticsRange, BatchAnalysisResult, DailyActivity, ForensicMetrics, HistoryAnalytics, HistoryFacets, HistoryItem, HistoryQuery } from '../types';
+import HistoryExplorer from './HistoryExplorer';
+import { analyticsToCsv, ANALYTICS_RANGES, FORENSIC_METRIC_LABELS } from '../services/historyAnalytics';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 
 interface DashboardProps {
-  history: HistoryItem[];
+  history: HistoryItem[]; // Entries matching `query` in its order, may be a partial page
+  total: number; // Entries matching `query`
+  stored: number; // Entries in history
+  analytics?: HistoryAnalytics; // Undefined until the first load
+  analyticsRange: AnalyticsRange;
+  onAnalyticsRangeChange: (range: AnalyticsRange) => void;
+  facets: HistoryFacets;
+  query: HistoryQuery;
+  onQueryChange: (query: HistoryQuery) => void;
+  onLoadMore: () => void;
+  onOpen: (item: HistoryItem) => void;
+  onDelete: (ids: string[]) => void;
+  onReanalyze: (items: HistoryItem[], files: File[]) => void;
+  onDownloadReport: (results: BatchAnalysisResult[]) => Promise<void>;
+  onClearAll: () => void;
+  onImport: (file: File) => void; // Exported result or batch JSON, or a signed PDF report
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ history }) => {
-  // Mock data if history is empty for visualization
-  const chartData = history.length > 0 
-    ? history.map((h, i) => ({ name: `Scan ${i+1}`, score: h.score }))
-    : [
-        { name: 'A', score: 20 }, { name: 'B', score: 45 }, { name: 'C', score: 10 }, 
-        { name: 'D', score: 90 }, { name: 'E', score: 85 }, { name: 'F', score: 30 }
-      ];
+const TOOLTIP_STYLE = { backgroundColor: '#0a0a0a', borderColor: '#333', color: '#fff', fontSize: '12px' };
+const AXIS_TICK = { fontSize: 10, fill: 'rgba(255,255,255,0.3)' };
+
+// "2026-10-19" -> "Oct 19"
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+const exportAnalytics = (analytics: HistoryAnalytics) => {
+  const url = URL.createObjectURL(analyticsToCsv(analytics));
+  const downloadAnchorNode = document.createElement('a');
+  downloadAnchorNode.setAttribute("href", url);
+  downloadAnchorNode.setAttribute("download", `PIXIVERA_ANALYTICS_${analytics.since ?? analytics.until}_${analytics.until}.csv`);
+  document.body.appendChild(downloadAnchorNode);
+  downloadAnchorNode.click();
+  downloadAnchorNode.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
+
+const Stat: React.FC<{ label: string; value: string | number; color?: string }> = ({ label, value, color = 'text-white' }) => (
+  <div className="glass-panel rounded-xl p-3 md:p-4">
+    <div className={`text-lg md:text-2xl font-bold font-mono ${color}`}>{value}</div>
+    <div className="text-[10px] text-white/30 uppercase tracking-widest">{label}</div>
+  </div>
+);
+
+const Dashboard: React.FC<DashboardProps> = ({
+  history, total, stored, analytics, analyticsRange, onAnalyticsRangeChange,
+  facets, query, onQueryChange, onLoadMore, onOpen, onDelete, onReanalyze, onDownloadReport, onClearAll, onImport,
+}) => {
+  const generatorData = analytics?.generators.slice(0, 8) ?? [];
+  const maxWatermarks = Math.max(1, ...(analytics?.watermarks.map(w => w.count) ?? []));
+  const metricKeys = Object.keys(FORENSIC_METRIC_LABELS) as (keyof ForensicMetrics)[];
 
   return (
     <div className="w-full max-w-5xl mx-auto p-4 md:p-10 animate-fade-in">
@@ -24,62 +64,187 @@ const Dashboard: React.FC<DashboardProps> = ({ history }) => {
           <p className="text-white/40 font-mono text-xs">NETWORK ACTIVITY MONITORING</p>
         </div>
         <div className="text-right">
-            <div className="text-xl md:text-2xl font-bold font-mono text-neon-blue">{history.length}</div>
+            <div className="text-xl md:text-2xl font-bold font-mono text-neon-blue">{stored}</div>
             <div className="text-[10px] md:text-xs text-white/30 uppercase tracking-widest">Total Scans</div>
         </div>
       </div>
 
-      {/* Chart Section */}
-      <div className="glass-panel rounded-2xl md:rounded-3xl p-4 md:p-6 h-48 md:h-64 mb-8 w-full relative overflow-hidden">
-        <div className="absolute top-4 left-6 z-10">
-          <span className="text-[10px] md:text-xs font-mono text-white/30 bg-black/40 px-2 py-1 rounded">DETECTION CONFIDENCE TREND</span>
+      {/* Analytics */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex gap-1">
+          {ANALYTICS_RANGES.map(range => (
+            <button
+              key={range.id}
+              onClick={() => onAnalyticsRangeChange(range.id)}
+              className={`px-3 py-1.5 rounded-lg text-[10px] font-mono tracking-wider uppercase transition-colors border ${
+                analyticsRange === range.id ? 'border-neon-blue/50 text-neon-blue bg-neon-blue/10' : 'border-white/10 text-white/40 hover:bg-white/5'
+              }`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-4">
+          {analytics?.since && (
+            <span className="text-[10px] font-mono text-white/30">{formatDay(analytics.since)} - {formatDay(analytics.until)}</span>
+          )}
+          <button
+            onClick={() => analytics && exportAnalytics(analytics)}
+            disabled={!analytics || analytics.scans === 0}
+            className="text-[10px] font-mono tracking-widest uppercase text-white/30 hover:text-neon-blue disabled:opacity-30 transition-colors"
+            title="Daily scans and synthetic rate, with generator counts, as CSV"
+          >
+            Export CSV
+          </button>
         </div>
-        <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={chartData}>
-            <defs>
-              <linearGradient id="colorScore" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="#00f3ff" stopOpacity={0.3}/>
-                <stop offset="95%" stopColor="#00f3ff" stopOpacity={0}/>
-              </linearGradient>
-            </defs>
-            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
-            <XAxis dataKey="name" hide />
-            <Tooltip 
-              contentStyle={{ backgroundColor: '#0a0a0a', borderColor: '#333', color: '#fff' }} 
-              itemStyle={{ color: '#00f3ff' }}
-              cursor={{ stroke: 'rgba(255,255,255,0.1)' }}
-            />
-            <Area type="monotone" dataKey="score" stroke="#00f3ff" strokeWidth={2} fillOpacity={1} fill="url(#colorScore)" />
-          </AreaChart>
-        </ResponsiveContainer>
       </div>
 
-      {/* Recent Activity List */}
-      <h3 className="text-white/40 font-mono text-xs mb-4 uppercase tracking-widest">Recent Analysis Logs</h3>
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 md:gap-4">
-        {history.length === 0 ? (
-          <div className="col-span-full py-12 text-center border border-dashed border-white/10 rounded-2xl">
-            <p className="text-white/30 font-light text-sm">No biological or synthetic signatures detected yet.</p>
+      {!analytics || analytics.scans === 0 ? (
+        <div className="mb-8 py-12 text-center border border-dashed border-white/10 rounded-2xl">
+          <p className="text-white/30 font-light text-sm">{analytics ? 'No scans in this period.' : 'Loading analytics...'}</p>
+        </div>
+      ) : (
+        <div className="mb-8 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4">
+            <Stat label="Scans" value={analytics.scans} />
+            <Stat label="Synthetic" value={analytics.synthetic} color="text-neon-red" />
+            <Stat label="Synthetic Rate" value={`${analytics.syntheticRate}%`} color="text-neon-red" />
+            <Stat label="Watermarked" value={analytics.watermarked} color="text-neon-blue" />
           </div>
-        ) : (
-          history.slice().reverse().map((item) => (
-            <div key={item.id} className="glass-panel rounded-xl p-3 md:p-4 flex gap-4 items-center hover:bg-white/5 transition-colors group">
-              <div className="w-14 h-14 md:w-16 md:h-16 rounded-lg overflow-hidden bg-black/50 border border-white/10 flex-shrink-0">
-                <img src={item.thumbnail} alt="thumb" className="w-full h-full object-cover opacity-70 group-hover:opacity-100 transition-opacity" />
+          {analytics.inconclusive > 0 && (
+            <p className="font-mono text-[10px] text-neon-purple">{analytics.inconclusive} INCONCLUSIVE ENSEMBLE RESULTS LEFT OUT OF THE SYNTHETIC RATE</p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="glass-panel rounded-2xl p-4 md:p-6 h-56 md:h-64 flex flex-col">
+              <span className="text-[10px] font-mono text-white/30 mb-2">SCANS PER DAY</span>
+              <div className="flex-1 min-h-0">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={analytics.daily}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                    <XAxis dataKey="day" tickFormatter={formatDay} tick={AXIS_TICK} minTickGap={16} />
+                    <YAxis allowDecimals={false} width={28} tick={AXIS_TICK} />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: 'rgba(255,255,255,0.05)' }} labelFormatter={formatDay} />
+                    <Bar dataKey="synthetic" name="Synthetic" stackId="scans" fill="#ff2a2a" />
+                    <Bar dataKey="inconclusive" name="Inconclusive" stackId="scans" fill="#bc13fe" />
+                    <Bar
+                      dataKey={(d: DailyActivity) => d.scans - d.synthetic - d.inconclusive}
+                      name="Authentic"
+                      stackId="scans"
+                      fill="#0aff68"
+                      radius={[2, 2, 0, 0]}
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="glass-panel rounded-2xl p-4 md:p-6 h-56 md:h-64 flex flex-col">
+              <span className="text-[10px] font-mono text-white/30 mb-2">SYNTHETIC RATE</span>
+              <div className="flex-1 min-h-0">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={analytics.daily.filter(d => d.scans > 0)}>
+                    <defs>
+                      <linearGradient id="colorRate" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="#00f3ff" stopOpacity={0.3}/>
+                        <stop offset="95%" stopColor="#00f3ff" stopOpacity={0}/>
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                    <XAxis dataKey="day" tickFormatter={formatDay} tick={AXIS_TICK} minTickGap={16} />
+                    <YAxis domain={[0, 100]} width={28} tick={AXIS_TICK} />
+                    <Tooltip
+                      contentStyle={TOOLTIP_STYLE}
+                      itemStyle={{ color: '#00f3ff' }}
+                      cursor={{ stroke: 'rgba(255,255,255,0.1)' }}
+                      labelFormatter={formatDay}
+                      formatter={(value: number, _name, entry) => [`${value}% of ${entry.payload.scans}`, 'Synthetic']}
+                    />
+                    <Area type="monotone" dataKey="syntheticRate" stroke="#00f3ff" strokeWidth={2} fillOpacity={1} fill="url(#colorRate)" />
+                  </AreaChart>
+                </ResponsiveContainer>
               </div>
-              <div className="flex-1 min-w-0">
-                <div className="flex justify-between items-start mb-1">
-                   <h4 className={`text-xs md:text-sm font-bold truncate ${item.isAI ? 'text-neon-red' : 'text-neon-green'}`}>
-                     {item.verdict}
-                   </h4>
-                   <span className="text-[10px] font-mono text-white/30">{new Date(item.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+            </div>
+
+            <div className="glass-panel rounded-2xl p-4 md:p-6 h-56 md:h-64 flex flex-col">
+              <span className="text-[10px] font-mono text-white/30 mb-2">DETECTED GENERATORS</span>
+              {generatorData.length === 0 ? (
+                <p className="text-white/30 text-xs mt-4">No synthetic scans named a generator.</p>
+              ) : (
+                <div className="flex-1 min-h-0">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={generatorData} layout="vertical" margin={{ left: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tick={AXIS_TICK} />
+                      <YAxis type="category" dataKey="name" width={100} tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.5)' }} />
+                      <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: 'rgba(255,255,255,0.05)' }} formatter={(value: number) => [value, 'Scans']} />
+                      <Bar dataKey="count" fill="#ff2a2a" radius={[0, 4, 4, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+
+            <div className="glass-panel rounded-2xl p-4 md:p-6">
+              <span className="text-[10px] font-mono text-white/30">WATERMARK PROVIDERS</span>
+              {analytics.watermarks.length === 0 ? (
+                <p className="text-white/30 text-xs mt-4">No watermarks found in this period.</p>
+              ) : (
+                <div className="mt-4 space-y-3">
+                  {analytics.watermarks.slice(0, 8).map(watermark => (
+                    <div key={watermark.name}>
+                      <div className="flex justify-between font-mono text-xs mb-1">
+                        <span className="truncate text-white/70" title={watermark.name}>{watermark.name}</span>
+                        <span className="text-white/50">{watermark.count}</span>
+                      </div>
+                      <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                        <div className="h-full bg-neon-blue/70" style={{ width: `${(watermark.count / maxWatermarks) * 100}%` }} />
+                      </div>
+                    </div>
+                  ))}
                 </div>
-                <p className="text-[10px] md:text-xs text-white/50 truncate font-mono">Score: {item.score}/100</p>
+              )}
+            </div>
+          </div>
+
+          <div className="glass-panel rounded-2xl p-4 md:p-6">
+            <span className="text-[10px] font-mono text-white/30">MEAN FORENSIC METRICS BY VERDICT</span>
+            <div className="mt-4 space-y-2">
+              <div className="grid grid-cols-12 gap-2 text-[10px] font-mono text-white/30">
+                <div className="col-span-6">METRIC</div>
+                {analytics.metricsByVerdict.map(group => (
+                  <div key={group.verdict} className="col-span-3 text-right uppercase">{group.verdict} ({group.scans})</div>
+                ))}
               </div>
+              {metricKeys.map(key => (
+                <div key={key} className="grid grid-cols-12 gap-2 font-mono text-xs">
+                  <div className="col-span-6 truncate text-white/70">{FORENSIC_METRIC_LABELS[key]}</div>
+                  {analytics.metricsByVerdict.map(group => (
+                    <div key={group.verdict} className={`col-span-3 text-right ${group.verdict === 'synthetic' ? 'text-neon-red' : 'text-neon-green'}`}>
+                      {group.metrics[key] ?? '-'}
+                    </div>
+                  ))}
+                </div>
+              ))}
             </div>
-          ))
-        )}
-      </div>
+          </div>
+        </div>
+      )}
+
+      <HistoryExplorer
+        history={history}
+        total={total}
+        facets={facets}
+        query={query}
+        onQueryChange={onQueryChange}
+        onLoadMore={onLoadMore}
+        onOpen={onOpen}
+        onDelete={onDelete}
+        onReanalyze={onReanalyze}
+        onDownloadReport={onDownloadReport}
+        onClearAll={onClearAll}
+        onImport={onImport}
+      />
     </div>
   );
 };
@@ -0,0 +1,66 @@
+import React from 'react';
+import { EnsembleSummary } from '../types';
+
+interface EnsemblePanelProps {
+  ensemble: EnsembleSummary;
+}
+
+const EnsemblePanel: React.FC<EnsemblePanelProps> = ({ ensemble }) => {
+  const [low, high] = ensemble.interval;
+
+  return (
+    <div className={`glass-panel rounded-xl p-4 print:border-black print:bg-transparent ${ensemble.inconclusive ? 'border border-neon-purple/30' : ''}`}>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest mr-auto print:text-black">Ensemble // {ensemble.passes.length} Passes</h3>
+        <span className="text-[10px] font-mono text-white/50 print:text-black">{ensemble.agreement}% AGREE</span>
+        {ensemble.inconclusive && (
+          <span className="text-[10px] font-mono px-2 py-0.5 rounded border border-neon-purple/50 text-neon-purple bg-neon-purple/10 print:border-black print:text-black">
+            INCONCLUSIVE
+          </span>
+        )}
+      </div>
+
+      {ensemble.inconclusive && (
+        <p className="text-[10px] md:text-xs text-white/60 mb-3 print:text-black">
+          The detector passes disagree (spread ±{ensemble.spread}), so no binary verdict is given. Treat this media as unverified.
+        </p>
+      )}
+
+      {/* Score scale: the 95% interval as a band, each pass as a tick, the 50 threshold as a line */}
+      <div className="relative h-6 mb-4 print:hidden">
+        <div className="absolute top-1/2 left-0 right-0 h-px bg-white/10"></div>
+        <div className="absolute top-1/2 -translate-y-1/2 h-2 bg-white/10 rounded" style={{ left: `${low}%`, width: `${Math.max(high - low, 1)}%` }}></div>
+        <div className="absolute top-0 bottom-0 w-px bg-white/30" style={{ left: '50%' }}></div>
+        {ensemble.passes.map((pass, idx) => pass.result && (
+          <div
+            key={idx}
+            className={`absolute top-1 bottom-1 w-1 rounded ${pass.result.isAI ? 'bg-neon-red' : 'bg-neon-green'}`}
+            style={{ left: `calc(${pass.result.score}% - 2px)` }}
+            title={`${pass.label}: ${pass.result.score}`}
+          ></div>
+        ))}
+        <div className="absolute -top-1 bottom-[-4px] w-0.5 bg-white" style={{ left: `${ensemble.meanScore}%` }} title={`Mean ${ensemble.meanScore}`}></div>
+      </div>
+
+      <div className="space-y-2">
+        {ensemble.passes.map((pass, idx) => (
+          <div key={idx} className="flex items-center gap-3 font-mono text-[10px] md:text-xs">
+            <span className="flex-1 min-w-0 truncate text-white/60 print:text-black" title={pass.detectorVersion}>{pass.label}</span>
+            {pass.result ? (
+              <>
+                <span className={`${pass.result.isAI ? 'text-neon-red' : 'text-neon-green'} print:text-black`}>
+                  {pass.result.isAI ? 'SYNTHETIC' : 'AUTHENTIC'}
+                </span>
+                <span className="w-10 text-right text-white print:text-black">{pass.result.score}%</span>
+              </>
+            ) : (
+              <span className="text-white/30 truncate max-w-[50%]" title={pass.error}>FAILED</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EnsemblePanel;
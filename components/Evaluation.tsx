@@ -0,0 +1,320 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BatchAnalysisResult, BatchItem, EvaluationRun } from '../types';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { compareRuns } from '../services/evaluationService';
+import BatchResults from './BatchResults';
+
+interface EvaluationProps {
+  detectorLabel: string;
+  detectorVersion: string;
+  items: BatchItem[]; // Labeled batch of the run in progress or just finished
+  runs: EvaluationRun[]; // Stored runs, newest first
+  activeRunId?: string;
+  onStart: (files: File[], labels: File | null) => void;
+  onCancelRun: () => void;
+  onRetry: (id: string) => void;
+  onReset: () => void;
+  onImport: (file: File) => void;
+  onDelete: (id: string) => void;
+  onDownloadReport: (results: BatchAnalysisResult[]) => Promise<void>;
+}
+
+const isMedia = (file: File) => file.type.startsWith('image/') || file.type.startsWith('video/');
+
+const formatDelta = (value: number, unit: string = '') =>
+  value === 0 ? '±0' : `${value > 0 ? '+' : ''}${value}${unit}`;
+
+const handleExport = (run: EvaluationRun) => {
+  const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(run, null, 2));
+  const downloadAnchorNode = document.createElement('a');
+  downloadAnchorNode.setAttribute("href", dataStr);
+  downloadAnchorNode.setAttribute("download", `PIXIVERA_EVAL_${run.createdAt}.json`);
+  document.body.appendChild(downloadAnchorNode);
+  downloadAnchorNode.click();
+  downloadAnchorNode.remove();
+};
+
+const Evaluation: React.FC<EvaluationProps> = ({
+  detectorLabel, detectorVersion, items, runs, activeRunId, onStart, onCancelRun, onRetry, onReset, onImport, onDelete, onDownloadReport,
+}) => {
+  const mediaInputRef = useRef<HTMLInputElement>(null);
+  const labelsInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [labels, setLabels] = useState<File | null>(null);
+  const [selectedId, setSelectedId] = useState<string | undefined>(activeRunId);
+  const [baselineId, setBaselineId] = useState<string>('');
+
+  useEffect(() => {
+    mediaInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // Jump to a freshly finished or imported run
+  useEffect(() => {
+    if (activeRunId) setSelectedId(activeRunId);
+  }, [activeRunId]);
+
+  const running = items.some(item => item.status === 'queued' || item.status === 'running');
+  const settled = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+
+  const run = runs.find(r => r.id === selectedId) ?? runs[0];
+  const baseline = runs.find(r => r.id === baselineId && r.id !== run?.id);
+  const comparison = useMemo(() => (run && baseline ? compareRuns(run, baseline) : null), [run, baseline]);
+
+  const m = run?.metrics;
+  const signatureData = m?.bySignature.slice(0, 10) ?? [];
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-4 md:p-10 animate-fade-in">
+      <div className="mb-8">
+        <h2 className="text-2xl md:text-3xl font-light mb-2 tracking-tight">Detector Evaluation</h2>
+        <p className="text-white/40 font-mono text-xs truncate" title={detectorVersion}>{detectorLabel.toUpperCase()} // {detectorVersion}</p>
+      </div>
+
+      {/* Benchmark set */}
+      <div className="glass-panel rounded-2xl p-4 md:p-6 mb-6">
+        <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest mb-4">Labeled Benchmark Set</h3>
+        <input
+          type="file"
+          ref={mediaInputRef}
+          className="hidden"
+          multiple
+          onChange={(e) => setFiles(Array.from(e.target.files || []).filter(isMedia))}
+        />
+        <input
+          type="file"
+          ref={labelsInputRef}
+          className="hidden"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => setLabels(e.target.files?.[0] ?? null)}
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+          <button
+            onClick={() => mediaInputRef.current?.click()}
+            disabled={running}
+            className="px-4 py-4 border border-dashed border-neon-blue/30 text-neon-blue rounded-xl font-mono text-xs tracking-widest hover:bg-white/5 disabled:opacity-30 transition-colors"
+          >
+            MEDIA FOLDER // {files.length} FILES
+          </button>
+          <button
+            onClick={() => labelsInputRef.current?.click()}
+            disabled={running}
+            className="px-4 py-4 border border-dashed border-white/20 text-white/60 rounded-xl font-mono text-xs tracking-widest hover:bg-white/5 disabled:opacity-30 transition-colors truncate"
+          >
+            {labels ? `LABELS // ${labels.name}` : 'LABELS FILE (OPTIONAL)'}
+          </button>
+        </div>
+        <p className="font-mono text-[10px] text-white/30 mb-4">
+          CSV WITH file,label,generator COLUMNS OR JSON. WITHOUT A LABELS FILE, FOLDERS NAMED real/ AND synthetic/&lt;generator&gt;/ ARE USED.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          {running ? (
+            <button
+              onClick={onCancelRun}
+              className="px-4 py-2 border border-neon-red/30 text-neon-red hover:bg-neon-red/10 rounded-lg text-xs font-mono tracking-wider transition-colors"
+            >
+              CANCEL RUN
+            </button>
+          ) : (
+            <button
+              onClick={() => onStart(files, labels)}
+              disabled={files.length === 0}
+              className="px-4 py-2 bg-neon-blue/10 border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/20 disabled:opacity-30 rounded-lg text-xs font-mono tracking-wider transition-colors"
+            >
+              RUN EVALUATION
+            </button>
+          )}
+          <input
+            type="file"
+            ref={importInputRef}
+            className="hidden"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="px-4 py-2 border border-white/10 hover:bg-white/5 rounded-lg text-xs font-mono tracking-wider transition-colors"
+          >
+            IMPORT RUN
+          </button>
+          {items.length > 0 && (
+            <span className="font-mono text-[10px] text-white/40">{settled} OF {items.length} PROCESSED</span>
+          )}
+        </div>
+      </div>
+
+      {run && m && (
+        <>
+          {/* Run selection */}
+          <div className="glass-panel rounded-2xl p-4 md:p-6 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+              <label className="flex flex-col gap-1">
+                <span className="text-[10px] font-mono text-white/40">RUN</span>
+                <select
+                  value={run.id}
+                  onChange={(e) => setSelectedId(e.target.value)}
+                  className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs font-mono text-white"
+                >
+                  {runs.map(r => (
+                    <option key={r.id} value={r.id}>{r.name} // {new Date(r.createdAt).toLocaleString()}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-[10px] font-mono text-white/40">COMPARE WITH</span>
+                <select
+                  value={baseline?.id ?? ''}
+                  onChange={(e) => setBaselineId(e.target.value)}
+                  className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs font-mono text-white"
+                >
+                  <option value="">NO BASELINE</option>
+                  {runs.filter(r => r.id !== run.id).map(r => (
+                    <option key={r.id} value={r.id}>{r.name} // {new Date(r.createdAt).toLocaleString()}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 font-mono text-[10px] text-white/40">
+              <span className="truncate mr-auto" title={run.detectorVersion}>{run.detectorVersion}</span>
+              {run.promptProfile && <span>PROMPT {run.promptProfile.name} V{run.promptProfile.version}</span>}
+              {run.failed.length > 0 && <span className="text-neon-red" title={run.failed.join(', ')}>{run.failed.length} FAILED</span>}
+              {run.unlabeled.length > 0 && <span title={run.unlabeled.join(', ')}>{run.unlabeled.length} UNLABELED SKIPPED</span>}
+              <button onClick={() => handleExport(run)} className="uppercase tracking-widest hover:text-white transition-colors">Export</button>
+              <button onClick={() => onDelete(run.id)} className="uppercase tracking-widest hover:text-neon-red transition-colors">Delete</button>
+            </div>
+          </div>
+
+          {/* Headline metrics */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+            {([
+              ['AUC', m.auc, comparison?.auc, ''],
+              ['ACCURACY', m.accuracy, comparison?.accuracy, '%'],
+              ['PRECISION', m.precision, comparison?.precision, '%'],
+              ['RECALL', m.recall, comparison?.recall, '%'],
+              ['F1', m.f1, comparison?.f1, '%'],
+            ] as const).map(([label, value, delta, unit]) => (
+              <div key={label} className="glass-panel rounded-xl p-4">
+                <div className="text-[10px] font-mono text-white/40 mb-1">{label}</div>
+                <div className="text-2xl font-mono text-white">{value}{unit}</div>
+                {delta !== undefined && (
+                  <div className={`text-[10px] font-mono ${delta > 0 ? 'text-neon-green' : delta < 0 ? 'text-neon-red' : 'text-white/30'}`}>
+                    {formatDelta(delta, unit)} VS BASELINE
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            {/* ROC */}
+            <div className="glass-panel rounded-2xl p-4 md:p-6 h-72">
+              <span className="text-[10px] font-mono text-white/30">ROC // TRUE POSITIVE RATE VS FALSE POSITIVE RATE</span>
+              <ResponsiveContainer width="100%" height="90%">
+                <LineChart>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                  <XAxis dataKey="fpr" type="number" domain={[0, 1]} tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.3)' }} />
+                  <YAxis dataKey="tpr" type="number" domain={[0, 1]} tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.3)' }} />
+                  <Tooltip contentStyle={{ backgroundColor: '#0a0a0a', borderColor: '#333', fontSize: '12px' }} />
+                  <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="rgba(255,255,255,0.2)" strokeDasharray="4 4" />
+                  {baseline && (
+                    <Line data={baseline.metrics.roc} dataKey="tpr" name="Baseline" type="stepAfter" stroke="#bc13fe" strokeWidth={1.5} dot={false} />
+                  )}
+                  <Line data={m.roc} dataKey="tpr" name="This run" type="stepAfter" stroke="#00f3ff" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Confusion matrix */}
+            <div className="glass-panel rounded-2xl p-4 md:p-6">
+              <span className="text-[10px] font-mono text-white/30">CONFUSION MATRIX // {m.total} FILES</span>
+              <div className="grid grid-cols-[auto_1fr_1fr] gap-2 mt-4 font-mono text-xs">
+                <div></div>
+                <div className="text-center text-[10px] text-white/40">PREDICTED SYNTHETIC</div>
+                <div className="text-center text-[10px] text-white/40">PREDICTED AUTHENTIC</div>
+                <div className="text-[10px] text-white/40 self-center">ACTUAL SYNTHETIC</div>
+                <div className="bg-neon-green/10 border border-neon-green/30 rounded-lg p-4 text-center text-2xl text-neon-green">{m.confusion.tp}</div>
+                <div className="bg-neon-red/10 border border-neon-red/30 rounded-lg p-4 text-center text-2xl text-neon-red">{m.confusion.fn}</div>
+                <div className="text-[10px] text-white/40 self-center">ACTUAL AUTHENTIC</div>
+                <div className="bg-neon-red/10 border border-neon-red/30 rounded-lg p-4 text-center text-2xl text-neon-red">{m.confusion.fp}</div>
+                <div className="bg-neon-green/10 border border-neon-green/30 rounded-lg p-4 text-center text-2xl text-neon-green">{m.confusion.tn}</div>
+              </div>
+              {m.inconclusive > 0 && (
+                <p className="font-mono text-[10px] text-neon-purple mt-3">{m.inconclusive} INCONCLUSIVE ENSEMBLE RESULTS COUNTED BY MEAN SCORE</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            {/* Accuracy by reported signature */}
+            <div className="glass-panel rounded-2xl p-4 md:p-6 h-72">
+              <span className="text-[10px] font-mono text-white/30">ACCURACY BY REPORTED SIGNATURE</span>
+              <ResponsiveContainer width="100%" height="90%">
+                <BarChart data={signatureData} layout="vertical" margin={{ left: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" horizontal={false} />
+                  <XAxis type="number" domain={[0, 100]} tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.3)' }} />
+                  <YAxis type="category" dataKey="name" width={100} tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.5)' }} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#0a0a0a', borderColor: '#333', fontSize: '12px' }}
+                    cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                    formatter={(value: number, _name, entry) => [`${value}% of ${entry.payload.total}`, 'Accuracy']}
+                  />
+                  <Bar dataKey="accuracy" radius={[0, 4, 4, 0]}>
+                    {signatureData.map((group, idx) => (
+                      <Cell key={idx} fill={group.accuracy >= 80 ? '#0aff68' : group.accuracy >= 50 ? '#00f3ff' : '#ff2a2a'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Per generator */}
+            <div className="glass-panel rounded-2xl p-4 md:p-6">
+              <span className="text-[10px] font-mono text-white/30">SYNTHETIC FILES BY GROUND-TRUTH GENERATOR</span>
+              <div className="mt-4 space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-[10px] font-mono text-white/30">
+                  <div className="col-span-6">GENERATOR</div>
+                  <div className="col-span-3 text-right">DETECTED</div>
+                  <div className="col-span-3 text-right">NAMED</div>
+                </div>
+                {m.byGenerator.map(group => (
+                  <div key={group.name} className="grid grid-cols-12 gap-2 font-mono text-xs">
+                    <div className="col-span-6 truncate text-white/70" title={group.name}>{group.name}</div>
+                    <div className="col-span-3 text-right text-white">{group.correct}/{group.total}</div>
+                    <div className="col-span-3 text-right text-white/50">{group.signatureHits ?? 0}/{group.total}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {comparison && (comparison.fixed.length > 0 || comparison.broken.length > 0) && (
+            <div className="glass-panel rounded-2xl p-4 md:p-6 mb-6">
+              <span className="text-[10px] font-mono text-white/30">CHANGED VERDICTS // {comparison.shared} FILES IN BOTH RUNS</span>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 font-mono text-[10px]">
+                <div>
+                  <div className="text-neon-green mb-2">NOW CORRECT ({comparison.fixed.length})</div>
+                  {comparison.fixed.map(name => <div key={name} className="truncate text-white/60" title={name}>{name}</div>)}
+                </div>
+                <div>
+                  <div className="text-neon-red mb-2">NOW WRONG ({comparison.broken.length})</div>
+                  {comparison.broken.map(name => <div key={name} className="truncate text-white/60" title={name}>{name}</div>)}
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Per-file detail of the latest run */}
+      {items.length > 0 && !running && (
+        <BatchResults items={items} onRetry={onRetry} onReset={onReset} onDownloadReport={onDownloadReport} />
+      )}
+    </div>
+  );
+};
+
+export default Evaluation;
@@ -0,0 +1,362 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BatchAnalysisResult, HistoryFacets, HistoryItem, HistoryMediaType, HistoryQuery, HistorySortKey } from '../types';
+import { DEFAULT_HISTORY_QUERY, exportHistoryItems, toBatchResult } from '../services/historyStore';
+import { BatchExportFormat, DEFAULT_EXPORT_COLUMNS, exportBatchTable } from '../services/batchExport';
+import { isInconclusive } from '../services/ensembleService';
+
+interface HistoryExplorerProps {
+  history: HistoryItem[]; // Loaded part of the entries matching `query`
+  total: number; // Entries matching `query`
+  facets: HistoryFacets;
+  query: HistoryQuery;
+  onQueryChange: (query: HistoryQuery) => void;
+  onLoadMore: () => void;
+  onOpen: (item: HistoryItem) => void;
+  onDelete: (ids: string[]) => void;
+  onReanalyze: (items: HistoryItem[], files: File[]) => void; // `files` are the originals picked for entries without a source URL
+  onDownloadReport: (results: BatchAnalysisResult[]) => Promise<void>;
+  onClearAll: () => void;
+  onImport: (file: File) => void; // Exported result or batch JSON, or a signed PDF report
+}
+
+const SORT_OPTIONS: { key: HistorySortKey; label: string }[] = [
+  { key: 'timestamp', label: 'Date' },
+  { key: 'score', label: 'Score' },
+  { key: 'fileName', label: 'File name' },
+  { key: 'modelSignature', label: 'Model' },
+];
+
+const SEARCH_DELAY_MS = 300;
+
+const downloadFile = (href: string, fileName: string) => {
+  const downloadAnchorNode = document.createElement('a');
+  downloadAnchorNode.setAttribute("href", href);
+  downloadAnchorNode.setAttribute("download", fileName);
+  document.body.appendChild(downloadAnchorNode);
+  downloadAnchorNode.click();
+  downloadAnchorNode.remove();
+};
+
+const HistoryExplorer: React.FC<HistoryExplorerProps> = ({
+  history, total, facets, query, onQueryChange, onLoadMore, onOpen, onDelete, onReanalyze, onDownloadReport, onClearAll, onImport,
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const originalsInputRef = useRef<HTMLInputElement>(null);
+  const reanalyzeTargets = useRef<HistoryItem[]>([]);
+  const [text, setText] = useState(query.text);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  const selectedItems = history.filter(h => selected.has(h.id));
+  const allSelected = history.length > 0 && selectedItems.length === history.length;
+  const filtered = query.text !== '' || query.minScore > 0 || query.maxScore < 100
+    || [query.isAI, query.modelSignature, query.watermarkProvider, query.mediaType, query.since, query.until].some(v => v !== undefined);
+
+  // Typing only re-queries once it pauses
+  useEffect(() => {
+    if (text === query.text) return;
+    const timer = setTimeout(() => onQueryChange({ ...query, text }), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text, query, onQueryChange]);
+
+  // A selection only makes sense within the result set it was made in
+  useEffect(() => setSelected(new Set()), [query]);
+
+  const update = (patch: Partial<HistoryQuery>) => onQueryChange({ ...query, ...patch });
+
+  const setScoreBound = (key: 'minScore' | 'maxScore', value: number) => {
+    const clamped = Math.max(0, Math.min(100, Number.isFinite(value) ? value : key === 'minScore' ? 0 : 100));
+    update(key === 'minScore'
+      ? { minScore: Math.min(clamped, query.maxScore) }
+      : { maxScore: Math.max(clamped, query.minScore) });
+  };
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const runBusy = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      alert(`Could not export: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExportTable = (format: BatchExportFormat) => {
+    const url = URL.createObjectURL(exportBatchTable(selectedItems.map(toBatchResult), DEFAULT_EXPORT_COLUMNS, format));
+    downloadFile(url, `PIXIVERA_HISTORY_${new Date().toISOString()}.${format}`);
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const handleExportJSON = () => runBusy(async () => {
+    const results = await exportHistoryItems(selectedItems.map(h => h.id));
+    const url = URL.createObjectURL(new Blob([JSON.stringify(results, null, 2)], { type: 'application/json' }));
+    downloadFile(url, `PIXIVERA_BATCH_REPORT_${new Date().toISOString()}.json`);
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  });
+
+  // Entries scanned from a URL are fetched again, the rest need their original files
+  const handleReanalyze = () => {
+    if (selectedItems.every(h => h.sourceUrl)) {
+      onReanalyze(selectedItems, []);
+      return;
+    }
+    reanalyzeTargets.current = selectedItems;
+    originalsInputRef.current?.click();
+  };
+
+  const selectClass = "bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs font-mono text-white outline-none focus:border-neon-blue/50";
+  const inputClass = "bg-black/40 border border-white/10 focus:border-neon-blue/50 rounded-lg px-2 py-1.5 text-xs font-mono text-white outline-none";
+  const bulkButtonClass = "px-3 py-1.5 border border-white/10 hover:bg-white/5 disabled:opacity-30 rounded-lg text-[10px] font-mono tracking-wider transition-colors";
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest">Analysis History</h3>
+        <div className="flex gap-4">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,.pdf,application/json,application/pdf"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+          <input
+            ref={originalsInputRef}
+            type="file"
+            multiple
+            accept="image/*,video/*"
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []);
+              e.target.value = '';
+              if (files.length > 0) onReanalyze(reanalyzeTargets.current, files);
+            }}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="text-[10px] font-mono tracking-widest uppercase text-white/30 hover:text-neon-blue transition-colors"
+            title="Open an exported result, batch or signed PDF report"
+          >
+            Import
+          </button>
+          {history.length > 0 && (
+            <button
+              onClick={onClearAll}
+              className="text-[10px] font-mono tracking-widest uppercase text-white/30 hover:text-neon-red transition-colors"
+            >
+              Clear All
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="glass-panel rounded-xl p-3 md:p-4 mb-4 space-y-3">
+        <input
+          type="search"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Search verdicts, reasoning, technical details and file names"
+          className={`${inputClass} w-full py-2`}
+        />
+        <div className="flex flex-wrap items-center gap-2 font-mono text-[10px] text-white/40">
+          SCORE
+          <input type="number" min={0} max={100} value={query.minScore} onChange={(e) => setScoreBound('minScore', Number(e.target.value))} className={`${inputClass} w-16`} />
+          TO
+          <input type="number" min={0} max={100} value={query.maxScore} onChange={(e) => setScoreBound('maxScore', Number(e.target.value))} className={`${inputClass} w-16`} />
+          <select
+            value={query.isAI === undefined ? '' : String(query.isAI)}
+            onChange={(e) => update({ isAI: e.target.value === '' ? undefined : e.target.value === 'true' })}
+            className={selectClass}
+          >
+            <option value="">All verdicts</option>
+            <option value="true">Synthetic</option>
+            <option value="false">Authentic</option>
+          </select>
+          <select
+            value={query.modelSignature ?? ''}
+            onChange={(e) => update({ modelSignature: e.target.value || undefined })}
+            className={selectClass}
+          >
+            <option value="">All models</option>
+            {facets.modelSignatures.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <select
+            value={query.watermarkProvider ?? ''}
+            onChange={(e) => update({ watermarkProvider: e.target.value || undefined })}
+            className={selectClass}
+          >
+            <option value="">Any watermark</option>
+            {facets.watermarkProviders.map(provider => <option key={provider} value={provider}>{provider}</option>)}
+          </select>
+          <select
+            value={query.mediaType ?? ''}
+            onChange={(e) => update({ mediaType: (e.target.value || undefined) as HistoryMediaType | undefined })}
+            className={selectClass}
+          >
+            <option value="">Images & videos</option>
+            <option value="image">Images</option>
+            <option value="video">Videos</option>
+          </select>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 font-mono text-[10px] text-white/40">
+          FROM
+          <input type="date" value={query.since ?? ''} onChange={(e) => update({ since: e.target.value || undefined })} className={inputClass} />
+          TO
+          <input type="date" value={query.until ?? ''} onChange={(e) => update({ until: e.target.value || undefined })} className={inputClass} />
+          <span className="ml-2">SORT</span>
+          <select value={query.sort} onChange={(e) => update({ sort: e.target.value as HistorySortKey })} className={selectClass}>
+            {SORT_OPTIONS.map(option => <option key={option.key} value={option.key}>{option.label}</option>)}
+          </select>
+          <button
+            onClick={() => update({ descending: !query.descending })}
+            className="px-2 py-1.5 border border-white/10 hover:bg-white/5 rounded-lg text-white/60 transition-colors"
+            title={query.descending ? 'Descending' : 'Ascending'}
+          >
+            {query.descending ? 'DESC' : 'ASC'}
+          </button>
+          {filtered && (
+            <button
+              onClick={() => {
+                setText('');
+                onQueryChange({ ...DEFAULT_HISTORY_QUERY, sort: query.sort, descending: query.descending });
+              }}
+              className="ml-auto text-white/30 hover:text-white/60 tracking-wider"
+            >
+              RESET FILTERS
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Bulk actions */}
+      <div className="flex flex-wrap items-center gap-2 mb-3 min-h-[32px]">
+        <label className="flex items-center gap-2 font-mono text-[10px] text-white/40 cursor-pointer mr-2">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            disabled={history.length === 0}
+            onChange={() => setSelected(allSelected ? new Set() : new Set(history.map(h => h.id)))}
+            className="accent-[#00f3ff]"
+          />
+          {selectedItems.length > 0 ? `${selectedItems.length} SELECTED` : `${total} MATCHING`}
+        </label>
+        {selectedItems.length > 0 && (
+          <>
+            <button onClick={handleExportJSON} disabled={busy} className={bulkButtonClass}>JSON</button>
+            <button onClick={() => handleExportTable('csv')} disabled={busy} className={bulkButtonClass}>CSV</button>
+            <button onClick={() => handleExportTable('xlsx')} disabled={busy} className={bulkButtonClass}>XLSX</button>
+            <button
+              onClick={() => runBusy(() => onDownloadReport(selectedItems.map(toBatchResult)))}
+              disabled={busy}
+              className={bulkButtonClass}
+            >
+              PDF REPORT
+            </button>
+            <button
+              onClick={handleReanalyze}
+              disabled={busy}
+              className={`${bulkButtonClass} text-neon-blue`}
+              title="Scan again without the cache. Entries not fetched from a URL need their original files"
+            >
+              RE-ANALYZE
+            </button>
+            <button
+              onClick={() => onDelete(selectedItems.map(h => h.id))}
+              disabled={busy}
+              className={`${bulkButtonClass} text-neon-red`}
+            >
+              DELETE
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {history.length === 0 ? (
+          <div className="py-12 text-center border border-dashed border-white/10 rounded-2xl">
+            <p className="text-white/30 font-light text-sm">
+              {filtered ? 'No scans match these filters.' : 'No biological or synthetic signatures detected yet.'}
+            </p>
+          </div>
+        ) : (
+          history.map((item) => (
+            <div
+              key={item.id}
+              onClick={() => onOpen(item)}
+              className={`glass-panel rounded-xl p-3 flex gap-3 md:gap-4 items-center hover:bg-white/5 transition-colors group cursor-pointer ${selected.has(item.id) ? 'border-neon-blue/40' : ''}`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(item.id)}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => toggle(item.id)}
+                className="accent-[#00f3ff] flex-shrink-0"
+              />
+              <div className="w-12 h-12 rounded-lg overflow-hidden bg-black/50 border border-white/10 flex-shrink-0">
+                {item.thumbnail && <img src={item.thumbnail} alt="thumb" className="w-full h-full object-cover opacity-70 group-hover:opacity-100 transition-opacity" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <h4 className={`text-xs md:text-sm font-bold truncate ${isInconclusive(item) ? 'text-neon-purple' : item.isAI ? 'text-neon-red' : 'text-neon-green'}`}>
+                  {item.verdict}
+                </h4>
+                <p className="text-[10px] text-white/30 truncate font-mono" title={item.fileName ?? item.sourceUrl}>
+                  {item.fileName ?? item.sourceUrl ?? 'Unnamed scan'}
+                </p>
+              </div>
+              <div className="hidden md:block w-40 text-[10px] font-mono text-white/50 truncate" title={item.modelSignature.name}>
+                {item.modelSignature.name}
+                {item.watermark.signatures.length > 0 && (
+                  <span className="block text-neon-blue/70 truncate">{item.watermark.signatures.map(s => s.provider).join(', ')}</span>
+                )}
+              </div>
+              <div className="w-14 text-right font-mono text-xs text-white/70 flex-shrink-0">{item.score}/100</div>
+              <div className="hidden sm:block w-28 text-right text-[10px] font-mono text-white/30 flex-shrink-0">
+                {new Date(item.timestamp).toLocaleString([], { year: '2-digit', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete([item.id]);
+                }}
+                className="text-white/20 hover:text-neon-red transition-colors opacity-100 md:opacity-0 md:group-hover:opacity-100"
+                title="Delete scan"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      {history.length < total && (
+        <div className="mt-6 flex justify-center">
+          <button
+            onClick={onLoadMore}
+            className="px-4 py-2 border border-white/10 hover:bg-white/5 rounded-lg text-xs font-mono tracking-wider transition-colors"
+          >
+            LOAD MORE ({total - history.length} REMAINING)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryExplorer;
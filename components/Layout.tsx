@@ -11,6 +11,11 @@ const Layout: React.FC<LayoutProps> = ({ currentView, onNavigate, children }) =>
   const navItems = [
     { label: 'SCAN', view: ViewState.HOME },
     { label: 'DASHBOARD', view: ViewState.DASHBOARD },
+    { label: 'SOURCES', view: ViewState.INTEGRATIONS },
+    { label: 'EVALUATE', view: ViewState.EVALUATION },
+    { label: 'CALIBRATE', view: ViewState.CALIBRATION },
+    { label: 'PROMPTS', view: ViewState.PROMPTS },
+    { label: 'SETTINGS', view: ViewState.SETTINGS },
   ];
 
   return (
@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PromptProfile, PromptProfileDraft, PromptProfileRef, PromptProfileVersion } from '../types';
+import { diffLines } from '../services/textDiff';
+
+interface PromptProfilesProps {
+  profiles: PromptProfile[];
+  selectedId: string; // Profile used for new scans and batches
+  focus?: PromptProfileRef; // Opened from a result: show the exact version that produced it
+  onSelect: (id: string) => void;
+  onSaveVersion: (profileId: string, draft: PromptProfileDraft) => void;
+  onCreate: (draft: PromptProfileDraft) => void;
+  onDelete: (id: string) => void;
+}
+
+type Mode = 'view' | 'edit' | 'diff';
+
+const DIFF_STYLES = {
+  same: 'text-white/50',
+  added: 'bg-neon-green/10 text-neon-green',
+  removed: 'bg-neon-red/10 text-neon-red line-through decoration-neon-red/40',
+};
+
+const PromptProfiles: React.FC<PromptProfilesProps> = ({ profiles, selectedId, focus, onSelect, onSaveVersion, onCreate, onDelete }) => {
+  const [openId, setOpenId] = useState(focus?.id ?? selectedId);
+  const [viewedVersion, setViewedVersion] = useState<number | undefined>(focus?.version);
+  const [mode, setMode] = useState<Mode>('view');
+  const [draft, setDraft] = useState<PromptProfileDraft>({ name: '', instruction: '' });
+  const [creating, setCreating] = useState(false);
+  const [diffFrom, setDiffFrom] = useState<number>(1);
+
+  useEffect(() => {
+    if (focus) {
+      setOpenId(focus.id);
+      setViewedVersion(focus.version);
+      setMode('view');
+    }
+  }, [focus]);
+
+  const profile = profiles.find(p => p.id === openId) ?? profiles[0];
+  const latest = profile?.versions[profile.versions.length - 1];
+  const viewed = profile?.versions.find(v => v.version === viewedVersion) ?? latest;
+
+  // Diff defaults to "what changed in the viewed version"
+  useEffect(() => {
+    if (viewed) setDiffFrom(viewed.version > 1 ? viewed.version - 1 : viewed.version + 1);
+  }, [viewed?.id, viewed?.version]);
+
+  const diffBase = profile?.versions.find(v => v.version === diffFrom);
+  const diff = useMemo(
+    () => (mode === 'diff' && diffBase && viewed ? diffLines(diffBase.instruction, viewed.instruction) : []),
+    [mode, diffBase, viewed]
+  );
+  const changedLines = diff.filter(line => line.type !== 'same').length;
+
+  const openProfile = (id: string) => {
+    setOpenId(id);
+    setViewedVersion(undefined);
+    setMode('view');
+    setCreating(false);
+  };
+
+  const startEdit = (base: PromptProfileVersion) => {
+    setDraft({ name: base.name, description: base.description, instruction: base.instruction, note: '' });
+    setMode('edit');
+  };
+
+  const startCreate = () => {
+    setDraft({ name: '', description: '', instruction: viewed?.instruction ?? '', note: '' });
+    setCreating(true);
+    setMode('edit');
+  };
+
+  const unchanged = !creating && !!latest && draft.instruction === latest.instruction && draft.name === latest.name && (draft.description ?? '') === (latest.description ?? '');
+
+  const handleSave = () => {
+    if (creating) {
+      if (!draft.name.trim()) return;
+      onCreate(draft);
+      setCreating(false);
+    } else if (profile) {
+      onSaveVersion(profile.id, draft);
+      setViewedVersion(undefined);
+    }
+    setMode('view');
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-4 md:p-10 animate-fade-in">
+      <div className="mb-8">
+        <h2 className="text-2xl md:text-3xl font-light mb-2 tracking-tight">Prompt Profiles</h2>
+        <p className="text-white/40 font-mono text-xs">SYSTEM INSTRUCTIONS // EVERY SAVE IS A NEW VERSION</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-6">
+        {/* Profile list */}
+        <div className="space-y-2">
+          {profiles.map(p => {
+            const last = p.versions[p.versions.length - 1];
+            return (
+              <button
+                key={p.id}
+                onClick={() => openProfile(p.id)}
+                className={`w-full text-left glass-panel rounded-xl p-3 transition-colors ${p.id === profile?.id && !creating ? 'border border-neon-blue/40' : 'hover:bg-white/5'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-white truncate mr-auto">{last.name}</span>
+                  <span className="text-[10px] font-mono text-white/40">V{last.version}</span>
+                </div>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="text-[10px] text-white/40 truncate mr-auto">{last.description || p.id}</span>
+                  {p.id === selectedId && <span className="text-[9px] font-mono text-neon-blue">IN USE</span>}
+                </div>
+              </button>
+            );
+          })}
+          <button
+            onClick={startCreate}
+            className="w-full px-3 py-3 border border-dashed border-white/20 rounded-xl text-[10px] font-mono tracking-widest text-white/50 hover:text-white hover:bg-white/5 transition-colors"
+          >
+            + NEW PROFILE
+          </button>
+        </div>
+
+        {/* Detail */}
+        {profile && viewed && (
+          <div className="glass-panel rounded-2xl p-4 md:p-6 min-w-0">
+            {creating ? (
+              <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest mb-4">New Profile // From {viewed.name} V{viewed.version}</h3>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <h3 className="text-lg font-light text-white mr-auto">{viewed.name}</h3>
+                  {profile.id !== selectedId && (
+                    <button
+                      onClick={() => onSelect(profile.id)}
+                      className="px-3 py-1 bg-neon-blue/10 border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/20 rounded-lg text-[10px] font-mono tracking-wider transition-colors"
+                    >
+                      USE FOR SCANS
+                    </button>
+                  )}
+                  {!profile.builtIn && (
+                    <button
+                      onClick={() => onDelete(profile.id)}
+                      className="px-3 py-1 text-[10px] font-mono tracking-wider text-white/30 hover:text-neon-red transition-colors"
+                    >
+                      DELETE
+                    </button>
+                  )}
+                </div>
+
+                {/* Versions, newest first */}
+                <div className="flex flex-wrap gap-1 mb-4">
+                  {[...profile.versions].reverse().map(v => (
+                    <button
+                      key={v.version}
+                      onClick={() => setViewedVersion(v.version)}
+                      title={[new Date(v.createdAt).toLocaleString(), v.note].filter(Boolean).join(' // ')}
+                      className={`px-2 py-0.5 rounded text-[10px] font-mono border transition-colors ${v.version === viewed.version ? 'bg-white text-black border-white' : 'border-white/10 text-white/50 hover:text-white'}`}
+                    >
+                      V{v.version}{v === latest ? ' LATEST' : ''}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="text-[10px] font-mono text-white/40 mb-4">
+                  {viewed.builtIn && viewed.version === 1 ? 'SHIPPED WITH THE APP' : `SAVED ${new Date(viewed.createdAt).toLocaleString()}`}
+                  {viewed.note && <span className="text-white/60"> // {viewed.note}</span>}
+                </div>
+
+                <div className="flex items-center gap-1 p-1 glass-panel rounded-full mb-4 w-fit">
+                  {(['view', 'edit', 'diff'] as const).map(m => (
+                    <button
+                      key={m}
+                      onClick={() => (m === 'edit' ? startEdit(latest) : setMode(m))}
+                      disabled={m === 'diff' && profile.versions.length < 2}
+                      className={`px-4 py-1 rounded-full text-[10px] font-mono tracking-widest transition-colors disabled:opacity-30 ${mode === m ? 'bg-white text-black' : 'text-white/50 hover:text-white'}`}
+                    >
+                      {m.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {mode === 'view' && !creating && (
+              <pre className="bg-black/40 border border-white/10 rounded-lg p-4 text-xs text-white/80 font-mono whitespace-pre-wrap break-words max-h-[60vh] overflow-y-auto">
+                {viewed.instruction.trim()}
+              </pre>
+            )}
+
+            {mode === 'edit' && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Profile name"
+                    className="bg-black/40 border border-white/10 focus:border-neon-blue/50 rounded-lg px-3 py-2 text-sm text-white placeholder-white/20 outline-none"
+                  />
+                  <input
+                    value={draft.description ?? ''}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    placeholder="Description"
+                    className="bg-black/40 border border-white/10 focus:border-neon-blue/50 rounded-lg px-3 py-2 text-sm text-white placeholder-white/20 outline-none"
+                  />
+                </div>
+                <textarea
+                  value={draft.instruction}
+                  onChange={(e) => setDraft({ ...draft, instruction: e.target.value })}
+                  spellCheck={false}
+                  className="w-full h-[50vh] bg-black/40 border border-white/10 focus:border-neon-blue/50 rounded-lg p-4 text-xs text-white/80 font-mono outline-none resize-y"
+                />
+                {!creating && (
+                  <input
+                    value={draft.note ?? ''}
+                    onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                    placeholder="What changed in this version?"
+                    className="w-full bg-black/40 border border-white/10 focus:border-neon-blue/50 rounded-lg px-3 py-2 text-xs text-white placeholder-white/20 outline-none"
+                  />
+                )}
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSave}
+                    disabled={unchanged || !draft.instruction.trim() || (creating && !draft.name.trim())}
+                    className="px-4 py-2 bg-neon-blue/10 border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/20 disabled:opacity-30 rounded-lg text-xs font-mono tracking-wider transition-colors"
+                  >
+                    {creating ? 'CREATE PROFILE' : `SAVE AS V${latest.version + 1}`}
+                  </button>
+                  <button
+                    onClick={() => { setMode('view'); setCreating(false); }}
+                    className="px-4 py-2 border border-white/10 hover:bg-white/5 rounded-lg text-xs font-mono tracking-wider transition-colors"
+                  >
+                    CANCEL
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {mode === 'diff' && !creating && (
+              <div>
+                <div className="flex items-center gap-2 mb-3 font-mono text-[10px] text-white/40">
+                  <select
+                    value={diffFrom}
+                    onChange={(e) => setDiffFrom(Number(e.target.value))}
+                    className="bg-black/40 border border-white/10 rounded px-2 py-1 text-white"
+                  >
+                    {profile.versions.filter(v => v.version !== viewed.version).map(v => (
+                      <option key={v.version} value={v.version}>V{v.version}</option>
+                    ))}
+                  </select>
+                  <span>→ V{viewed.version} // {changedLines} CHANGED LINE{changedLines === 1 ? '' : 'S'}</span>
+                </div>
+                <div className="bg-black/40 border border-white/10 rounded-lg py-2 text-xs font-mono max-h-[60vh] overflow-y-auto">
+                  {diff.map((line, idx) => (
+                    <div key={idx} className={`flex gap-3 px-3 whitespace-pre-wrap break-words ${DIFF_STYLES[line.type]}`}>
+                      <span className="w-4 flex-shrink-0 select-none opacity-60">{line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}</span>
+                      <span className="min-w-0">{line.text || ' '}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptProfiles;
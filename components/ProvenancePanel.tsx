@@ -0,0 +1,109 @@
+import React from 'react';
+import { ProvenanceReport, ProvenanceStatus } from '../types';
+
+interface ProvenancePanelProps {
+  provenance: ProvenanceReport;
+}
+
+const STATUS_STYLES: Record<ProvenanceStatus, string> = {
+  valid: 'border-neon-green/50 text-neon-green bg-neon-green/10',
+  tampered: 'border-neon-red/50 text-neon-red bg-neon-red/10',
+  unsigned: 'border-white/20 text-white/50 bg-white/5',
+};
+
+const HARD_BINDING_LABELS: Record<ProvenanceReport['hardBinding'], string> = {
+  match: 'PIXELS MATCH SIGNED HASH',
+  mismatch: 'PIXELS CHANGED AFTER SIGNING',
+  unchecked: 'PIXEL BINDING NOT CHECKED',
+};
+
+// "c2pa.color_adjustments" -> "color adjustments", IPTC URIs -> their last segment
+const shortName = (value: string) => value.replace(/^c2pa\./, '').split('/').pop()!.replace(/_/g, ' ');
+
+const ProvenancePanel: React.FC<ProvenancePanelProps> = ({ provenance }) => {
+  return (
+    <div className="glass-panel rounded-xl p-4 print:border-black print:bg-transparent">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest mr-auto print:text-black">Content Provenance (C2PA)</h3>
+        <span className={`text-[10px] font-mono px-2 py-0.5 rounded border uppercase ${STATUS_STYLES[provenance.status]} print:border-black print:text-black`}>
+          {provenance.status}
+        </span>
+        {provenance.status === 'valid' && (
+          <span className={`text-[10px] font-mono px-2 py-0.5 rounded border ${provenance.trusted ? 'border-neon-green/50 text-neon-green' : 'border-neon-purple/50 text-neon-purple'} print:border-black print:text-black`}>
+            {provenance.trusted ? 'TRUSTED SIGNER' : 'UNTRUSTED SIGNER'}
+          </span>
+        )}
+      </div>
+
+      <div className={`font-mono text-[10px] mb-3 ${provenance.hardBinding === 'mismatch' ? 'text-neon-red' : 'text-white/40'} print:text-black`}>
+        {HARD_BINDING_LABELS[provenance.hardBinding]}
+      </div>
+
+      {provenance.issues.length > 0 && (
+        <ul className="mb-3 space-y-1">
+          {provenance.issues.map((issue, idx) => (
+            <li key={idx} className="text-[10px] text-white/60 font-mono print:text-black">! {issue}</li>
+          ))}
+        </ul>
+      )}
+
+      {/* Chain: active manifest first, then the manifests of its ingredients */}
+      <div className="space-y-3">
+        {provenance.manifests.map((manifest, idx) => (
+          <div key={manifest.label} className="relative pl-4 border-l border-white/10 print:border-black">
+            <div className={`absolute -left-[5px] top-1 w-2.5 h-2.5 rounded-full ${manifest.status === 'valid' ? 'bg-neon-green' : manifest.status === 'tampered' ? 'bg-neon-red' : 'bg-white/30'}`}></div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-white text-xs font-bold truncate print:text-black" title={manifest.label}>
+                {manifest.title || manifest.label}
+              </span>
+              {idx === 0 && <span className="text-[9px] font-mono text-neon-blue">ACTIVE</span>}
+              <span className={`text-[9px] font-mono px-1.5 py-0.5 rounded border uppercase ${STATUS_STYLES[manifest.status]} print:border-black print:text-black`}>
+                {manifest.status}{manifest.status === 'valid' && !manifest.trusted ? ' · UNTRUSTED' : ''}
+              </span>
+            </div>
+            <div className="text-[10px] text-white/40 font-mono mt-1 space-y-0.5 print:text-black">
+              {manifest.signer && <div>SIGNED BY {manifest.signer}{manifest.issuer ? ` // ISSUED BY ${manifest.issuer}` : ''}</div>}
+              {manifest.claimGenerator && <div>GENERATOR {manifest.claimGenerator}</div>}
+            </div>
+
+            {manifest.actions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {manifest.actions.map((action, i) => (
+                  <span
+                    key={i}
+                    className="text-[9px] font-mono px-1.5 py-0.5 rounded bg-white/5 border border-white/10 text-white/70 print:border-black print:text-black"
+                    title={[action.softwareAgent, action.when, action.digitalSourceType].filter(Boolean).join(' · ')}
+                  >
+                    {shortName(action.action).toUpperCase()}
+                    {action.digitalSourceType && <span className="text-neon-purple"> · {shortName(action.digitalSourceType)}</span>}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {manifest.ingredients.length > 0 && (
+              <div className="mt-2 space-y-0.5">
+                {manifest.ingredients.map((ingredient, i) => (
+                  <div key={i} className="text-[10px] text-white/50 font-mono truncate print:text-black" title={ingredient.title}>
+                    ↳ {ingredient.relationship ? `${ingredient.relationship}: ` : ''}{ingredient.title}
+                    {!ingredient.manifestLabel && <span className="text-white/30"> (no credentials)</span>}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {manifest.issues.length > 0 && (
+              <div className="mt-2 space-y-0.5">
+                {manifest.issues.map((issue, i) => (
+                  <div key={i} className="text-[10px] text-neon-red/80 font-mono print:text-black">! {issue}</div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProvenancePanel;
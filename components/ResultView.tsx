@@ -1,17 +1,27 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { AnalysisResult, FileData, SuspiciousRegion } from '../types';
+import { AnalysisResult, FileData, ForensicLayers, PromptProfileRef, SuspiciousRegion } from '../types';
 import { Cell, Pie, PieChart, ResponsiveContainer, Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis } from 'recharts';
+import ProvenancePanel from './ProvenancePanel';
+import EnsemblePanel from './EnsemblePanel';
 
 interface ResultViewProps {
   result: AnalysisResult;
   fileData: FileData;
+  fromCache?: boolean;
+  layers?: ForensicLayers; // Local ELA / noise / FFT heatmaps, images only
+  onReanalyze?: () => void; // Bypasses the result cache, only available when the original file is still loaded
   onReset: () => void;
+  onViewPrompt?: (profile: PromptProfileRef) => void; // Opens the exact prompt version that produced this result
+  onDownloadReport: () => Promise<void>; // Signed PDF report of this result
 }
 
-const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) => {
+const ResultView: React.FC<ResultViewProps> = ({ result, fileData, fromCache = false, layers, onReanalyze, onReset, onViewPrompt, onDownloadReport }) => {
   const [animatedScore, setAnimatedScore] = useState(0);
   const [showTemporal, setShowTemporal] = useState(false);
   const [showOverlays, setShowOverlays] = useState(true);
+  const [heatmapLayer, setHeatmapLayer] = useState<'ela' | 'noise' | null>(null);
+  const [showSpectrum, setShowSpectrum] = useState(false);
+  const [reportBusy, setReportBusy] = useState(false);
   
   // Video State
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -24,6 +34,14 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
   const hasVideoAnalysis = !!result.videoAnalysis;
   // Only show temporal playback controls if we have a real video file to scrub
   const canScrubVideo = isVideoFile && hasVideoAnalysis;
+  // Ensemble passes disagreed too much for a binary verdict
+  const inconclusive = !!result.ensemble?.inconclusive;
+
+  // Flattened [group, key, value] rows for the metadata panel
+  const metadataRows: [string, string, string][] = result.metadata
+    ? ([['EXIF', result.metadata.exif], ['XMP', result.metadata.xmp], ['IPTC', result.metadata.iptc], ['PNG', result.metadata.text]] as const)
+        .flatMap(([group, fields]) => Object.entries(fields).map(([key, value]): [string, string, string] => [group, key, value]))
+    : [];
 
   useEffect(() => {
     if (hasVideoAnalysis) {
@@ -55,8 +73,13 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
     downloadAnchorNode.remove();
   };
 
-  const handlePrint = () => {
-    window.print();
+  const handleReport = async () => {
+    setReportBusy(true);
+    try {
+      await onDownloadReport();
+    } finally {
+      setReportBusy(false);
+    }
   };
   
   // Radar Chart Data
@@ -131,7 +154,18 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
           
           {/* Main Visual Content */}
           <div className="relative w-full h-full bg-black">
-            {isVideoFile ? (
+            {!fileData.previewUrl ? (
+              <div className="w-full h-full flex flex-col items-center justify-center gap-2 font-mono text-xs text-white/30">
+                {result.imported ? (
+                  <>
+                    <span>MEDIA NOT INCLUDED</span>
+                    <span className="text-[10px] text-white/20">IMPORTED RESULT // REGIONS SHOWN WITHOUT THE IMAGE</span>
+                  </>
+                ) : (
+                  <span>NO PREVIEW</span>
+                )}
+              </div>
+            ) : isVideoFile ? (
               <video 
                 ref={videoRef}
                 src={fileData.previewUrl} 
@@ -149,6 +183,22 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
               <img src={fileData.previewUrl} alt="Analyzed Content" className="w-full h-full object-contain" />
             )}
 
+            {/* Local Pixel Forensics Heatmap (same object-contain box as the image) */}
+            {layers && heatmapLayer && !isVideoFile && (
+              <img
+                src={layers[heatmapLayer]}
+                alt={`${heatmapLayer} heatmap`}
+                className="absolute inset-0 w-full h-full object-contain pointer-events-none mix-blend-screen print:hidden"
+              />
+            )}
+
+            {layers && showSpectrum && (
+              <div className="absolute bottom-3 right-3 z-20 w-28 h-28 md:w-40 md:h-40 rounded-lg overflow-hidden border border-white/20 bg-black print:hidden">
+                <img src={layers.spectrum} alt="FFT spectrum" className="w-full h-full object-contain" />
+                <div className="absolute top-1 left-1 text-[9px] font-mono text-white/60 bg-black/60 px-1 rounded">FFT</div>
+              </div>
+            )}
+
             {/* Suspicious Region Overlays (Heatmap Proxy) */}
             {showOverlays && result.suspiciousRegions?.map((region, idx) => (
               <div
@@ -212,6 +262,14 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
                  <div className="bg-black/40 backdrop-blur-md px-2 py-1 rounded text-[10px] md:text-xs font-mono text-white/50 border border-white/5">
                    {fileData.mimeType.toUpperCase().split('/')[1]}
                  </div>
+                 {fromCache && (
+                   <div
+                     className="bg-black/40 backdrop-blur-md px-2 py-1 rounded text-[10px] md:text-xs font-mono text-neon-purple border border-neon-purple/30"
+                     title={`Reused result from ${new Date(result.timestamp).toLocaleString()}`}
+                   >
+                     CACHED
+                   </div>
+                 )}
                  {result.suspiciousRegions?.length > 0 && (
                    <button 
                     onClick={() => setShowOverlays(!showOverlays)}
@@ -220,6 +278,23 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
                      {showOverlays ? 'ANOMALIES ON' : 'ANOMALIES OFF'}
                    </button>
                  )}
+                 {layers && (['ela', 'noise'] as const).map(layer => (
+                   <button
+                     key={layer}
+                     onClick={() => setHeatmapLayer(heatmapLayer === layer ? null : layer)}
+                     className={`px-2 py-1 rounded text-[10px] md:text-xs font-mono border transition-all uppercase ${heatmapLayer === layer ? 'bg-neon-blue/20 border-neon-blue/50 text-neon-blue' : 'bg-black/40 border-white/10 text-white/50'}`}
+                   >
+                     {layer}
+                   </button>
+                 ))}
+                 {layers && (
+                   <button
+                     onClick={() => setShowSpectrum(!showSpectrum)}
+                     className={`px-2 py-1 rounded text-[10px] md:text-xs font-mono border transition-all ${showSpectrum ? 'bg-neon-blue/20 border-neon-blue/50 text-neon-blue' : 'bg-black/40 border-white/10 text-white/50'}`}
+                   >
+                     FFT
+                   </button>
+                 )}
                </div>
                
                {canScrubVideo && (
@@ -257,7 +332,7 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
              </div>
              
              <h1 
-                className={`text-3xl md:text-5xl font-bold tracking-tight mb-2 text-center ${result.isAI ? 'text-neon-red drop-shadow-[0_0_15px_rgba(255,42,42,0.5)]' : 'text-neon-green drop-shadow-[0_0_15px_rgba(10,255,104,0.5)]'} print:text-black print:drop-shadow-none`}
+                className={`text-3xl md:text-5xl font-bold tracking-tight mb-2 text-center ${inconclusive ? 'text-neon-purple drop-shadow-[0_0_15px_rgba(188,19,254,0.5)]' : result.isAI ? 'text-neon-red drop-shadow-[0_0_15px_rgba(255,42,42,0.5)]' : 'text-neon-green drop-shadow-[0_0_15px_rgba(10,255,104,0.5)]'} print:text-black print:drop-shadow-none`}
              >
                {result.verdict}
              </h1>
@@ -269,6 +344,36 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
              </p>
         </div>
 
+        {/* Ensemble Passes */}
+        {result.ensemble && <EnsemblePanel ensemble={result.ensemble} />}
+
+        {/* Remote Source (URL scans) */}
+        {result.sourceUrl && (
+            <div className="glass-panel rounded-xl p-4 print:border-black print:bg-transparent">
+                <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest mb-3 print:text-black">Remote Source</h3>
+                <div className="space-y-2 font-mono text-[10px] md:text-xs">
+                    {result.origin && (
+                      <div className="flex gap-3 min-w-0">
+                          <span className="text-white/30 w-20 flex-shrink-0 print:text-black">WATCHED</span>
+                          <span className="text-white/70 truncate print:text-black" title={result.origin.itemTitle}>
+                            {result.origin.name} ({result.origin.kind.toUpperCase()}){result.origin.itemTitle ? ` // ${result.origin.itemTitle}` : ''}
+                          </span>
+                      </div>
+                    )}
+                    <div className="flex gap-3 min-w-0">
+                        <span className="text-white/30 w-20 flex-shrink-0 print:text-black">SUBMITTED</span>
+                        <a href={result.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-neon-blue truncate hover:underline print:text-black" title={result.sourceUrl}>{result.sourceUrl}</a>
+                    </div>
+                    {result.finalUrl && result.finalUrl !== result.sourceUrl && (
+                      <div className="flex gap-3 min-w-0">
+                          <span className="text-white/30 w-20 flex-shrink-0 print:text-black">REDIRECTED</span>
+                          <a href={result.finalUrl} target="_blank" rel="noopener noreferrer" className="text-neon-blue truncate hover:underline print:text-black" title={result.finalUrl}>{result.finalUrl}</a>
+                      </div>
+                    )}
+                </div>
+            </div>
+        )}
+
         {/* Digital Integrity / Watermarks Section */}
         {result.watermark && (result.watermark.detected || result.watermark.signatures?.length > 0) && (
             <div className="glass-panel rounded-xl p-4 border border-neon-blue/20 bg-neon-blue/5 print:border-black print:bg-transparent">
@@ -279,9 +384,12 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                     {result.watermark.signatures.map((sig, idx) => (
                         <div key={idx} className="bg-black/40 border border-white/10 p-3 rounded flex justify-between items-center print:border-black print:bg-transparent">
-                            <div>
+                            <div className="min-w-0">
                                 <div className="text-white text-xs font-bold print:text-black">{sig.provider}</div>
-                                <div className="text-white/50 text-[10px] print:text-black">{sig.type}</div>
+                                <div className="text-white/50 text-[10px] truncate print:text-black" title={sig.type}>{sig.type}</div>
+                                <div className={`text-[9px] font-mono mt-1 tracking-widest ${sig.source === 'metadata' ? 'text-neon-green' : 'text-white/30'} print:text-black`}>
+                                    {sig.source === 'metadata' ? 'VERIFIED FROM METADATA' : 'MODEL INFERRED'}
+                                </div>
                             </div>
                             <div className="font-mono text-neon-blue text-xs print:text-black">{sig.confidence}%</div>
                         </div>
@@ -289,6 +397,25 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
                 </div>
             </div>
         )}
+
+        {/* C2PA Provenance Chain */}
+        {result.provenance && <ProvenancePanel provenance={result.provenance} />}
+
+        {/* Embedded Metadata (read from the original bytes) */}
+        {metadataRows.length > 0 && (
+            <div className="glass-panel rounded-xl p-4 print:border-black print:bg-transparent">
+                <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest mb-3 print:text-black">Embedded Metadata</h3>
+                <div className="space-y-1 font-mono text-[10px] md:text-xs max-h-48 overflow-y-auto print:max-h-none">
+                    {metadataRows.map(([group, key, value]) => (
+                      <div key={`${group}-${key}`} className="flex gap-3 min-w-0">
+                          <span className="text-white/30 w-10 flex-shrink-0 print:text-black">{group}</span>
+                          <span className="text-white/50 w-40 flex-shrink-0 truncate print:text-black" title={key}>{key}</span>
+                          <span className="text-white/80 truncate print:text-black" title={value}>{value}</span>
+                      </div>
+                    ))}
+                </div>
+            </div>
+        )}
       </div>
 
       {/* Right Column: Deep Metrics - Stacks below on mobile */}
@@ -304,6 +431,16 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
                   <span className="text-5xl md:text-6xl font-light font-mono text-white tracking-tighter print:text-black">
                     {hasVideoAnalysis ? result.videoAnalysis?.temporalConsistencyScore : animatedScore}<span className="text-2xl opacity-50">%</span>
                   </span>
+                  {result.ensemble && !hasVideoAnalysis && (
+                    <span className="text-[10px] text-white/40 font-mono print:text-black">
+                      ±{result.ensemble.spread} // CI {result.ensemble.interval[0]}-{result.ensemble.interval[1]}
+                    </span>
+                  )}
+                  {result.calibration && result.rawScore !== undefined && !hasVideoAnalysis && (
+                    <span className="text-[10px] text-white/40 font-mono print:text-black" title={`Calibrated ${new Date(result.calibration.fittedAt).toLocaleDateString()}`}>
+                      RAW {result.rawScore}% // {result.calibration.method.toUpperCase()} @ {result.calibration.threshold}
+                    </span>
+                  )}
               </div>
               <div className="text-right">
                   <div className="text-[10px] text-white/30 uppercase tracking-widest mb-1">Source ID</div>
@@ -332,6 +469,21 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
            </div>
         </div>
 
+        {/* Local Pixel Forensics Panel */}
+        {result.forensicMetrics.errorLevel !== undefined && (
+          <div className="glass-panel rounded-xl md:rounded-2xl p-4 md:p-6 print:border-0 print:p-0">
+             <h3 className="text-white/60 font-mono text-xs uppercase tracking-wider mb-4 flex items-center gap-2 print:text-black">
+               <span className="w-2 h-2 bg-neon-blue rounded-full"></span>
+               Pixel Forensics
+             </h3>
+             <div className="space-y-1">
+               <PerceptionBar label="Error Level (ELA)" value={result.forensicMetrics.errorLevel} color="bg-neon-blue" />
+               <PerceptionBar label="Noise Consistency" value={result.forensicMetrics.noiseConsistency ?? 0} color="bg-neon-green" />
+               <PerceptionBar label="Spectral Peaks" value={result.forensicMetrics.spectralPeaks ?? 0} color="bg-neon-red" />
+             </div>
+          </div>
+        )}
+
         {/* Human Perception Engine Panel */}
         {result.humanPerception && (
           <div className="glass-panel rounded-xl md:rounded-2xl p-4 md:p-6 print:border-0 print:p-0">
@@ -403,6 +555,19 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
                )}
              </ul>
            )}
+           {result.promptProfile && (
+             <div className="mt-4 pt-3 border-t border-white/5 flex items-center gap-2 font-mono text-[10px] text-white/40 print:text-black print:border-black">
+               <span className="mr-auto truncate">PROMPT // {result.promptProfile.name} V{result.promptProfile.version}</span>
+               {onViewPrompt && (
+                 <button
+                   onClick={() => onViewPrompt(result.promptProfile!)}
+                   className="uppercase tracking-widest hover:text-neon-blue transition-colors print:hidden"
+                 >
+                   View Instructions
+                 </button>
+               )}
+             </div>
+           )}
         </div>
 
         {/* Action Buttons */}
@@ -419,17 +584,31 @@ const ResultView: React.FC<ResultViewProps> = ({ result, fileData, onReset }) =>
                JSON
              </button>
              <button 
-                onClick={handlePrint}
-                className="flex-1 py-4 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl transition-all text-xs font-mono uppercase tracking-wider flex items-center justify-center gap-2 active:scale-95 transform"
-                title="Print Report"
+                onClick={handleReport}
+                disabled={reportBusy}
+                className="flex-1 py-4 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl transition-all text-xs font-mono uppercase tracking-wider flex items-center justify-center gap-2 active:scale-95 transform disabled:opacity-50 disabled:cursor-wait"
+                title="Download signed PDF report"
               >
                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
                </svg>
-               PDF
+               {reportBusy ? 'Signing...' : 'PDF'}
              </button>
           </div>
           
+          {onReanalyze && (
+            <button
+              onClick={onReanalyze}
+              className="flex-1 py-4 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl transition-all text-xs font-mono uppercase tracking-wider flex items-center justify-center gap-2 active:scale-95 transform"
+              title="Run the detector again, ignoring the cached result"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              Re-analyze
+            </button>
+          )}
+
           <button 
             onClick={onReset}
             className="flex-1 group relative py-4 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl overflow-hidden transition-all active:scale-95 transform"
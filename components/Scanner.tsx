@@ -1,13 +1,23 @@
 import React, { useRef, useState } from 'react';
+import CameraCapture from './CameraCapture';
+import { PromptProfile } from '../types';
 
 interface ScannerProps {
   onScanStart: (files: File[]) => void;
+  onUrlScan: (url: string) => void;
+  profiles?: PromptProfile[]; // Prompt profiles to pick from, the picker is hidden without them
+  profileId?: string;
+  onProfileChange?: (id: string) => void;
 }
 
-const Scanner: React.FC<ScannerProps> = ({ onScanStart }) => {
+type ScanMode = 'file' | 'url' | 'camera';
+
+const Scanner: React.FC<ScannerProps> = ({ onScanStart, onUrlScan, profiles, profileId, onProfileChange }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<ScanMode>('file');
   const [isDragging, setIsDragging] = useState(false);
   const [previewFiles, setPreviewFiles] = useState<File[]>([]);
+  const [url, setUrl] = useState("");
 
   const handleFiles = (fileList: FileList | null) => {
     if (!fileList || fileList.length === 0) return;
@@ -40,9 +50,84 @@ const Scanner: React.FC<ScannerProps> = ({ onScanStart }) => {
     fileInputRef.current?.click();
   };
 
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (trimmed) onUrlScan(trimmed);
+  };
+
+  const modes: { label: string; value: ScanMode }[] = [
+    { label: 'FILES', value: 'file' },
+    { label: 'URL', value: 'url' },
+    { label: 'CAMERA', value: 'camera' },
+  ];
+
   return (
     <div className="flex flex-col items-center justify-center w-full max-w-2xl mx-auto p-4 md:p-6 animate-fade-in">
-      
+
+      {/* Input Mode Switch */}
+      <div className="flex items-center gap-1 p-1 glass-panel rounded-full mb-4">
+        {modes.map((m) => (
+          <button
+            key={m.value}
+            onClick={() => setMode(m.value)}
+            className={`
+              px-4 py-1.5 rounded-full text-[10px] md:text-xs font-mono tracking-widest transition-all duration-300
+              ${mode === m.value ? 'bg-white text-black' : 'text-white/50 hover:text-white hover:bg-white/5'}
+            `}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {profiles && profiles.length > 1 && onProfileChange && (
+        <label className="flex items-center gap-2 mb-4 font-mono text-[10px] text-white/40 tracking-widest">
+          PROFILE
+          <select
+            value={profileId}
+            onChange={(e) => onProfileChange(e.target.value)}
+            className="bg-black/40 border border-white/10 rounded-full px-3 py-1 text-white/80 outline-none focus:border-neon-blue/50"
+          >
+            {profiles.map(p => {
+              const latest = p.versions[p.versions.length - 1];
+              return <option key={p.id} value={p.id}>{latest.name} V{latest.version}</option>;
+            })}
+          </select>
+        </label>
+      )}
+
+      {mode === 'url' && (
+        <form
+          onSubmit={handleUrlSubmit}
+          className="relative w-full aspect-square md:aspect-video rounded-3xl border border-dashed border-white/20 flex flex-col items-center justify-center gap-6 p-6 md:p-12"
+        >
+          <div className="text-center">
+            <h3 className="text-lg md:text-xl font-light tracking-wide mb-2">Scan Remote Media</h3>
+            <p className="text-xs text-white/40 font-mono">PASTE AN IMAGE OR VIDEO LINK</p>
+          </div>
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://"
+            required
+            className="w-full bg-black/40 border border-white/10 focus:border-neon-blue/50 rounded-xl px-4 py-3 font-mono text-sm text-white placeholder-white/20 outline-none transition-colors"
+          />
+          <button
+            type="submit"
+            className="px-8 py-3 bg-white text-black font-mono text-xs font-bold tracking-widest rounded-full hover:bg-neon-blue transition-colors"
+          >
+            ANALYZE URL
+          </button>
+        </form>
+      )}
+
+      {mode === 'camera' && (
+        <CameraCapture onCapture={(file) => onScanStart([file])} />
+      )}
+
+      {mode === 'file' && (
       <div 
         className={`
           relative w-full aspect-square md:aspect-video rounded-3xl 
@@ -104,6 +189,7 @@ const Scanner: React.FC<ScannerProps> = ({ onScanStart }) => {
         <div className="absolute bottom-0 left-0 w-6 h-6 border-b border-l border-white/20 rounded-bl-2xl transition-colors group-hover:border-neon-blue pointer-events-none"></div>
         <div className="absolute bottom-0 right-0 w-6 h-6 border-b border-r border-white/20 rounded-br-2xl transition-colors group-hover:border-neon-blue pointer-events-none"></div>
       </div>
+      )}
     </div>
   );
 };
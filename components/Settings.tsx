@@ -0,0 +1,356 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppSettings, ConnectivityResult, PromptProfile, ReportVerification } from '../types';
+import { IMAGE_DIMENSION_RANGE, JPEG_QUALITY_RANGE, validateSettings, VIDEO_FRAME_INTERVAL_RANGE, VIDEO_MAX_FRAMES_RANGE } from '../services/settingsService';
+import { formatFingerprint } from '../services/reportSigning';
+import { BUILD_TIME_ENSEMBLE_PASSES } from '../services/detectorService';
+
+interface SettingsProps {
+  settings: AppSettings;
+  profiles: PromptProfile[];
+  hasBuildKey: boolean; // A GEMINI_API_KEY was baked in at build time
+  onSave: (settings: AppSettings) => void;
+  onTest: (settings: AppSettings) => Promise<ConnectivityResult>;
+  onTestServer: (settings: AppSettings) => Promise<ConnectivityResult>;
+  reportKey?: { fingerprint: string; createdAt: string }; // This browser's report signing key, once loaded
+  onVerifyReport: (file: File) => Promise<ReportVerification>;
+}
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="flex flex-col gap-1.5">
+    <span className="text-[10px] font-mono text-white/40 tracking-widest">{label}</span>
+    {children}
+    {hint && <span className="text-[10px] text-white/30">{hint}</span>}
+  </label>
+);
+
+// Result is cleared whenever the draft it was run against changes
+const ConnectionTest: React.FC<{ label: string; disabled: boolean; draft: AppSettings; onRun: () => Promise<ConnectivityResult> }> = ({ label, disabled, draft, onRun }) => {
+  const [testing, setTesting] = useState(false);
+  const [test, setTest] = useState<ConnectivityResult | null>(null);
+
+  useEffect(() => setTest(null), [draft]);
+
+  const handleTest = async () => {
+    setTesting(true);
+    try {
+      setTest(await onRun());
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <button
+        onClick={handleTest}
+        disabled={testing || disabled}
+        className="px-4 py-2 border border-white/10 hover:bg-white/5 disabled:opacity-30 rounded-lg text-xs font-mono tracking-wider transition-colors"
+      >
+        {testing ? 'TESTING...' : label}
+      </button>
+      {test && (
+        <span className={`font-mono text-[10px] ${test.ok ? 'text-neon-green' : 'text-neon-red'} min-w-0 break-words`}>
+          {test.ok ? 'OK' : 'FAILED'} // {test.message}{test.latencyMs > 0 ? ` // ${test.latencyMs}MS` : ''}
+        </span>
+      )}
+    </div>
+  );
+};
+
+const VERIFICATION_STYLE: Record<ReportVerification['status'], { label: string; className: string }> = {
+  valid: { label: 'SIGNATURE VALID', className: 'text-neon-green' },
+  tampered: { label: 'MODIFIED AFTER SIGNING', className: 'text-neon-red' },
+  unsigned: { label: 'NOT SIGNED', className: 'text-yellow-400' },
+};
+
+const ReportVerifier: React.FC<{ onVerify: (file: File) => Promise<ReportVerification> }> = ({ onVerify }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [checked, setChecked] = useState<{ name: string; verification: ReportVerification } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      setChecked({ name: file.name, verification: await onVerify(file) });
+    } catch (err) {
+      setChecked(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const verification = checked?.verification;
+  const style = verification && VERIFICATION_STYLE[verification.status];
+
+  return (
+    <div className="space-y-3">
+      <input ref={inputRef} type="file" accept="application/pdf,.pdf" className="hidden" onChange={handleFile} />
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="px-4 py-2 border border-white/10 hover:bg-white/5 rounded-lg text-xs font-mono tracking-wider transition-colors"
+      >
+        VERIFY PDF
+      </button>
+      {error && <p className="font-mono text-[10px] text-neon-red">! {error}</p>}
+      {checked && verification && style && (
+        <div className="bg-black/40 border border-white/10 rounded-lg p-3 space-y-2 font-mono text-[10px]">
+          <div className="flex flex-wrap justify-between gap-2">
+            <span className="text-white/60 break-all">{checked.name}</span>
+            <span className={style.className}>{style.label}</span>
+          </div>
+          {verification.keyFingerprint && (
+            <p className="text-white/40">
+              KEY {formatFingerprint(verification.keyFingerprint)}
+              <span className={verification.ownKey ? 'text-neon-blue' : 'text-white/30'}> // {verification.ownKey ? 'THIS BROWSER' : 'OTHER SIGNER, COMPARE WITH THE PUBLISHED FINGERPRINT'}</span>
+            </p>
+          )}
+          {verification.manifest && (
+            <>
+              <p className="text-white/40">REPORT {verification.manifest.reportId} // {verification.manifest.generatedAt}</p>
+              <ul className="space-y-1">
+                {verification.manifest.entries.map((entry, idx) => (
+                  <li key={idx} className="flex justify-between gap-2">
+                    <span className="text-white/60 truncate">{entry.fileName ?? `ITEM ${idx + 1}`}</span>
+                    <span className={entry.result.isAI ? 'text-neon-red' : 'text-neon-green'}>{entry.result.verdict} // {Math.round(entry.result.score)}%</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          {verification.issues.map(issue => <p key={issue} className="text-neon-red">! {issue}</p>)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const inputClass = "bg-black/40 border border-white/10 focus:border-neon-blue/50 rounded-lg px-3 py-2 text-sm font-mono text-white placeholder-white/20 outline-none transition-colors";
+
+const Settings: React.FC<SettingsProps> = ({ settings, profiles, hasBuildKey, onSave, onTest, onTestServer, reportKey, onVerifyReport }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [showServerKey, setShowServerKey] = useState(false);
+
+  useEffect(() => setDraft(settings), [settings]);
+
+  const errors = validateSettings(draft);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto p-4 md:p-10 animate-fade-in">
+      <div className="mb-8">
+        <h2 className="text-2xl md:text-3xl font-light mb-2 tracking-tight">Settings</h2>
+        <p className="text-white/40 font-mono text-xs">STORED IN THIS BROWSER ONLY</p>
+      </div>
+
+      <div className="glass-panel rounded-2xl p-4 md:p-6 mb-6 space-y-5">
+        <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest">Gemini</h3>
+        <Field
+          label="API KEY"
+          hint={draft.apiKey ? 'Saved in localStorage. Anyone with access to this browser profile can read it.' : hasBuildKey ? 'Empty: using the key the app was built with.' : 'Empty: no key configured, Gemini scans will fail.'}
+        >
+          <div className="flex gap-2">
+            <input
+              type={showKey ? 'text' : 'password'}
+              value={draft.apiKey}
+              onChange={(e) => update('apiKey', e.target.value)}
+              placeholder={hasBuildKey ? 'Using build-time key' : 'AIza...'}
+              autoComplete="off"
+              spellCheck={false}
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <button
+              onClick={() => setShowKey(!showKey)}
+              className="px-3 border border-white/10 hover:bg-white/5 rounded-lg text-[10px] font-mono tracking-wider transition-colors"
+            >
+              {showKey ? 'HIDE' : 'SHOW'}
+            </button>
+          </div>
+        </Field>
+        <Field label="MODEL" hint="Used by the gemini detector and by plain &quot;gemini&quot; ensemble passes.">
+          <input
+            value={draft.model}
+            onChange={(e) => update('model', e.target.value)}
+            spellCheck={false}
+            className={inputClass}
+          />
+        </Field>
+        <ConnectionTest label="TEST CONNECTION" disabled={errors.length > 0} draft={draft} onRun={() => onTest(draft)} />
+      </div>
+
+      <div className="glass-panel rounded-2xl p-4 md:p-6 mb-6 space-y-5">
+        <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest">Pixivera Server</h3>
+        <p className="text-[10px] text-white/30">
+          Optional. With a server URL, scans run on a Pixivera API server (npm run api) with its own detector, key and prompt profile, and the Gemini settings above are not used.
+        </p>
+        <Field label="SERVER URL" hint={draft.serverUrl ? undefined : 'Empty: detectors run from this browser.'}>
+          <input
+            value={draft.serverUrl}
+            onChange={(e) => update('serverUrl', e.target.value)}
+            placeholder="http://localhost:8791"
+            spellCheck={false}
+            className={inputClass}
+          />
+        </Field>
+        <Field label="SERVER KEY" hint="One of the server's PIXIVERA_API_KEYS. Saved in localStorage.">
+          <div className="flex gap-2">
+            <input
+              type={showServerKey ? 'text' : 'password'}
+              value={draft.serverKey}
+              onChange={(e) => update('serverKey', e.target.value)}
+              autoComplete="off"
+              spellCheck={false}
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <button
+              onClick={() => setShowServerKey(!showServerKey)}
+              className="px-3 border border-white/10 hover:bg-white/5 rounded-lg text-[10px] font-mono tracking-wider transition-colors"
+            >
+              {showServerKey ? 'HIDE' : 'SHOW'}
+            </button>
+          </div>
+        </Field>
+        <ConnectionTest label="TEST SERVER" disabled={!draft.serverUrl.trim() || errors.length > 0} draft={draft} onRun={() => onTestServer(draft)} />
+      </div>
+
+      <div className="glass-panel rounded-2xl p-4 md:p-6 mb-6 space-y-5">
+        <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest">Ensemble</h3>
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={draft.ensembleEnabled}
+            onChange={(e) => update('ensembleEnabled', e.target.checked)}
+            className="accent-[#00f3ff]"
+          />
+          <span className="text-xs font-mono tracking-wider text-white/70">RUN EVERY SCAN AS AN ENSEMBLE</span>
+        </label>
+        <p className="text-[10px] text-white/30">
+          Each pass analyzes the same media and the result reports their mean score, spread and agreement. Takes over from the server above, which can still be one of the passes.
+        </p>
+        <Field
+          label="PASSES"
+          hint="Comma-separated: gemini, gemini:<model>, local-http, mock, server, local-forensics. Add @profile:<id> to a gemini pass to keep it on that prompt profile whatever profile the scan uses."
+        >
+          <input
+            value={draft.ensemblePasses}
+            onChange={(e) => update('ensemblePasses', e.target.value)}
+            placeholder={BUILD_TIME_ENSEMBLE_PASSES}
+            spellCheck={false}
+            className={inputClass}
+          />
+        </Field>
+      </div>
+
+      <div className="glass-panel rounded-2xl p-4 md:p-6 mb-6 space-y-5">
+        <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest">Analysis</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+          <Field label="MAX IMAGE DIMENSION (PX)" hint="Longest edge sent to the detector. Larger keeps more detail but uses more memory and tokens.">
+            <input
+              type="number"
+              min={IMAGE_DIMENSION_RANGE[0]}
+              max={IMAGE_DIMENSION_RANGE[1]}
+              step={128}
+              value={draft.maxImageDimension}
+              onChange={(e) => update('maxImageDimension', Number(e.target.value))}
+              className={inputClass}
+            />
+          </Field>
+          <Field label={`JPEG QUALITY // ${Math.round(draft.jpegQuality * 100)}%`} hint="Re-encode quality of uploaded images. Compression can hide or mimic artifacts.">
+            <input
+              type="range"
+              min={JPEG_QUALITY_RANGE[0]}
+              max={JPEG_QUALITY_RANGE[1]}
+              step={0.01}
+              value={draft.jpegQuality}
+              onChange={(e) => update('jpegQuality', Number(e.target.value))}
+              className="accent-[#00f3ff] mt-2"
+            />
+          </Field>
+          <Field label="VIDEO FRAME INTERVAL (S)" hint="Seconds between the keyframes sampled from a video. Shorter catches brief glitches.">
+            <input
+              type="number"
+              min={VIDEO_FRAME_INTERVAL_RANGE[0]}
+              max={VIDEO_FRAME_INTERVAL_RANGE[1]}
+              step={0.25}
+              value={draft.videoFrameInterval}
+              onChange={(e) => update('videoFrameInterval', Number(e.target.value))}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="VIDEO MAX FRAMES" hint="Keyframes sent per video at most. Long clips are sampled more sparsely to stay under it.">
+            <input
+              type="number"
+              min={VIDEO_MAX_FRAMES_RANGE[0]}
+              max={VIDEO_MAX_FRAMES_RANGE[1]}
+              step={1}
+              value={draft.videoMaxFrames}
+              onChange={(e) => update('videoMaxFrames', Number(e.target.value))}
+              className={inputClass}
+            />
+          </Field>
+        </div>
+        <Field label="DEFAULT PROMPT PROFILE" hint="Selected on startup. The scan screen can still switch profiles per scan.">
+          <select
+            value={draft.defaultProfileId}
+            onChange={(e) => update('defaultProfileId', e.target.value)}
+            className={inputClass}
+          >
+            {profiles.map(p => {
+              const latest = p.versions[p.versions.length - 1];
+              return <option key={p.id} value={p.id}>{latest.name}</option>;
+            })}
+          </select>
+        </Field>
+        <p className="text-[10px] text-white/30">
+          Changing the image or video options scores previously scanned files again instead of reusing their cached results.
+        </p>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mb-4 space-y-1">
+          {errors.map(error => <li key={error} className="font-mono text-[10px] text-neon-red">! {error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!dirty || errors.length > 0}
+          className="px-4 py-2 bg-neon-blue/10 border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/20 disabled:opacity-30 rounded-lg text-xs font-mono tracking-wider transition-colors"
+        >
+          SAVE SETTINGS
+        </button>
+        <button
+          onClick={() => setDraft(settings)}
+          disabled={!dirty}
+          className="px-4 py-2 border border-white/10 hover:bg-white/5 disabled:opacity-30 rounded-lg text-xs font-mono tracking-wider transition-colors"
+        >
+          DISCARD
+        </button>
+      </div>
+
+      <div className="glass-panel rounded-2xl p-4 md:p-6 mt-10 space-y-5">
+        <h3 className="text-white/40 font-mono text-xs uppercase tracking-widest">Report Signing</h3>
+        <p className="text-[10px] text-white/30">
+          PDF reports are signed with a key generated in this browser. It cannot be exported, clearing site data replaces it.
+          Share the fingerprint with recipients so they can tell your reports apart from anyone else's.
+        </p>
+        <Field label="KEY FINGERPRINT">
+          <span className="font-mono text-sm text-neon-blue break-all">
+            {reportKey ? formatFingerprint(reportKey.fingerprint) : 'LOADING...'}
+          </span>
+        </Field>
+        {reportKey && <p className="font-mono text-[10px] text-white/30 break-all">SHA-256 {reportKey.fingerprint} // CREATED {reportKey.createdAt}</p>}
+        <ReportVerifier onVerify={onVerifyReport} />
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
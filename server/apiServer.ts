@@ -0,0 +1,415 @@
+import { randomUUID } from "node:crypto";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { appendFile, readFile } from "node:fs/promises";
+import { AnalysisResult, ApiHistoryPage, ApiJob, ApiResult, ApiSubmission, MediaPayload } from "../types";
+import { DEFAULT_BATCH_OPTIONS, isRateLimitError } from "../services/batchQueue";
+import { BUILT_IN_PROFILES, groupProfiles, resolveProfile } from "../services/promptProfiles";
+import { fileNameFromUrl, parseHttpUrl } from "../services/urlFetchService";
+import { createKeyring } from "./accessKeys";
+import { analyzeBuffer, analyzeFrames, NodeAnalysisOptions, nodeAnalysisOptions } from "./nodeAnalysis";
+import { buildOpenApiDocument } from "./openapi";
+import { createRateLimiter } from "./rateLimiter";
+import { safeFetch } from "./safeFetch";
+import { createSemaphore } from "./semaphore";
+
+/**
+ * PIXIVERA API SERVER
+ * HTTP API for moderation tooling and for the app itself (the "server"
+ * detector): submit media, poll the job, fetch the result, query history.
+ * The OpenAPI document is served at /v1/openapi.json.
+ *
+ *   PIXIVERA_API_KEYS           required, comma-separated; sent as "Authorization: Bearer <key>" or "X-API-Key"
+ *   API_PORT                    (default 8791)
+ *   API_RATE_LIMIT              submissions per key per window (default 60)
+ *   API_RATE_WINDOW_SECONDS     (default 3600)
+ *   API_CONCURRENCY             analyses running at once (default 2)
+ *   API_HISTORY_FILE            results, one JSON object per line (default api-history.local.jsonl)
+ *   API_MAX_UPLOAD_MB           request body limit, also applied to fetched URLs (default 25)
+ *                               URL submissions are only fetched from public hosts, on every redirect
+ *   API_CORS_ORIGIN             Access-Control-Allow-Origin for browser clients (default *)
+ *
+ * Analysis uses DETECTOR_PROVIDER, GEMINI_API_KEY, GEMINI_MODEL, PROMPT_PROFILE,
+ * MAX_IMAGE_DIMENSION and JPEG_QUALITY, see nodeAnalysis.
+ */
+
+const JOB_TTL_MS = 60 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 30000;
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+// What a job analyzes, after the request has been validated
+type JobMedia =
+  | { kind: 'url'; url: string }
+  | { kind: 'bytes'; bytes: Buffer; mimeType: string }
+  | { kind: 'frames'; payload: Extract<MediaPayload, { kind: 'frames' }> };
+
+class HttpError extends Error {
+  status: number;
+  headers?: Record<string, string>;
+
+  constructor(status: number, message: string, headers?: Record<string, string>) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+const env = process.env;
+const keyring = createKeyring(env.PIXIVERA_API_KEYS);
+if (keyring.hashes.size === 0) throw new Error("PIXIVERA_API_KEYS is not set, the API would be open to anyone");
+
+const options = nodeAnalysisOptions();
+const port = Number(env.API_PORT) || 8791;
+const limiter = createRateLimiter(Number(env.API_RATE_LIMIT) || 60, (Number(env.API_RATE_WINDOW_SECONDS) || 3600) * 1000);
+const withSlot = createSemaphore(Math.max(1, Number(env.API_CONCURRENCY) || 2));
+const historyFile = env.API_HISTORY_FILE || "api-history.local.jsonl";
+const maxBodyBytes = (Number(env.API_MAX_UPLOAD_MB) || 25) * 1024 * 1024;
+const corsOrigin = env.API_CORS_ORIGIN || "*";
+
+// ---- History ----
+
+const jobs = new Map<string, ApiJob>();
+const results: ApiResult[] = []; // Oldest first, as appended to the history file
+const resultsById = new Map<string, ApiResult>();
+
+const loadHistory = async () => {
+  let text: string;
+  try {
+    text = await readFile(historyFile, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    return;
+  }
+  text.split('\n').filter(Boolean).forEach((line, idx) => {
+    try {
+      const result = JSON.parse(line) as ApiResult;
+      results.push(result);
+      resultsById.set(result.id, result);
+    } catch {
+      console.warn(`${historyFile}:${idx + 1} is not valid JSON, skipped`);
+    }
+  });
+};
+
+const storeResult = async (result: ApiResult) => {
+  await appendFile(historyFile, `${JSON.stringify(result)}\n`);
+  results.push(result);
+  resultsById.set(result.id, result);
+};
+
+const numberParam = (params: URLSearchParams, name: string, min: number, max: number): number | undefined => {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < min || n > max) throw new HttpError(400, `${name} must be a number between ${min} and ${max}`);
+  return n;
+};
+
+const timeParam = (params: URLSearchParams, name: string): number | undefined => {
+  const raw = params.get(name);
+  if (!raw) return undefined;
+  const time = Date.parse(raw);
+  if (Number.isNaN(time)) throw new HttpError(400, `${name} must be an ISO 8601 date`);
+  return time;
+};
+
+const queryHistory = (params: URLSearchParams): ApiHistoryPage => {
+  const q = params.get('q')?.trim().toLowerCase();
+  const isAI = params.get('isAI');
+  if (isAI !== null && isAI !== 'true' && isAI !== 'false') throw new HttpError(400, "isAI must be true or false");
+  const minScore = numberParam(params, 'minScore', 0, 100);
+  const maxScore = numberParam(params, 'maxScore', 0, 100);
+  const since = timeParam(params, 'since');
+  const until = timeParam(params, 'until');
+  const sourceHash = params.get('sourceHash')?.toLowerCase();
+  const offset = Math.floor(numberParam(params, 'offset', 0, Number.MAX_SAFE_INTEGER) ?? 0);
+  const limit = Math.floor(numberParam(params, 'limit', 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE);
+
+  const matches = results.filter(r => {
+    const time = Date.parse(r.timestamp);
+    if (isAI !== null && r.isAI !== (isAI === 'true')) return false;
+    if (minScore !== undefined && r.score < minScore) return false;
+    if (maxScore !== undefined && r.score > maxScore) return false;
+    if (since !== undefined && !(time >= since)) return false;
+    if (until !== undefined && !(time < until)) return false;
+    if (sourceHash && r.sourceHash !== sourceHash) return false;
+    if (q) {
+      const haystack = [r.fileName, r.verdict, r.modelSignature?.name, r.sourceUrl, r.finalUrl].filter(Boolean).join('\n').toLowerCase();
+      if (!haystack.includes(q)) return false;
+    }
+    return true;
+  }).reverse();
+
+  return { items: matches.slice(offset, offset + limit), total: matches.length, offset, limit };
+};
+
+// ---- Jobs ----
+
+// Only public hosts are fetched, see safeFetch; the failure becomes the job's error
+const fetchMedia = (url: string) =>
+  safeFetch(url, {
+    maxBytes: maxBodyBytes,
+    timeoutMs: FETCH_TIMEOUT_MS,
+    accept: mimeType => mimeType.startsWith('image/') || mimeType.startsWith('video/'),
+  });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Same backoff as app batches, so a busy detector quota delays jobs instead of failing them
+const withRetries = async <T>(task: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (attempt >= DEFAULT_BATCH_OPTIONS.maxRetries || !isRateLimitError(err)) throw err;
+      await sleep(DEFAULT_BATCH_OPTIONS.baseDelayMs * 2 ** attempt);
+    }
+  }
+};
+
+const runJob = async (job: ApiJob, media: JobMedia, jobOptions: NodeAnalysisOptions) => {
+  try {
+    let mimeType: string;
+    let origin: Pick<AnalysisResult, 'sourceUrl' | 'finalUrl'> = {};
+    let analyze: () => Promise<AnalysisResult>;
+
+    if (media.kind === 'frames') {
+      mimeType = media.payload.sourceMimeType;
+      analyze = () => analyzeFrames(media.payload, jobOptions);
+    } else if (media.kind === 'url') {
+      const fetched = await fetchMedia(media.url);
+      mimeType = fetched.mimeType;
+      origin = { sourceUrl: job.sourceUrl, finalUrl: fetched.finalUrl };
+      job.fileName = fileNameFromUrl(fetched.finalUrl, fetched.mimeType);
+      analyze = () => analyzeBuffer(fetched.bytes, fetched.mimeType, jobOptions);
+    } else {
+      mimeType = media.mimeType;
+      analyze = () => analyzeBuffer(media.bytes, media.mimeType, jobOptions);
+    }
+
+    const result = await withSlot(() => {
+      job.status = 'running';
+      job.startedAt = new Date().toISOString();
+      return withRetries(analyze);
+    });
+    const stored: ApiResult = { ...result, ...origin, id: randomUUID(), jobId: job.id, fileName: job.fileName, mimeType };
+    await storeResult(stored);
+    job.status = 'done';
+    job.resultId = stored.id;
+    console.log(`job ${job.id}: ${result.verdict} (${Math.round(result.score)}%)`);
+  } catch (err) {
+    job.status = 'failed';
+    job.error = err instanceof Error ? err.message : String(err);
+    console.error(`job ${job.id} failed:`, err);
+  }
+  job.finishedAt = new Date().toISOString();
+  setTimeout(() => jobs.delete(job.id), JOB_TTL_MS).unref();
+};
+
+// ---- Requests ----
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    if (Number(req.headers['content-length']) > maxBodyBytes) {
+      reject(new HttpError(413, `Request body is over ${maxBodyBytes / 1024 / 1024}MB`));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBodyBytes) {
+        reject(new HttpError(413, `Request body is over ${maxBodyBytes / 1024 / 1024}MB`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const profileOptions = (profile: unknown): NodeAnalysisOptions => {
+  if (profile === undefined || profile === null || profile === '') return options;
+  if (typeof profile !== 'string' || !BUILT_IN_PROFILES.some(p => p.id === profile)) {
+    throw new HttpError(400, `Unknown profile, expected one of ${BUILT_IN_PROFILES.map(p => p.id).join(', ')}`);
+  }
+  return { ...options, profile: resolveProfile(groupProfiles([]), profile) };
+};
+
+const isMediaType = (mimeType: unknown): mimeType is string =>
+  typeof mimeType === 'string' && (mimeType.startsWith('image/') || mimeType.startsWith('video/'));
+
+// Multipart uses the web FormData parser Node ships with fetch, rather than a dependency
+const parseMultipart = async (req: IncomingMessage, body: Buffer) => {
+  const form = await new Request("http://localhost/", {
+    method: "POST",
+    headers: { "Content-Type": req.headers['content-type'] ?? '' },
+    body,
+  }).formData().catch(() => {
+    throw new HttpError(400, "Unreadable multipart body");
+  });
+  const file = form.get('file');
+  if (!file || typeof file === 'string') throw new HttpError(400, "Multipart uploads need a `file` part");
+  if (!isMediaType(file.type)) throw new HttpError(400, `Upload an image or video (got ${file.type || 'no Content-Type'})`);
+  return {
+    media: { kind: 'bytes', bytes: Buffer.from(await file.arrayBuffer()), mimeType: file.type } as JobMedia,
+    fileName: file.name || undefined,
+    jobOptions: profileOptions(form.get('profile')),
+  };
+};
+
+const parseJson = (body: Buffer) => {
+  let submission: ApiSubmission;
+  try {
+    submission = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, "Body is not valid JSON");
+  }
+  if (!submission || typeof submission !== 'object') throw new HttpError(400, "Body must be a JSON object");
+  const jobOptions = profileOptions(submission.profile);
+
+  if ('url' in submission) {
+    let url: URL;
+    try {
+      url = parseHttpUrl(String(submission.url));
+    } catch (err) {
+      throw new HttpError(400, (err as Error).message);
+    }
+    return { media: { kind: 'url', url: url.href } as JobMedia, sourceUrl: url.href, jobOptions };
+  }
+  if ('data' in submission) {
+    if (!isMediaType(submission.mimeType) || typeof submission.data !== 'string') {
+      throw new HttpError(400, "Inline submissions need an image or video mimeType and base64 data");
+    }
+    return {
+      media: { kind: 'bytes', bytes: Buffer.from(submission.data, 'base64'), mimeType: submission.mimeType } as JobMedia,
+      fileName: submission.fileName,
+      jobOptions,
+    };
+  }
+  if ('frames' in submission) {
+    const { frames, durationSeconds, sourceMimeType } = submission;
+    const valid = Array.isArray(frames) && frames.length > 0 && Number.isFinite(durationSeconds) && isMediaType(sourceMimeType)
+      && frames.every(f => Number.isFinite(f?.timestamp) && isMediaType(f?.mimeType) && typeof f?.data === 'string');
+    if (!valid) throw new HttpError(400, "Frame submissions need sourceMimeType, durationSeconds and frames of { timestamp, mimeType, data }");
+    const payload: JobMedia = {
+      kind: 'frames',
+      payload: {
+        kind: 'frames',
+        durationSeconds,
+        sourceMimeType,
+        frames: frames.map(f => ({ timestamp: f.timestamp, mimeType: f.mimeType, base64: f.data })),
+      },
+    };
+    return { media: payload, fileName: submission.fileName, jobOptions };
+  }
+  throw new HttpError(400, "Submit a `url`, inline `data` or sampled `frames`, or upload a multipart `file`");
+};
+
+// Only valid submissions count against the key's rate limit
+const submit = async (req: IncomingMessage, keyHash: string): Promise<ApiJob> => {
+  const body = await readBody(req);
+  const isMultipart = (req.headers['content-type'] ?? '').startsWith('multipart/form-data');
+  const { media, fileName, sourceUrl, jobOptions } = isMultipart
+    ? { sourceUrl: undefined, ...(await parseMultipart(req, body)) }
+    : { sourceUrl: undefined, fileName: undefined, ...parseJson(body) };
+
+  const decision = limiter.take(keyHash);
+  if (!decision.allowed) {
+    const seconds = Math.ceil(decision.retryAfterMs / 1000);
+    throw new HttpError(429, `Rate limit reached, retry in ${seconds}s`, { 'Retry-After': String(seconds) });
+  }
+
+  const job: ApiJob = {
+    id: randomUUID(),
+    status: 'queued',
+    createdAt: new Date().toISOString(),
+    fileName: typeof fileName === 'string' ? fileName : undefined,
+    sourceUrl,
+  };
+  jobs.set(job.id, job);
+  runJob(job, media, jobOptions);
+  return job;
+};
+
+const authenticate = (req: IncomingMessage): string => {
+  const header = req.headers.authorization;
+  const key = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : req.headers['x-api-key'];
+  const keyHash = typeof key === 'string' && key ? keyring.match(key) : undefined;
+  if (!keyHash) throw new HttpError(401, "Missing or unknown API key");
+  return keyHash;
+};
+
+const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url ?? '/', "http://localhost");
+  const path = url.pathname.replace(/\/+$/, '');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-API-Key',
+      'Access-Control-Max-Age': '86400',
+    }).end();
+    return;
+  }
+  if (req.method === 'GET' && path === '/v1/openapi.json') {
+    send(res, 200, buildOpenApiDocument());
+    return;
+  }
+
+  const keyHash = authenticate(req);
+  const [, version, resource, id, ...rest] = path.split('/');
+  if (version !== 'v1' || rest.length > 0) throw new HttpError(404, "Not found");
+
+  if (req.method === 'POST' && resource === 'analyses' && !id) {
+    const job = await submit(req, keyHash);
+    send(res, 202, job, { Location: `/v1/jobs/${job.id}` });
+    return;
+  }
+  if (req.method === 'GET' && resource === 'jobs' && id) {
+    const job = jobs.get(id);
+    if (!job) throw new HttpError(404, "Unknown job, or it finished over an hour ago");
+    send(res, 200, job);
+    return;
+  }
+  if (req.method === 'GET' && resource === 'results' && id) {
+    const result = resultsById.get(id);
+    if (!result) throw new HttpError(404, "Unknown result");
+    send(res, 200, result);
+    return;
+  }
+  if (req.method === 'GET' && resource === 'history' && !id) {
+    send(res, 200, queryHistory(url.searchParams));
+    return;
+  }
+  throw new HttpError(404, "Not found");
+};
+
+const main = async () => {
+  await loadHistory();
+  createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+    handle(req, res).catch(err => {
+      if (err instanceof HttpError) {
+        if (!res.headersSent) send(res, err.status, { error: err.message }, err.headers);
+        return;
+      }
+      console.error(`${req.method} ${req.url} failed:`, err);
+      if (!res.headersSent) send(res, 500, { error: "Internal error" });
+    });
+  }).listen(port, () => {
+    console.log(`Pixivera API on :${port} // ${results.length} results in ${historyFile} // profile ${options.profile?.name ?? 'none'}`);
+  });
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,213 @@
+import { createWriteStream } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+import { extname, relative, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { glob, isDynamicPattern } from "tinyglobby";
+import { AnalysisResult } from "../types";
+import { createBatchQueue, DEFAULT_BATCH_OPTIONS } from "../services/batchQueue";
+import { BUILT_IN_PROFILES, groupProfiles, resolveProfile } from "../services/promptProfiles";
+import { analyzeBuffer, nodeAnalysisOptions } from "./nodeAnalysis";
+
+/**
+ * PIXIVERA CLI
+ * Scans files, directories (recursively) and globs with the same detectors as
+ * the app and writes one record per file as JSON Lines or CSV.
+ *
+ *   npm run scan -- <path|glob>... [--format jsonl|csv] [--output file]
+ *                   [--concurrency n] [--fail-above score] [--profile id]
+ *
+ * Exit codes: 0 all files scanned, 1 usage error or a file failed,
+ * 2 a score was above --fail-above (takes precedence over failures).
+ */
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png', '.webp': 'image/webp',
+  '.gif': 'image/gif', '.bmp': 'image/bmp', '.tif': 'image/tiff', '.tiff': 'image/tiff',
+  '.heic': 'image/heic', '.heif': 'image/heif', '.avif': 'image/avif',
+  '.mp4': 'video/mp4', '.mov': 'video/quicktime', '.webm': 'video/webm', '.m4v': 'video/x-m4v',
+};
+
+const CSV_COLUMNS = ['file', 'score', 'isAI', 'verdict', 'modelSignature', 'modelConfidence', 'watermarks', 'regions', 'detectorVersion', 'promptProfile', 'sourceHash', 'error'] as const;
+
+const USAGE = `Usage: npm run scan -- <path|glob>... [options]
+
+  -f, --format <jsonl|csv>   Output format (default: from --output extension, else jsonl)
+  -o, --output <file>        Write results to a file instead of stdout
+  -c, --concurrency <n>      Files analyzed at once (default ${DEFAULT_BATCH_OPTIONS.concurrency})
+      --fail-above <score>   Exit with code 2 if any score (0-100) is above this
+  -p, --profile <id>         Built-in prompt profile: ${BUILT_IN_PROFILES.map(p => p.id).join(', ')}
+      --max-dimension <px>   Longest image edge sent to the detector
+      --quality <0-1>        JPEG re-encode quality
+  -q, --quiet                No progress on stderr
+  -h, --help
+
+Directories are scanned recursively for ${Object.keys(MIME_TYPES).join(' ')} files.
+Detector configuration comes from the environment, as for the bot: DETECTOR_PROVIDER, GEMINI_API_KEY, GEMINI_MODEL.`;
+
+const CLI_OPTIONS = {
+  format: { type: 'string', short: 'f' },
+  output: { type: 'string', short: 'o' },
+  concurrency: { type: 'string', short: 'c' },
+  'fail-above': { type: 'string' },
+  profile: { type: 'string', short: 'p' },
+  'max-dimension': { type: 'string' },
+  quality: { type: 'string' },
+  quiet: { type: 'boolean', short: 'q' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+interface ScanRecord {
+  file: string;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// `npm run` changes into the package directory, INIT_CWD is where the command was typed
+const baseDir = process.env.INIT_CWD || process.cwd();
+
+const mimeTypeOf = (path: string) => MIME_TYPES[extname(path).toLowerCase()];
+
+const numberOption = (value: string | undefined, name: string, min: number, max: number): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min || n > max) throw new UsageError(`--${name} must be a number between ${min} and ${max}`);
+  return n;
+};
+
+// Explicit files are kept whatever their extension, so an unsupported one is reported rather than silently skipped
+const expandInputs = async (inputs: string[]): Promise<string[]> => {
+  const files = new Set<string>();
+  for (const input of inputs) {
+    if (isDynamicPattern(input)) {
+      const matches = await glob(input, { cwd: baseDir, absolute: true, onlyFiles: true });
+      matches.filter(mimeTypeOf).forEach(m => files.add(m));
+      continue;
+    }
+    const path = resolve(baseDir, input);
+    const info = await stat(path).catch(() => null);
+    if (!info) throw new UsageError(`No such file or directory: ${input}`);
+    if (info.isDirectory()) {
+      const matches = await glob('**/*', { cwd: path, absolute: true, onlyFiles: true });
+      matches.filter(mimeTypeOf).forEach(m => files.add(m));
+    } else {
+      files.add(path);
+    }
+  }
+  return Array.from(files).sort();
+};
+
+const csvCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = ({ file, result, error }: ScanRecord): string => {
+  const row: Record<typeof CSV_COLUMNS[number], unknown> = {
+    file,
+    score: result?.score,
+    isAI: result?.isAI,
+    verdict: result?.verdict,
+    modelSignature: result?.modelSignature.name,
+    modelConfidence: result?.modelSignature.confidence,
+    watermarks: result?.watermark.signatures.map(s => s.provider).join('; '),
+    regions: result?.suspiciousRegions.length,
+    detectorVersion: result?.detectorVersion,
+    promptProfile: result?.promptProfile && `${result.promptProfile.id}@${result.promptProfile.version}`,
+    sourceHash: result?.sourceHash,
+    error,
+  };
+  return CSV_COLUMNS.map(column => csvCell(row[column])).join(',');
+};
+
+const toJsonLine = ({ file, result, error }: ScanRecord): string =>
+  JSON.stringify(result ? { file, ...result } : { file, error });
+
+const parseCommandLine = () => {
+  try {
+    return parseArgs({ allowPositionals: true, options: CLI_OPTIONS });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseCommandLine();
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) throw new UsageError("No input files given");
+
+  const format = values.format ?? (values.output && extname(values.output).toLowerCase() === '.csv' ? 'csv' : 'jsonl');
+  if (format !== 'jsonl' && format !== 'csv') throw new UsageError(`Unknown format "${format}", expected jsonl or csv`);
+  const concurrency = numberOption(values.concurrency, 'concurrency', 1, 32) ?? DEFAULT_BATCH_OPTIONS.concurrency;
+  const failAbove = numberOption(values['fail-above'], 'fail-above', 0, 100);
+
+  const options = nodeAnalysisOptions();
+  if (values.profile) {
+    if (!BUILT_IN_PROFILES.some(p => p.id === values.profile)) throw new UsageError(`Unknown profile "${values.profile}"`);
+    options.profile = resolveProfile(groupProfiles([]), values.profile);
+  }
+  options.maxImageDimension = numberOption(values['max-dimension'], 'max-dimension', 256, 4096) ?? options.maxImageDimension;
+  options.jpegQuality = numberOption(values.quality, 'quality', 0.5, 1) ?? options.jpegQuality;
+
+  const files = await expandInputs(positionals);
+  if (files.length === 0) throw new UsageError("No supported media files found");
+
+  const out = values.output ? createWriteStream(resolve(baseDir, values.output)) : process.stdout;
+  const write = (line: string) => out.write(`${line}\n`);
+  if (format === 'csv') write(CSV_COLUMNS.join(','));
+
+  const displayName = (path: string) => relative(baseDir, path) || path;
+  const scanOne = async (path: string): Promise<AnalysisResult> => {
+    const mimeType = mimeTypeOf(path);
+    if (!mimeType) throw new Error(`Unsupported file type ${extname(path) || '(none)'}`);
+    return analyzeBuffer(await readFile(path), mimeType, options);
+  };
+
+  // Records are written as each file settles, so a long run can be tailed or interrupted
+  const written = new Set<string>();
+  let aboveThreshold = 0;
+  let failed = 0;
+
+  await new Promise<void>(done => {
+    const queue = createBatchQueue(files, scanOne, (state) => {
+      for (const item of state.items) {
+        if (written.has(item.id) || (item.status !== 'done' && item.status !== 'failed')) continue;
+        written.add(item.id);
+        const record: ScanRecord = { file: displayName(item.input), result: item.output, error: item.error };
+        write(format === 'csv' ? toCsvRow(record) : toJsonLine(record));
+
+        if (item.output && failAbove !== undefined && item.output.score > failAbove) aboveThreshold += 1;
+        if (item.status === 'failed') failed += 1;
+        if (!values.quiet) {
+          const summary = item.output ? `${Math.round(item.output.score)}% ${item.output.verdict}` : `FAILED ${item.error}`;
+          process.stderr.write(`[${written.size}/${files.length}] ${record.file}: ${summary}\n`);
+        }
+      }
+      if (state.finished) done();
+    }, { ...DEFAULT_BATCH_OPTIONS, concurrency });
+    queue.start();
+  });
+
+  if (out !== process.stdout) await new Promise<void>(resolve => out.end(() => resolve()));
+  if (!values.quiet) {
+    process.stderr.write(`${files.length} scanned, ${failed} failed${failAbove !== undefined ? `, ${aboveThreshold} above ${failAbove}` : ''}\n`);
+  }
+  return aboveThreshold > 0 ? 2 : failed > 0 ? 1 : 0;
+};
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(err => {
+    console.error(err instanceof UsageError ? `${err.message}\n\n${USAGE}` : err);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,81 @@
+import { createServer, ServerResponse } from "node:http";
+import { parseHttpUrl } from "../services/urlFetchService";
+import { RemoteFetchError, safeFetch } from "./safeFetch";
+
+/**
+ * PIXIVERA MEDIA PROXY
+ * Browsers cannot read cross-origin media bytes, so URL scans and feed
+ * sources fetch through this process:
+ *
+ *   GET /fetch?url=<encoded http(s) URL>
+ *   200  the remote body, its Content-Type, and X-Final-Url with the URL after redirects
+ *   400  missing or invalid url      403  private or reserved host
+ *   413  over MEDIA_PROXY_MAX_MB     415  not media or a feed       502  remote failure
+ *
+ * Errors are JSON { error }. X-Final-Url is listed in Access-Control-Expose-Headers,
+ * otherwise browsers hide it from the app.
+ *
+ *   MEDIA_PROXY_PORT            (default 8788)
+ *   MEDIA_PROXY_HOST            interface to listen on (default 127.0.0.1)
+ *   MEDIA_PROXY_MAX_MB          response size limit (default 25)
+ *   MEDIA_PROXY_CORS_ORIGIN     Access-Control-Allow-Origin (default *)
+ */
+
+const FETCH_TIMEOUT_MS = 30000;
+
+// Media for scans, feed documents for watched sources
+const FEED_TYPES = /^(application\/(rss\+xml|atom\+xml|feed\+json|json|xml)|text\/(xml|plain|html))$/;
+const isProxiedType = (mimeType: string) =>
+  mimeType.startsWith('image/') || mimeType.startsWith('video/') || FEED_TYPES.test(mimeType);
+
+const env = process.env;
+const port = Number(env.MEDIA_PROXY_PORT) || 8788;
+const host = env.MEDIA_PROXY_HOST || "127.0.0.1";
+const maxBytes = (Number(env.MEDIA_PROXY_MAX_MB) || 25) * 1024 * 1024;
+const corsOrigin = env.MEDIA_PROXY_CORS_ORIGIN || "*";
+
+const sendError = (res: ServerResponse, status: number, message: string) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: message }));
+};
+
+createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+  res.setHeader('Access-Control-Expose-Headers', 'X-Final-Url');
+  const url = new URL(req.url ?? '/', "http://localhost");
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, OPTIONS', 'Access-Control-Max-Age': '86400' }).end();
+    return;
+  }
+  if (req.method !== 'GET' || url.pathname !== '/fetch') {
+    sendError(res, 404, "Not found");
+    return;
+  }
+
+  let target: URL;
+  try {
+    target = parseHttpUrl(url.searchParams.get('url') ?? '');
+  } catch (err) {
+    sendError(res, 400, (err as Error).message);
+    return;
+  }
+
+  try {
+    const fetched = await safeFetch(target.href, { maxBytes, timeoutMs: FETCH_TIMEOUT_MS, accept: isProxiedType });
+    res.writeHead(200, {
+      'Content-Type': fetched.mimeType,
+      'Content-Length': String(fetched.bytes.length),
+      'X-Final-Url': fetched.finalUrl,
+      'Cache-Control': 'no-store',
+    });
+    res.end(fetched.bytes);
+    console.log(`${target.href} -> ${fetched.mimeType}, ${fetched.bytes.length} bytes`);
+  } catch (err) {
+    const status = err instanceof RemoteFetchError ? err.status : 502;
+    console.warn(`${target.href} failed:`, (err as Error).message);
+    if (!res.headersSent) sendError(res, status, (err as Error).message);
+  }
+}).listen(port, host, () => {
+  console.log(`Pixivera media proxy on ${host}:${port}/fetch // ${maxBytes / 1024 / 1024}MB limit`);
+});
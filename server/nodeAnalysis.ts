@@ -0,0 +1,142 @@
+import sharp from "sharp";
+import { AnalysisResult, MediaPayload, PromptProfileVersion } from "../types";
+import { analyzeContent, resolveDetector, setGeminiModel } from "../services/detectorService";
+import { extractMetadata, hasMetadata, mergeMetadataSignatures } from "../services/metadataExtractor";
+import { verifyProvenance } from "../services/c2paVerifier";
+import { hashFile } from "../services/hashService";
+import { groupProfiles, resolveProfile } from "../services/promptProfiles";
+import { DEFAULT_SETTINGS } from "../services/settingsService";
+
+/**
+ * NODE ANALYSIS
+ * The browser pipeline (analyzeFile) depends on canvas, <video> and IndexedDB.
+ * This is the same flow for Node services: sharp replaces the canvas resize,
+ * and there is no result cache, calibration or local pixel forensics.
+ */
+
+// Vite maps GEMINI_API_KEY onto API_KEY at build time; Node services read the environment directly
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+  process.env.API_KEY = process.env.GEMINI_API_KEY;
+}
+if (process.env.GEMINI_MODEL) setGeminiModel(process.env.GEMINI_MODEL);
+
+// Same limit as the browser fallback for videos it cannot sample
+const MAX_INLINE_VIDEO_BYTES = 15 * 1024 * 1024;
+
+export interface NodeAnalysisOptions {
+  maxImageDimension: number;
+  jpegQuality: number; // 0-1
+  profile?: PromptProfileVersion;
+}
+
+export const nodeAnalysisOptions = (env: NodeJS.ProcessEnv = process.env): NodeAnalysisOptions => ({
+  maxImageDimension: Number(env.MAX_IMAGE_DIMENSION) || DEFAULT_SETTINGS.maxImageDimension,
+  jpegQuality: Number(env.JPEG_QUALITY) || DEFAULT_SETTINGS.jpegQuality,
+  // Only built-in profiles exist outside the browser, custom ones live in its IndexedDB
+  profile: resolveProfile(groupProfiles([]), env.PROMPT_PROFILE || DEFAULT_SETTINGS.defaultProfileId),
+});
+
+// Resizes to fit `maxDimension` (never upscaling) and re-encodes as JPEG, honoring EXIF orientation
+export const resizeImage = async (bytes: Buffer, maxDimension: number, quality: number): Promise<Buffer> =>
+  sharp(bytes)
+    .rotate()
+    .resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: Math.round(quality * 100) })
+    .toBuffer();
+
+const preparePayload = async (bytes: Buffer, mimeType: string, options: NodeAnalysisOptions): Promise<MediaPayload> => {
+  if (mimeType.startsWith('image/')) {
+    const resized = await resizeImage(bytes, options.maxImageDimension, options.jpegQuality);
+    return { kind: 'inline', base64: resized.toString('base64'), mimeType: 'image/jpeg' };
+  }
+  if (mimeType.startsWith('video/')) {
+    if (bytes.length > MAX_INLINE_VIDEO_BYTES) {
+      throw new Error(`Video is too large to upload whole (${Math.round(bytes.length / 1024 / 1024)}MB, max ${MAX_INLINE_VIDEO_BYTES / 1024 / 1024}MB)`);
+    }
+    return { kind: 'inline', base64: bytes.toString('base64'), mimeType };
+  }
+  throw new Error(`Unsupported media type ${mimeType || 'unknown'}`);
+};
+
+/**
+ * Analyzes one image or video held in memory with the active detector
+ * (DETECTOR_PROVIDER), bound to the profile in `options`.
+ */
+export const analyzeBuffer = async (
+  bytes: Buffer,
+  mimeType: string,
+  options: NodeAnalysisOptions = nodeAnalysisOptions()
+): Promise<AnalysisResult> => {
+  const blob = new Blob([bytes], { type: mimeType });
+  const detector = resolveDetector(options.profile);
+
+  const metadataPromise = extractMetadata(blob)
+    .then(metadata => (hasMetadata(metadata) ? metadata : undefined))
+    .catch(err => {
+      console.warn("Metadata extraction failed:", err);
+      return undefined;
+    });
+  const provenancePromise = metadataPromise.then(metadata =>
+    metadata?.c2pa
+      ? verifyProvenance(blob).then(report => report ?? undefined).catch(err => {
+          console.warn("C2PA verification failed:", err);
+          return undefined;
+        })
+      : undefined
+  );
+
+  const detected = await analyzeContent(await preparePayload(bytes, mimeType, options), detector);
+  const metadata = await metadataPromise;
+
+  return {
+    ...detected,
+    watermark: metadata ? mergeMetadataSignatures(detected.watermark, metadata) : detected.watermark,
+    sourceHash: await hashFile(blob),
+    metadata,
+    provenance: await provenancePromise,
+  };
+};
+
+/**
+ * Analyzes keyframes a client already sampled from a video. There are no
+ * original bytes, so no metadata, provenance or source hash.
+ */
+export const analyzeFrames = (
+  payload: Extract<MediaPayload, { kind: 'frames' }>,
+  options: NodeAnalysisOptions = nodeAnalysisOptions()
+): Promise<AnalysisResult> => analyzeContent(payload, resolveDetector(options.profile));
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+/**
+ * Burns `suspiciousRegions` into the image as numbered boxes, matching the
+ * overlay in ResultView. Returns a JPEG no larger than `maxDimension`.
+ */
+export const drawRegions = async (
+  bytes: Buffer,
+  regions: AnalysisResult['suspiciousRegions'],
+  maxDimension: number = DEFAULT_SETTINGS.maxImageDimension
+): Promise<Buffer> => {
+  const base = await resizeImage(bytes, maxDimension, 0.9);
+  const { width = 0, height = 0 } = await sharp(base).metadata();
+  if (regions.length === 0 || !width || !height) return base;
+
+  const stroke = Math.max(2, Math.round(Math.min(width, height) / 250));
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) / 40));
+  const boxes = regions.map((region, idx) => {
+    const [ymin, xmin, ymax, xmax] = region.box_2d;
+    const x = (xmin / 100) * width;
+    const y = (ymin / 100) * height;
+    const w = ((xmax - xmin) / 100) * width;
+    const h = ((ymax - ymin) / 100) * height;
+    const label = escapeXml(`${idx + 1}. ${region.label} ${Math.round(region.confidence)}%`);
+    const labelY = y > fontSize + 4 ? y - 4 : y + h + fontSize + 2;
+    return `<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="rgba(255,0,60,0.12)" stroke="#ff003c" stroke-width="${stroke}"/>`
+      + `<text x="${x}" y="${labelY}" font-family="monospace" font-size="${fontSize}" fill="#ff003c" stroke="#000" stroke-width="${stroke / 2}" paint-order="stroke">${label}</text>`;
+  });
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${boxes.join('')}</svg>`;
+
+  return sharp(base).composite([{ input: Buffer.from(svg), top: 0, left: 0 }]).jpeg({ quality: 90 }).toBuffer();
+};
@@ -0,0 +1,242 @@
+import ts from "typescript";
+import { fileURLToPath } from "node:url";
+import { BUILT_IN_PROFILES } from "../services/promptProfiles";
+
+/**
+ * OPENAPI
+ * components.schemas are generated from the interfaces in types.ts with the
+ * TypeScript checker, so the API document cannot drift from the types the
+ * server actually returns. Trailing `//` comments become descriptions.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+const TYPES_FILE = fileURLToPath(new URL("../types.ts", import.meta.url));
+
+// Everything else is pulled in through these
+const SCHEMA_ROOTS = ['ApiJob', 'ApiResult', 'ApiHistoryPage', 'ApiSubmission', 'ApiError'];
+
+const commentText = (raw: string) => raw.replace(/^\/\/\s?|^\/\*+|\*+\/$/g, '').replace(/^\s*\*\s?/gm, '').trim();
+
+// `// ...` after a property, on the same line
+const trailingComment = (text: string, node: ts.Node): string | undefined => {
+  const range = ts.getTrailingCommentRanges(text, node.end)?.[0];
+  return range ? commentText(text.slice(range.pos, range.end)) : undefined;
+};
+
+// The comment directly above a declaration, not one separated from it by a blank line
+const leadingComment = (text: string, node: ts.Node): string | undefined => {
+  const ranges = ts.getLeadingCommentRanges(text, node.getFullStart()) ?? [];
+  const last = ranges[ranges.length - 1];
+  if (!last || /\n\s*\n/.test(text.slice(last.end, node.getStart()))) return undefined;
+  return commentText(text.slice(last.pos, last.end));
+};
+
+/**
+ * JSON Schemas (OpenAPI 3.1 dialect) for `roots` and every named type from
+ * the same file they reference, keyed by type name.
+ */
+export const generateSchemas = (file: string = TYPES_FILE, roots: string[] = SCHEMA_ROOTS): Record<string, JsonSchema> => {
+  const program = ts.createProgram([file], {
+    target: ts.ScriptTarget.ES2022,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+    types: [],
+    noEmit: true,
+  });
+  const checker = program.getTypeChecker();
+  const source = program.getSourceFile(file);
+  const moduleSymbol = source && checker.getSymbolAtLocation(source);
+  if (!source || !moduleSymbol) throw new Error(`Could not load ${file}`);
+  const text = source.getFullText();
+  const exported = new Map(checker.getExportsOfModule(moduleSymbol).map(symbol => [symbol.name, symbol]));
+
+  const schemas: Record<string, JsonSchema> = {};
+  const pending = [...roots];
+
+  // Named types from the file become $refs; lib types (Record, Omit) and anonymous literals are inlined
+  const refName = (type: ts.Type): string | undefined => {
+    const symbol = type.aliasSymbol ?? type.getSymbol();
+    return symbol && exported.get(symbol.name) === symbol ? symbol.name : undefined;
+  };
+
+  const toSchema = (type: ts.Type, inline: boolean = false): JsonSchema => {
+    const name = inline ? undefined : refName(type);
+    if (name) {
+      if (!(name in schemas) && !pending.includes(name)) pending.push(name);
+      return { $ref: `#/components/schemas/${name}` };
+    }
+
+    const flags = type.flags;
+    if (flags & ts.TypeFlags.String) return { type: 'string' };
+    if (flags & ts.TypeFlags.Number) return { type: 'number' };
+    if (flags & ts.TypeFlags.Boolean) return { type: 'boolean' };
+    if (type.isStringLiteral()) return { type: 'string', const: type.value };
+    if (type.isNumberLiteral()) return { type: 'number', const: type.value };
+    if (flags & ts.TypeFlags.BooleanLiteral) return { type: 'boolean', const: checker.typeToString(type) === 'true' };
+
+    if (type.isUnion()) {
+      const members = type.types.filter(t => !(t.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Null)));
+      if (members.every(t => t.flags & ts.TypeFlags.BooleanLiteral)) return { type: 'boolean' };
+      if (members.every(t => t.isStringLiteral())) return { type: 'string', enum: members.map(t => (t as ts.StringLiteralType).value) };
+      if (members.every(t => t.isNumberLiteral())) return { type: 'number', enum: members.map(t => (t as ts.NumberLiteralType).value) };
+      if (members.length === 1) return toSchema(members[0]);
+      return { oneOf: members.map(t => toSchema(t)) };
+    }
+
+    if (checker.isTupleType(type)) {
+      const elements = checker.getTypeArguments(type as ts.TypeReference);
+      return { type: 'array', prefixItems: elements.map(t => toSchema(t)), minItems: elements.length, maxItems: elements.length };
+    }
+    if (checker.isArrayType(type)) {
+      return { type: 'array', items: toSchema(checker.getTypeArguments(type as ts.TypeReference)[0]) };
+    }
+
+    if (flags & ts.TypeFlags.Object) {
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const property of checker.getPropertiesOfType(type)) {
+        const declaration = property.valueDeclaration ?? property.declarations?.[0];
+        const schema = toSchema(checker.getTypeOfSymbolAtLocation(property, declaration ?? source));
+        const description = declaration?.getSourceFile() === source ? trailingComment(text, declaration) : undefined;
+        properties[property.name] = description ? { ...schema, description } : schema;
+        if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name);
+      }
+      const schema: JsonSchema = { type: 'object' };
+      if (Object.keys(properties).length > 0) schema.properties = properties;
+      if (required.length > 0) schema.required = required;
+      const index = checker.getIndexInfosOfType(type).find(info => info.keyType.flags & ts.TypeFlags.String);
+      if (index) schema.additionalProperties = toSchema(index.type);
+      return schema;
+    }
+
+    // any / unknown: no constraint
+    return {};
+  };
+
+  while (pending.length > 0) {
+    const name = pending.shift()!;
+    const symbol = exported.get(name);
+    if (!symbol) throw new Error(`${name} is not exported from ${file}`);
+    schemas[name] = {}; // Reserved first, so self-references become $refs
+    const schema = toSchema(checker.getDeclaredTypeOfSymbol(symbol), true);
+    const declaration = symbol.declarations?.[0];
+    const description = declaration && leadingComment(text, declaration);
+    schemas[name] = description ? { description, ...schema } : schema;
+  }
+
+  return Object.fromEntries(Object.entries(schemas).sort(([a], [b]) => a.localeCompare(b)));
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (description: string, schema: JsonSchema) => ({ description, content: { 'application/json': { schema } } });
+
+const errors = (...statuses: number[]) => {
+  const descriptions: Record<number, string> = {
+    400: 'Invalid request',
+    401: 'Missing or unknown API key',
+    404: 'Not found',
+    413: 'Upload too large',
+    429: 'Rate limit reached, see Retry-After',
+  };
+  return Object.fromEntries(statuses.map(status => [status, json(descriptions[status], ref('ApiError'))]));
+};
+
+const queryParam = (name: string, description: string, schema: JsonSchema) => ({ name, in: 'query', required: false, description, schema });
+
+const idParam = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+
+let cached: JsonSchema | undefined;
+
+// Schema generation type-checks types.ts, so the document is built once per process
+export const buildOpenApiDocument = (): JsonSchema => {
+  if (cached) return cached;
+  const profileIds = BUILT_IN_PROFILES.map(p => p.id);
+
+  cached = {
+    openapi: '3.1.0',
+    info: {
+      title: 'Pixivera API',
+      version: '1',
+      description: 'Submit images and videos for AI-generation analysis and query past results.',
+    },
+    security: [{ bearer: [] }, { apiKey: [] }],
+    paths: {
+      '/v1/analyses': {
+        post: {
+          summary: 'Submit media for analysis',
+          description: 'Queues an analysis and returns its job. Poll GET /v1/jobs/{id} until it is done, then fetch the result.',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': { schema: ref('ApiSubmission') },
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    file: { type: 'string', contentMediaType: 'application/octet-stream', description: 'Image or video, with its Content-Type' },
+                    profile: { type: 'string', enum: profileIds },
+                  },
+                  required: ['file'],
+                },
+              },
+            },
+          },
+          responses: {
+            202: {
+              ...json('Job queued', ref('ApiJob')),
+              headers: { Location: { description: 'URL of the job', schema: { type: 'string' } } },
+            },
+            ...errors(400, 401, 413, 429),
+          },
+        },
+      },
+      '/v1/jobs/{id}': {
+        get: {
+          summary: 'Get a job',
+          parameters: [idParam],
+          responses: { 200: json('The job', ref('ApiJob')), ...errors(401, 404) },
+        },
+      },
+      '/v1/results/{id}': {
+        get: {
+          summary: 'Get a result',
+          parameters: [idParam],
+          responses: { 200: json('The result', ref('ApiResult')), ...errors(401, 404) },
+        },
+      },
+      '/v1/history': {
+        get: {
+          summary: 'List or query results',
+          parameters: [
+            queryParam('q', 'Case-insensitive text in file name, verdict, model signature or source URL', { type: 'string' }),
+            queryParam('isAI', 'Only results with this verdict', { type: 'boolean' }),
+            queryParam('minScore', 'Lowest score, inclusive', { type: 'number', minimum: 0, maximum: 100 }),
+            queryParam('maxScore', 'Highest score, inclusive', { type: 'number', minimum: 0, maximum: 100 }),
+            queryParam('since', 'Analyzed at or after this time', { type: 'string', format: 'date-time' }),
+            queryParam('until', 'Analyzed before this time', { type: 'string', format: 'date-time' }),
+            queryParam('sourceHash', 'SHA-256 of the original file', { type: 'string' }),
+            queryParam('offset', 'Results to skip, newest first', { type: 'integer', minimum: 0, default: 0 }),
+            queryParam('limit', 'Page size', { type: 'integer', minimum: 1, maximum: 100, default: 24 }),
+          ],
+          responses: { 200: json('Matching results, newest first', ref('ApiHistoryPage')), ...errors(400, 401) },
+        },
+      },
+      '/v1/openapi.json': {
+        get: {
+          summary: 'This document',
+          security: [],
+          responses: { 200: { description: 'OpenAPI document', content: { 'application/json': {} } } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearer: { type: 'http', scheme: 'bearer', description: 'Authorization: Bearer <key>' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      schemas: generateSchemas(),
+    },
+  };
+  return cached;
+};
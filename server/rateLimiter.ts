@@ -0,0 +1,31 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take: (key: string) => RateLimitDecision;
+}
+
+/**
+ * Sliding-window limiter: at most `limit` takes per key within any
+ * `windowMs`. State is in memory, so limits reset when the process restarts.
+ */
+export const createRateLimiter = (limit: number, windowMs: number, now: () => number = Date.now): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  return {
+    take: (key: string) => {
+      const time = now();
+      const recent = (hits.get(key) ?? []).filter(t => t > time - windowMs);
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return { allowed: false, remaining: 0, retryAfterMs: recent[0] + windowMs - time };
+      }
+      recent.push(time);
+      hits.set(key, recent);
+      return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+    },
+  };
+};
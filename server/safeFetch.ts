@@ -0,0 +1,163 @@
+import { lookup as dnsLookup, LookupAddress, LookupOptions } from "node:dns";
+import { IncomingMessage, request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP } from "node:net";
+
+/**
+ * OUTBOUND FETCH FOR USER-SUPPLIED URLS
+ * Only public hosts are reachable: every address a host resolves to is checked
+ * against the private and reserved ranges before connecting, on every
+ * redirect hop. The check runs inside the socket's DNS lookup, so the address
+ * that was checked is the one connected to, and a rebinding DNS server cannot
+ * swap in an internal address afterwards.
+ */
+
+export interface SafeFetchOptions {
+  maxBytes: number;
+  timeoutMs: number; // For the whole fetch, redirects and body included
+  accept?: (mimeType: string) => boolean; // Content types to read; others fail before the body is downloaded
+}
+
+export interface SafeFetchResult {
+  bytes: Buffer;
+  mimeType: string;
+  finalUrl: string;
+}
+
+// `status` is what a proxy should answer with when passing the failure on
+export class RemoteFetchError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'RemoteFetchError';
+    this.status = status;
+  }
+}
+
+const MAX_REDIRECTS = 5;
+const USER_AGENT = "Pixivera/1.0 (+media fetch)";
+
+const blocked = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([net, prefix]) => blocked.addSubnet(net as string, prefix as number, 'ipv4'));
+[
+  ['::', 96], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001::', 23],
+  ['2001:db8::', 32], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+].forEach(([net, prefix]) => blocked.addSubnet(net as string, prefix as number, 'ipv6'));
+
+// IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible addresses are judged by their IPv4 part
+const embeddedIpv4 = (address: string): string | undefined =>
+  /^::(?:ffff:(?:0:)?)?(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1]
+  ?? (() => {
+    const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+    if (!hex) return undefined;
+    const [hi, lo] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return `${hi >> 8}.${hi & 0xff}.${lo >> 8}.${lo & 0xff}`;
+  })();
+
+export const isPrivateAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 4) return blocked.check(address, 'ipv4');
+  if (family === 6) {
+    const v4 = embeddedIpv4(address);
+    return v4 ? blocked.check(v4, 'ipv4') : blocked.check(address, 'ipv6');
+  }
+  return true; // Not an address at all
+};
+
+type LookupCallback = (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+const guardedLookup = (hostname: string, options: LookupOptions, callback: LookupCallback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    const internal = addresses.find(a => isPrivateAddress(a.address));
+    if (internal || addresses.length === 0) {
+      return callback(new RemoteFetchError(403, `${hostname} resolves to a private or reserved address`), []);
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const requestOnce = (url: URL, signal: AbortSignal): Promise<IncomingMessage> => {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  // Literal addresses never go through the lookup
+  if (isIP(host) && isPrivateAddress(host)) {
+    return Promise.reject(new RemoteFetchError(403, `${host} is a private or reserved address`));
+  }
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+      method: 'GET',
+      headers: { 'User-Agent': USER_AGENT, Accept: '*/*' },
+      lookup: guardedLookup,
+      signal,
+    }, resolve);
+    request.on('error', reject);
+    request.end();
+  });
+};
+
+const readBody = async (response: IncomingMessage, maxBytes: number): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      response.destroy();
+      throw new RemoteFetchError(413, "Remote file is over the size limit");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * GETs a public http(s) URL, following up to five redirects. Throws a
+ * RemoteFetchError for private hosts, HTTP errors, unaccepted content types
+ * and bodies over `maxBytes`.
+ */
+export const safeFetch = async (url: string, options: SafeFetchOptions): Promise<SafeFetchResult> => {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  let current = new URL(url);
+
+  for (let hop = 0; ; hop++) {
+    if (current.protocol !== 'http:' && current.protocol !== 'https:') {
+      throw new RemoteFetchError(400, "Only http(s) URLs can be fetched");
+    }
+    const response = await requestOnce(current, signal).catch(err => {
+      if (err instanceof RemoteFetchError) throw err;
+      throw new RemoteFetchError(502, `Could not fetch URL: ${signal.aborted ? "timed out" : err?.message ?? err}`);
+    });
+    const status = response.statusCode ?? 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (hop >= MAX_REDIRECTS) throw new RemoteFetchError(502, "Too many redirects");
+      current = new URL(response.headers.location, current);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new RemoteFetchError(502, `URL responded with HTTP ${status}`);
+    }
+
+    const mimeType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    if (options.accept && !options.accept(mimeType)) {
+      response.destroy();
+      throw new RemoteFetchError(415, `URL returned an unsupported type (${mimeType || 'unknown'})`);
+    }
+    if (Number(response.headers['content-length']) > options.maxBytes) {
+      response.destroy();
+      throw new RemoteFetchError(413, "Remote file is over the size limit");
+    }
+    const bytes = await readBody(response, options.maxBytes).catch(err => {
+      if (err instanceof RemoteFetchError) throw err;
+      throw new RemoteFetchError(502, `Could not read the response: ${signal.aborted ? "timed out" : err?.message ?? err}`);
+    });
+    return { bytes, mimeType, finalUrl: current.href };
+  }
+};
@@ -0,0 +1,21 @@
+/**
+ * Runs at most `limit` tasks at once, the rest wait in order. Node services
+ * share one detector quota, so every analysis goes through one of these.
+ */
+export const createSemaphore = (limit: number) => {
+  let running = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    // A finishing task hands its slot straight to the next waiter, so `running` never overshoots
+    if (running >= limit) await new Promise<void>(resolve => waiting.push(resolve));
+    else running += 1;
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else running -= 1;
+    }
+  };
+};
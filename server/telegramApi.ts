@@ -0,0 +1,109 @@
+/**
+ * Minimal Telegram Bot API client over fetch, only the calls the bot uses.
+ * https://core.telegram.org/bots/api
+ */
+
+export interface TelegramFileRef {
+  file_id: string;
+  file_size?: number;
+  mime_type?: string;
+  file_name?: string;
+}
+
+export interface TelegramPhotoSize extends TelegramFileRef {
+  width: number;
+  height: number;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  chat: { id: number; type: string; title?: string; username?: string };
+  from?: { id: number; username?: string };
+  text?: string;
+  caption?: string;
+  photo?: TelegramPhotoSize[];
+  video?: TelegramFileRef;
+  animation?: TelegramFileRef;
+  document?: TelegramFileRef;
+  reply_to_message?: TelegramMessage;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  channel_post?: TelegramMessage;
+}
+
+export class TelegramApiError extends Error {
+  status: number; // Telegram error_code, 429 when flood-limited
+  retryAfter?: number; // Seconds, set with 429
+
+  constructor(message: string, status: number, retryAfter?: number) {
+    super(message);
+    this.name = 'TelegramApiError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Bots can only download files up to 20MB through getFile
+export const MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+export const createTelegramApi = (token: string, apiBase: string = "https://api.telegram.org") => {
+  const call = async <T>(method: string, body?: Record<string, unknown> | FormData): Promise<T> => {
+    const response = await fetch(`${apiBase}/bot${token}/${method}`, body instanceof FormData
+      ? { method: "POST", body }
+      : { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body ?? {}) });
+    const data = await response.json().catch(() => null);
+    if (!data?.ok) {
+      throw new TelegramApiError(
+        `Telegram ${method} failed: ${data?.description || `HTTP ${response.status}`}`,
+        data?.error_code ?? response.status,
+        data?.parameters?.retry_after
+      );
+    }
+    return data.result as T;
+  };
+
+  return {
+    getUpdates: (offset: number | undefined, timeoutSeconds: number) =>
+      call<TelegramUpdate[]>("getUpdates", { offset, timeout: timeoutSeconds, allowed_updates: ["message", "channel_post"] }),
+
+    setWebhook: (url: string, secretToken?: string) =>
+      call<boolean>("setWebhook", { url, secret_token: secretToken, allowed_updates: ["message", "channel_post"] }),
+
+    deleteWebhook: () => call<boolean>("deleteWebhook", {}),
+
+    sendMessage: (chatId: number, html: string, replyTo?: number) =>
+      call<TelegramMessage>("sendMessage", {
+        chat_id: chatId,
+        text: html,
+        parse_mode: "HTML",
+        reply_parameters: replyTo ? { message_id: replyTo, allow_sending_without_reply: true } : undefined,
+        link_preview_options: { is_disabled: true },
+      }),
+
+    sendPhoto: (chatId: number, photo: Buffer, captionHtml: string, replyTo?: number) => {
+      const form = new FormData();
+      form.append("chat_id", String(chatId));
+      form.append("photo", new Blob([photo], { type: "image/jpeg" }), "pixivera.jpg");
+      form.append("caption", captionHtml);
+      form.append("parse_mode", "HTML");
+      if (replyTo) form.append("reply_parameters", JSON.stringify({ message_id: replyTo, allow_sending_without_reply: true }));
+      return call<TelegramMessage>("sendPhoto", form);
+    },
+
+    sendChatAction: (chatId: number, action: "typing" | "upload_photo") =>
+      call<boolean>("sendChatAction", { chat_id: chatId, action }),
+
+    downloadFile: async (fileId: string): Promise<Buffer> => {
+      const file = await call<{ file_path?: string; file_size?: number }>("getFile", { file_id: fileId });
+      if (!file.file_path) throw new Error("Telegram did not return a download path for this file");
+      const response = await fetch(`${apiBase}/file/bot${token}/${file.file_path}`);
+      if (!response.ok) throw new Error(`File download failed with HTTP ${response.status}`);
+      return Buffer.from(await response.arrayBuffer());
+    },
+  };
+};
+
+export type TelegramApi = ReturnType<typeof createTelegramApi>;
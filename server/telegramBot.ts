@@ -0,0 +1,312 @@
+import { createServer } from "node:http";
+import { readFile, writeFile } from "node:fs/promises";
+import { AnalysisResult } from "../types";
+import { isRateLimitError } from "../services/batchQueue";
+import { analyzeBuffer, drawRegions, nodeAnalysisOptions } from "./nodeAnalysis";
+import { createKeyring } from "./accessKeys";
+import { createRateLimiter } from "./rateLimiter";
+import { createSemaphore } from "./semaphore";
+import { createTelegramApi, MAX_DOWNLOAD_BYTES, TelegramFileRef, TelegramMessage, TelegramUpdate } from "./telegramApi";
+
+/**
+ * PIXIVERA TELEGRAM BOT
+ * Receives updates by long-polling, or by webhook when TELEGRAM_WEBHOOK_URL
+ * is set, downloads attached photos and videos and replies with the verdict.
+ * Images come back with the suspicious regions drawn in.
+ *
+ *   TELEGRAM_BOT_TOKEN          required, from @BotFather
+ *   PIXIVERA_BOT_KEYS           required, comma-separated access keys; a direct chat is unlocked with /start <key>,
+ *                               a group with a plain /start from a member who did that
+ *   BOT_RATE_LIMIT              scans per chat per window (default 10)
+ *   BOT_RATE_WINDOW_SECONDS     (default 3600)
+ *   BOT_CONCURRENCY             analyses running at once across all chats (default 2)
+ *   BOT_STATE_FILE              unlocked chats (default bot-state.local.json)
+ *   TELEGRAM_WEBHOOK_URL        public HTTPS URL forwarded to this process, enables webhook mode
+ *   TELEGRAM_WEBHOOK_SECRET     checked against X-Telegram-Bot-Api-Secret-Token in webhook mode
+ *   BOT_PORT                    webhook listener port (default 8790)
+ *   TELEGRAM_API_BASE           Bot API server, e.g. a local stub (default https://api.telegram.org)
+ *
+ * Analysis uses DETECTOR_PROVIDER, GEMINI_API_KEY, GEMINI_MODEL, PROMPT_PROFILE,
+ * MAX_IMAGE_DIMENSION and JPEG_QUALITY, see nodeAnalysis.
+ */
+
+const TOP_REGIONS = 5;
+const CAPTION_LIMIT = 1024; // Telegram caption limit, messages allow 4096
+const LONG_POLL_SECONDS = 30;
+
+interface ChatGrant {
+  keyHash: string; // Which access key unlocked the chat, so removing a key locks its chats again
+  grantedAt: string;
+}
+
+const env = process.env;
+const token = env.TELEGRAM_BOT_TOKEN;
+const keyring = createKeyring(env.PIXIVERA_BOT_KEYS);
+if (!token) throw new Error("TELEGRAM_BOT_TOKEN is not set");
+if (keyring.hashes.size === 0) throw new Error("PIXIVERA_BOT_KEYS is not set, the bot would answer anyone");
+
+const api = createTelegramApi(token, env.TELEGRAM_API_BASE || undefined);
+const options = nodeAnalysisOptions();
+const rateLimit = Number(env.BOT_RATE_LIMIT) || 10;
+const rateWindowMs = (Number(env.BOT_RATE_WINDOW_SECONDS) || 3600) * 1000;
+const limiter = createRateLimiter(rateLimit, rateWindowMs);
+const concurrency = Math.max(1, Number(env.BOT_CONCURRENCY) || 2);
+const stateFile = env.BOT_STATE_FILE || "bot-state.local.json";
+
+// ---- Unlocked chats ----
+
+let grants: Record<string, ChatGrant> = {};
+
+const loadGrants = async () => {
+  try {
+    grants = JSON.parse(await readFile(stateFile, "utf8")).chats ?? {};
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') console.warn(`Could not read ${stateFile}, starting with no unlocked chats:`, err);
+  }
+};
+
+const saveGrants = () =>
+  writeFile(stateFile, JSON.stringify({ chats: grants }, null, 2)).catch(err => console.error("Bot state save failed:", err));
+
+const isUnlocked = (chatId: number) => {
+  const grant = grants[chatId];
+  return !!grant && keyring.hashes.has(grant.keyHash);
+};
+
+// ---- Formatting ----
+
+const escapeHtml = (text: string) => text.replace(/[<>&]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;' }[c]!));
+
+const topRegions = (result: AnalysisResult) =>
+  [...result.suspiciousRegions].sort((a, b) => b.confidence - a.confidence).slice(0, TOP_REGIONS);
+
+const formatVerdict = (result: AnalysisResult, limit: number = CAPTION_LIMIT): string => {
+  const inconclusive = result.ensemble?.inconclusive;
+  const lines = [
+    `<b>${escapeHtml(inconclusive ? "INCONCLUSIVE" : result.verdict.toUpperCase())}</b>`,
+    `AI score: <b>${Math.round(result.score)}%</b>${result.ensemble ? ` (±${Math.round(result.ensemble.spread)} across ${result.ensemble.passes.length} passes)` : ''}`,
+  ];
+  if (result.modelSignature.name && result.modelSignature.name !== 'N/A') {
+    lines.push(`Model signature: ${escapeHtml(result.modelSignature.name)} (${Math.round(result.modelSignature.confidence)}%)`);
+  }
+  const watermarks = result.watermark.signatures.map(s => `${s.provider}${s.source === 'metadata' ? ' (metadata)' : ''}`);
+  if (watermarks.length > 0) lines.push(`Watermarks: ${escapeHtml(watermarks.join(', '))}`);
+  if (result.provenance) {
+    lines.push(`C2PA: ${result.provenance.status}${result.provenance.trusted ? ', trusted signer' : ''}`);
+  }
+
+  const regions = topRegions(result);
+  if (regions.length > 0) {
+    lines.push('', '<b>Suspicious regions</b>');
+    regions.forEach((r, idx) => lines.push(`${idx + 1}. ${escapeHtml(r.label)} (${Math.round(r.confidence)}%)`));
+  }
+  const anomalies = result.videoAnalysis?.frameAnomalies.slice(0, TOP_REGIONS) ?? [];
+  if (anomalies.length > 0) {
+    lines.push('', '<b>Frame anomalies</b>');
+    anomalies.forEach(a => lines.push(`${a.timestamp.toFixed(1)}s: ${escapeHtml(a.description)}`));
+  }
+
+  const footer = [
+    '',
+    `<code>${escapeHtml(result.detectorVersion ?? 'unknown detector')}</code>`,
+    ...(result.promptProfile ? [`Prompt: ${escapeHtml(result.promptProfile.name)} V${result.promptProfile.version}`] : []),
+    ...(result.sourceHash ? [`SHA-256 <code>${result.sourceHash.slice(0, 16)}…</code>`] : []),
+  ].join('\n');
+
+  // Reasoning fills whatever room the caption has left
+  const head = lines.join('\n');
+  const room = limit - head.length - footer.length - 4;
+  const reasoning = escapeHtml(result.reasoning);
+  const body = room > 40
+    ? `\n\n<i>${reasoning.length > room ? `${reasoning.slice(0, room - 1).replace(/&[a-z]*$/, '')}…` : reasoning}</i>`
+    : '';
+  return `${head}${body}${footer}`;
+};
+
+// ---- Updates ----
+
+// Largest photo size that can still be downloaded, or the first image/video attachment
+const pickMedia = (msg: TelegramMessage): { ref: TelegramFileRef; mimeType: string } | null => {
+  if (msg.photo?.length) {
+    const photo = [...msg.photo].reverse().find(p => !p.file_size || p.file_size <= MAX_DOWNLOAD_BYTES) ?? msg.photo[0];
+    return { ref: photo, mimeType: 'image/jpeg' };
+  }
+  for (const ref of [msg.video, msg.animation, msg.document]) {
+    const mimeType = ref?.mime_type ?? (ref === msg.video || ref === msg.animation ? 'video/mp4' : '');
+    if (ref && (mimeType.startsWith('image/') || mimeType.startsWith('video/'))) return { ref, mimeType };
+  }
+  return null;
+};
+
+const HELP = [
+  "<b>PIXIVERA forensic bot</b>",
+  "Send or forward a photo or video (up to 20MB) and I will reply with an AI-generation verdict.",
+  "In groups, reply to media with /scan.",
+  "Unlock me once with <code>/start &lt;access key&gt;</code> in a direct message. To use me in a group, send /start there afterwards.",
+].join('\n');
+
+const formatWait = (ms: number) => ms >= 60000 ? `${Math.ceil(ms / 60000)} min` : `${Math.ceil(ms / 1000)} s`;
+
+// Analyses share one Gemini quota, so they queue behind a global limit
+const withSlot = createSemaphore(concurrency);
+
+const scanMedia = async (msg: TelegramMessage, media: { ref: TelegramFileRef; mimeType: string }) => {
+  const chatId = msg.chat.id;
+  if (media.ref.file_size && media.ref.file_size > MAX_DOWNLOAD_BYTES) {
+    await api.sendMessage(chatId, "That file is over the 20MB limit bots can download.", msg.message_id);
+    return;
+  }
+  const decision = limiter.take(String(chatId));
+  if (!decision.allowed) {
+    await api.sendMessage(chatId, `Rate limit reached (${rateLimit} scans per ${formatWait(rateWindowMs)}). Try again in ${formatWait(decision.retryAfterMs)}.`, msg.message_id);
+    return;
+  }
+
+  await api.sendChatAction(chatId, media.mimeType.startsWith('image/') ? 'upload_photo' : 'typing').catch(() => undefined);
+  try {
+    const bytes = await api.downloadFile(media.ref.file_id);
+    const result = await withSlot(() => analyzeBuffer(bytes, media.mimeType, options));
+    if (media.mimeType.startsWith('image/')) {
+      const annotated = await drawRegions(bytes, topRegions(result), options.maxImageDimension);
+      await api.sendPhoto(chatId, annotated, formatVerdict(result), msg.message_id);
+    } else {
+      await api.sendMessage(chatId, formatVerdict(result, 4096), msg.message_id);
+    }
+    console.log(`chat ${chatId}: ${result.verdict} (${Math.round(result.score)}%)`);
+  } catch (error) {
+    console.error(`chat ${chatId}: analysis failed:`, error);
+    const reason = isRateLimitError(error)
+      ? "The detector is rate limited right now, please try again in a few minutes."
+      : `Analysis failed: ${escapeHtml(error instanceof Error ? error.message : String(error))}`;
+    await api.sendMessage(chatId, reason, msg.message_id);
+  }
+};
+
+const handleMessage = async (msg: TelegramMessage) => {
+  const chatId = msg.chat.id;
+  const text = (msg.text ?? msg.caption ?? '').trim();
+  const [command, ...args] = text.split(/\s+/);
+  const name = command?.startsWith('/') ? command.slice(1).split('@')[0].toLowerCase() : '';
+
+  if (name === 'start' || name === 'key') {
+    const isPrivate = msg.chat.type === 'private';
+    // Everyone in a group can read the key, so it is never accepted there, valid or not
+    if (args[0] && !isPrivate) {
+      await api.sendMessage(chatId, "Access keys are only accepted in a direct message, where nobody else can read them. Send <code>/start &lt;access key&gt;</code> to me privately, then send /start here. Anyone in this chat may have seen that key, so consider replacing it.");
+      return;
+    }
+    // Groups are unlocked by a member whose direct chat is, under that member's key (private chat ids are user ids)
+    if (!isPrivate) {
+      const sender = msg.from && isUnlocked(msg.from.id) ? grants[msg.from.id] : undefined;
+      if (sender) {
+        grants[chatId] = { keyHash: sender.keyHash, grantedAt: new Date().toISOString() };
+        await saveGrants();
+        await api.sendMessage(chatId, "Chat unlocked. Reply to a photo or video with /scan to check it.");
+      } else {
+        await api.sendMessage(chatId, "Unlock me in a direct message with <code>/start &lt;access key&gt;</code> first, then send /start here again.");
+      }
+      return;
+    }
+    const keyHash = args[0] ? keyring.match(args[0]) : undefined;
+    if (keyHash) {
+      grants[chatId] = { keyHash, grantedAt: new Date().toISOString() };
+      await saveGrants();
+      await api.sendMessage(chatId, "Chat unlocked. Send or forward a photo or video to scan it.");
+    } else if (args[0]) {
+      await api.sendMessage(chatId, "That access key is not valid.");
+    } else {
+      await api.sendMessage(chatId, HELP);
+    }
+    return;
+  }
+  if (name === 'help') {
+    await api.sendMessage(chatId, HELP);
+    return;
+  }
+
+  // /scan as a reply analyzes the replied-to message, which is how groups with privacy mode reach the bot
+  const target = name === 'scan' ? msg.reply_to_message ?? msg : msg;
+  const media = pickMedia(target);
+  if (!media) {
+    if (msg.chat.type === 'private' || name === 'scan') await api.sendMessage(chatId, HELP);
+    return;
+  }
+  if (!isUnlocked(chatId)) {
+    await api.sendMessage(chatId, "This chat is not unlocked. Send <code>/start &lt;access key&gt;</code> first.", msg.message_id);
+    return;
+  }
+  await scanMedia({ ...target, chat: msg.chat }, media);
+};
+
+const handleUpdate = (update: TelegramUpdate) => {
+  const msg = update.message ?? update.channel_post;
+  if (!msg) return;
+  handleMessage(msg).catch(err => console.error(`Update ${update.update_id} failed:`, err));
+};
+
+// ---- Transports ----
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const runLongPoll = async () => {
+  await api.deleteWebhook();
+  console.log("Long-polling for updates");
+  let offset: number | undefined;
+  while (true) {
+    try {
+      const updates = await api.getUpdates(offset, LONG_POLL_SECONDS);
+      for (const update of updates) {
+        offset = update.update_id + 1;
+        handleUpdate(update);
+      }
+    } catch (err) {
+      console.error("getUpdates failed, retrying in 5s:", err);
+      await sleep(5000);
+    }
+  }
+};
+
+const runWebhook = async (url: string) => {
+  const secret = env.TELEGRAM_WEBHOOK_SECRET;
+  const port = Number(env.BOT_PORT) || 8790;
+  const path = new URL(url).pathname;
+
+  createServer((req, res) => {
+    if (req.method !== 'POST' || req.url !== path) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (secret && req.headers['x-telegram-bot-api-secret-token'] !== secret) {
+      res.writeHead(401).end();
+      return;
+    }
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      // Acknowledge first: Telegram redelivers updates that are not answered promptly
+      res.writeHead(200).end();
+      try {
+        handleUpdate(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch (err) {
+        console.error("Unreadable webhook update:", err);
+      }
+    });
+  }).listen(port, () => console.log(`Webhook listener on :${port}${path}`));
+
+  await api.setWebhook(url, secret);
+};
+
+const main = async () => {
+  await loadGrants();
+  console.log(`Detector profile: ${options.profile?.name ?? 'none'} // ${rateLimit} scans per chat per ${formatWait(rateWindowMs)}`);
+  if (env.TELEGRAM_WEBHOOK_URL) {
+    await runWebhook(env.TELEGRAM_WEBHOOK_URL);
+  } else {
+    await runLongPoll();
+  }
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
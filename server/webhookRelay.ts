@@ -0,0 +1,193 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { readFile, writeFile } from "node:fs/promises";
+import { parseHttpUrl } from "../services/urlFetchService";
+
+/**
+ * PIXIVERA WEBHOOK RELAY
+ * Browsers cannot accept inbound requests, so webhook sources are delivered
+ * here and queued per source until the app polls for them:
+ *
+ *   POST /hooks/<source id>                    { "url": string, "title"?: string }
+ *   202  { "id" }                              400  invalid body or url
+ *   GET  /hooks/<source id>?after=<delivery id>
+ *   200  { "deliveries": [{ "id", "url", "title"?, "receivedAt" }], "cursor"? }
+ *
+ * Deliveries are returned oldest first, and reading does not remove them: the
+ * app keeps its own cursor, so several open tabs see the same items. An
+ * unknown cursor, e.g. from before the state file was deleted, returns the
+ * whole queue. The source id is the only secret, keep the relay off the
+ * public internet. Errors are JSON { error }.
+ *
+ *   WEBHOOK_RELAY_PORT          (default 8789)
+ *   WEBHOOK_RELAY_HOST          interface to listen on (default 127.0.0.1)
+ *   WEBHOOK_RELAY_MAX_QUEUE     deliveries kept per source, oldest dropped first (default 500)
+ *   WEBHOOK_RELAY_STATE_FILE    queued deliveries (default webhook-relay.local.json)
+ *   WEBHOOK_RELAY_CORS_ORIGIN   Access-Control-Allow-Origin (default *)
+ */
+
+interface Delivery {
+  id: string; // "<epoch>-<sequence>", increasing within an epoch
+  url: string;
+  title?: string;
+  receivedAt: string;
+}
+
+interface RelayState {
+  epoch: string; // Changes when the state file is recreated, so stale cursors are recognised
+  sequence: number;
+  queues: Record<string, Delivery[]>;
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_TITLE_LENGTH = 500;
+const SOURCE_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+const env = process.env;
+const port = Number(env.WEBHOOK_RELAY_PORT) || 8789;
+const host = env.WEBHOOK_RELAY_HOST || "127.0.0.1";
+const maxQueue = Math.max(1, Number(env.WEBHOOK_RELAY_MAX_QUEUE) || 500);
+const stateFile = env.WEBHOOK_RELAY_STATE_FILE || "webhook-relay.local.json";
+const corsOrigin = env.WEBHOOK_RELAY_CORS_ORIGIN || "*";
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// ---- Queues ----
+
+let state: RelayState = { epoch: Date.now().toString(36), sequence: 0, queues: {} };
+
+const loadState = async () => {
+  try {
+    state = JSON.parse(await readFile(stateFile, "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') console.warn(`Could not read ${stateFile}, starting with empty queues:`, err);
+  }
+};
+
+const saveState = () =>
+  writeFile(stateFile, JSON.stringify(state, null, 2)).catch(err => console.error("Relay state save failed:", err));
+
+const sequenceOf = (id: string): number | undefined => {
+  const [epoch, sequence] = id.split('-');
+  return epoch === state.epoch && /^\d+$/.test(sequence ?? '') ? Number(sequence) : undefined;
+};
+
+const enqueue = (sourceId: string, url: string, title?: string): Delivery => {
+  state.sequence++;
+  const delivery: Delivery = { id: `${state.epoch}-${state.sequence}`, url, title, receivedAt: new Date().toISOString() };
+  const queue = [...(state.queues[sourceId] ?? []), delivery];
+  state.queues[sourceId] = queue.slice(-maxQueue);
+  saveState();
+  return delivery;
+};
+
+const deliveriesAfter = (sourceId: string, after: string | null): Delivery[] => {
+  const queue = state.queues[sourceId] ?? [];
+  const since = after ? sequenceOf(after) : undefined;
+  return since === undefined ? queue : queue.filter(d => (sequenceOf(d.id) ?? 0) > since);
+};
+
+// ---- Requests ----
+
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, `Request body is over ${MAX_BODY_BYTES / 1024}KB`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, "Body is not valid JSON"));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const parseDelivery = (body: unknown): { url: string; title?: string } => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, "Body must be a JSON object with a url");
+  }
+  const { url, title } = body as Record<string, unknown>;
+  if (typeof url !== 'string') throw new HttpError(400, "url is required");
+  if (title !== undefined && typeof title !== 'string') throw new HttpError(400, "title must be a string");
+  const label = typeof title === 'string' ? title.trim().slice(0, MAX_TITLE_LENGTH) : '';
+  try {
+    return { url: parseHttpUrl(url).href, title: label || undefined };
+  } catch (err) {
+    throw new HttpError(400, (err as Error).message);
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url ?? '/', "http://localhost");
+  const match = /^\/hooks\/([^/]+)\/?$/.exec(url.pathname);
+  // Source ids are URL-safe, so the path segment is used as it is
+  const sourceId = match?.[1] ?? '';
+  if (!SOURCE_ID.test(sourceId)) throw new HttpError(404, "Not found");
+
+  if (req.method === 'POST') {
+    const { url: mediaUrl, title } = parseDelivery(await readJson(req));
+    const delivery = enqueue(sourceId, mediaUrl, title);
+    console.log(`${sourceId}: queued ${delivery.id} ${mediaUrl}`);
+    sendJson(res, 202, { id: delivery.id });
+    return;
+  }
+  if (req.method === 'GET') {
+    const after = url.searchParams.get('after');
+    const deliveries = deliveriesAfter(sourceId, after);
+    sendJson(res, 200, { deliveries, cursor: deliveries[deliveries.length - 1]?.id ?? after ?? undefined });
+    return;
+  }
+  throw new HttpError(405, "Method not allowed");
+};
+
+const main = async () => {
+  await loadState();
+  createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Max-Age': '86400',
+      }).end();
+      return;
+    }
+    handle(req, res).catch(err => {
+      if (err instanceof HttpError) {
+        if (!res.headersSent) sendJson(res, err.status, { error: err.message });
+        return;
+      }
+      console.error(`${req.method} ${req.url} failed:`, err);
+      if (!res.headersSent) sendJson(res, 500, { error: "Internal error" });
+    });
+  }).listen(port, host, () => {
+    console.log(`Pixivera webhook relay on ${host}:${port}/hooks // ${maxQueue} deliveries kept per source`);
+  });
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+import { BatchAnalysisResult } from "../types";
+import { isInconclusive } from "./ensembleService";
+import { createXlsx, SheetCell } from "./xlsxWriter";
+
+/**
+ * BATCH EXPORT
+ * Flattens batch results to one row per file for spreadsheets. Rows outside
+ * the score range are dropped first, then only the chosen columns are written,
+ * in EXPORT_COLUMNS order.
+ */
+
+export type BatchExportFormat = 'csv' | 'xlsx';
+
+export type ExportColumnGroup = 'Result' | 'Forensic metrics' | 'Human perception' | 'Provenance';
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  group: ExportColumnGroup;
+  value: (item: BatchAnalysisResult) => SheetCell;
+  optional?: boolean; // Left out unless picked
+}
+
+export type ScoreRange = [number, number]; // Inclusive, 0-100
+
+// Two decimals is plenty for 0-100 scores and hides float noise from calibration
+const round = (n: number | undefined) => (n === undefined ? undefined : Math.round(n * 100) / 100);
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'file', label: 'File', group: 'Result', value: i => i.fileName },
+  { id: 'score', label: 'Score', group: 'Result', value: i => round(i.result.score) },
+  { id: 'rawScore', label: 'Raw score', group: 'Result', value: i => round(i.result.rawScore), optional: true },
+  // Left blank for inconclusive ensembles, whose isAI only reflects the mean score
+  { id: 'isAI', label: 'AI', group: 'Result', value: i => isInconclusive(i.result) ? undefined : i.result.isAI },
+  { id: 'inconclusive', label: 'Inconclusive', group: 'Result', value: i => isInconclusive(i.result) },
+  { id: 'verdict', label: 'Verdict', group: 'Result', value: i => i.result.verdict },
+  { id: 'modelSignature', label: 'Model signature', group: 'Result', value: i => i.result.modelSignature.name },
+  { id: 'modelConfidence', label: 'Model confidence', group: 'Result', value: i => round(i.result.modelSignature.confidence) },
+  { id: 'watermarks', label: 'Watermarks', group: 'Result', value: i => i.result.watermark.signatures.map(s => s.provider).join('; ') },
+  { id: 'regions', label: 'Suspicious regions', group: 'Result', value: i => i.result.suspiciousRegions.length },
+  { id: 'label', label: 'Ground truth', group: 'Result', value: i => i.label && (i.label.synthetic ? ['synthetic', i.label.generator].filter(Boolean).join(': ') : 'real'), optional: true },
+
+  { id: 'biometricIntegrity', label: 'Biometric integrity', group: 'Forensic metrics', value: i => round(i.result.forensicMetrics.biometricIntegrity) },
+  { id: 'textureFidelity', label: 'Texture fidelity', group: 'Forensic metrics', value: i => round(i.result.forensicMetrics.textureFidelity) },
+  { id: 'lightingConsistency', label: 'Lighting consistency', group: 'Forensic metrics', value: i => round(i.result.forensicMetrics.lightingConsistency) },
+  { id: 'physicalLogic', label: 'Physical logic', group: 'Forensic metrics', value: i => round(i.result.forensicMetrics.physicalLogic) },
+  { id: 'errorLevel', label: 'Error level', group: 'Forensic metrics', value: i => round(i.result.forensicMetrics.errorLevel) },
+  { id: 'noiseConsistency', label: 'Noise consistency', group: 'Forensic metrics', value: i => round(i.result.forensicMetrics.noiseConsistency) },
+  { id: 'spectralPeaks', label: 'Spectral peaks', group: 'Forensic metrics', value: i => round(i.result.forensicMetrics.spectralPeaks) },
+
+  { id: 'realnessScore', label: 'Realness', group: 'Human perception', value: i => round(i.result.humanPerception.realnessScore) },
+  { id: 'suspiciousnessScore', label: 'Suspiciousness', group: 'Human perception', value: i => round(i.result.humanPerception.suspiciousnessScore) },
+  { id: 'perceptualInconsistency', label: 'Perceptual inconsistency', group: 'Human perception', value: i => round(i.result.humanPerception.perceptualInconsistency) },
+  { id: 'artifactLevel', label: 'Artifact level', group: 'Human perception', value: i => round(i.result.humanPerception.artifactLevel) },
+
+  { id: 'sourceHash', label: 'SHA-256', group: 'Provenance', value: i => i.result.sourceHash, optional: true },
+  { id: 'sourceUrl', label: 'Source URL', group: 'Provenance', value: i => i.result.sourceUrl, optional: true },
+  { id: 'c2pa', label: 'C2PA status', group: 'Provenance', value: i => i.result.provenance?.status, optional: true },
+  { id: 'detectorVersion', label: 'Detector version', group: 'Provenance', value: i => i.result.detectorVersion, optional: true },
+  { id: 'promptProfile', label: 'Prompt profile', group: 'Provenance', value: i => i.result.promptProfile && `${i.result.promptProfile.id}@${i.result.promptProfile.version}`, optional: true },
+  { id: 'timestamp', label: 'Analyzed at', group: 'Provenance', value: i => i.result.timestamp, optional: true },
+  { id: 'duplicates', label: 'Duplicates', group: 'Provenance', value: i => i.duplicates?.join('; '), optional: true },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = EXPORT_COLUMNS.filter(c => !c.optional).map(c => c.id);
+
+export const filterByScore = (items: BatchAnalysisResult[], [min, max]: ScoreRange): BatchAnalysisResult[] =>
+  items.filter(i => i.result.score >= min && i.result.score <= max);
+
+// Spreadsheet apps run text starting with these as a formula, so file names and verdicts are defused
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const csvCell = (value: SheetCell): string => {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const selectColumns = (columnIds: string[]) => {
+  const columns = EXPORT_COLUMNS.filter(c => columnIds.includes(c.id));
+  if (columns.length === 0) throw new Error("Select at least one column to export");
+  return columns;
+};
+
+/**
+ * The items as a CSV or XLSX file. CSV gets a byte order mark and CRLF line
+ * ends, which Excel needs to read UTF-8 file names correctly.
+ */
+export const exportBatchTable = (items: BatchAnalysisResult[], columnIds: string[], format: BatchExportFormat): Blob => {
+  const columns = selectColumns(columnIds);
+  const header = columns.map(c => c.label);
+  const rows = items.map(item => columns.map(c => c.value(item)));
+
+  if (format === 'xlsx') {
+    return new Blob([createXlsx('Batch results', header, rows)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  }
+  const lines = [header, ...rows].map(row => row.map(csvCell).join(','));
+  return new Blob(['\ufeff', lines.join('\r\n'), '\r\n'], { type: 'text/csv;charset=utf-8' });
+};
@@ -0,0 +1,159 @@
+import { BatchJobItem } from "../types";
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  maxRetries: number;   // Extra attempts after the first, only for retryable errors
+  baseDelayMs: number;  // Backoff doubles from here: base, 2x base, 4x base...
+  isRetryable?: (error: unknown) => boolean;
+}
+
+export interface BatchQueueState<I, O> {
+  items: BatchJobItem<I, O>[];
+  paused: boolean;
+  cancelled: boolean;
+  finished: boolean;
+}
+
+export interface BatchQueueController<I, O> {
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  retry: (id: string) => void;
+  getState: () => BatchQueueState<I, O>;
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchQueueOptions = {
+  concurrency: 3,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+};
+
+const CANCELLED_MESSAGE = "Cancelled";
+
+/**
+ * Detects quota / rate limit failures from Gemini (ApiError.status) and from
+ * HTTP providers that surface the status code in the message.
+ */
+export const isRateLimitError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown })?.status;
+  if (status === 429) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b429\b|RESOURCE_EXHAUSTED|rate.?limit|quota/i.test(message);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs `worker` over `inputs` with bounded concurrency. Every state change
+ * is published to `onChange` as a fresh snapshot so it can go straight into
+ * React state.
+ */
+export const createBatchQueue = <I, O>(
+  inputs: I[],
+  worker: (input: I) => Promise<O>,
+  onChange: (state: BatchQueueState<I, O>) => void,
+  options: BatchQueueOptions = DEFAULT_BATCH_OPTIONS
+): BatchQueueController<I, O> => {
+  const isRetryable = options.isRetryable ?? isRateLimitError;
+  const items: BatchJobItem<I, O>[] = inputs.map(input => ({
+    id: crypto.randomUUID(),
+    input,
+    status: 'queued',
+    attempts: 0,
+  }));
+  let paused = false;
+  let cancelled = false;
+  let running = 0;
+
+  const getState = (): BatchQueueState<I, O> => ({
+    items: items.map(item => ({ ...item })),
+    paused,
+    cancelled,
+    finished: items.every(item => item.status === 'done' || item.status === 'failed'),
+  });
+
+  const emit = () => onChange(getState());
+
+  const runItem = async (item: BatchJobItem<I, O>) => {
+    item.status = 'running';
+    item.error = undefined;
+    emit();
+
+    while (true) {
+      item.attempts += 1;
+      try {
+        item.output = await worker(item.input);
+        item.status = 'done';
+        break;
+      } catch (error) {
+        const retriesUsed = item.attempts - 1;
+        if (!cancelled && isRetryable(error) && retriesUsed < options.maxRetries) {
+          const delay = options.baseDelayMs * 2 ** retriesUsed * (1 + Math.random() * 0.25);
+          item.error = `Rate limited, retrying in ${Math.round(delay / 1000)}s`;
+          emit();
+          await sleep(delay);
+          if (!cancelled) continue;
+          item.status = 'failed';
+          item.error = CANCELLED_MESSAGE;
+          break;
+        }
+        item.status = 'failed';
+        item.error = error instanceof Error ? error.message : String(error);
+        break;
+      }
+    }
+  };
+
+  const pump = () => {
+    while (!paused && !cancelled && running < options.concurrency) {
+      const next = items.find(item => item.status === 'queued');
+      if (!next) break;
+      running += 1;
+      runItem(next).finally(() => {
+        running -= 1;
+        emit();
+        pump();
+      });
+    }
+  };
+
+  return {
+    start: () => {
+      emit();
+      pump();
+    },
+    pause: () => {
+      paused = true;
+      emit();
+    },
+    resume: () => {
+      paused = false;
+      emit();
+      pump();
+    },
+    cancel: () => {
+      cancelled = true;
+      items.forEach(item => {
+        if (item.status === 'queued') {
+          item.status = 'failed';
+          item.error = CANCELLED_MESSAGE;
+        }
+      });
+      emit();
+    },
+    retry: (id: string) => {
+      const item = items.find(i => i.id === id);
+      if (!item || item.status !== 'failed') return;
+      // A manual retry re-opens a cancelled batch for that item only
+      cancelled = false;
+      paused = false;
+      item.status = 'queued';
+      item.attempts = 0;
+      item.error = undefined;
+      emit();
+      pump();
+    },
+    getState,
+  };
+};
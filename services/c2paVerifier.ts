@@ -0,0 +1,508 @@
+import { ProvenanceAction, ProvenanceIngredient, ProvenanceManifest, ProvenanceReport, ProvenanceStatus } from "../types";
+import { CborValue, cborGet, cborText, decodeCbor, encodeCborArray } from "./cbor";
+import { Certificate, isSignedBy, parseCertificate, parsePemBundle, sameBytes, verifyAlgorithmFor, verifyWithCertificate } from "./x509";
+
+// PEM bundle of trusted C2PA signing roots / intermediates, served alongside the app
+const TRUST_LIST_URL = process.env.C2PA_TRUST_LIST_URL || "/c2pa-trust-anchors.pem";
+
+const HASH_ALGS: Record<string, string> = { sha256: 'SHA-256', sha384: 'SHA-384', sha512: 'SHA-512' };
+
+// COSE algorithm ids (RFC 9053) allowed by C2PA
+const COSE_ALGS: Record<number, { hash: string; pss: boolean }> = {
+  [-7]: { hash: 'SHA-256', pss: false },  // ES256
+  [-35]: { hash: 'SHA-384', pss: false }, // ES384
+  [-36]: { hash: 'SHA-512', pss: false }, // ES512
+  [-37]: { hash: 'SHA-256', pss: true },  // PS256
+  [-38]: { hash: 'SHA-384', pss: true },  // PS384
+  [-39]: { hash: 'SHA-512', pss: true },  // PS512
+  [-8]: { hash: '', pss: false },         // EdDSA
+};
+const COSE_HEADER_ALG = 1;
+const COSE_HEADER_X5CHAIN = 33;
+const COSE_SIGN1_TAG = 18;
+
+interface JumbfSuperbox {
+  label: string;
+  payloadStart: number; // After the superbox header; assertion hashes cover payloadStart..end
+  end: number;
+  children: JumbfSuperbox[];
+  content: { type: string; data: Uint8Array }[];
+}
+
+// --- JUMBF (ISO 19566-5) ---
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const readBoxes = (bytes: Uint8Array, start: number, end: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: { type: string; payloadStart: number; end: number }[] = [];
+  let at = start;
+  while (at + 8 <= end) {
+    let size = view.getUint32(at);
+    const type = ascii(bytes, at + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(at + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - at;
+    }
+    if (size < header || at + size > end) throw new Error(`JUMBF: bad box size for '${type}'`);
+    boxes.push({ type, payloadStart: at + header, end: at + size });
+    at += size;
+  }
+  return boxes;
+};
+
+const parseSuperbox = (bytes: Uint8Array, payloadStart: number, end: number): JumbfSuperbox => {
+  const [description, ...rest] = readBoxes(bytes, payloadStart, end);
+  if (!description || description.type !== 'jumd') throw new Error("JUMBF: superbox without description box");
+
+  // jumd: 16-byte content type UUID, toggles, then an optional null-terminated label
+  const toggles = bytes[description.payloadStart + 16];
+  let label = '';
+  if (toggles & 0x02) {
+    const labelStart = description.payloadStart + 17;
+    const labelEnd = bytes.indexOf(0, labelStart);
+    label = new TextDecoder().decode(bytes.subarray(labelStart, labelEnd === -1 ? description.end : Math.min(labelEnd, description.end)));
+  }
+
+  const box: JumbfSuperbox = { label, payloadStart, end, children: [], content: [] };
+  rest.forEach(child => {
+    if (child.type === 'jumb') {
+      box.children.push(parseSuperbox(bytes, child.payloadStart, child.end));
+    } else {
+      box.content.push({ type: child.type, data: bytes.subarray(child.payloadStart, child.end) });
+    }
+  });
+  return box;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  parts.forEach(p => { out.set(p, at); at += p.length; });
+  return out;
+};
+
+/**
+ * JPEG splits the manifest store across APP11 segments:
+ * "JP" + instance (2) + sequence (4) + box, with the box header repeated in every
+ * segment after the first.
+ */
+const jumbfFromJpeg = (bytes: Uint8Array): Uint8Array | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const instances = new Map<number, Uint8Array[]>();
+  let i = 2;
+  while (i + 4 <= bytes.length && bytes[i] === 0xff) {
+    const marker = bytes[i + 1];
+    if (marker === 0xd9 || marker === 0xda) break;
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      i += 2;
+      continue;
+    }
+    const end = i + 2 + view.getUint16(i + 2);
+    const start = i + 4;
+    if (marker === 0xeb && ascii(bytes, start, 2) === 'JP') {
+      const instance = view.getUint16(start + 2);
+      const sequence = view.getUint32(start + 4);
+      const boxStart = start + 8;
+      const parts = instances.get(instance) || [];
+      if (sequence === 1) {
+        parts.push(bytes.subarray(boxStart, end));
+      } else {
+        const header = view.getUint32(boxStart) === 1 ? 16 : 8;
+        parts.push(bytes.subarray(boxStart + header, end));
+      }
+      instances.set(instance, parts);
+    }
+    i = end;
+  }
+
+  for (const parts of instances.values()) {
+    const joined = concatBytes(parts);
+    if (ascii(joined, 4, 4) === 'jumb' && new TextDecoder('latin1').decode(joined.subarray(0, 64)).includes('c2pa')) {
+      return joined;
+    }
+  }
+  return null;
+};
+
+const jumbfFromPng = (bytes: Uint8Array): Uint8Array | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = 8; i + 8 <= bytes.length;) {
+    const length = view.getUint32(i);
+    if (ascii(bytes, i + 4, 4) === 'caBX') return bytes.subarray(i + 8, i + 8 + length);
+    i += 12 + length;
+  }
+  return null;
+};
+
+// BMFF (HEIC/MP4), WebP and friends carry the store as one contiguous 'jumb' box
+const jumbfByScan = (bytes: Uint8Array): Uint8Array | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = 4; i + 8 <= bytes.length; i++) {
+    if (bytes[i] !== 0x6a || ascii(bytes, i, 4) !== 'jumb') continue; // 'j'
+    const size = view.getUint32(i - 4);
+    const probe = new TextDecoder('latin1').decode(bytes.subarray(i, i + 64));
+    if (size >= 8 && i - 4 + size <= bytes.length && probe.includes('c2pa')) {
+      return bytes.subarray(i - 4, i - 4 + size);
+    }
+  }
+  return null;
+};
+
+// Keeps the byte source of each superbox reachable for assertion hashing
+interface ManifestStore {
+  bytes: Uint8Array;
+  root: JumbfSuperbox;
+}
+
+const extractStore = (bytes: Uint8Array): ManifestStore | null => {
+  const jumbf = bytes[0] === 0xff && bytes[1] === 0xd8 ? jumbfFromJpeg(bytes)
+    : ascii(bytes, 1, 3) === 'PNG' ? jumbfFromPng(bytes)
+    : jumbfByScan(bytes);
+  if (!jumbf) return null;
+  const [root] = readBoxes(jumbf, 0, jumbf.length);
+  if (!root || root.type !== 'jumb') return null;
+  const store = parseSuperbox(jumbf, root.payloadStart, root.end);
+  return store.label === 'c2pa' ? { bytes: jumbf, root: store } : null;
+};
+
+// --- Trust list ---
+
+let trustAnchorsPromise: Promise<Certificate[]> | null = null;
+
+const loadTrustAnchors = (): Promise<Certificate[]> => {
+  if (!trustAnchorsPromise) {
+    trustAnchorsPromise = fetch(TRUST_LIST_URL)
+      .then(res => (res.ok ? res.text() : ""))
+      .then(parsePemBundle)
+      .catch(err => {
+        console.warn("C2PA trust list unavailable:", err);
+        return [];
+      });
+  }
+  return trustAnchorsPromise;
+};
+
+const checkChain = async (chain: Certificate[], anchors: Certificate[], issues: string[]): Promise<boolean> => {
+  const now = new Date();
+  const leaf = chain[0];
+  if (now < leaf.notBefore || now > leaf.notAfter) {
+    issues.push(`Signing certificate is outside its validity period (${leaf.notBefore.toISOString().slice(0, 10)} to ${leaf.notAfter.toISOString().slice(0, 10)})`);
+    return false;
+  }
+
+  for (let i = 0; i < chain.length - 1; i++) {
+    if (!(await isSignedBy(chain[i], chain[i + 1]))) {
+      issues.push(`Certificate chain is broken at "${chain[i].subjectName}"`);
+      return false;
+    }
+  }
+
+  if (anchors.length === 0) {
+    issues.push("No C2PA trust list is configured");
+    return false;
+  }
+  if (chain.some(cert => anchors.some(anchor => sameBytes(anchor.der, cert.der)))) return true;
+
+  const top = chain[chain.length - 1];
+  for (const anchor of anchors) {
+    if (sameBytes(anchor.subject, top.issuer) && (await isSignedBy(top, anchor))) return true;
+  }
+  issues.push(`Signer "${leaf.subjectName}" does not chain to a trusted anchor`);
+  return false;
+};
+
+// --- Manifest verification ---
+
+const digest = async (alg: string, data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest(HASH_ALGS[alg] || 'SHA-256', data));
+
+const child = (box: JumbfSuperbox | undefined, label: string) =>
+  box?.children.find(c => c.label === label);
+
+// Assertion labels may carry a version (".v2") and an instance suffix ("__1")
+const isAssertion = (label: string, name: string) =>
+  new RegExp(`^${name.replace(/\./g, '\\.')}(\\.v\\d+)?(__\\d+)?$`).test(label);
+
+const cborContent = (box: JumbfSuperbox | undefined): CborValue => {
+  const content = box?.content.find(c => c.type === 'cbor');
+  if (content) return decodeCbor(content.data);
+  const json = box?.content.find(c => c.type === 'json');
+  return json ? toCbor(JSON.parse(new TextDecoder().decode(json.data))) : undefined;
+};
+
+// JSON assertions are rare; converting them lets the rest of the code read one shape
+const toCbor = (value: unknown): CborValue => {
+  if (Array.isArray(value)) return value.map(toCbor);
+  if (value && typeof value === 'object') return new Map(Object.entries(value).map(([k, v]) => [k, toCbor(v)]));
+  return value as CborValue;
+};
+
+// "self#jumbf=/c2pa/<manifest>/c2pa.assertions/x" (absolute) or "self#jumbf=c2pa.assertions/x" (relative)
+const resolveUri = (store: ManifestStore, manifest: JumbfSuperbox, uri: string): JumbfSuperbox | undefined => {
+  const path = uri.replace(/^self#jumbf=/, '');
+  const segments = path.split('/').filter(Boolean);
+  let box: JumbfSuperbox | undefined = manifest;
+  if (path.startsWith('/')) {
+    box = store.root;
+    if (segments[0] === 'c2pa') segments.shift();
+  }
+  for (const segment of segments) box = child(box, segment);
+  return box;
+};
+
+const manifestLabelFromUri = (uri: string | undefined) =>
+  uri?.match(/\/c2pa\/([^/]+)/)?.[1];
+
+const softwareAgentName = (value: CborValue): string | undefined =>
+  cborText(value) ?? cborText(cborGet(value, 'name'));
+
+const readActions = (assertions: JumbfSuperbox[]): ProvenanceAction[] =>
+  assertions
+    .filter(a => isAssertion(a.label, 'c2pa.actions'))
+    .flatMap(a => {
+      const list = cborGet(cborContent(a), 'actions');
+      return Array.isArray(list) ? list : [];
+    })
+    .map(action => ({
+      action: cborText(cborGet(action, 'action')) || "unknown",
+      softwareAgent: softwareAgentName(cborGet(action, 'softwareAgent')),
+      when: cborText(cborGet(action, 'when')),
+      digitalSourceType: cborText(cborGet(action, 'digitalSourceType')),
+    }));
+
+const readIngredients = (assertions: JumbfSuperbox[]): ProvenanceIngredient[] =>
+  assertions
+    .filter(a => isAssertion(a.label, 'c2pa.ingredient'))
+    .map(a => {
+      const ingredient = cborContent(a);
+      const link = cborGet(ingredient, 'c2pa_manifest') ?? cborGet(ingredient, 'activeManifest');
+      return {
+        title: cborText(cborGet(ingredient, 'dc:title')) || "Untitled ingredient",
+        format: cborText(cborGet(ingredient, 'dc:format')),
+        relationship: cborText(cborGet(ingredient, 'relationship')),
+        manifestLabel: manifestLabelFromUri(cborText(cborGet(link, 'url'))),
+      };
+    });
+
+const verifySignature = async (
+  signatureBox: JumbfSuperbox | undefined,
+  claimBytes: Uint8Array,
+  anchors: Certificate[],
+  issues: string[]
+): Promise<{ status: ProvenanceStatus; trusted: boolean; signer?: string; issuer?: string }> => {
+  const cose = cborContent(signatureBox);
+  const sign1 = cose && typeof cose === 'object' && 'tag' in cose && cose.tag === COSE_SIGN1_TAG ? cose.value : cose;
+  if (!Array.isArray(sign1) || sign1.length !== 4 || !(sign1[0] instanceof Uint8Array) || !(sign1[3] instanceof Uint8Array)) {
+    issues.push("Claim has no COSE signature");
+    return { status: 'unsigned', trusted: false };
+  }
+
+  const [protectedBytes, unprotected, , signature] = sign1 as [Uint8Array, CborValue, CborValue, Uint8Array];
+  const protectedHeader = protectedBytes.length ? decodeCbor(protectedBytes) : new Map();
+  const alg = COSE_ALGS[Number(cborGet(protectedHeader, COSE_HEADER_ALG))];
+  const x5chain = cborGet(protectedHeader, COSE_HEADER_X5CHAIN) ?? cborGet(unprotected, COSE_HEADER_X5CHAIN) ?? cborGet(unprotected, 'x5chain');
+  const chainDer = (Array.isArray(x5chain) ? x5chain : [x5chain]).filter((c): c is Uint8Array => c instanceof Uint8Array);
+
+  if (chainDer.length === 0) {
+    issues.push("Signature carries no certificate");
+    return { status: 'unsigned', trusted: false };
+  }
+  const chain = chainDer.map(parseCertificate);
+  const leaf = chain[0];
+  const identity = { signer: leaf.subjectName, issuer: leaf.issuerName };
+
+  const algorithm = alg && verifyAlgorithmFor(leaf, alg.hash, alg.pss);
+  if (!algorithm) {
+    issues.push("Signature algorithm is not supported by this browser");
+    return { status: 'unsigned', trusted: false, ...identity };
+  }
+
+  // Detached payload: the claim bytes are the COSE payload
+  const sigStructure = encodeCborArray(["Signature1", protectedBytes, new Uint8Array(), claimBytes]);
+  let valid = false;
+  try {
+    valid = await verifyWithCertificate(leaf, algorithm, signature, sigStructure);
+  } catch (err) {
+    issues.push(`Signature could not be checked: ${err instanceof Error ? err.message : String(err)}`);
+    return { status: 'unsigned', trusted: false, ...identity };
+  }
+  if (!valid) {
+    issues.push("Claim signature does not match the claim");
+    return { status: 'tampered', trusted: false, ...identity };
+  }
+
+  return { status: 'valid', trusted: await checkChain(chain, anchors, issues), ...identity };
+};
+
+const verifyManifest = async (
+  store: ManifestStore,
+  manifest: JumbfSuperbox,
+  anchors: Certificate[]
+): Promise<ProvenanceManifest> => {
+  const issues: string[] = [];
+  const claimBox = manifest.children.find(c => c.label === 'c2pa.claim' || c.label === 'c2pa.claim.v2');
+  const claimBytes = claimBox?.content.find(c => c.type === 'cbor')?.data;
+  const assertions = child(manifest, 'c2pa.assertions')?.children || [];
+
+  const base: ProvenanceManifest = {
+    label: manifest.label,
+    status: 'unsigned',
+    trusted: false,
+    actions: readActions(assertions),
+    ingredients: readIngredients(assertions),
+    issues,
+  };
+  if (!claimBytes) {
+    issues.push("Manifest has no claim");
+    return base;
+  }
+
+  const claim = decodeCbor(claimBytes);
+  const claimAlg = cborText(cborGet(claim, 'alg')) || 'sha256';
+  const generatorInfo = cborGet(claim, 'claim_generator_info');
+  base.title = cborText(cborGet(claim, 'dc:title')) ?? cborText(cborGet(claim, 'title'));
+  base.claimGenerator = cborText(cborGet(claim, 'claim_generator'))
+    ?? softwareAgentName(Array.isArray(generatorInfo) ? generatorInfo[0] : generatorInfo);
+
+  // Every assertion the claim references must hash to what was signed
+  const references = ['assertions', 'created_assertions', 'gathered_assertions']
+    .flatMap(key => {
+      const list = cborGet(claim, key);
+      return Array.isArray(list) ? list : [];
+    });
+  let assertionsIntact = true;
+  for (const ref of references) {
+    const url = cborText(cborGet(ref, 'url'));
+    const expected = cborGet(ref, 'hash');
+    if (!url || !(expected instanceof Uint8Array)) continue;
+    const target = resolveUri(store, manifest, url);
+    if (!target) {
+      issues.push(`Referenced assertion is missing: ${url}`);
+      assertionsIntact = false;
+      continue;
+    }
+    const actual = await digest(cborText(cborGet(ref, 'alg')) || claimAlg, store.bytes.subarray(target.payloadStart, target.end));
+    if (!sameBytes(actual, expected)) {
+      issues.push(`Assertion "${target.label}" was modified after signing`);
+      assertionsIntact = false;
+    }
+  }
+
+  const signature = await verifySignature(child(manifest, 'c2pa.signature'), claimBytes, anchors, issues);
+  return {
+    ...base,
+    signer: signature.signer,
+    issuer: signature.issuer,
+    status: signature.status === 'valid' && !assertionsIntact ? 'tampered' : signature.status,
+    trusted: signature.trusted && assertionsIntact,
+  };
+};
+
+/**
+ * Hard binding: the active manifest's c2pa.hash.data assertion hashes the
+ * asset bytes minus the listed exclusions (the manifest store itself).
+ */
+const checkHardBinding = async (
+  bytes: Uint8Array,
+  manifest: JumbfSuperbox,
+  issues: string[]
+): Promise<ProvenanceReport['hardBinding']> => {
+  const assertions = child(manifest, 'c2pa.assertions')?.children || [];
+  const dataHash = assertions.find(a => isAssertion(a.label, 'c2pa.hash.data'));
+  if (!dataHash) {
+    const other = assertions.find(a => /^c2pa\.hash\./.test(a.label));
+    issues.push(other ? `Hard binding "${other.label}" is not verified in the browser` : "Manifest has no hard binding to the asset");
+    return 'unchecked';
+  }
+
+  const assertion = cborContent(dataHash);
+  const expected = cborGet(assertion, 'hash');
+  if (!(expected instanceof Uint8Array)) {
+    issues.push("Hard binding assertion has no hash");
+    return 'unchecked';
+  }
+
+  const exclusions = (Array.isArray(cborGet(assertion, 'exclusions')) ? cborGet(assertion, 'exclusions') as CborValue[] : [])
+    .map(e => ({ start: Number(cborGet(e, 'start')), length: Number(cborGet(e, 'length')) }))
+    .filter(e => Number.isFinite(e.start) && Number.isFinite(e.length))
+    .sort((a, b) => a.start - b.start);
+
+  const parts: Uint8Array[] = [];
+  let at = 0;
+  exclusions.forEach(({ start, length }) => {
+    if (start > at) parts.push(bytes.subarray(at, start));
+    at = Math.max(at, start + length);
+  });
+  parts.push(bytes.subarray(at));
+
+  const actual = await digest(cborText(cborGet(assertion, 'alg')) || 'sha256', concatBytes(parts));
+  if (sameBytes(actual, expected)) return 'match';
+  issues.push("Asset bytes do not match the signed hash: the file was altered after signing");
+  return 'mismatch';
+};
+
+/**
+ * PROVENANCE STAGE
+ * Parses the C2PA manifest store in the original bytes, checks every claim
+ * signature and assertion hash, the active manifest's hard binding to the
+ * asset, and each signer's certificate chain against the local trust list.
+ * Returns null when the file carries no manifest store.
+ */
+export const verifyProvenance = async (file: Blob): Promise<ProvenanceReport | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const store = extractStore(bytes);
+  if (!store) return null;
+
+  const issues: string[] = [];
+  const manifests = store.root.children;
+  // The active manifest is the last one in the store
+  const active = manifests[manifests.length - 1];
+  if (!active) {
+    return { status: 'unsigned', trusted: false, hardBinding: 'unchecked', manifests: [], issues: ["Manifest store is empty"] };
+  }
+
+  const anchors = await loadTrustAnchors();
+  const verified = new Map<string, ProvenanceManifest>();
+  for (const manifest of manifests) {
+    try {
+      verified.set(manifest.label, await verifyManifest(store, manifest, anchors));
+    } catch (err) {
+      verified.set(manifest.label, {
+        label: manifest.label,
+        status: 'unsigned',
+        trusted: false,
+        actions: [],
+        ingredients: [],
+        issues: [`Manifest could not be parsed: ${err instanceof Error ? err.message : String(err)}`],
+      });
+    }
+  }
+
+  // Walk from the active manifest through its ingredients so the chain reads newest to oldest
+  const ordered: ProvenanceManifest[] = [];
+  const queue = [active.label];
+  while (queue.length) {
+    const entry = verified.get(queue.shift() as string);
+    if (!entry || ordered.includes(entry)) continue;
+    ordered.push(entry);
+    entry.ingredients.forEach(ing => ing.manifestLabel && queue.push(ing.manifestLabel));
+  }
+  verified.forEach(entry => !ordered.includes(entry) && ordered.push(entry));
+
+  const activeResult = ordered[0];
+  const hardBinding = activeResult.status === 'unsigned' ? 'unchecked' : await checkHardBinding(bytes, active, issues);
+
+  return {
+    status: hardBinding === 'mismatch' ? 'tampered' : activeResult.status,
+    trusted: activeResult.trusted && hardBinding !== 'mismatch',
+    hardBinding,
+    activeManifest: active.label,
+    manifests: ordered,
+    issues,
+  };
+};
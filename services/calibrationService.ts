@@ -0,0 +1,201 @@
+import { AnalysisResult, CalibrationMethod, CalibrationModel, CalibrationSample } from "../types";
+
+export interface OperatingPoint {
+  threshold: number; // 0-100 on the calibrated score
+  precision: number; // 0-1
+  recall: number;    // 0-1
+  f1: number;
+  falsePositiveRate: number;
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+/**
+ * Platt scaling: p = sigmoid(a * s + b) with s = raw score / 100, fitted by
+ * Newton's method on Platt's smoothed targets so a perfectly separated set
+ * does not push the slope to infinity.
+ */
+export const fitPlatt = (samples: CalibrationSample[]): { a: number; b: number } => {
+  const positives = samples.filter(s => s.synthetic).length;
+  const negatives = samples.length - positives;
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (negatives + 2);
+  const xs = samples.map(s => s.rawScore / 100);
+  const ts = samples.map(s => (s.synthetic ? hi : lo));
+
+  const loss = (a: number, b: number) => xs.reduce((acc, x, i) => {
+    const p = Math.min(1 - 1e-12, Math.max(1e-12, sigmoid(a * x + b)));
+    return acc - (ts[i] * Math.log(p) + (1 - ts[i]) * Math.log(1 - p));
+  }, 0);
+
+  let a = 0;
+  let b = Math.log((positives + 1) / (negatives + 1));
+  let current = loss(a, b);
+
+  for (let iter = 0; iter < 100; iter++) {
+    let ga = 0, gb = 0, haa = 1e-9, hab = 0, hbb = 1e-9;
+    xs.forEach((x, i) => {
+      const p = sigmoid(a * x + b);
+      const w = p * (1 - p);
+      ga += (p - ts[i]) * x;
+      gb += p - ts[i];
+      haa += w * x * x;
+      hab += w * x;
+      hbb += w;
+    });
+    if (Math.abs(ga) < 1e-6 && Math.abs(gb) < 1e-6) break;
+
+    const det = haa * hbb - hab * hab;
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+
+    // Backtracking line search keeps Newton from overshooting on tiny sets
+    let step = 1;
+    let next = loss(a - da, b - db);
+    while (next > current && step > 1e-6) {
+      step /= 2;
+      next = loss(a - step * da, b - step * db);
+    }
+    if (next > current) break;
+    a -= step * da;
+    b -= step * db;
+    current = next;
+  }
+
+  return { a, b };
+};
+
+/**
+ * Isotonic regression by pool-adjacent-violators: the monotone step function
+ * closest to the labels. Each pooled block contributes its score range as
+ * two breakpoints, and scores between blocks are interpolated linearly.
+ */
+export const fitIsotonic = (samples: CalibrationSample[]): { x: number[]; y: number[] } => {
+  const sorted = [...samples].sort((p, q) => p.rawScore - q.rawScore);
+  const blocks: { sum: number; count: number; min: number; max: number }[] = [];
+
+  sorted.forEach(sample => {
+    blocks.push({ sum: sample.synthetic ? 1 : 0, count: 1, min: sample.rawScore, max: sample.rawScore });
+    // Merge while the sequence is decreasing, and always merge identical scores
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sum / prev.count < last.sum / last.count && prev.max !== last.min) break;
+      blocks.splice(blocks.length - 2, 2, {
+        sum: prev.sum + last.sum,
+        count: prev.count + last.count,
+        min: prev.min,
+        max: last.max,
+      });
+    }
+  });
+
+  const x: number[] = [];
+  const y: number[] = [];
+  blocks.forEach(block => {
+    const value = block.sum / block.count;
+    x.push(block.min);
+    y.push(value);
+    if (block.max !== block.min) {
+      x.push(block.max);
+      y.push(value);
+    }
+  });
+  return { x, y };
+};
+
+// Probability (0-1) that media with this raw score is synthetic
+export const calibratedProbability = (model: CalibrationModel, rawScore: number): number => {
+  if (model.method === 'platt' && model.platt) {
+    return sigmoid(model.platt.a * (rawScore / 100) + model.platt.b);
+  }
+  if (model.method === 'isotonic' && model.isotonic && model.isotonic.x.length > 0) {
+    const { x, y } = model.isotonic;
+    if (rawScore <= x[0]) return y[0];
+    if (rawScore >= x[x.length - 1]) return y[y.length - 1];
+    const i = x.findIndex(v => v >= rawScore);
+    const span = x[i] - x[i - 1];
+    return span === 0 ? y[i] : y[i - 1] + ((rawScore - x[i - 1]) / span) * (y[i] - y[i - 1]);
+  }
+  return rawScore / 100;
+};
+
+export const calibratedScore = (model: CalibrationModel, rawScore: number): number =>
+  Math.round(calibratedProbability(model, rawScore) * 100);
+
+export const operatingPoint = (model: CalibrationModel, samples: CalibrationSample[], threshold: number): OperatingPoint => {
+  let tp = 0, fp = 0, fn = 0, tn = 0;
+  samples.forEach(sample => {
+    const flagged = calibratedScore(model, sample.rawScore) >= threshold;
+    if (flagged && sample.synthetic) tp++;
+    else if (flagged) fp++;
+    else if (sample.synthetic) fn++;
+    else tn++;
+  });
+  // Nothing flagged: precision is vacuously perfect
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 1;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  return {
+    threshold,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    falsePositiveRate: fp + tn > 0 ? fp / (fp + tn) : 0,
+  };
+};
+
+// One operating point per integer threshold, 1-99
+export const precisionRecallCurve = (model: CalibrationModel, samples: CalibrationSample[]): OperatingPoint[] =>
+  Array.from({ length: 99 }, (_, i) => operatingPoint(model, samples, i + 1));
+
+export const bestF1Threshold = (model: CalibrationModel, samples: CalibrationSample[]): number =>
+  precisionRecallCurve(model, samples).reduce((best, point) => (point.f1 > best.f1 ? point : best)).threshold;
+
+/**
+ * Fits a calibration for one detector version. The labeled samples are kept
+ * on the model so the threshold can be moved later without re-running the set.
+ */
+export const fitCalibration = (
+  detectorVersion: string,
+  method: CalibrationMethod,
+  samples: CalibrationSample[],
+  threshold?: number
+): CalibrationModel => {
+  const synthetic = samples.filter(s => s.synthetic).length;
+  if (synthetic === 0 || synthetic === samples.length) {
+    throw new Error("Calibration needs at least one real and one synthetic sample");
+  }
+
+  const model: CalibrationModel = {
+    detectorVersion,
+    method,
+    threshold: 50,
+    samples,
+    fittedAt: new Date().toISOString(),
+  };
+  if (method === 'platt') model.platt = fitPlatt(samples);
+  else model.isotonic = fitIsotonic(samples);
+
+  model.threshold = threshold ?? bestF1Threshold(model, samples);
+  return model;
+};
+
+/**
+ * Replaces the model's raw score with the calibrated one and re-derives isAI
+ * from the chosen operating threshold. The raw score is kept alongside.
+ */
+export const applyCalibration = (result: AnalysisResult, model: CalibrationModel): AnalysisResult => {
+  const rawScore = result.rawScore ?? result.score;
+  const score = calibratedScore(model, rawScore);
+  const isAI = score >= model.threshold;
+  const keepVerdict = isAI === result.isAI || result.ensemble?.inconclusive;
+
+  return {
+    ...result,
+    rawScore,
+    score,
+    isAI,
+    verdict: keepVerdict ? result.verdict : (isAI ? "SYNTHETIC DETECTED" : "AUTHENTIC"),
+    calibration: { method: model.method, threshold: model.threshold, fittedAt: model.fittedAt },
+  };
+};
@@ -0,0 +1,26 @@
+import { CalibrationModel } from "../types";
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db";
+
+/**
+ * One calibration per detector version: a new model or prompt needs its own
+ * reference run, so an old curve is never applied to a different detector.
+ */
+export const getCalibration = async (detectorVersion: string): Promise<CalibrationModel | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.calibrations, 'readonly');
+  return requestToPromise(tx.objectStore(STORES.calibrations).get(detectorVersion));
+};
+
+export const putCalibration = async (model: CalibrationModel): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.calibrations, 'readwrite');
+  tx.objectStore(STORES.calibrations).put(model);
+  await transactionDone(tx);
+};
+
+export const deleteCalibration = async (detectorVersion: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.calibrations, 'readwrite');
+  tx.objectStore(STORES.calibrations).delete(detectorVersion);
+  await transactionDone(tx);
+};
@@ -0,0 +1,182 @@
+/**
+ * Minimal CBOR (RFC 8949) codec, enough for C2PA claims, assertions and
+ * COSE_Sign1 structures. Maps decode to Map so integer keys (COSE headers)
+ * survive; byte strings decode to Uint8Array.
+ */
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | CborTagged;
+
+export interface CborTagged {
+  tag: number;
+  value: CborValue;
+}
+
+const utf8 = new TextDecoder('utf-8');
+const utf8Encoder = new TextEncoder();
+
+const BREAK = Symbol('break');
+
+export const decodeCbor = (bytes: Uint8Array): CborValue => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const need = (n: number) => {
+    if (offset + n > bytes.length) throw new Error("CBOR: unexpected end of input");
+  };
+
+  const readLength = (info: number): number | bigint | null => {
+    if (info < 24) return info;
+    if (info === 24) { need(1); return bytes[offset++]; }
+    if (info === 25) { need(2); const v = view.getUint16(offset); offset += 2; return v; }
+    if (info === 26) { need(4); const v = view.getUint32(offset); offset += 4; return v; }
+    if (info === 27) {
+      need(8);
+      const v = view.getBigUint64(offset);
+      offset += 8;
+      return v <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(v) : v;
+    }
+    if (info === 31) return null; // Indefinite length
+    throw new Error(`CBOR: invalid additional info ${info}`);
+  };
+
+  const readBytes = (length: number): Uint8Array => {
+    need(length);
+    const out = bytes.slice(offset, offset + length);
+    offset += length;
+    return out;
+  };
+
+  const readChunks = (): Uint8Array => {
+    const chunks: Uint8Array[] = [];
+    for (;;) {
+      const item = readItem();
+      if (item === BREAK) break;
+      if (!(item instanceof Uint8Array) && typeof item !== 'string') throw new Error("CBOR: bad indefinite string chunk");
+      chunks.push(typeof item === 'string' ? utf8Encoder.encode(item) : item);
+    }
+    const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let at = 0;
+    chunks.forEach(c => { out.set(c, at); at += c.length; });
+    return out;
+  };
+
+  const readItem = (): CborValue | typeof BREAK => {
+    need(1);
+    const initial = bytes[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      if (info === 20) return false;
+      if (info === 21) return true;
+      if (info === 22) return null;
+      if (info === 23) return undefined;
+      if (info === 24) { need(1); offset++; return undefined; } // Unassigned simple value
+      if (info === 25) {
+        need(2);
+        const half = view.getUint16(offset);
+        offset += 2;
+        const exp = (half >> 10) & 0x1f;
+        const mant = half & 0x3ff;
+        const sign = half & 0x8000 ? -1 : 1;
+        if (exp === 0) return sign * mant * 2 ** -24;
+        if (exp === 31) return mant ? NaN : sign * Infinity;
+        return sign * (1 + mant / 1024) * 2 ** (exp - 15);
+      }
+      if (info === 26) { need(4); const v = view.getFloat32(offset); offset += 4; return v; }
+      if (info === 27) { need(8); const v = view.getFloat64(offset); offset += 8; return v; }
+      if (info === 31) return BREAK;
+      return undefined;
+    }
+
+    const length = readLength(info);
+
+    switch (major) {
+      case 0:
+        return length as number | bigint;
+      case 1:
+        return typeof length === 'bigint' ? -1n - length : -1 - (length as number);
+      case 2:
+        return length === null ? readChunks() : readBytes(Number(length));
+      case 3:
+        return utf8.decode(length === null ? readChunks() : readBytes(Number(length)));
+      case 4: {
+        const items: CborValue[] = [];
+        for (let i = 0; length === null || i < Number(length); i++) {
+          const item = readItem();
+          if (item === BREAK) break;
+          items.push(item);
+        }
+        return items;
+      }
+      case 5: {
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; length === null || i < Number(length); i++) {
+          const key = readItem();
+          if (key === BREAK) break;
+          const value = readItem();
+          if (value === BREAK) throw new Error("CBOR: map missing value");
+          map.set(key, value);
+        }
+        return map;
+      }
+      case 6: {
+        const value = readItem();
+        if (value === BREAK) throw new Error("CBOR: tag missing value");
+        return { tag: Number(length), value };
+      }
+    }
+    throw new Error(`CBOR: unsupported major type ${major}`);
+  };
+
+  const result = readItem();
+  if (result === BREAK) throw new Error("CBOR: unexpected break");
+  return result;
+};
+
+const encodeHead = (major: number, length: number): Uint8Array => {
+  if (length < 24) return Uint8Array.of((major << 5) | length);
+  if (length < 0x100) return Uint8Array.of((major << 5) | 24, length);
+  if (length < 0x10000) return Uint8Array.of((major << 5) | 25, length >> 8, length & 0xff);
+  const head = new Uint8Array(5);
+  head[0] = (major << 5) | 26;
+  new DataView(head.buffer).setUint32(1, length);
+  return head;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  parts.forEach(p => { out.set(p, at); at += p.length; });
+  return out;
+};
+
+/**
+ * Encoder for the only structure we ever need to build: COSE Sig_structure,
+ * an array of text and byte strings.
+ */
+export const encodeCborArray = (items: (string | Uint8Array)[]): Uint8Array =>
+  concat([
+    encodeHead(4, items.length),
+    ...items.flatMap(item => {
+      const data = typeof item === 'string' ? utf8Encoder.encode(item) : item;
+      return [encodeHead(typeof item === 'string' ? 3 : 2, data.length), data];
+    }),
+  ]);
+
+// Map values are usually keyed by text; this reads one without caring about the Map wrapper
+export const cborGet = (value: CborValue, key: CborValue): CborValue =>
+  value instanceof Map ? value.get(key) : undefined;
+
+export const cborText = (value: CborValue): string | undefined =>
+  typeof value === 'string' ? value : undefined;
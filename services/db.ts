@@ -0,0 +1,83 @@
+/**
+ * Shared IndexedDB connection for everything Pixivera persists locally.
+ * Each store is created in the upgrade step for the version that introduced it.
+ */
+const DB_NAME = "pixivera";
+const DB_VERSION = 7;
+
+export const STORES = {
+  history: "history",
+  resultCache: "resultCache",
+  calibrations: "calibrations",
+  evaluations: "evaluations",
+  promptProfiles: "promptProfiles",
+  sources: "sources",
+  signingKeys: "signingKeys",
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const oldVersion = event.oldVersion;
+
+      if (oldVersion < 1) {
+        const history = db.createObjectStore(STORES.history, { keyPath: "id" });
+        history.createIndex("timestamp", "timestamp");
+        history.createIndex("sourceHash", "sourceHash");
+      }
+
+      if (oldVersion < 2) {
+        db.createObjectStore(STORES.resultCache, { keyPath: ["detectorVersion", "sourceHash"] });
+      }
+
+      if (oldVersion < 3) {
+        db.createObjectStore(STORES.calibrations, { keyPath: "detectorVersion" });
+      }
+
+      if (oldVersion < 4) {
+        const evaluations = db.createObjectStore(STORES.evaluations, { keyPath: "id" });
+        evaluations.createIndex("createdAt", "createdAt");
+      }
+
+      if (oldVersion < 5) {
+        db.createObjectStore(STORES.promptProfiles, { keyPath: ["id", "version"] });
+      }
+
+      if (oldVersion < 6) {
+        db.createObjectStore(STORES.sources, { keyPath: "id" });
+      }
+
+      if (oldVersion < 7) {
+        db.createObjectStore(STORES.signingKeys, { keyPath: "id" });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
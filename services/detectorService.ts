@@ -0,0 +1,307 @@
+import { AnalysisResult, DetectorId, DetectorProvider, ForensicLayers, MediaMetadata, MediaPayload, PromptProfile, PromptProfileVersion, ProvenanceReport } from "../types";
+import { createGeminiDetector, fileToBase64, geminiDetector } from "./geminiService";
+import { createLocalHttpDetector } from "./localDetectorService";
+import { mockDetector } from "./mockDetectorService";
+import { createEnsembleDetector, EnsemblePassProvider, parseEnsembleSpec } from "./ensembleService";
+import { createServerDetector } from "./serverDetectorService";
+import { forensicsDetector } from "./forensicsDetectorService";
+import { groupProfiles, resolveProfile } from "./promptProfiles";
+import { getSettings } from "./settingsService";
+import { normalizeAnalysisResult } from "./resultValidator";
+import { getCachedResult, putCachedResult } from "./resultCache";
+import { DEFAULT_VIDEO_SAMPLING, sampleVideoFrames, snapToSampledFrame } from "./videoSampler";
+import { LocalForensics, runLocalForensics } from "./forensicAnalyzers";
+import { extractMetadata, hasMetadata, mergeMetadataSignatures } from "./metadataExtractor";
+import { verifyProvenance } from "./c2paVerifier";
+import { getCalibration } from "./calibrationStore";
+import { applyCalibration } from "./calibrationService";
+
+// Largest video we will still upload whole when it cannot be decoded for frame sampling
+const MAX_INLINE_VIDEO_BYTES = 15 * 1024 * 1024;
+
+// Default ensemble: the same prompt on two Gemini models
+const DEFAULT_ENSEMBLE_PASSES = "gemini,gemini:gemini-2.5-pro";
+
+// Passes used when Settings leave the pass list empty
+export const BUILD_TIME_ENSEMBLE_PASSES = process.env.ENSEMBLE_PASSES || DEFAULT_ENSEMBLE_PASSES;
+
+const singlePassDetectors: Record<EnsemblePassProvider, DetectorProvider> = {
+  'gemini': geminiDetector,
+  'local-http': createLocalHttpDetector(),
+  'mock': mockDetector,
+  'server': createServerDetector(getSettings().serverUrl, getSettings().serverKey),
+  'local-forensics': forensicsDetector,
+};
+
+/**
+ * Providers for a pass list, see parseEnsembleSpec. "@profile:<id>" is
+ * resolved against `profiles` and pins the pass to that profile: the pass
+ * loses withPrompt, so the profile chosen for a scan does not replace it.
+ */
+export const parseEnsemblePasses = (spec: string, profiles: PromptProfile[] = groupProfiles([])): DetectorProvider[] =>
+  parseEnsembleSpec(spec).map(({ provider, model, profileId }) => {
+    if (provider !== 'gemini' || (!model && !profileId)) return singlePassDetectors[provider];
+    const profile = profileId ? resolveProfile(profiles, profileId) : undefined;
+    const pass = createGeminiDetector(model, profile);
+    return profile ? { ...pass, withPrompt: undefined } : pass;
+  });
+
+// Kept so the ensemble can be rebuilt when one of its providers is replaced
+let ensembleSpec = getSettings().ensemblePasses || BUILD_TIME_ENSEMBLE_PASSES;
+let ensembleProfiles = groupProfiles([]);
+
+const buildEnsemble = (): DetectorProvider => {
+  try {
+    return createEnsembleDetector(parseEnsemblePasses(ensembleSpec, ensembleProfiles));
+  } catch (err) {
+    console.warn(`Invalid ensemble passes "${ensembleSpec}", using "${DEFAULT_ENSEMBLE_PASSES}":`, err);
+    return createEnsembleDetector(parseEnsemblePasses(DEFAULT_ENSEMBLE_PASSES));
+  }
+};
+
+const detectors: Record<DetectorId, DetectorProvider> = {
+  ...singlePassDetectors,
+  'ensemble': buildEnsemble(),
+};
+
+const isDetectorId = (value: string | undefined): value is DetectorId =>
+  !!value && value in detectors;
+
+// Selected at build time via DETECTOR_PROVIDER, Gemini by default
+const buildTimeDetectorId: DetectorId = isDetectorId(process.env.DETECTOR_PROVIDER)
+  ? process.env.DETECTOR_PROVIDER
+  : 'gemini';
+
+// Ensemble mode from Settings wins, then a server configured in Settings, then the build-time choice
+let ensembleEnabled = getSettings().ensembleEnabled;
+let serverEnabled = !!getSettings().serverUrl;
+
+const runtimeDetectorId = (): DetectorId =>
+  ensembleEnabled ? 'ensemble' : serverEnabled ? 'server' : buildTimeDetectorId;
+
+let activeDetectorId: DetectorId = runtimeDetectorId();
+
+export const listDetectors = (): DetectorProvider[] => Object.values(detectors);
+
+export const getActiveDetector = (): DetectorProvider => detectors[activeDetectorId];
+
+export const setActiveDetector = (id: DetectorId) => {
+  activeDetectorId = id;
+};
+
+/**
+ * Swaps in a provider instance, e.g. a local HTTP detector pointed at a
+ * different endpoint.
+ */
+export const registerDetector = (provider: DetectorProvider) => {
+  detectors[provider.id] = provider;
+  if (provider.id !== 'ensemble') singlePassDetectors[provider.id] = provider;
+};
+
+/**
+ * Rebuilds the ensemble provider from a pass list, see parseEnsemblePasses.
+ * An empty list means the build-time passes. Throws on an invalid list and
+ * keeps the current ensemble.
+ */
+export const configureEnsemble = (spec: string, profiles: PromptProfile[] = ensembleProfiles) => {
+  const next = spec.trim() || BUILD_TIME_ENSEMBLE_PASSES;
+  detectors['ensemble'] = createEnsembleDetector(parseEnsemblePasses(next, profiles));
+  ensembleSpec = next;
+  ensembleProfiles = profiles;
+};
+
+// Turns ensemble mode from Settings on or off; off falls back to the server or build-time detector
+export const setEnsembleEnabled = (enabled: boolean) => {
+  ensembleEnabled = enabled;
+  activeDetectorId = runtimeDetectorId();
+};
+
+// Switches the "gemini" provider to another model, including plain "gemini" ensemble passes
+export const setGeminiModel = (model: string) => {
+  registerDetector(createGeminiDetector(model));
+  detectors['ensemble'] = buildEnsemble();
+};
+
+// Routes scans through a Pixivera API server, or back to the build-time detector when `url` is empty
+export const setServerEndpoint = (url: string, key: string) => {
+  registerDetector(createServerDetector(url, key));
+  detectors['ensemble'] = buildEnsemble();
+  serverEnabled = !!url;
+  activeDetectorId = runtimeDetectorId();
+};
+
+/**
+ * The active provider bound to a prompt profile. Providers without a prompt
+ * (local HTTP, mock) ignore the profile and are returned as they are.
+ */
+export const resolveDetector = (profile?: PromptProfileVersion): DetectorProvider => {
+  const detector = getActiveDetector();
+  return profile && detector.withPrompt ? detector.withPrompt(profile) : detector;
+};
+
+// Provider output is untrusted model/network JSON, so it always goes through the normalizer
+export const analyzeContent = async (
+  payload: MediaPayload,
+  detector: DetectorProvider = getActiveDetector()
+): Promise<AnalysisResult> => {
+  const raw = await detector.analyze(payload);
+  const result: AnalysisResult = {
+    ...normalizeAnalysisResult(raw),
+    detectorVersion: detector.version,
+    promptProfile: detector.promptProfile,
+  };
+
+  if (payload.kind === 'frames' && result.videoAnalysis) {
+    result.videoAnalysis.frameAnomalies = result.videoAnalysis.frameAnomalies.map(anomaly => ({
+      ...anomaly,
+      timestamp: snapToSampledFrame(anomaly.timestamp, payload.frames, payload.durationSeconds),
+    }));
+  }
+
+  return result;
+};
+
+/**
+ * Images are resized/re-encoded by fileToBase64, videos are reduced to
+ * timestamped keyframes. Only undecodable videos are sent whole, and only
+ * when small enough not to exhaust memory.
+ */
+const preparePayload = async (file: File): Promise<MediaPayload> => {
+  if (file.type.startsWith('video/')) {
+    try {
+      const { videoFrameInterval, videoMaxFrames } = getSettings();
+      const { frames, durationSeconds } = await sampleVideoFrames(file, {
+        ...DEFAULT_VIDEO_SAMPLING,
+        intervalSeconds: videoFrameInterval,
+        maxFrames: videoMaxFrames,
+      });
+      return { kind: 'frames', frames, durationSeconds, sourceMimeType: file.type };
+    } catch (err) {
+      if (file.size > MAX_INLINE_VIDEO_BYTES) {
+        throw new Error(`Video could not be decoded for frame sampling and is too large to upload whole (${Math.round(file.size / 1024 / 1024)}MB)`);
+      }
+      console.warn("Frame sampling failed, uploading whole video:", err);
+    }
+  }
+
+  // fileToBase64 converts every image to JPEG, so the API must be told so even for HEIC/PNG sources
+  const mimeType = file.type.startsWith('image/') ? 'image/jpeg' : file.type;
+  return { kind: 'inline', base64: await fileToBase64(file), mimeType, source: file.type.startsWith('image/') ? file : undefined };
+};
+
+export interface FileAnalysis {
+  result: AnalysisResult;
+  base64: string; // Empty when served from cache or when a video was sent as sampled frames
+  mimeType: string;
+  fromCache: boolean;
+  layers?: ForensicLayers; // Local pixel-analyzer heatmaps, images only
+}
+
+const tryLocalForensics = async (file: File): Promise<LocalForensics | undefined> => {
+  if (!file.type.startsWith('image/')) return undefined;
+  try {
+    return await runLocalForensics(file);
+  } catch (err) {
+    console.warn("Local forensics failed:", err);
+    return undefined;
+  }
+};
+
+const tryExtractMetadata = async (file: File): Promise<MediaMetadata | undefined> => {
+  try {
+    const metadata = await extractMetadata(file);
+    return hasMetadata(metadata) ? metadata : undefined;
+  } catch (err) {
+    console.warn("Metadata extraction failed:", err);
+    return undefined;
+  }
+};
+
+// Only worth the full parse when the metadata scan found a manifest store
+const tryVerifyProvenance = async (file: File, metadata: MediaMetadata | undefined): Promise<ProvenanceReport | undefined> => {
+  if (!metadata?.c2pa) return undefined;
+  try {
+    return (await verifyProvenance(file)) ?? undefined;
+  } catch (err) {
+    console.warn("C2PA verification failed:", err);
+    return undefined;
+  }
+};
+
+// The cache holds uncalibrated results, so a new calibration applies to them too
+const withCalibration = async (result: AnalysisResult, detectorVersion: string): Promise<AnalysisResult> => {
+  try {
+    const model = await getCalibration(detectorVersion);
+    return model ? applyCalibration(result, model) : result;
+  } catch (err) {
+    console.warn("Calibration unavailable:", err);
+    return result;
+  }
+};
+
+// The payload settings are part of the cache key, so changing them scores files again
+const cacheVersion = (detectorVersion: string, file: File): string => {
+  const { maxImageDimension, jpegQuality, videoFrameInterval, videoMaxFrames } = getSettings();
+  return file.type.startsWith('video/')
+    ? `${detectorVersion}#frames:${videoFrameInterval}s/${videoMaxFrames}`
+    : `${detectorVersion}#image:${maxImageDimension}/${jpegQuality}`;
+};
+
+/**
+ * Analyzes a file, reusing a cached result for the same bytes, detector
+ * version and payload settings unless `force` is set. `sourceHash` must be taken from the original
+ * bytes, before fileToBase64 re-encodes images. `profile` selects the prompt
+ * for prompt-driven detectors, the general profile when omitted.
+ */
+export const analyzeFile = async (
+  file: File,
+  sourceHash: string,
+  force: boolean = false,
+  profile?: PromptProfileVersion
+): Promise<FileAnalysis> => {
+  const mimeType = file.type.startsWith('image/') ? 'image/jpeg' : file.type;
+  const detector = resolveDetector(profile);
+  const detectorVersion = detector.version;
+  const cacheKey = cacheVersion(detectorVersion, file);
+
+  if (!force) {
+    try {
+      const cached = await getCachedResult(sourceHash, cacheKey);
+      if (cached) {
+        // Metrics are already in the cached result, the heatmaps are cheap to rebuild
+        const local = await tryLocalForensics(file);
+        return { result: await withCalibration(cached, detectorVersion), base64: "", mimeType, fromCache: true, layers: local?.layers };
+      }
+    } catch (err) {
+      console.warn("Result cache unavailable:", err);
+    }
+  }
+
+  // Local analyzers and the metadata reader need the original bytes, so they run alongside the detector rather than on its payload
+  const localPromise = tryLocalForensics(file);
+  const metadataPromise = tryExtractMetadata(file);
+  const provenancePromise = metadataPromise.then(metadata => tryVerifyProvenance(file, metadata));
+  const payload = await preparePayload(file);
+  const detected = await analyzeContent(payload, detector);
+  const local = await localPromise;
+  const metadata = await metadataPromise;
+  const provenance = await provenancePromise;
+
+  const result: AnalysisResult = {
+    ...detected,
+    forensicMetrics: { ...detected.forensicMetrics, ...local?.metrics },
+    watermark: metadata ? mergeMetadataSignatures(detected.watermark, metadata) : detected.watermark,
+    sourceHash,
+    metadata,
+    provenance,
+  };
+  const base64 = payload.kind === 'inline' ? payload.base64 : "";
+
+  try {
+    await putCachedResult(sourceHash, cacheKey, result);
+  } catch (err) {
+    console.warn("Result cache write failed:", err);
+  }
+
+  return { result: await withCalibration(result, detectorVersion), base64, mimeType, fromCache: false, layers: local?.layers };
+};
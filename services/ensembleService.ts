@@ -0,0 +1,139 @@
+import { AnalysisResult, DetectorId, DetectorProvider, EnsemblePass, EnsembleSummary, MediaPayload, PromptProfileVersion } from "../types";
+import { AI_SCORE_THRESHOLD, normalizeAnalysisResult } from "./resultValidator";
+
+// Standard deviation (in score points) above which the passes are considered to disagree
+const INCONCLUSIVE_SPREAD = 20;
+
+// Two-sided 95% Student's t critical values by degrees of freedom; passes are few, so z=1.96 would overstate certainty
+const T_CRITICAL: Record<number, number> = { 1: 12.71, 2: 4.3, 3: 3.18, 4: 2.78, 5: 2.57, 6: 2.45, 7: 2.36, 8: 2.31, 9: 2.26 };
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+export type EnsemblePassProvider = Exclude<DetectorId, 'ensemble'>;
+
+const PASS_PROVIDERS: EnsemblePassProvider[] = ['gemini', 'local-http', 'mock', 'server', 'local-forensics'];
+
+// One entry of a pass list, e.g. "gemini:gemini-2.5-pro@profile:faces"
+export interface EnsemblePassSpec {
+  provider: EnsemblePassProvider;
+  model?: string;     // Gemini model, the configured one when omitted
+  profileId?: string; // Prompt profile pinned to this pass, kept when the ensemble is given another profile
+}
+
+const PASS_PATTERN = /^([a-z-]+)(?::([^@\s]+))?(?:@profile:([a-z0-9-]+))?$/;
+
+/**
+ * Parses a comma-separated pass list. Each entry is a provider id, optionally
+ * followed by ":<model>" and "@profile:<id>"; both only apply to Gemini passes,
+ * the only provider driven by a prompt. Nested ensembles are not allowed.
+ */
+export const parseEnsembleSpec = (spec: string): EnsemblePassSpec[] => {
+  const passes = spec.split(',').map(s => s.trim()).filter(Boolean).map(entry => {
+    const match = PASS_PATTERN.exec(entry);
+    if (!match || !PASS_PROVIDERS.includes(match[1] as EnsemblePassProvider)) {
+      throw new Error(`Unknown ensemble pass "${entry}"`);
+    }
+    const [, provider, model, profileId] = match;
+    if ((model || profileId) && provider !== 'gemini') {
+      throw new Error(`Ensemble pass "${entry}": only gemini passes take a model or prompt profile`);
+    }
+    return { provider: provider as EnsemblePassProvider, model, profileId };
+  });
+  if (passes.length === 0) throw new Error("Ensemble needs at least one pass");
+  return passes;
+};
+
+/**
+ * Reduces the successful passes to a mean score, spread and confidence
+ * interval, and decides whether they agree enough for a binary verdict.
+ */
+export const summarizeEnsemble = (passes: EnsemblePass[]): EnsembleSummary => {
+  const scores = passes.flatMap(pass => (pass.result ? [pass.result.score] : []));
+  const n = scores.length;
+  const meanScore = n > 0 ? scores.reduce((a, b) => a + b, 0) / n : 0;
+  const variance = n > 1 ? scores.reduce((acc, s) => acc + (s - meanScore) ** 2, 0) / (n - 1) : 0;
+  const spread = Math.sqrt(variance);
+  const margin = n > 1 ? (T_CRITICAL[n - 1] ?? 1.96) * spread / Math.sqrt(n) : 0;
+
+  const aiVotes = scores.filter(s => s >= AI_SCORE_THRESHOLD).length;
+  const majority = Math.max(aiVotes, n - aiVotes);
+  // Without a two-thirds majority the verdict is a coin toss, whatever the spread
+  const split = majority * 3 < n * 2;
+
+  return {
+    passes,
+    meanScore: Math.round(meanScore),
+    spread: Math.round(spread * 10) / 10,
+    interval: [Math.round(clamp(meanScore - margin)), Math.round(clamp(meanScore + margin))],
+    agreement: n > 0 ? Math.round((majority / n) * 100) : 0,
+    inconclusive: n > 1 && (spread >= INCONCLUSIVE_SPREAD || split),
+  };
+};
+
+// An inconclusive ensemble still carries isAI from its mean score; synthetic/authentic tallies should leave it out
+export const isInconclusive = (result: Pick<AnalysisResult, 'ensemble'>): boolean => !!result.ensemble?.inconclusive;
+
+/**
+ * ENSEMBLE DETECTOR
+ * Runs every pass on the same payload and reports them as one result. The
+ * pass closest to the mean supplies the narrative fields (reasoning, regions,
+ * metrics); score and verdict come from the ensemble as a whole. Failed passes
+ * are kept in the summary, the ensemble only fails when every pass does.
+ * A prompt profile is handed to every pass that takes one, except passes
+ * pinned to their own profile, which have no withPrompt.
+ */
+export const createEnsembleDetector = (passes: DetectorProvider[]): DetectorProvider => ({
+  id: 'ensemble',
+  label: `Ensemble (${passes.map(p => p.label).join(' + ')})`,
+  version: `ensemble[${passes.map(p => p.version).join('+')}]`,
+  promptProfile: passes.find(p => p.promptProfile)?.promptProfile,
+  withPrompt: (profile: PromptProfileVersion) =>
+    createEnsembleDetector(passes.map(pass => (pass.withPrompt ? pass.withPrompt(profile) : pass))),
+  analyze: async (payload: MediaPayload): Promise<AnalysisResult> => {
+    const settled = await Promise.allSettled(passes.map(pass => pass.analyze(payload)));
+
+    const ensemblePasses: EnsemblePass[] = settled.map((outcome, idx) => {
+      const { label, version } = passes[idx];
+      if (outcome.status === 'rejected') {
+        const reason = outcome.reason;
+        return { label, detectorVersion: version, error: reason instanceof Error ? reason.message : String(reason) };
+      }
+      try {
+        return { label, detectorVersion: version, result: { ...normalizeAnalysisResult(outcome.value), detectorVersion: version } };
+      } catch (err) {
+        return { label, detectorVersion: version, error: err instanceof Error ? err.message : String(err) };
+      }
+    });
+
+    const succeeded = ensemblePasses.filter(pass => pass.result);
+    if (succeeded.length === 0) {
+      const rejected = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+      throw rejected ? rejected.reason : new Error(`All ${passes.length} ensemble passes failed: ${ensemblePasses[0]?.error}`);
+    }
+
+    const summary = summarizeEnsemble(ensemblePasses);
+    const representative = succeeded.reduce((best, pass) =>
+      Math.abs(pass.result!.score - summary.meanScore) < Math.abs(best.result!.score - summary.meanScore) ? pass : best
+    ).result!;
+    const isAI = summary.meanScore >= AI_SCORE_THRESHOLD;
+
+    // Pass-level bookkeeping stays on the pass itself
+    const narrative: AnalysisResult = { ...representative };
+    delete narrative.repairedFields;
+    delete narrative.detectorVersion;
+
+    return {
+      ...narrative,
+      score: summary.meanScore,
+      isAI,
+      verdict: summary.inconclusive
+        ? "INCONCLUSIVE"
+        : representative.isAI === isAI ? representative.verdict : (isAI ? "SYNTHETIC DETECTED" : "AUTHENTIC"),
+      technicalDetails: [
+        `Ensemble of ${succeeded.length}/${passes.length} passes: ${summary.meanScore} ± ${summary.spread} (95% CI ${summary.interval[0]}-${summary.interval[1]})`,
+        ...representative.technicalDetails,
+      ],
+      ensemble: summary,
+    };
+  },
+});
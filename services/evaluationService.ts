@@ -0,0 +1,313 @@
+import {
+  BatchItem,
+  ConfusionMatrix,
+  EvaluationMetrics,
+  EvaluationRun,
+  EvaluationSample,
+  GroundTruthLabel,
+  GroupAccuracy,
+  PromptProfileRef,
+  RocPoint,
+} from "../types";
+import { AI_SCORE_THRESHOLD, isRecord } from "./resultValidator";
+
+const SYNTHETIC_LABELS = /^(synthetic|ai|fake|generated|1|true|yes)$/i;
+const REAL_LABELS = /^(real|authentic|human|camera|0|false|no)$/i;
+
+const parseLabelValue = (value: string, where: string): boolean => {
+  const trimmed = value.trim();
+  if (SYNTHETIC_LABELS.test(trimmed)) return true;
+  if (REAL_LABELS.test(trimmed)) return false;
+  throw new Error(`${where}: unknown label "${trimmed}", expected "real" or "synthetic"`);
+};
+
+// Minimal RFC 4180 field splitter: quoted fields may contain commas and "" escapes
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { fields.push(field); field = ""; }
+    else field += ch;
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+};
+
+/**
+ * Reads a ground-truth file into a map keyed by file name (or relative path).
+ * CSV needs a header with `file` and `label` columns and an optional
+ * `generator` column; JSON may be an array of `{ file, label, generator }`
+ * objects or an object mapping file names to a label or such an object.
+ */
+export const parseGroundTruth = (text: string, sourceName: string): Map<string, GroundTruthLabel> => {
+  const labels = new Map<string, GroundTruthLabel>();
+  const trimmed = text.trim();
+
+  if (sourceName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const data: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(data) && !isRecord(data)) {
+      throw new Error(`${sourceName}: expected an array of labels or an object keyed by file name`);
+    }
+    const entries: [string, unknown][] = Array.isArray(data)
+      ? data.map(entry => [isRecord(entry) ? String(entry.file ?? entry.fileName ?? "") : "", entry])
+      : Object.entries(data);
+
+    entries.forEach(([file, entry], idx) => {
+      if (!file) throw new Error(`${sourceName}: entry ${idx + 1} has no file name`);
+      const raw = isRecord(entry) ? entry.label ?? entry.synthetic : entry;
+      const synthetic = typeof raw === 'boolean' ? raw : parseLabelValue(String(raw), `${sourceName} "${file}"`);
+      const generator = isRecord(entry) && typeof entry.generator === 'string' && entry.generator.trim() ? entry.generator.trim() : undefined;
+      labels.set(file, { synthetic, generator });
+    });
+    return labels;
+  }
+
+  const lines = trimmed.split(/\r?\n/).filter(line => line.trim());
+  const header = splitCsvLine(lines[0] ?? "").map(h => h.toLowerCase());
+  const fileCol = header.findIndex(h => h === 'file' || h === 'filename' || h === 'path');
+  const labelCol = header.indexOf('label');
+  const generatorCol = header.indexOf('generator');
+  if (fileCol < 0 || labelCol < 0) {
+    throw new Error(`${sourceName}: header must contain "file" and "label" columns`);
+  }
+
+  lines.slice(1).forEach((line, idx) => {
+    const fields = splitCsvLine(line);
+    const file = fields[fileCol];
+    if (!file) return;
+    labels.set(file, {
+      synthetic: parseLabelValue(fields[labelCol] ?? "", `${sourceName} line ${idx + 2}`),
+      generator: generatorCol >= 0 && fields[generatorCol] ? fields[generatorCol] : undefined,
+    });
+  });
+  return labels;
+};
+
+/**
+ * Folder convention used when no ground-truth file is given:
+ * `.../real/<file>` or `.../synthetic/<generator>/<file>`.
+ */
+export const labelFromPath = (path: string): GroundTruthLabel | undefined => {
+  const segments = path.split('/').slice(0, -1);
+  const idx = segments.findIndex(s => REAL_LABELS.test(s) || SYNTHETIC_LABELS.test(s));
+  if (idx < 0) return undefined;
+  const synthetic = SYNTHETIC_LABELS.test(segments[idx]);
+  return { synthetic, generator: synthetic ? segments[idx + 1] : undefined };
+};
+
+export const resolveLabel = (file: File, labels?: Map<string, GroundTruthLabel>): GroundTruthLabel | undefined => {
+  const path = file.webkitRelativePath || file.name;
+  if (labels) return labels.get(path) ?? labels.get(file.name);
+  return labelFromPath(path);
+};
+
+/**
+ * ROC over every distinct score, from the strictest threshold down. The area
+ * is integrated with trapezoids, which gives tied scores half credit.
+ */
+export const rocCurve = (samples: EvaluationSample[]): RocPoint[] => {
+  const positives = samples.filter(s => s.synthetic).length;
+  const negatives = samples.length - positives;
+  if (positives === 0 || negatives === 0) return [];
+
+  const thresholds = Array.from(new Set(samples.map(s => s.score))).sort((a, b) => b - a);
+  const points: RocPoint[] = [{ threshold: 101, tpr: 0, fpr: 0 }];
+  thresholds.forEach(threshold => {
+    const flagged = samples.filter(s => s.score >= threshold);
+    points.push({
+      threshold,
+      tpr: flagged.filter(s => s.synthetic).length / positives,
+      fpr: flagged.filter(s => !s.synthetic).length / negatives,
+    });
+  });
+  return points;
+};
+
+export const rocAuc = (roc: RocPoint[]): number =>
+  roc.reduce((area, point, i) => (i === 0 ? 0 : area + (point.fpr - roc[i - 1].fpr) * (point.tpr + roc[i - 1].tpr) / 2), 0);
+
+const percent = (num: number, den: number) => (den > 0 ? Math.round((num / den) * 1000) / 10 : 0);
+
+const groupAccuracy = (samples: EvaluationSample[], key: (s: EvaluationSample) => string | undefined): GroupAccuracy[] => {
+  const groups = new Map<string, EvaluationSample[]>();
+  samples.forEach(sample => {
+    const name = key(sample);
+    if (name === undefined) return;
+    groups.set(name, [...(groups.get(name) ?? []), sample]);
+  });
+  return Array.from(groups, ([name, group]) => {
+    const correct = group.filter(s => s.isAI === s.synthetic).length;
+    return { name, total: group.length, correct, accuracy: percent(correct, group.length) };
+  }).sort((a, b) => b.total - a.total);
+};
+
+// Loose match: "Midjourney v6" is a hit for a reported "Midjourney"
+const namesGenerator = (signature: string, generator: string) => {
+  const sig = signature.toLowerCase();
+  const gen = generator.toLowerCase();
+  return sig !== 'unknown' && (sig.includes(gen) || gen.includes(sig.split(/\s+/)[0]));
+};
+
+export const computeMetrics = (samples: EvaluationSample[]): EvaluationMetrics => {
+  const confusion: ConfusionMatrix = { tp: 0, fp: 0, tn: 0, fn: 0 };
+  samples.forEach(s => {
+    if (s.isAI && s.synthetic) confusion.tp++;
+    else if (s.isAI) confusion.fp++;
+    else if (s.synthetic) confusion.fn++;
+    else confusion.tn++;
+  });
+  const precision = percent(confusion.tp, confusion.tp + confusion.fp);
+  const recall = percent(confusion.tp, confusion.tp + confusion.fn);
+  const roc = rocCurve(samples);
+
+  const byGenerator = groupAccuracy(samples, s => (s.synthetic ? s.generator || 'Unspecified' : undefined)).map(group => ({
+    ...group,
+    signatureHits: samples.filter(s => s.synthetic && (s.generator || 'Unspecified') === group.name && namesGenerator(s.signature, group.name)).length,
+  }));
+
+  return {
+    total: samples.length,
+    accuracy: percent(confusion.tp + confusion.tn, samples.length),
+    precision,
+    recall,
+    f1: precision + recall > 0 ? Math.round((2 * precision * recall) / (precision + recall) * 10) / 10 : 0,
+    auc: Math.round(rocAuc(roc) * 1000) / 1000,
+    roc,
+    confusion,
+    inconclusive: samples.filter(s => s.inconclusive).length,
+    bySignature: groupAccuracy(samples, s => s.signature),
+    byGenerator,
+  };
+};
+
+/**
+ * Turns the items of a finished evaluation batch into a run. Items without a
+ * label never reach the queue, so they are passed in separately.
+ */
+export const buildEvaluationRun = (
+  id: string,
+  name: string,
+  detectorLabel: string,
+  detectorVersion: string,
+  items: BatchItem[],
+  unlabeled: string[],
+  promptProfile?: PromptProfileRef
+): EvaluationRun => {
+  const samples: EvaluationSample[] = items.flatMap(item => {
+    const { output, input } = item;
+    if (item.status !== 'done' || !output || !input.label) return [];
+    return [{
+      fileName: output.fileName,
+      sourceHash: input.sourceHash,
+      synthetic: input.label.synthetic,
+      generator: input.label.generator,
+      score: output.result.score,
+      isAI: output.result.isAI,
+      inconclusive: !!output.result.ensemble?.inconclusive,
+      signature: output.result.modelSignature.name,
+    }];
+  });
+
+  return {
+    id,
+    name,
+    createdAt: new Date().toISOString(),
+    detectorLabel,
+    detectorVersion,
+    promptProfile,
+    samples,
+    metrics: computeMetrics(samples),
+    failed: items.filter(item => item.status === 'failed').map(item => item.input.file.name),
+    unlabeled,
+  };
+};
+
+export interface RunComparison {
+  accuracy: number; // Deltas, current minus baseline
+  precision: number;
+  recall: number;
+  f1: number;
+  auc: number;
+  shared: number;    // Files (by hash) present in both runs
+  fixed: string[];   // Wrong in the baseline, right now
+  broken: string[];  // Right in the baseline, wrong now
+}
+
+export const compareRuns = (current: EvaluationRun, baseline: EvaluationRun): RunComparison => {
+  const before = new Map(baseline.samples.map(s => [s.sourceHash, s]));
+  const fixed: string[] = [];
+  const broken: string[] = [];
+  let shared = 0;
+
+  current.samples.forEach(sample => {
+    const prev = before.get(sample.sourceHash);
+    if (!prev) return;
+    shared++;
+    const nowRight = sample.isAI === sample.synthetic;
+    const wasRight = prev.isAI === prev.synthetic;
+    if (nowRight && !wasRight) fixed.push(sample.fileName);
+    if (!nowRight && wasRight) broken.push(sample.fileName);
+  });
+
+  const delta = (a: number, b: number) => Math.round((a - b) * 1000) / 1000;
+  return {
+    accuracy: delta(current.metrics.accuracy, baseline.metrics.accuracy),
+    precision: delta(current.metrics.precision, baseline.metrics.precision),
+    recall: delta(current.metrics.recall, baseline.metrics.recall),
+    f1: delta(current.metrics.f1, baseline.metrics.f1),
+    auc: delta(current.metrics.auc, baseline.metrics.auc),
+    shared,
+    fixed,
+    broken,
+  };
+};
+
+/**
+ * Reads an exported run back. Metrics are recomputed from the samples, so
+ * runs exported by older builds stay comparable with the current formulas.
+ */
+export const parseEvaluationRun = (text: string): EvaluationRun => {
+  const data: unknown = JSON.parse(text);
+  if (!isRecord(data) || !Array.isArray(data.samples)) {
+    throw new Error("Not an evaluation run export: missing samples");
+  }
+
+  const samples: EvaluationSample[] = data.samples.map((s: unknown, idx: number) => {
+    if (!isRecord(s) || typeof s.synthetic !== 'boolean' || typeof s.score !== 'number' || !Number.isFinite(s.score)) {
+      throw new Error(`Evaluation sample ${idx + 1} is missing its label or score`);
+    }
+    return {
+      fileName: String(s.fileName ?? `sample-${idx + 1}`),
+      sourceHash: String(s.sourceHash ?? ""),
+      synthetic: s.synthetic,
+      generator: typeof s.generator === 'string' ? s.generator : undefined,
+      score: s.score,
+      isAI: typeof s.isAI === 'boolean' ? s.isAI : s.score >= AI_SCORE_THRESHOLD,
+      inconclusive: !!s.inconclusive,
+      signature: String(s.signature ?? 'Unknown'),
+    };
+  });
+
+  const profile = data.promptProfile;
+  return {
+    id: typeof data.id === 'string' ? data.id : crypto.randomUUID(),
+    name: String(data.name ?? "Imported run"),
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : new Date().toISOString(),
+    detectorLabel: String(data.detectorLabel ?? "Unknown detector"),
+    detectorVersion: String(data.detectorVersion ?? "unknown"),
+    promptProfile: isRecord(profile) && typeof profile.id === 'string' && typeof profile.version === 'number'
+      ? { id: profile.id, name: String(profile.name ?? profile.id), version: profile.version }
+      : undefined,
+    samples,
+    metrics: computeMetrics(samples),
+    failed: Array.isArray(data.failed) ? data.failed.map(String) : [],
+    unlabeled: Array.isArray(data.unlabeled) ? data.unlabeled.map(String) : [],
+  };
+};
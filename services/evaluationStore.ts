@@ -0,0 +1,24 @@
+import { EvaluationRun } from "../types";
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db";
+
+// Newest first. Runs only hold scores and labels, so the whole list is small enough to load at once
+export const listEvaluationRuns = async (): Promise<EvaluationRun[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.evaluations, 'readonly');
+  const runs: EvaluationRun[] = await requestToPromise(tx.objectStore(STORES.evaluations).index('createdAt').getAll());
+  return runs.reverse();
+};
+
+export const putEvaluationRun = async (run: EvaluationRun): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.evaluations, 'readwrite');
+  tx.objectStore(STORES.evaluations).put(run);
+  await transactionDone(tx);
+};
+
+export const deleteEvaluationRun = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.evaluations, 'readwrite');
+  tx.objectStore(STORES.evaluations).delete(id);
+  await transactionDone(tx);
+};
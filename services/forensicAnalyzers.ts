@@ -0,0 +1,341 @@
+import { ForensicLayers } from "../types";
+
+// Working resolution for the pixel analyzers (keeps them fast on phones)
+const ANALYSIS_MAX_DIMENSION = 512;
+
+// ELA: recompress at this quality and measure how much each pixel moves
+const ELA_QUALITY = 0.9;
+const ELA_FULL_SCALE = 12;   // Mean abs difference that maps to errorLevel 100
+const ELA_HEATMAP_GAIN = 10;
+
+// Noise residual: block size for the consistency statistic
+const NOISE_BLOCK = 16;
+const NOISE_HEATMAP_GAIN = 8;
+
+// FFT: square, power-of-two center crop
+const FFT_SIZE = 256;
+const PEAK_SIGMA = 4;           // Peaks must exceed band mean + PEAK_SIGMA * std
+const LOW_FREQ_RADIUS = FFT_SIZE / 8;
+
+export interface LocalForensics {
+  metrics: {
+    errorLevel: number;
+    noiseConsistency: number;
+    spectralPeaks: number;
+  };
+  layers: ForensicLayers;
+}
+
+const clampPercent = (value: number) => Math.round(Math.min(100, Math.max(0, value)));
+
+const decodeImage = (blob: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Image decode failed"));
+    };
+    img.src = url;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas context failed");
+  return { canvas, ctx };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Canvas encode failed")), type, quality);
+  });
+
+// Transparent -> blue -> red -> yellow, alpha grows with intensity
+const heatColor = (v: number): [number, number, number, number] => {
+  const t = Math.min(1, Math.max(0, v));
+  if (t < 0.5) {
+    const k = t / 0.5;
+    return [Math.round(255 * k), 0, Math.round(255 * (1 - k)), Math.round(200 * t * 2)];
+  }
+  const k = (t - 0.5) / 0.5;
+  return [255, Math.round(255 * k), 0, 200];
+};
+
+const renderHeatmap = (values: Float32Array, width: number, height: number): string => {
+  const { canvas, ctx } = createCanvas(width, height);
+  const image = ctx.createImageData(width, height);
+  for (let i = 0; i < values.length; i++) {
+    const [r, g, b, a] = heatColor(values[i]);
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    image.data[i * 4 + 3] = a;
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const toGray = (data: Uint8ClampedArray, count: number): Float32Array => {
+  const gray = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Error Level Analysis: regions pasted in or synthesized separately tend to
+ * recompress differently from the rest of the frame.
+ */
+const errorLevelAnalysis = async (canvas: HTMLCanvasElement, original: ImageData) => {
+  const { width, height } = original;
+  const recompressedImg = await decodeImage(await canvasToBlob(canvas, 'image/jpeg', ELA_QUALITY));
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(recompressedImg, 0, 0, width, height);
+  const recompressed = ctx.getImageData(0, 0, width, height).data;
+
+  const count = width * height;
+  const heat = new Float32Array(count);
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    const diff = Math.max(
+      Math.abs(original.data[i * 4] - recompressed[i * 4]),
+      Math.abs(original.data[i * 4 + 1] - recompressed[i * 4 + 1]),
+      Math.abs(original.data[i * 4 + 2] - recompressed[i * 4 + 2])
+    );
+    total += diff;
+    heat[i] = (diff * ELA_HEATMAP_GAIN) / 255;
+  }
+
+  return {
+    errorLevel: clampPercent(((total / count) / ELA_FULL_SCALE) * 100),
+    heatmap: renderHeatmap(heat, width, height),
+  };
+};
+
+/**
+ * High-pass noise residual (pixel minus its 3x3 mean). Camera sensor noise is
+ * roughly uniform across a frame; diffusion output is often patchy.
+ */
+const noiseResidual = (gray: Float32Array, width: number, height: number) => {
+  const residual = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          sum += gray[(y + dy) * width + (x + dx)];
+        }
+      }
+      residual[y * width + x] = gray[y * width + x] - sum / 9;
+    }
+  }
+
+  // Per-block residual energy, then how much it varies across the frame
+  const energies: number[] = [];
+  for (let by = 0; by + NOISE_BLOCK <= height; by += NOISE_BLOCK) {
+    for (let bx = 0; bx + NOISE_BLOCK <= width; bx += NOISE_BLOCK) {
+      let sq = 0;
+      for (let y = by; y < by + NOISE_BLOCK; y++) {
+        for (let x = bx; x < bx + NOISE_BLOCK; x++) {
+          sq += residual[y * width + x] ** 2;
+        }
+      }
+      energies.push(Math.sqrt(sq / (NOISE_BLOCK * NOISE_BLOCK)));
+    }
+  }
+  const mean = energies.reduce((a, b) => a + b, 0) / Math.max(1, energies.length);
+  const std = Math.sqrt(energies.reduce((a, b) => a + (b - mean) ** 2, 0) / Math.max(1, energies.length));
+  const variation = mean > 0 ? std / mean : 1;
+
+  const heat = new Float32Array(residual.length);
+  for (let i = 0; i < residual.length; i++) {
+    heat[i] = (Math.abs(residual[i]) * NOISE_HEATMAP_GAIN) / 255;
+  }
+
+  return {
+    noiseConsistency: clampPercent((1 - Math.min(1, variation)) * 100),
+    heatmap: renderHeatmap(heat, width, height),
+  };
+};
+
+// In-place iterative radix-2 FFT
+const fft1d = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    for (let i = 0; i < n; i += len) {
+      for (let k = 0; k < len / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const aRe = re[i + k], aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * wr - im[i + k + len / 2] * wi;
+        const bIm = re[i + k + len / 2] * wi + im[i + k + len / 2] * wr;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+      }
+    }
+  }
+};
+
+/**
+ * 2D FFT of a Hann-windowed center crop. Upsampling layers in generators leave
+ * periodic grids, which show up as isolated off-axis peaks in the spectrum.
+ */
+const spectralAnalysis = (gray: Float32Array, width: number, height: number) => {
+  const n = FFT_SIZE;
+  const re = new Float64Array(n * n);
+  const im = new Float64Array(n * n);
+  const offX = Math.max(0, Math.floor((width - n) / 2));
+  const offY = Math.max(0, Math.floor((height - n) / 2));
+
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      const sx = Math.min(width - 1, offX + x);
+      const sy = Math.min(height - 1, offY + y);
+      const window = (0.5 - 0.5 * Math.cos((2 * Math.PI * x) / (n - 1))) * (0.5 - 0.5 * Math.cos((2 * Math.PI * y) / (n - 1)));
+      re[y * n + x] = gray[sy * width + sx] * window;
+    }
+  }
+
+  const rowRe = new Float64Array(n);
+  const rowIm = new Float64Array(n);
+  for (let y = 0; y < n; y++) {
+    rowRe.set(re.subarray(y * n, y * n + n));
+    rowIm.set(im.subarray(y * n, y * n + n));
+    fft1d(rowRe, rowIm);
+    re.set(rowRe, y * n);
+    im.set(rowIm, y * n);
+  }
+  for (let x = 0; x < n; x++) {
+    for (let y = 0; y < n; y++) {
+      rowRe[y] = re[y * n + x];
+      rowIm[y] = im[y * n + x];
+    }
+    fft1d(rowRe, rowIm);
+    for (let y = 0; y < n; y++) {
+      re[y * n + x] = rowRe[y];
+      im[y * n + x] = rowIm[y];
+    }
+  }
+
+  // Log magnitude, shifted so DC sits in the center
+  const magnitude = new Float32Array(n * n);
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      const sy = (y + n / 2) % n;
+      const sx = (x + n / 2) % n;
+      magnitude[sy * n + sx] = Math.log1p(Math.hypot(re[y * n + x], im[y * n + x]));
+    }
+  }
+
+  // Statistics over the high-frequency band, ignoring the axes (boundary leakage)
+  const c = n / 2;
+  const inBand = (x: number, y: number) =>
+    x !== c && y !== c && Math.hypot(x - c, y - c) > LOW_FREQ_RADIUS;
+
+  let sum = 0, sumSq = 0, count = 0;
+  let max = 0;
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      const v = magnitude[y * n + x];
+      max = Math.max(max, v);
+      if (!inBand(x, y)) continue;
+      sum += v;
+      sumSq += v * v;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  const std = Math.sqrt(Math.max(0, sumSq / count - mean * mean));
+  const threshold = mean + PEAK_SIGMA * std;
+
+  const peaks: number[] = [];
+  for (let y = 1; y < n - 1; y++) {
+    for (let x = 1; x < n - 1; x++) {
+      const v = magnitude[y * n + x];
+      if (!inBand(x, y) || v < threshold) continue;
+      let isMax = true;
+      for (let dy = -1; dy <= 1 && isMax; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx || dy) && magnitude[(y + dy) * n + (x + dx)] > v) {
+            isMax = false;
+            break;
+          }
+        }
+      }
+      if (isMax) peaks.push(y * n + x);
+    }
+  }
+
+  const { canvas, ctx } = createCanvas(n, n);
+  const image = ctx.createImageData(n, n);
+  for (let i = 0; i < magnitude.length; i++) {
+    const v = Math.round((magnitude[i] / (max || 1)) * 255);
+    image.data[i * 4] = v;
+    image.data[i * 4 + 1] = v;
+    image.data[i * 4 + 2] = v;
+    image.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+  ctx.strokeStyle = '#ff2a2a';
+  peaks.forEach(idx => ctx.strokeRect((idx % n) - 3, Math.floor(idx / n) - 3, 6, 6));
+
+  return {
+    // Saturating curve: a couple of peaks is suggestive, ten or more is a clear grid
+    spectralPeaks: clampPercent(100 * (1 - Math.exp(-peaks.length / 4))),
+    spectrum: canvas.toDataURL('image/png'),
+  };
+};
+
+/**
+ * Deterministic in-browser pixel forensics for still images. Must be given the
+ * original file, not the JPEG produced by optimizeImageForMobile, or ELA will
+ * only measure our own re-encode.
+ */
+export const runLocalForensics = async (file: Blob): Promise<LocalForensics> => {
+  const img = await decodeImage(file);
+  const scale = Math.min(1, ANALYSIS_MAX_DIMENSION / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const gray = toGray(imageData.data, width * height);
+
+  const ela = await errorLevelAnalysis(canvas, imageData);
+  const noise = noiseResidual(gray, width, height);
+  const spectral = spectralAnalysis(gray, width, height);
+
+  return {
+    metrics: {
+      errorLevel: ela.errorLevel,
+      noiseConsistency: noise.noiseConsistency,
+      spectralPeaks: spectral.spectralPeaks,
+    },
+    layers: {
+      ela: ela.heatmap,
+      noise: noise.heatmap,
+      spectrum: spectral.spectrum,
+    },
+  };
+};
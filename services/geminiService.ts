@@ -1,48 +1,18 @@
 import { GoogleGenAI, Schema, Type } from "@google/genai";
-import { AnalysisResult } from "../types";
-
-const DEFAULT_SYSTEM_INSTRUCTION = `
-Role: World-Class Computer Vision & Deepfake Forensic Expert.
-Your capability includes detecting specific generative model signatures (Midjourney, DALL-E, Stable Diffusion, Flux, Sora, Runway) and invisible digital watermarks.
-
-Analyze the visual input for synthetic signatures using these advanced criteria:
-
-1. **Model Fingerprinting**:
-   - Identify style markers specific to: Midjourney (excessive detail, distinctive lighting), DALL-E (plastic smoothness), Stable Diffusion (texture merging).
-   - If Real, look for ISO grain, sensor noise patterns, and lens chromatic aberration.
-
-2. **Digital Watermarks & Signatures**:
-   - **C2PA/CAI**: Analyze for presence of content credentials or specific metadata markers often preserved in visual encoding.
-   - **SynthID**: Look for the specific invisible noise pattern used by Google DeepMind's SynthID in the high-frequency domain.
-   - **OpenAI/Meta**: Look for known invisible watermarking patterns in the pixel noise distribution.
-
-3. **Biometric & Physics Forensics**:
-   - **Eyes**: Check for non-circular pupils, inconsistent specular highlights (Purkinje images).
-   - **Hands/Limbs**: Count fingers, check joint articulation logic.
-   - **Lighting**: Analyze shadow falloff (inverse square law) and reflection mapping.
-
-4. **Region Detection**:
-   - Identify specific rectangular regions [ymin, xmin, ymax, xmax] (0-100 scale) where artifacts are visible.
-
-5. **Human Perception Rating**:
-   - Evaluate "Realness" (how convincing it is to a casual observer).
-   - Evaluate "Suspiciousness" (uncanny valley effect).
-   - Evaluate "Perceptual Inconsistency" (subtle things that feel 'off' even if technically correct).
-   - Evaluate "Artifact Level" (obvious visual glitches).
-
-6. **Video Analysis (If applicable)**:
-   - Check for temporal flickering in high-frequency textures (foliage, hair).
-   - Analyze face stability during rotation.
-
-Output strict JSON.
-`;
+import { AnalysisResult, ConnectivityResult, DetectorProvider, MediaPayload, PromptProfileVersion } from "../types";
+import { DEFAULT_PROFILE, toProfileRef } from "./promptProfiles";
+import { getGeminiApiKey, getSettings } from "./settingsService";
 
 /**
  * OPTIMIZED FOR IOS WEBVIEW
  * Compresses and resizes images to avoid memory limit crashes on iPhones.
- * Converts HEIC/High-Res to standard JPEG 1024px max.
+ * Converts HEIC/High-Res to standard JPEG, `maxDimension` px max (1024 by default, see Settings).
  */
-const optimizeImageForMobile = (file: File): Promise<{ base64: string; mimeType: string }> => {
+const optimizeImageForMobile = (
+  file: File,
+  maxDimension: number,
+  quality: number
+): Promise<{ base64: string; mimeType: string }> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -53,8 +23,8 @@ const optimizeImageForMobile = (file: File): Promise<{ base64: string; mimeType:
       
       img.onload = () => {
         // Define max dimensions for iOS safety (prevent memory crash)
-        const MAX_WIDTH = 1024;
-        const MAX_HEIGHT = 1024;
+        const MAX_WIDTH = maxDimension;
+        const MAX_HEIGHT = maxDimension;
         let width = img.width;
         let height = img.height;
 
@@ -81,11 +51,11 @@ const optimizeImageForMobile = (file: File): Promise<{ base64: string; mimeType:
           return;
         }
 
-        // Draw and compress to JPEG 0.8 quality
+        // Draw and compress to JPEG
         ctx.drawImage(img, 0, 0, width, height);
         
         // Force JPEG to handle transparency/HEIC conversion issues
-        const optimizedDataUrl = canvas.toDataURL('image/jpeg', 0.85);
+        const optimizedDataUrl = canvas.toDataURL('image/jpeg', quality);
         const base64 = optimizedDataUrl.split(',')[1];
         
         resolve({
@@ -101,12 +71,28 @@ const optimizeImageForMobile = (file: File): Promise<{ base64: string; mimeType:
   });
 };
 
-export const analyzeContent = async (
-  base64Data: string, 
-  mimeType: string
-): Promise<AnalysisResult> => {
+// Sampled videos are sent as labelled keyframes so anomaly timestamps refer to the original file
+const toContentParts = (payload: MediaPayload) => {
+  if (payload.kind === 'inline') {
+    return [
+      { inlineData: { mimeType: payload.mimeType, data: payload.base64 } },
+      { text: "Analyze this media." }
+    ];
+  }
+
+  return [
+    { text: `The following ${payload.frames.length} keyframes were sampled from a ${payload.durationSeconds.toFixed(2)}s video (${payload.sourceMimeType}). Each frame is preceded by its timestamp in the original file. Treat them as one video and report videoAnalysis.frameAnomalies using these timestamps.` },
+    ...payload.frames.flatMap(frame => [
+      { text: `Frame @ ${frame.timestamp.toFixed(2)}s` },
+      { inlineData: { mimeType: frame.mimeType, data: frame.base64 } },
+    ]),
+    { text: "Analyze this media." }
+  ];
+};
+
+const analyzeWithGemini = async (payload: MediaPayload, model: string, systemInstruction: string): Promise<AnalysisResult> => {
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const ai = new GoogleGenAI({ apiKey: getGeminiApiKey() });
     
     const responseSchema: Schema = {
       type: Type.OBJECT,
@@ -206,15 +192,12 @@ export const analyzeContent = async (
     };
 
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+      model,
       contents: {
-        parts: [
-          { inlineData: { mimeType: mimeType, data: base64Data } },
-          { text: "Analyze this media." }
-        ]
+        parts: toContentParts(payload)
       },
       config: {
-        systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+        systemInstruction,
         responseMimeType: "application/json",
         responseSchema: responseSchema,
       }
@@ -236,13 +219,60 @@ export const analyzeContent = async (
   }
 };
 
+// FNV-1a, enough to tell prompt revisions apart in a version string
+const fingerprint = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// One provider per model and prompt profile version, so ensembles can mix e.g.
+// flash and pro passes. The prompt text is part of the version, so a profile
+// edit never reuses cached results or calibrations from the old wording.
+export const createGeminiDetector = (
+  model: string = getSettings().model,
+  profile: PromptProfileVersion = DEFAULT_PROFILE
+): DetectorProvider => ({
+  id: 'gemini',
+  label: `Google Gemini (${model})`,
+  version: `gemini/${model}/${fingerprint(profile.instruction)}`,
+  analyze: (payload: MediaPayload) => analyzeWithGemini(payload, model, profile.instruction),
+  promptProfile: toProfileRef(profile),
+  withPrompt: (next: PromptProfileVersion) => createGeminiDetector(model, next),
+});
+
+export const geminiDetector: DetectorProvider = createGeminiDetector();
+
+/**
+ * Checks a key and model without spending tokens: fetching the model's
+ * metadata fails the same way a scan would on a bad key or unknown model.
+ */
+export const testGeminiConnection = async (apiKey: string | undefined, model: string): Promise<ConnectivityResult> => {
+  const started = performance.now();
+  const elapsed = () => Math.round(performance.now() - started);
+  if (!apiKey) {
+    return { ok: false, message: "No API key: enter one here or build with GEMINI_API_KEY", latencyMs: 0 };
+  }
+  try {
+    const ai = new GoogleGenAI({ apiKey });
+    const info = await ai.models.get({ model });
+    return { ok: true, message: `Connected to ${info.displayName || info.name || model}`, latencyMs: elapsed() };
+  } catch (error) {
+    return { ok: false, message: error instanceof Error ? error.message : String(error), latencyMs: elapsed() };
+  }
+};
+
 // Replaced simple fileToBase64 with robust Mobile Optimizer
 export const fileToBase64 = (file: File): Promise<string> => {
   return new Promise(async (resolve, reject) => {
     // If it's an image, optimize it for iOS WebView (Resize + Compress)
     if (file.type.startsWith('image/')) {
         try {
-            const optimized = await optimizeImageForMobile(file);
+            const { maxImageDimension, jpegQuality } = getSettings();
+            const optimized = await optimizeImageForMobile(file, maxImageDimension, jpegQuality);
             // We only return the base64 string to keep compatibility with existing app logic, 
             // but we ensure it's a safe JPEG now.
             resolve(optimized.base64);
@@ -259,7 +289,7 @@ export const fileToBase64 = (file: File): Promise<string> => {
             reader.onerror = (error) => reject(error);
         }
     } else {
-        // Videos are handled normally (API allows larger payloads for video usually, or handle separately)
+        // Videos are normally sampled into keyframes (see videoSampler), this path is the small-file fallback
         const reader = new FileReader();
         reader.readAsDataURL(file);
         reader.onload = () => {
@@ -0,0 +1,11 @@
+/**
+ * SHA-256 of the original file bytes, hex encoded.
+ * Must run before any re-encoding so the hash identifies the source file.
+ */
+export const hashFile = async (file: Blob): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
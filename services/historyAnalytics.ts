@@ -0,0 +1,153 @@
+import { AnalysisResult, AnalyticsRange, CountEntry, DailyActivity, ForensicMetrics, HistoryAnalytics, VerdictMetrics } from "../types";
+import { csvCell } from "./batchExport";
+import { isInconclusive } from "./ensembleService";
+
+/**
+ * HISTORY ANALYTICS
+ * Aggregates stored scans for the dashboard: activity per local calendar day,
+ * synthetic rate, the generators synthetic scans were attributed to,
+ * watermark providers, and mean forensic metrics per verdict. Inconclusive
+ * ensembles are counted on their own and left out of the synthetic rate.
+ */
+
+export const ANALYTICS_RANGES: { id: AnalyticsRange; label: string; days?: number }[] = [
+  { id: '7d', label: '7 days', days: 7 },
+  { id: '30d', label: '30 days', days: 30 },
+  { id: '90d', label: '90 days', days: 90 },
+  { id: 'all', label: 'All time' },
+];
+
+export const FORENSIC_METRIC_LABELS: Record<keyof ForensicMetrics, string> = {
+  biometricIntegrity: 'Biometric integrity',
+  textureFidelity: 'Texture fidelity',
+  lightingConsistency: 'Lighting consistency',
+  physicalLogic: 'Physical logic',
+  errorLevel: 'Error level',
+  noiseConsistency: 'Noise consistency',
+  spectralPeaks: 'Spectral peaks',
+};
+
+// Placeholders detectors and the normalizer use when no generator was named
+const UNNAMED_SIGNATURE = /^(unknown|n\/a|none|unidentified|)$/i;
+
+const percent = (num: number, den: number) => (den > 0 ? Math.round((num / den) * 1000) / 10 : 0);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * First instant the range covers, as an ISO timestamp comparable with stored
+ * ones: local midnight `days - 1` days ago, so '7d' is today plus the six
+ * days before it. Undefined for 'all'.
+ */
+export const rangeStart = (range: AnalyticsRange, now: Date = new Date()): string | undefined => {
+  const days = ANALYTICS_RANGES.find(r => r.id === range)?.days;
+  if (!days) return undefined;
+  const start = startOfDay(now);
+  start.setDate(start.getDate() - (days - 1));
+  return start.toISOString();
+};
+
+const ranked = (counts: Map<string, number>): CountEntry[] =>
+  Array.from(counts, ([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+const meanMetrics = (results: AnalysisResult[]): VerdictMetrics['metrics'] => {
+  const metrics: VerdictMetrics['metrics'] = {};
+  (Object.keys(FORENSIC_METRIC_LABELS) as (keyof ForensicMetrics)[]).forEach(key => {
+    const values = results.map(r => r.forensicMetrics[key]).filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+    if (values.length > 0) metrics[key] = Math.round(values.reduce((sum, v) => sum + v, 0) / values.length * 10) / 10;
+  });
+  return metrics;
+};
+
+/**
+ * Aggregates `results`, which should already be limited to the range (see
+ * rangeStart). The daily series runs to today and has an entry for every
+ * day, so gaps in activity show as zero rather than disappearing.
+ */
+export const computeHistoryAnalytics = (results: AnalysisResult[], range: AnalyticsRange, now: Date = new Date()): HistoryAnalytics => {
+  const start = rangeStart(range, now);
+  const first = start
+    ? new Date(start)
+    : results.reduce<Date | undefined>((min, r) => {
+        const at = new Date(r.timestamp);
+        return !min || at < min ? at : min;
+      }, undefined);
+
+  const byDay = new Map<string, DailyActivity>();
+  if (first) {
+    for (let day = startOfDay(first); day <= now; day.setDate(day.getDate() + 1)) {
+      byDay.set(dayKey(day), { day: dayKey(day), scans: 0, synthetic: 0, inconclusive: 0, syntheticRate: 0 });
+    }
+  }
+
+  const generators = new Map<string, number>();
+  const watermarks = new Map<string, number>();
+  let synthetic = 0;
+  let inconclusive = 0;
+  let watermarked = 0;
+
+  results.forEach(result => {
+    const undecided = isInconclusive(result);
+    const entry = byDay.get(dayKey(new Date(result.timestamp)));
+    if (entry) {
+      entry.scans++;
+      if (undecided) entry.inconclusive++;
+      else if (result.isAI) entry.synthetic++;
+    }
+    if (undecided) {
+      inconclusive++;
+    } else if (result.isAI) {
+      synthetic++;
+      const name = result.modelSignature.name.trim();
+      if (!UNNAMED_SIGNATURE.test(name)) generators.set(name, (generators.get(name) ?? 0) + 1);
+    }
+    const providers = new Set(result.watermark.signatures.map(s => s.provider));
+    if (providers.size > 0) watermarked++;
+    providers.forEach(provider => watermarks.set(provider, (watermarks.get(provider) ?? 0) + 1));
+  });
+
+  const daily = Array.from(byDay.values());
+  daily.forEach(d => { d.syntheticRate = percent(d.synthetic, d.scans - d.inconclusive); });
+
+  const conclusive = results.filter(r => !isInconclusive(r));
+  const verdictGroups: [VerdictMetrics['verdict'], AnalysisResult[]][] = [
+    ['synthetic', conclusive.filter(r => r.isAI)],
+    ['authentic', conclusive.filter(r => !r.isAI)],
+  ];
+
+  return {
+    range,
+    since: daily[0]?.day,
+    until: dayKey(now),
+    scans: results.length,
+    synthetic,
+    inconclusive,
+    syntheticRate: percent(synthetic, results.length - inconclusive),
+    watermarked,
+    daily,
+    generators: ranked(generators),
+    watermarks: ranked(watermarks),
+    metricsByVerdict: verdictGroups.map(([verdict, group]) => ({ verdict, scans: group.length, metrics: meanMetrics(group) })),
+  };
+};
+
+/**
+ * The daily series as CSV for weekly reporting, with the range totals and
+ * generator counts underneath.
+ */
+export const analyticsToCsv = (analytics: HistoryAnalytics): Blob => {
+  const lines = [
+    'day,scans,synthetic,inconclusive,synthetic_rate',
+    ...analytics.daily.map(d => `${d.day},${d.scans},${d.synthetic},${d.inconclusive},${d.syntheticRate}`),
+    `total,${analytics.scans},${analytics.synthetic},${analytics.inconclusive},${analytics.syntheticRate}`,
+    '',
+    'generator,synthetic_scans',
+    ...analytics.generators.map(g => `${csvCell(g.name)},${g.count}`),
+  ];
+  return new Blob(['\ufeff', lines.join('\r\n'), '\r\n'], { type: 'text/csv;charset=utf-8' });
+};
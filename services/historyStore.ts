@@ -0,0 +1,185 @@
+import { AnalysisResult, BatchAnalysisResult, HistoryFacets, HistoryItem, HistoryMediaType, HistoryQuery, HistorySortKey } from "../types";
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db";
+import { isInconclusive } from "./ensembleService";
+
+// Persisted shape: the display ObjectURL is replaced by the actual image bytes
+export interface StoredHistoryItem extends Omit<HistoryItem, 'thumbnail'> {
+  thumbnailBlob: Blob | null;
+}
+
+export interface HistoryPage {
+  items: StoredHistoryItem[];
+  total: number; // Entries matching the query
+  stored: number; // Entries in the store
+  facets: HistoryFacets;
+}
+
+export const HISTORY_PAGE_SIZE = 24;
+
+export const DEFAULT_HISTORY_QUERY: HistoryQuery = {
+  text: "",
+  minScore: 0,
+  maxScore: 100,
+  sort: 'timestamp',
+  descending: true,
+};
+
+export const saveHistoryItem = async (item: StoredHistoryItem): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.history, 'readwrite');
+  tx.objectStore(STORES.history).put(item);
+  await transactionDone(tx);
+};
+
+// Imported results have no MIME type, only their video analysis tells them apart
+export const historyMediaType = (item: Pick<HistoryItem, 'mimeType' | 'videoAnalysis'>): HistoryMediaType =>
+  item.mimeType?.startsWith('video/') || (!item.mimeType && item.videoAnalysis) ? 'video' : 'image';
+
+// Local calendar day to the UTC instant it starts at, comparable with stored ISO timestamps
+const dayStart = (day: string, offsetDays: number = 0): string => {
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + offsetDays);
+  return date.toISOString();
+};
+
+const createMatcher = (query: HistoryQuery) => {
+  const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  const since = query.since ? dayStart(query.since) : undefined;
+  const before = query.until ? dayStart(query.until, 1) : undefined;
+
+  return (item: StoredHistoryItem): boolean => {
+    if (item.score < query.minScore || item.score > query.maxScore) return false;
+    if (query.isAI !== undefined && (item.isAI !== query.isAI || isInconclusive(item))) return false;
+    if (query.modelSignature !== undefined && item.modelSignature.name !== query.modelSignature) return false;
+    if (query.watermarkProvider !== undefined && !item.watermark.signatures.some(s => s.provider === query.watermarkProvider)) return false;
+    if (query.mediaType !== undefined && historyMediaType(item) !== query.mediaType) return false;
+    if (since && item.timestamp < since) return false;
+    if (before && item.timestamp >= before) return false;
+    if (terms.length === 0) return true;
+
+    const haystack = [item.verdict, item.reasoning, ...item.technicalDetails, item.fileName ?? ""].join("\n").toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  };
+};
+
+const SORT_VALUES: Record<HistorySortKey, (item: StoredHistoryItem) => string | number> = {
+  timestamp: item => item.timestamp,
+  score: item => item.score,
+  fileName: item => (item.fileName ?? "").toLowerCase(),
+  modelSignature: item => item.modelSignature.name.toLowerCase(),
+};
+
+/**
+ * One page of the entries matching `query`, in its sort order. IndexedDB can
+ * only range over one index, so the whole store is scanned; ties fall back to
+ * newest first. Facets cover every stored entry, not just the matches, so a
+ * filter never hides its own alternatives.
+ */
+export const queryHistory = async (
+  query: HistoryQuery,
+  offset: number = 0,
+  limit: number = HISTORY_PAGE_SIZE
+): Promise<HistoryPage> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.history, 'readonly');
+  const all: StoredHistoryItem[] = await requestToPromise(tx.objectStore(STORES.history).index('timestamp').getAll());
+
+  const modelSignatures = new Set<string>();
+  const watermarkProviders = new Set<string>();
+  all.forEach(item => {
+    modelSignatures.add(item.modelSignature.name);
+    item.watermark.signatures.forEach(s => watermarkProviders.add(s.provider));
+  });
+
+  const value = SORT_VALUES[query.sort];
+  const direction = query.descending ? -1 : 1;
+  const matches = all.filter(createMatcher(query)).sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    if (va !== vb) return (va < vb ? -1 : 1) * direction;
+    return a.timestamp < b.timestamp ? 1 : a.timestamp > b.timestamp ? -1 : 0;
+  });
+
+  return {
+    items: matches.slice(offset, offset + limit),
+    total: matches.length,
+    stored: all.length,
+    facets: {
+      modelSignatures: Array.from(modelSignatures).sort(),
+      watermarkProviders: Array.from(watermarkProviders).sort(),
+    },
+  };
+};
+
+// Every entry at or after `since` (an ISO timestamp), oldest first; all of them without one
+export const listHistorySince = async (since?: string): Promise<StoredHistoryItem[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.history, 'readonly');
+  return requestToPromise(tx.objectStore(STORES.history).index('timestamp').getAll(since ? IDBKeyRange.lowerBound(since) : undefined));
+};
+
+export const getHistoryItem = async (id: string): Promise<StoredHistoryItem | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.history, 'readonly');
+  return requestToPromise(tx.objectStore(STORES.history).get(id));
+};
+
+// The same analysis imported again: same time, file hash and verdict
+export const hasHistoryItem = async (result: AnalysisResult): Promise<boolean> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.history, 'readonly');
+  const matches: StoredHistoryItem[] = await requestToPromise(
+    tx.objectStore(STORES.history).index('timestamp').getAll(result.timestamp)
+  );
+  return matches.some(m => m.sourceHash === result.sourceHash && m.score === result.score && m.verdict === result.verdict);
+};
+
+export const deleteHistoryItems = async (ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.history, 'readwrite');
+  const store = tx.objectStore(STORES.history);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.history, 'readwrite');
+  tx.objectStore(STORES.history).clear();
+  await transactionDone(tx);
+};
+
+// Rehydrates a stored entry for display. Callers own (and must revoke) the ObjectURL.
+export const toHistoryItem = ({ thumbnailBlob, ...item }: StoredHistoryItem): HistoryItem => ({
+  ...item,
+  thumbnail: thumbnailBlob ? URL.createObjectURL(thumbnailBlob) : "",
+});
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// The batch export shape, so the selection imports back as a batch
+export const toBatchResult = ({ id, thumbnail, fileName, mimeType, ...result }: HistoryItem): BatchAnalysisResult => ({
+  fileName: fileName ?? `Scan ${result.timestamp}`,
+  result,
+  thumbnail,
+});
+
+/**
+ * Entries as batch results for a JSON export. Thumbnails are inlined as data
+ * URLs, the only kind an import keeps.
+ */
+export const exportHistoryItems = async (ids: string[]): Promise<BatchAnalysisResult[]> => {
+  const exported: BatchAnalysisResult[] = [];
+  for (const id of ids) {
+    const stored = await getHistoryItem(id);
+    if (!stored) continue;
+    const { thumbnailBlob, ...item } = stored;
+    exported.push(toBatchResult({ ...item, thumbnail: thumbnailBlob ? await blobToDataUrl(thumbnailBlob) : "" }));
+  }
+  return exported;
+};
@@ -0,0 +1,51 @@
+import { AnalysisResult, DetectorProvider, MediaPayload } from "../types";
+
+const DEFAULT_LOCAL_ENDPOINT = "http://localhost:8787/analyze";
+
+/**
+ * LOCAL HTTP DETECTOR
+ * Posts the media to an in-house classifier (or a local stub) and expects
+ * an AnalysisResult-shaped JSON body in return.
+ *
+ * Request body, single file:    { "mimeType": string, "data": string (base64) }
+ * Request body, sampled video:  { "sourceMimeType": string, "durationSeconds": number,
+ *                                 "frames": [{ "timestamp": number, "mimeType": string, "data": string }] }
+ */
+export const createLocalHttpDetector = (
+  endpoint: string = process.env.LOCAL_DETECTOR_URL || DEFAULT_LOCAL_ENDPOINT
+): DetectorProvider => ({
+  id: 'local-http',
+  label: `Local Classifier (${endpoint})`,
+  version: `local-http/${endpoint}`,
+  analyze: async (payload: MediaPayload): Promise<AnalysisResult> => {
+    const body = payload.kind === 'inline'
+      ? { mimeType: payload.mimeType, data: payload.base64 }
+      : {
+          sourceMimeType: payload.sourceMimeType,
+          durationSeconds: payload.durationSeconds,
+          frames: payload.frames.map(f => ({ timestamp: f.timestamp, mimeType: f.mimeType, data: f.base64 })),
+        };
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Local detector responded with HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      return {
+        ...data,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error("Local Detector Failed:", error);
+      throw error;
+    }
+  },
+});
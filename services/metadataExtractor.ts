@@ -0,0 +1,318 @@
+import { MediaMetadata, WatermarkDetection, WatermarkSignature } from "../types";
+
+const EXIF_TAGS: Record<number, string> = {
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel',
+};
+const EXIF_IFD_POINTER = 0x8769;
+
+const IPTC_DATASETS: Record<number, string> = {
+  5: 'ObjectName',
+  55: 'DateCreated',
+  80: 'Byline',
+  110: 'Credit',
+  115: 'Source',
+  116: 'CopyrightNotice',
+  120: 'Caption',
+};
+
+// IPTC DigitalSourceType codes that declare generative AI involvement
+const AI_SOURCE_TYPES = ['trainedAlgorithmicMedia', 'compositeWithTrainedAlgorithmicMedia', 'algorithmicMedia'];
+
+// Generator names as they appear in EXIF Software / XMP CreatorTool / PNG text
+const GENERATOR_PATTERNS: { pattern: RegExp; provider: string }[] = [
+  { pattern: /firefly/i, provider: "Adobe Firefly" },
+  { pattern: /dall[-·\s]?e|openai|chatgpt/i, provider: "OpenAI" },
+  { pattern: /midjourney/i, provider: "Midjourney" },
+  { pattern: /stable.?diffusion|automatic1111|comfyui|invokeai/i, provider: "Stable Diffusion" },
+  { pattern: /imagen|gemini|google ai/i, provider: "Google" },
+  { pattern: /flux\.1|black forest labs/i, provider: "Black Forest Labs" },
+];
+
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+const MAX_XMP_FIELDS = 50;
+
+const utf8 = new TextDecoder('utf-8');
+const latin1 = new TextDecoder('latin1');
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  latin1.decode(bytes.subarray(start, start + length));
+
+const indexOfBytes = (bytes: Uint8Array, needle: string, from: number = 0, to: number = bytes.length): number => {
+  const first = needle.charCodeAt(0);
+  const end = Math.min(to, bytes.length) - needle.length;
+  for (let i = from; i <= end; i++) {
+    if (bytes[i] !== first) continue;
+    let match = true;
+    for (let j = 1; j < needle.length; j++) {
+      if (bytes[i + j] !== needle.charCodeAt(j)) {
+        match = false;
+        break;
+      }
+    }
+    if (match) return i;
+  }
+  return -1;
+};
+
+const emptyMetadata = (): MediaMetadata => ({ exif: {}, xmp: {}, iptc: {}, text: {}, c2pa: false });
+
+/**
+ * Minimal TIFF/EXIF reader: IFD0 plus the Exif sub-IFD, ASCII tags only.
+ */
+const parseTiff = (bytes: Uint8Array, start: number, out: Record<string, string>) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = ascii(bytes, start, 2) === 'II';
+  if (!little && ascii(bytes, start, 2) !== 'MM') return;
+  const u16 = (o: number) => view.getUint16(start + o, little);
+  const u32 = (o: number) => view.getUint32(start + o, little);
+  if (u16(2) !== 42) return;
+
+  const readIfd = (offset: number, depth: number) => {
+    if (depth > 1 || start + offset + 2 > bytes.length) return;
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (start + entry + 12 > bytes.length) return;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const n = u32(entry + 4);
+
+      if (tag === EXIF_IFD_POINTER) {
+        readIfd(u32(entry + 8), depth + 1);
+      } else if (EXIF_TAGS[tag] && type === 2 && n > 0) {
+        const valueStart = start + (n <= 4 ? entry + 8 : u32(entry + 8));
+        if (valueStart + n > bytes.length) continue;
+        const value = ascii(bytes, valueStart, n).replace(/\0+$/, '').trim();
+        if (value) out[EXIF_TAGS[tag]] = value;
+      }
+    }
+  };
+
+  readIfd(u32(4), 0);
+};
+
+// Pulls simple `prefix:Name="value"` attributes and `<prefix:Name>value</prefix:Name>` elements
+const parseXmp = (xml: string, out: Record<string, string>) => {
+  const patterns = [
+    /\s([A-Za-z0-9]+:[A-Za-z0-9]+)="([^"]*)"/g,
+    /<([A-Za-z0-9]+:[A-Za-z0-9]+)>([^<]+)<\/\1>/g,
+  ];
+  for (const pattern of patterns) {
+    for (const match of xml.matchAll(pattern)) {
+      const [, key, value] = match;
+      if (Object.keys(out).length >= MAX_XMP_FIELDS) return;
+      if (key.startsWith('xmlns:') || key.startsWith('rdf:') || key.startsWith('x:')) continue;
+      if (value.trim()) out[key] = value.trim();
+    }
+  }
+};
+
+// Photoshop APP13 resource blocks; IPTC-IIM lives in resource 0x0404
+const parsePhotoshopIptc = (bytes: Uint8Array, start: number, end: number, out: Record<string, string>) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let i = start;
+  while (i + 12 <= end && ascii(bytes, i, 4) === '8BIM') {
+    const id = view.getUint16(i + 4);
+    const nameLength = bytes[i + 6];
+    const nameBlock = (1 + nameLength) % 2 === 0 ? 1 + nameLength : 2 + nameLength;
+    const sizeAt = i + 6 + nameBlock;
+    const size = view.getUint32(sizeAt);
+    const dataStart = sizeAt + 4;
+
+    if (id === 0x0404) {
+      let j = dataStart;
+      while (j + 5 <= Math.min(dataStart + size, end) && bytes[j] === 0x1c) {
+        const record = bytes[j + 1];
+        const dataset = bytes[j + 2];
+        const length = view.getUint16(j + 3);
+        if (record === 2 && IPTC_DATASETS[dataset]) {
+          out[IPTC_DATASETS[dataset]] = utf8.decode(bytes.subarray(j + 5, j + 5 + length)).trim();
+        }
+        j += 5 + length;
+      }
+    }
+    i = dataStart + size + (size % 2);
+  }
+};
+
+const parseJpeg = (bytes: Uint8Array, meta: MediaMetadata) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let i = 2;
+  while (i + 4 <= bytes.length && bytes[i] === 0xff) {
+    const marker = bytes[i + 1];
+    if (marker === 0xd9 || marker === 0xda) break; // End of image / start of scan
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      i += 2;
+      continue;
+    }
+    const size = view.getUint16(i + 2);
+    const start = i + 4;
+    const end = Math.min(i + 2 + size, bytes.length);
+
+    if (marker === 0xe1 && ascii(bytes, start, 6) === 'Exif\0\0') {
+      parseTiff(bytes, start + 6, meta.exif);
+    } else if (marker === 0xe1 && ascii(bytes, start, XMP_HEADER.length) === XMP_HEADER) {
+      parseXmp(utf8.decode(bytes.subarray(start + XMP_HEADER.length, end)), meta.xmp);
+    } else if (marker === 0xed && ascii(bytes, start, 14) === 'Photoshop 3.0\0') {
+      parsePhotoshopIptc(bytes, start + 14, end, meta.iptc);
+    } else if (marker === 0xeb && indexOfBytes(bytes, 'jumb', start, end) !== -1 && indexOfBytes(bytes, 'c2pa', start, end) !== -1) {
+      meta.c2pa = true; // APP11 JUMBF segment carrying a C2PA manifest store
+    }
+    i = end;
+  }
+};
+
+const parsePng = (bytes: Uint8Array, meta: MediaMetadata) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let i = 8;
+  while (i + 8 <= bytes.length) {
+    const length = view.getUint32(i);
+    const type = ascii(bytes, i + 4, 4);
+    const start = i + 8;
+    const end = Math.min(start + length, bytes.length);
+
+    if (type === 'eXIf') {
+      parseTiff(bytes, start, meta.exif);
+    } else if (type === 'caBX') {
+      meta.c2pa = true;
+    } else if (type === 'tEXt' || type === 'iTXt') {
+      const sep = bytes.indexOf(0, start);
+      if (sep !== -1 && sep < end) {
+        const keyword = ascii(bytes, start, sep - start);
+        let textStart = sep + 1;
+        if (type === 'iTXt') {
+          const compressed = bytes[sep + 1] !== 0;
+          if (compressed) {
+            i = end + 4;
+            continue;
+          }
+          // Skip compression method, language tag and translated keyword
+          const langEnd = bytes.indexOf(0, sep + 3);
+          const transEnd = langEnd === -1 ? -1 : bytes.indexOf(0, langEnd + 1);
+          if (transEnd === -1 || transEnd >= end) {
+            i = end + 4;
+            continue;
+          }
+          textStart = transEnd + 1;
+        }
+        const text = (type === 'iTXt' ? utf8 : latin1).decode(bytes.subarray(textStart, end));
+        if (keyword === 'XML:com.adobe.xmp') {
+          parseXmp(text, meta.xmp);
+        } else {
+          meta.text[keyword] = text;
+        }
+      }
+    } else if (type === 'IEND') {
+      break;
+    }
+    i = end + 4; // Skip CRC
+  }
+};
+
+const parseWebp = (bytes: Uint8Array, meta: MediaMetadata) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let i = 12;
+  while (i + 8 <= bytes.length) {
+    const type = ascii(bytes, i, 4);
+    const size = view.getUint32(i + 4, true);
+    const start = i + 8;
+    const end = Math.min(start + size, bytes.length);
+
+    if (type === 'EXIF') {
+      parseTiff(bytes, ascii(bytes, start, 6) === 'Exif\0\0' ? start + 6 : start, meta.exif);
+    } else if (type === 'XMP ') {
+      parseXmp(utf8.decode(bytes.subarray(start, end)), meta.xmp);
+    } else if (type === 'C2PA') {
+      meta.c2pa = true;
+    }
+    i = end + (size % 2);
+  }
+};
+
+/**
+ * METADATA STAGE
+ * Reads EXIF, XMP, IPTC and C2PA/JUMBF markers from the ORIGINAL bytes.
+ * Must run before optimizeImageForMobile, whose canvas re-encode strips all of it.
+ * Unknown containers (HEIC, MP4...) still get a byte scan for a C2PA JUMBF box.
+ */
+export const extractMetadata = async (file: Blob): Promise<MediaMetadata> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const meta = emptyMetadata();
+
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      parseJpeg(bytes, meta);
+    } else if (ascii(bytes, 1, 3) === 'PNG') {
+      parsePng(bytes, meta);
+    } else if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+      parseWebp(bytes, meta);
+    }
+  } catch (err) {
+    // Truncated or malformed containers: keep whatever was read before the failure
+    console.warn("Metadata parse incomplete:", err);
+  }
+
+  if (!meta.c2pa) {
+    const jumb = indexOfBytes(bytes, 'jumb');
+    meta.c2pa = jumb !== -1 && indexOfBytes(bytes, 'c2pa', jumb, jumb + 256) !== -1;
+  }
+
+  return meta;
+};
+
+export const hasMetadata = (meta: MediaMetadata): boolean =>
+  meta.c2pa || [meta.exif, meta.xmp, meta.iptc, meta.text].some(group => Object.keys(group).length > 0);
+
+/**
+ * Signatures that are actually present in the file, as opposed to ones the
+ * model inferred from pixels.
+ */
+export const metadataSignatures = (meta: MediaMetadata): WatermarkSignature[] => {
+  const signatures: WatermarkSignature[] = [];
+
+  if (meta.c2pa) {
+    signatures.push({ provider: "C2PA", type: "Content Credentials manifest (JUMBF)", confidence: 100, source: 'metadata' });
+  }
+
+  const sourceType = meta.xmp['Iptc4xmpExt:DigitalSourceType'];
+  const aiSourceType = sourceType && AI_SOURCE_TYPES.find(code => sourceType.endsWith(code));
+  if (aiSourceType) {
+    signatures.push({ provider: "IPTC", type: `DigitalSourceType: ${aiSourceType}`, confidence: 100, source: 'metadata' });
+  }
+
+  // Stable Diffusion front-ends write their prompt & sampler settings to a PNG "parameters" chunk
+  if (meta.text['parameters'] && /steps:\s*\d+/i.test(meta.text['parameters'])) {
+    signatures.push({ provider: "Stable Diffusion", type: "Generation parameters (PNG text)", confidence: 100, source: 'metadata' });
+  }
+
+  const tools = [meta.exif['Software'], meta.xmp['xmp:CreatorTool'], meta.text['Software']].filter(Boolean) as string[];
+  GENERATOR_PATTERNS.forEach(({ pattern, provider }) => {
+    const tool = tools.find(t => pattern.test(t));
+    if (tool && !signatures.some(s => s.provider === provider)) {
+      signatures.push({ provider, type: `Generator tag: ${tool}`, confidence: 100, source: 'metadata' });
+    }
+  });
+
+  return signatures;
+};
+
+// Metadata findings lead; the model's guesses are kept but labelled as such
+export const mergeMetadataSignatures = (watermark: WatermarkDetection, meta: MediaMetadata): WatermarkDetection => {
+  const verified = metadataSignatures(meta);
+  const inferred = watermark.signatures
+    .filter(sig => sig.source !== 'metadata')
+    .map(sig => ({ ...sig, source: 'model' as const }));
+  return {
+    detected: watermark.detected || verified.length > 0,
+    signatures: [...verified, ...inferred],
+  };
+};
@@ -0,0 +1,94 @@
+import { AnalysisResult, DetectorProvider, MediaPayload } from "../types";
+
+const GENERATORS = ["Midjourney v6", "DALL-E 3", "Stable Diffusion XL", "Flux.1"];
+
+// FNV-1a over the payload so the same media always yields the same verdict
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Small deterministic PRNG (mulberry32) seeded from the payload hash
+const createRandom = (seed: number) => {
+  let state = seed;
+  return (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * MOCK DETECTOR
+ * Fully offline provider for UI development and tests. Results are derived
+ * from the media bytes, so re-scanning a file reproduces the same report.
+ */
+export const mockDetector: DetectorProvider = {
+  id: 'mock',
+  label: "Mock Detector (offline)",
+  version: "mock/1",
+  analyze: async (payload: MediaPayload): Promise<AnalysisResult> => {
+    const fingerprint = hashString(payload.kind === 'inline' ? payload.base64 : payload.frames.map(f => f.base64).join(''));
+    const random = createRandom(fingerprint);
+    const pick = (min: number, max: number) => Math.round(min + random() * (max - min));
+
+    const score = pick(0, 100);
+    const isAI = score >= 50;
+    const generator = GENERATORS[pick(0, GENERATORS.length - 1)];
+    const fidelity = (base: number) => Math.max(0, Math.min(100, base + pick(-15, 15)));
+
+    const ymin = pick(5, 60);
+    const xmin = pick(5, 60);
+
+    const result: AnalysisResult = {
+      isAI,
+      score,
+      verdict: isAI ? `DETECTED: ${generator.toUpperCase()} SIGNATURE` : "REAL: CAMERA SENSOR DATA MATCH",
+      reasoning: "Deterministic mock analysis. No model was called for this result.",
+      technicalDetails: [
+        `Mock payload fingerprint ${fingerprint.toString(16).padStart(8, '0')}`,
+        isAI ? "Simulated diffusion texture merging" : "Simulated ISO grain pattern",
+      ],
+      modelSignature: isAI
+        ? { name: generator, confidence: pick(50, 95) }
+        : { name: "Real Camera Data", confidence: pick(50, 95) },
+      forensicMetrics: {
+        biometricIntegrity: fidelity(100 - score),
+        textureFidelity: fidelity(100 - score),
+        lightingConsistency: fidelity(100 - score),
+        physicalLogic: fidelity(100 - score),
+      },
+      humanPerception: {
+        realnessScore: fidelity(100 - score),
+        suspiciousnessScore: fidelity(score),
+        perceptualInconsistency: fidelity(score),
+        artifactLevel: fidelity(score),
+      },
+      suspiciousRegions: isAI
+        ? [{ box_2d: [ymin, xmin, ymin + pick(10, 35), xmin + pick(10, 35)], label: "Simulated artifact", confidence: pick(40, 90) }]
+        : [],
+      watermark: { detected: false, signatures: [] },
+      timestamp: new Date().toISOString(),
+    };
+
+    if (payload.kind === 'frames') {
+      const frame = payload.frames[pick(0, payload.frames.length - 1)];
+      result.videoAnalysis = {
+        temporalConsistencyScore: fidelity(100 - score),
+        frameAnomalies: isAI && frame ? [{ timestamp: frame.timestamp, description: "Simulated temporal flicker" }] : [],
+      };
+    } else if (payload.mimeType.startsWith('video/')) {
+      result.videoAnalysis = {
+        temporalConsistencyScore: fidelity(100 - score),
+        frameAnomalies: isAI ? [{ timestamp: pick(0, 10), description: "Simulated temporal flicker" }] : [],
+      };
+    }
+
+    return result;
+  },
+};
@@ -0,0 +1,268 @@
+/**
+ * MINIMAL PDF WRITER
+ * Just enough of PDF 1.7 for the forensic report: Courier text, lines,
+ * rectangles, JPEG images, attached files and one signature slot.
+ * Courier's glyphs are all 0.6em wide, so text can be wrapped without font
+ * metrics. Coordinates are in points from the top-left corner of the page.
+ */
+
+export const PAGE_WIDTH = 595.28; // A4
+export const PAGE_HEIGHT = 841.89;
+export const CHAR_WIDTH = 0.6; // Courier advance width, in em
+
+export type PdfColor = [number, number, number]; // 0-1 RGB
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+}
+
+export interface PdfShapeOptions {
+  stroke?: PdfColor;
+  fill?: PdfColor;
+  lineWidth?: number;
+}
+
+export interface PdfPage {
+  text: (x: number, y: number, text: string, options?: PdfTextOptions) => void; // `y` is the baseline
+  rect: (x: number, y: number, width: number, height: number, options?: PdfShapeOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, options?: PdfShapeOptions) => void;
+  image: (id: number, x: number, y: number, width: number, height: number) => void;
+}
+
+export interface PdfJpeg {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface PdfInfo {
+  title: string;
+  subject?: string;
+  createdAt: Date;
+}
+
+// Reserved in the file and filled by fillSignature once the rest of the bytes are final
+export interface PdfSignatureSlot {
+  filter: string; // Names the scheme, e.g. "Pixivera.ECDSA-P256-SHA256"
+  publicKey: Uint8Array;
+  maxLength: number; // Bytes reserved for the signature value
+}
+
+export interface PdfSignaturePlaceholder {
+  byteRangeOffset: number; // Of the padded "[0 ... ]" array
+  contentsOffset: number; // Of the "<" opening the hex signature
+  contentsLength: number; // Including both angle brackets
+}
+
+export interface BuiltPdf {
+  bytes: Uint8Array;
+  signature?: PdfSignaturePlaceholder;
+}
+
+const BYTE_RANGE_WIDTH = 40;
+
+const latin1 = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const TYPOGRAPHIC: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"', '–': '-', '—': '-',
+  '…': '...', '•': '*', '−': '-', ' ': ' ', '→': '->', '≤': '<=', '≥': '>=',
+};
+
+// The standard fonts only cover Latin-1 here; anything else prints as "?"
+export const toPdfText = (text: string): string =>
+  Array.from(text.normalize('NFC'), c => {
+    if (TYPOGRAPHIC[c]) return TYPOGRAPHIC[c];
+    const code = c.charCodeAt(0);
+    if (c === '\t') return ' ';
+    return (code >= 0x20 && code < 0x7f) || (code >= 0xa1 && code <= 0xff) ? c : '?';
+  }).join('');
+
+const escapeString = (text: string) => toPdfText(text).replace(/[\\()]/g, c => `\\${c}`);
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+const color = ([r, g, b]: PdfColor) => `${num(r)} ${num(g)} ${num(b)}`;
+
+// Lines of at most `width` points at `size`, broken at spaces where possible
+export const wrapText = (text: string, width: number, size: number): string[] => {
+  const perLine = Math.max(1, Math.floor(width / (size * CHAR_WIDTH)));
+  const lines: string[] = [];
+  for (const paragraph of toPdfText(text).split('\n')) {
+    let rest = paragraph.trimEnd();
+    if (!rest) lines.push('');
+    while (rest.length > perLine) {
+      const space = rest.lastIndexOf(' ', perLine);
+      const cut = space > perLine / 2 ? space : perLine;
+      lines.push(rest.slice(0, cut).trimEnd());
+      rest = rest.slice(cut).trimStart();
+    }
+    if (rest) lines.push(rest);
+  }
+  return lines;
+};
+
+const pdfDate = (date: Date) => `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+export const createPdfDocument = () => {
+  const pages: string[][] = [];
+  const images: PdfJpeg[] = [];
+  const attachments: { name: string; mimeType: string; bytes: Uint8Array; description?: string }[] = [];
+
+  const addPage = (): PdfPage => {
+    const ops: string[] = [];
+    pages.push(ops);
+    const shape = (path: string, { stroke, fill, lineWidth = 1 }: PdfShapeOptions) => {
+      const paint = stroke && fill ? 'B' : fill ? 'f' : 'S';
+      ops.push(`q ${stroke ? `${color(stroke)} RG ${num(lineWidth)} w ` : ''}${fill ? `${color(fill)} rg ` : ''}${path} ${paint} Q`);
+    };
+    return {
+      text: (x, y, text, { size = 10, bold = false, color: fill = [0, 0, 0] as PdfColor } = {}) => {
+        ops.push(`BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${color(fill)} rg ${num(x)} ${num(PAGE_HEIGHT - y)} Td (${escapeString(text)}) Tj ET`);
+      },
+      rect: (x, y, width, height, options = { stroke: [0, 0, 0] }) =>
+        shape(`${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re`, options),
+      line: (x1, y1, x2, y2, options = {}) =>
+        shape(`${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l`, { stroke: [0, 0, 0], ...options }),
+      image: (id, x, y, width, height) => {
+        ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(PAGE_HEIGHT - y - height)} cm /Im${id} Do Q`);
+      },
+    };
+  };
+
+  // Returns the id to draw it with; JPEG bytes are embedded as they are (DCTDecode)
+  const addImage = (jpeg: PdfJpeg): number => images.push(jpeg) - 1;
+
+  const attach = (name: string, mimeType: string, bytes: Uint8Array, description?: string) => {
+    attachments.push({ name, mimeType, bytes, description });
+  };
+
+  const build = (info: PdfInfo, signature?: PdfSignatureSlot): BuiltPdf => {
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then images, pages, attachments, info, signature
+    let next = 5;
+    const imageIds = images.map(() => next++);
+    const pageIds = pages.map(() => { const id = next; next += 2; return id; }); // Page, then its content stream
+    const attachmentIds = attachments.map(() => { const id = next; next += 2; return id; }); // Filespec, then the file stream
+    const infoId = next++;
+    const signatureId = signature ? next++ : 0;
+
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const offsets: number[] = [];
+    let placeholder: PdfSignaturePlaceholder | undefined;
+    const write = (part: string | Uint8Array) => {
+      const bytes = typeof part === 'string' ? latin1(part) : part;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+
+    write('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n');
+
+    const embedded = attachments.map((a, idx) => `(${escapeString(a.name)}) ${attachmentIds[idx]} 0 R`).join(' ');
+    object(1, `<< /Type /Catalog /Pages 2 0 R${attachments.length > 0
+      ? ` /Names << /EmbeddedFiles << /Names [${embedded}] >> >> /AF [${attachmentIds.map(id => `${id} 0 R`).join(' ')}]`
+      : ''}${signature ? ` /Pixivera.Signature ${signatureId} 0 R` : ''} >>`);
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>');
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>');
+
+    images.forEach((image, idx) => {
+      object(imageIds[idx], `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>`, image.bytes);
+    });
+
+    const xObjects = images.length > 0 ? ` /XObject << ${imageIds.map((id, idx) => `/Im${idx} ${id} 0 R`).join(' ')} >>` : '';
+    pages.forEach((ops, idx) => {
+      const content = latin1(ops.join('\n'));
+      object(pageIds[idx], `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${pageIds[idx] + 1} 0 R >>`);
+      object(pageIds[idx] + 1, `<< /Length ${content.length} >>`, content);
+    });
+
+    attachments.forEach((a, idx) => {
+      const id = attachmentIds[idx];
+      const name = escapeString(a.name);
+      object(id, `<< /Type /Filespec /F (${name}) /UF (${name}) /EF << /F ${id + 1} 0 R >> /AFRelationship /Data${a.description ? ` /Desc (${escapeString(a.description)})` : ''} >>`);
+      object(id + 1, `<< /Type /EmbeddedFile /Subtype /${a.mimeType.replace('/', '#2F')} /Length ${a.bytes.length} >>`, a.bytes);
+    });
+
+    object(infoId, `<< /Title (${escapeString(info.title)})${info.subject ? ` /Subject (${escapeString(info.subject)})` : ''} /Producer (Pixivera) /CreationDate (${pdfDate(info.createdAt)}) >>`);
+
+    if (signature) {
+      // Same layout trick as PDF signature dictionaries: fixed-width placeholders, filled in without moving any byte
+      const head = `<< /Type /Pixivera.Signature /Filter /${signature.filter} /PublicKey <${toHex(signature.publicKey)}> /ByteRange `;
+      const contents = `<${'0'.repeat(signature.maxLength * 2)}>`;
+      offsets[signatureId] = length;
+      const objectHead = `${signatureId} 0 obj\n${head}`;
+      placeholder = {
+        byteRangeOffset: length + objectHead.length,
+        contentsOffset: length + objectHead.length + BYTE_RANGE_WIDTH + ' /Contents '.length,
+        contentsLength: contents.length,
+      };
+      write(`${objectHead}${'['.padEnd(BYTE_RANGE_WIDTH - 1)}] /Contents ${contents} >>\nendobj\n`);
+    }
+
+    const xrefOffset = length;
+    const size = next;
+    const fileId = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    write(`xref\n0 ${size}\n0000000000 65535 f \n`);
+    for (let id = 1; id < size; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${size} /Root 1 0 R /Info ${infoId} 0 R /ID [<${fileId}> <${fileId}>] >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const bytes = new Uint8Array(length);
+    let at = 0;
+    chunks.forEach(chunk => { bytes.set(chunk, at); at += chunk.length; });
+    return { bytes, signature: placeholder };
+  };
+
+  return { addPage, addImage, attach, build, pageCount: () => pages.length };
+};
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
+
+/**
+ * The two byte ranges a signature covers: everything except the hex
+ * signature value itself, as [offset, length, offset, length].
+ */
+export const signatureByteRange = (pdf: Uint8Array, slot: PdfSignaturePlaceholder): [number, number, number, number] => {
+  const afterContents = slot.contentsOffset + slot.contentsLength;
+  return [0, slot.contentsOffset, afterContents, pdf.length - afterContents];
+};
+
+// Writes the byte range, then signs the covered bytes and writes the signature into the reserved slot
+export const fillSignature = async (
+  built: BuiltPdf,
+  sign: (data: Uint8Array) => Promise<Uint8Array>
+): Promise<Uint8Array> => {
+  const slot = built.signature;
+  if (!slot) throw new Error("PDF was built without a signature slot");
+  const bytes = built.bytes.slice();
+  const range = signatureByteRange(bytes, slot);
+  const rangeText = `[${range.join(' ')}`.padEnd(BYTE_RANGE_WIDTH - 1) + ']';
+  if (rangeText.length !== BYTE_RANGE_WIDTH) throw new Error("Byte range does not fit its placeholder");
+  bytes.set(latin1(rangeText), slot.byteRangeOffset);
+
+  const covered = new Uint8Array(range[1] + range[3]);
+  covered.set(bytes.subarray(0, range[1]), 0);
+  covered.set(bytes.subarray(range[2]), range[1]);
+  const signature = await sign(covered);
+  const hex = toHex(signature);
+  if (hex.length + 2 > slot.contentsLength) throw new Error("Signature is larger than its reserved slot");
+  bytes.set(latin1(hex), slot.contentsOffset + 1);
+  return bytes;
+};
@@ -0,0 +1,28 @@
+import { PromptProfileVersion } from "../types";
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db";
+
+/**
+ * Saved profile versions, keyed by (id, version). Versions are only ever
+ * added: results keep pointing at the exact instructions that produced them.
+ * The shipped version 1 of each built-in profile is not stored here.
+ */
+export const listPromptVersions = async (): Promise<PromptProfileVersion[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.promptProfiles, 'readonly');
+  return requestToPromise(tx.objectStore(STORES.promptProfiles).getAll());
+};
+
+export const addPromptVersion = async (version: PromptProfileVersion): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.promptProfiles, 'readwrite');
+  // add() rather than put(): a second tab saving the same version number must fail, not overwrite
+  tx.objectStore(STORES.promptProfiles).add(version);
+  await transactionDone(tx);
+};
+
+export const deletePromptProfile = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.promptProfiles, 'readwrite');
+  tx.objectStore(STORES.promptProfiles).delete(IDBKeyRange.bound([id, -Infinity], [id, Infinity]));
+  await transactionDone(tx);
+};
@@ -0,0 +1,164 @@
+import { PromptProfile, PromptProfileDraft, PromptProfileRef, PromptProfileVersion } from "../types";
+
+const DEFAULT_SYSTEM_INSTRUCTION = `
+Role: World-Class Computer Vision & Deepfake Forensic Expert.
+Your capability includes detecting specific generative model signatures (Midjourney, DALL-E, Stable Diffusion, Flux, Sora, Runway) and invisible digital watermarks.
+
+Analyze the visual input for synthetic signatures using these advanced criteria:
+
+1. **Model Fingerprinting**:
+   - Identify style markers specific to: Midjourney (excessive detail, distinctive lighting), DALL-E (plastic smoothness), Stable Diffusion (texture merging).
+   - If Real, look for ISO grain, sensor noise patterns, and lens chromatic aberration.
+
+2. **Digital Watermarks & Signatures**:
+   - **C2PA/CAI**: Analyze for presence of content credentials or specific metadata markers often preserved in visual encoding.
+   - **SynthID**: Look for the specific invisible noise pattern used by Google DeepMind's SynthID in the high-frequency domain.
+   - **OpenAI/Meta**: Look for known invisible watermarking patterns in the pixel noise distribution.
+
+3. **Biometric & Physics Forensics**:
+   - **Eyes**: Check for non-circular pupils, inconsistent specular highlights (Purkinje images).
+   - **Hands/Limbs**: Count fingers, check joint articulation logic.
+   - **Lighting**: Analyze shadow falloff (inverse square law) and reflection mapping.
+
+4. **Region Detection**:
+   - Identify specific rectangular regions [ymin, xmin, ymax, xmax] (0-100 scale) where artifacts are visible.
+
+5. **Human Perception Rating**:
+   - Evaluate "Realness" (how convincing it is to a casual observer).
+   - Evaluate "Suspiciousness" (uncanny valley effect).
+   - Evaluate "Perceptual Inconsistency" (subtle things that feel 'off' even if technically correct).
+   - Evaluate "Artifact Level" (obvious visual glitches).
+
+6. **Video Analysis (If applicable)**:
+   - Check for temporal flickering in high-frequency textures (foliage, hair).
+   - Analyze face stability during rotation.
+
+Output strict JSON.
+`;
+
+// Use-case profiles start from the general prompt and add a focus section before the output rule
+const withFocus = (focus: string) =>
+  DEFAULT_SYSTEM_INSTRUCTION.replace("Output strict JSON.", `${focus.trim()}\n\nOutput strict JSON.`);
+
+const SHIPPED_AT = "2025-01-01T00:00:00.000Z";
+
+export const DEFAULT_PROFILE_ID = "default";
+
+export const BUILT_IN_PROFILES: PromptProfileVersion[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    version: 1,
+    name: "General Forensics",
+    description: "Balanced analysis for any image or video",
+    instruction: DEFAULT_SYSTEM_INSTRUCTION,
+    createdAt: SHIPPED_AT,
+    builtIn: true,
+  },
+  {
+    id: "faces-kyc",
+    version: 1,
+    name: "Faces / KYC",
+    description: "Identity documents, selfies and liveness captures",
+    instruction: withFocus(`
+7. **Identity Verification Focus**:
+   - Treat face swaps, reenactment and morphing as the primary threat, ahead of fully generated scenes.
+   - Check blending seams along the jaw, hairline and ears, and skin texture continuity across them.
+   - Compare lighting on the face with lighting on the neck, hair and background.
+   - For documents, check that the portrait, security patterns and typography share one print and capture process.
+   - Screen replays and printed photos held to the camera are spoofs, report them in technicalDetails even when the face itself is real.`),
+    createdAt: SHIPPED_AT,
+    builtIn: true,
+  },
+  {
+    id: "news-photo",
+    version: 1,
+    name: "News Photography",
+    description: "Editorial and user-submitted news imagery",
+    instruction: withFocus(`
+7. **Editorial Integrity Focus**:
+   - Distinguish generated or composited content from accepted editorial adjustments (crop, exposure, color balance).
+   - Look for inserted or removed people and objects: clone patterns, inpainting smears, inconsistent perspective and shadows.
+   - Check text on signs, banners and uniforms for garbled or inconsistent lettering.
+   - Be conservative: a false synthetic verdict on a real news photo is as costly as a missed fake. Lower confidence rather than guess.`),
+    createdAt: SHIPPED_AT,
+    builtIn: true,
+  },
+  {
+    id: "art-marketplace",
+    version: 1,
+    name: "Art Marketplace",
+    description: "Digital art, illustration and photographed artwork listings",
+    instruction: withFocus(`
+7. **Artwork Provenance Focus**:
+   - Stylization is expected: judge brushwork, line confidence and layer structure rather than photographic realism.
+   - Look for diffusion tells in illustration: melted details in busy areas, inconsistent line weight, ornament that loses its pattern.
+   - Check signatures and lettering for garbled glyphs.
+   - Report the most likely generator and style model in modelSignature when the piece appears generated or AI-assisted.`),
+    createdAt: SHIPPED_AT,
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_PROFILE = BUILT_IN_PROFILES[0];
+
+export const toProfileRef = ({ id, name, version }: PromptProfileVersion): PromptProfileRef => ({ id, name, version });
+
+export const latestVersion = (profile: PromptProfile): PromptProfileVersion =>
+  profile.versions[profile.versions.length - 1];
+
+/**
+ * Groups stored versions by profile, with the shipped version 1 of each
+ * built-in profile first. Built-ins come first, then custom profiles by name.
+ */
+export const groupProfiles = (stored: PromptProfileVersion[]): PromptProfile[] => {
+  const byId = new Map<string, PromptProfileVersion[]>();
+  [...BUILT_IN_PROFILES, ...stored].forEach(version => {
+    byId.set(version.id, [...(byId.get(version.id) ?? []), version]);
+  });
+
+  return Array.from(byId, ([id, versions]) => ({
+    id,
+    builtIn: BUILT_IN_PROFILES.some(p => p.id === id),
+    versions: versions.sort((a, b) => a.version - b.version),
+  })).sort((a, b) => Number(b.builtIn) - Number(a.builtIn) || latestVersion(a).name.localeCompare(latestVersion(b).name));
+};
+
+export const nextVersion = (
+  profile: PromptProfile,
+  changes: PromptProfileDraft
+): PromptProfileVersion => {
+  const latest = latestVersion(profile);
+  return {
+    id: profile.id,
+    version: latest.version + 1,
+    name: changes.name.trim() || latest.name,
+    description: changes.description?.trim() || undefined,
+    instruction: changes.instruction,
+    note: changes.note?.trim() || undefined,
+    createdAt: new Date().toISOString(),
+    builtIn: profile.builtIn || undefined,
+  };
+};
+
+// Slug from the name, suffixed until it collides with nothing
+export const createProfile = (existing: PromptProfile[], draft: PromptProfileDraft): PromptProfileVersion => {
+  const name = draft.name.trim();
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || "profile";
+  let id = base;
+  for (let n = 2; existing.some(p => p.id === id); n++) id = `${base}-${n}`;
+  return {
+    id,
+    version: 1,
+    name,
+    description: draft.description?.trim() || undefined,
+    instruction: draft.instruction,
+    createdAt: new Date().toISOString(),
+  };
+};
+
+// A missing id (deleted profile) falls back to the general profile rather than failing the scan
+export const resolveProfile = (profiles: PromptProfile[], id: string, version?: number): PromptProfileVersion => {
+  const profile = profiles.find(p => p.id === id) ?? profiles.find(p => p.id === DEFAULT_PROFILE_ID);
+  if (!profile) return DEFAULT_PROFILE;
+  return profile.versions.find(v => v.version === version) ?? latestVersion(profile);
+};
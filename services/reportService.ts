@@ -0,0 +1,401 @@
+import { AnalysisResult, ReportManifest } from "../types";
+import { hashFile } from "./hashService";
+import { CHAR_WIDTH, createPdfDocument, PAGE_HEIGHT, PAGE_WIDTH, PdfColor, PdfDocument, PdfJpeg, PdfPage, wrapText } from "./pdfWriter";
+import { formatFingerprint, getSigningKey, MANIFEST_FILE_NAME, ReportSigningKey, signatureSlot, signPdf } from "./reportSigning";
+import { createThumbnail } from "./thumbnailService";
+
+/**
+ * FORENSIC REPORTS
+ * Builds a printable, signed PDF for one result or a batch: the analyzed image
+ * with its suspicious regions burned in, every metric, the reasoning and the
+ * chain of custody (hashes, detector and prompt versions, timestamps). The
+ * full results are attached as JSON so a recipient can process them.
+ */
+
+export interface ReportEntry {
+  fileName?: string;
+  result: AnalysisResult;
+  media?: Blob | string; // The analyzed file, or an object/data URL of it or its thumbnail
+}
+
+const MARGIN = 42;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LABEL_WIDTH = 150;
+const BODY_TOP = 58;
+const BODY_BOTTOM = PAGE_HEIGHT - 52;
+const IMAGE_MAX_HEIGHT = 320;
+const IMAGE_RESOLUTION = 1400;
+const METADATA_VALUE_LIMIT = 300;
+
+const INK: PdfColor = [0.1, 0.1, 0.12];
+const MUTED: PdfColor = [0.45, 0.45, 0.5];
+const RULE: PdfColor = [0.8, 0.8, 0.84];
+const RED: PdfColor = [0.8, 0.08, 0.16];
+const GREEN: PdfColor = [0.05, 0.5, 0.25];
+const AMBER: PdfColor = [0.75, 0.45, 0.02];
+
+const round = (n: number) => Math.round(n);
+
+const verdictColor = (result: AnalysisResult): PdfColor =>
+  result.ensemble?.inconclusive ? AMBER : result.isAI ? RED : GREEN;
+
+const verdictText = (result: AnalysisResult) =>
+  result.ensemble?.inconclusive ? `INCONCLUSIVE (${result.verdict})` : result.verdict;
+
+// ---- Evidence image ----
+
+const canvasToJpeg = async (canvas: HTMLCanvasElement): Promise<PdfJpeg> => {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+  if (!blob) throw new Error("Canvas could not be encoded");
+  return { bytes: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+};
+
+/**
+ * The analyzed frame with the suspicious regions drawn as numbered boxes,
+ * like the ResultView overlay. Regions are only drawn on stills: a video's
+ * first frame is not where they were found. Undecodable media (or a
+ * cross-origin URL that taints the canvas) leaves the report without an image.
+ */
+const renderEvidenceImage = async (entry: ReportEntry): Promise<PdfJpeg | undefined> => {
+  if (!entry.media) return undefined;
+  try {
+    const blob = typeof entry.media === 'string' ? await (await fetch(entry.media)).blob() : entry.media;
+    const frame = await createThumbnail(blob, IMAGE_RESOLUTION, 0.92);
+    if (!frame) return undefined;
+    const bitmap = await createImageBitmap(frame);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return undefined;
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    if (!blob.type.startsWith('video/')) {
+      const { width, height } = canvas;
+      const stroke = Math.max(2, Math.round(Math.min(width, height) / 250));
+      const fontSize = Math.max(12, Math.round(Math.min(width, height) / 40));
+      ctx.font = `bold ${fontSize}px monospace`;
+      ctx.lineJoin = 'round';
+      entry.result.suspiciousRegions.forEach((region, idx) => {
+        const [ymin, xmin, ymax, xmax] = region.box_2d;
+        const x = (xmin / 100) * width;
+        const y = (ymin / 100) * height;
+        const w = ((xmax - xmin) / 100) * width;
+        const h = ((ymax - ymin) / 100) * height;
+        ctx.fillStyle = 'rgba(255, 0, 60, 0.12)';
+        ctx.fillRect(x, y, w, h);
+        ctx.strokeStyle = '#ff003c';
+        ctx.lineWidth = stroke;
+        ctx.strokeRect(x, y, w, h);
+        const label = `${idx + 1}`;
+        const labelY = y > fontSize + 4 ? y - 4 : y + h + fontSize + 2;
+        ctx.strokeStyle = '#000000';
+        ctx.lineWidth = stroke;
+        ctx.strokeText(label, x, labelY);
+        ctx.fillStyle = '#ff003c';
+        ctx.fillText(label, x, labelY);
+      });
+    }
+    return await canvasToJpeg(canvas);
+  } catch (err) {
+    console.warn("Report image unavailable:", err);
+    return undefined;
+  }
+};
+
+// ---- Layout ----
+
+// A top-to-bottom cursor over pages; every block checks it fits and breaks to a new page otherwise
+const createLayout = (doc: PdfDocument, header: string) => {
+  const pages: PdfPage[] = [];
+  let page: PdfPage;
+  let y = BODY_TOP;
+
+  const newPage = () => {
+    page = doc.addPage();
+    pages.push(page);
+    page.text(MARGIN, 30, header, { size: 7, color: MUTED });
+    page.line(MARGIN, 36, PAGE_WIDTH - MARGIN, 36, { stroke: RULE, lineWidth: 0.5 });
+    y = BODY_TOP;
+  };
+  newPage();
+
+  const ensure = (height: number) => {
+    if (y + height > BODY_BOTTOM && y > BODY_TOP) newPage();
+  };
+
+  const lines = (text: string, x: number, width: number, size: number, options: { bold?: boolean; color?: PdfColor } = {}) => {
+    const leading = size * 1.35;
+    for (const line of wrapText(text, width, size)) {
+      ensure(leading);
+      y += leading;
+      page.text(x, y - size * 0.3, line, { size, ...options });
+    }
+  };
+
+  return {
+    pages,
+    newPage,
+    gap: (height: number) => { y += height; },
+
+    title: (text: string, size: number = 15) => {
+      ensure(size * 3);
+      lines(text, MARGIN, CONTENT_WIDTH, size, { bold: true, color: INK });
+    },
+
+    heading: (text: string) => {
+      ensure(40);
+      y += 14;
+      page.text(MARGIN, y, text.toUpperCase(), { size: 8, bold: true, color: MUTED });
+      page.line(MARGIN, y + 4, PAGE_WIDTH - MARGIN, y + 4, { stroke: RULE, lineWidth: 0.5 });
+      y += 8;
+    },
+
+    paragraph: (text: string, options: { size?: number; color?: PdfColor; bold?: boolean } = {}) => {
+      lines(text, MARGIN, CONTENT_WIDTH, options.size ?? 9, { color: options.color ?? INK, bold: options.bold });
+    },
+
+    // Label in the left column, wrapped value to its right
+    row: (label: string, value: string, color: PdfColor = INK) => {
+      const size = 9;
+      const wrapped = wrapText(value || '-', CONTENT_WIDTH - LABEL_WIDTH, size);
+      ensure(size * 1.35 * Math.min(wrapped.length, 3));
+      const top = y;
+      wrapText(label.toUpperCase(), LABEL_WIDTH - 8, 7).slice(0, 2).forEach((line, idx) => {
+        page.text(MARGIN, top + size * 1.05 + idx * 9, line, { size: 7, color: MUTED });
+      });
+      lines(value || '-', MARGIN + LABEL_WIDTH, CONTENT_WIDTH - LABEL_WIDTH, size, { color });
+    },
+
+    // 0-100 metric as a filled bar; `note` says which direction is good
+    bar: (label: string, value: number, note?: string) => {
+      ensure(16);
+      y += 14;
+      const width = 200;
+      const x = MARGIN + LABEL_WIDTH;
+      page.text(MARGIN, y, label.toUpperCase(), { size: 7, color: MUTED });
+      page.rect(x, y - 7, width, 7, { stroke: RULE, lineWidth: 0.5 });
+      page.rect(x, y - 7, width * Math.max(0, Math.min(100, value)) / 100, 7, { fill: INK });
+      page.text(x + width + 10, y, `${round(value)}${note ? `  ${note}` : ''}`, { size: 8, color: INK });
+    },
+
+    image: (id: number, image: PdfJpeg) => {
+      const scale = Math.min(CONTENT_WIDTH / image.width, IMAGE_MAX_HEIGHT / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      ensure(height + 10);
+      y += 6;
+      page.image(id, MARGIN, y, width, height);
+      page.rect(MARGIN, y, width, height, { stroke: RULE, lineWidth: 0.5 });
+      y += height + 4;
+    },
+
+    // Fixed-width columns; Courier makes every character the same width
+    table: (widths: number[], header: string[], rows: string[][]) => {
+      const fit = (cell: string, chars: number) => (cell.length > chars ? `${cell.slice(0, chars - 1)}~` : cell.padEnd(chars));
+      const render = (cells: string[]) => cells.map((cell, idx) => fit(cell, widths[idx])).join(' ');
+      const size = Math.min(8, CONTENT_WIDTH / (CHAR_WIDTH * (widths.reduce((a, b) => a + b, 0) + widths.length)));
+      lines(render(header), MARGIN, CONTENT_WIDTH, size, { bold: true, color: MUTED });
+      rows.forEach(cells => lines(render(cells), MARGIN, CONTENT_WIDTH, size, { color: INK }));
+    },
+  };
+};
+
+type Layout = ReturnType<typeof createLayout>;
+
+// ---- Sections ----
+
+const writeAssessment = (layout: Layout, result: AnalysisResult) => {
+  layout.heading("Assessment");
+  layout.row("Verdict", verdictText(result), verdictColor(result));
+  layout.row("AI score", `${round(result.score)} / 100${result.calibration && result.rawScore !== undefined
+    ? ` (calibrated, ${result.calibration.method}; raw detector score ${round(result.rawScore)}, operating threshold ${round(result.calibration.threshold)})`
+    : ''}`);
+  layout.row("Classification", result.isAI ? "Synthetic: AI-generated or AI-assisted" : "Authentic");
+  layout.row("Model signature", `${result.modelSignature.name} (${round(result.modelSignature.confidence)}% confidence)`);
+
+  const ensemble = result.ensemble;
+  if (ensemble) {
+    layout.row("Ensemble", `${ensemble.passes.length} passes, mean ${round(ensemble.meanScore)} +/- ${round(ensemble.spread)}, 95% interval ${round(ensemble.interval[0])}-${round(ensemble.interval[1])}, ${round(ensemble.agreement)}% agreement`);
+    ensemble.passes.forEach(pass => {
+      layout.row(`  ${pass.label}`, pass.result ? `${round(pass.result.score)} / 100, ${pass.result.verdict} [${pass.detectorVersion}]` : `FAILED: ${pass.error ?? 'unknown error'}`);
+    });
+  }
+};
+
+const writeMetrics = (layout: Layout, result: AnalysisResult) => {
+  const m = result.forensicMetrics;
+  layout.heading("Forensic metrics (higher = more consistent with a real capture)");
+  layout.bar("Biometric integrity", m.biometricIntegrity);
+  layout.bar("Texture fidelity", m.textureFidelity);
+  layout.bar("Lighting consistency", m.lightingConsistency);
+  layout.bar("Physical logic", m.physicalLogic);
+  if (m.errorLevel !== undefined) layout.bar("Error level (local)", m.errorLevel, "higher = more recompression error");
+  if (m.noiseConsistency !== undefined) layout.bar("Noise consistency (local)", m.noiseConsistency, "higher = sensor-like noise");
+  if (m.spectralPeaks !== undefined) layout.bar("Spectral peaks (local)", m.spectralPeaks, "higher = periodic upsampling grid");
+
+  const h = result.humanPerception;
+  layout.heading("Human perception");
+  layout.bar("Realness", h.realnessScore, "higher = feels real");
+  layout.bar("Suspiciousness", h.suspiciousnessScore, "higher = uncanny");
+  layout.bar("Perceptual inconsistency", h.perceptualInconsistency);
+  layout.bar("Visible artifacts", h.artifactLevel);
+  layout.gap(6);
+};
+
+const writeFindings = (layout: Layout, result: AnalysisResult) => {
+  layout.heading("Watermarks and signatures");
+  if (result.watermark.signatures.length === 0) layout.row("Detected", result.watermark.detected ? "Yes, unattributed" : "None");
+  result.watermark.signatures.forEach(s => {
+    layout.row(s.provider, `${s.type}, ${round(s.confidence)}% confidence${s.source === 'metadata' ? ', read from file metadata' : s.source === 'model' ? ', inferred by the detector' : ''}`);
+  });
+
+  if (result.suspiciousRegions.length > 0) {
+    layout.heading("Suspicious regions (box = [ymin, xmin, ymax, xmax], % of the frame)");
+    result.suspiciousRegions.forEach((r, idx) => {
+      layout.row(`${idx + 1}. ${round(r.confidence)}%`, `${r.label} [${r.box_2d.map(round).join(', ')}]`);
+    });
+  }
+
+  if (result.videoAnalysis) {
+    layout.heading("Video analysis");
+    layout.bar("Temporal consistency", result.videoAnalysis.temporalConsistencyScore, "higher = stable");
+    layout.gap(4);
+    result.videoAnalysis.frameAnomalies.forEach(a => layout.row(`${a.timestamp.toFixed(2)} s`, a.description));
+  }
+
+  layout.heading("Reasoning");
+  layout.paragraph(result.reasoning);
+  if (result.technicalDetails.length > 0) {
+    layout.heading("Technical details");
+    result.technicalDetails.forEach(detail => layout.paragraph(`- ${detail}`));
+  }
+};
+
+const writeProvenance = (layout: Layout, result: AnalysisResult) => {
+  const provenance = result.provenance;
+  if (provenance) {
+    layout.heading("Content credentials (C2PA)");
+    layout.row("Status", `${provenance.status}${provenance.trusted ? ', trusted signer' : ', signer not in trust list'}; hard binding ${provenance.hardBinding}`,
+      provenance.status === 'tampered' ? RED : INK);
+    provenance.manifests.forEach(m => {
+      const actions = m.actions.map(a => `${a.action}${a.softwareAgent ? ` (${a.softwareAgent})` : ''}`).join(', ');
+      layout.row(m.label === provenance.activeManifest ? "Active manifest" : "Ingredient manifest",
+        [m.title, m.claimGenerator && `generator ${m.claimGenerator}`, m.signer && `signed by ${m.signer}`, m.issuer && `issued by ${m.issuer}`, actions && `actions: ${actions}`, `status ${m.status}`]
+          .filter(Boolean).join('; '));
+    });
+    provenance.issues.forEach(issue => layout.row("Issue", issue, RED));
+  }
+
+  const metadata = result.metadata;
+  if (metadata) {
+    const groups = [['EXIF', metadata.exif], ['XMP', metadata.xmp], ['IPTC', metadata.iptc], ['PNG', metadata.text]] as const;
+    layout.heading("Embedded metadata");
+    groups.forEach(([group, fields]) => Object.entries(fields).forEach(([key, value]) => {
+      layout.row(`${group} ${key}`, value.length > METADATA_VALUE_LIMIT ? `${value.slice(0, METADATA_VALUE_LIMIT)}... (${value.length} chars)` : value);
+    }));
+    if (metadata.c2pa) layout.row("C2PA", "Manifest store embedded");
+  }
+};
+
+const writeCustody = (layout: Layout, entry: ReportEntry, imageSha256?: string) => {
+  const { result } = entry;
+  layout.heading("Chain of custody");
+  layout.row("File name", entry.fileName ?? "-");
+  layout.row("File SHA-256", result.sourceHash ?? "Not recorded");
+  if (result.sourceUrl) layout.row("Source URL", result.sourceUrl);
+  if (result.finalUrl && result.finalUrl !== result.sourceUrl) layout.row("Final URL", result.finalUrl);
+  if (result.origin) layout.row("Watched source", `${result.origin.name} (${result.origin.kind})${result.origin.itemTitle ? `: ${result.origin.itemTitle}` : ''}`);
+  layout.row("Analyzed at", result.timestamp);
+  layout.row("Detector version", result.detectorVersion ?? "Not recorded");
+  layout.row("Prompt profile", result.promptProfile ? `${result.promptProfile.name} v${result.promptProfile.version} (${result.promptProfile.id})` : "None (detector without a prompt)");
+  if (result.calibration) layout.row("Calibration", `${result.calibration.method}, fitted ${result.calibration.fittedAt}`);
+  if (result.repairedFields?.length) layout.row("Normalized fields", `Missing or invalid in the detector output and filled in: ${result.repairedFields.join(', ')}`, AMBER);
+  layout.row("Report image SHA-256", imageSha256 ?? "No image embedded");
+};
+
+const writeBatchSummary = (layout: Layout, entries: ReportEntry[]) => {
+  const synthetic = entries.filter(e => e.result.isAI && !e.result.ensemble?.inconclusive).length;
+  const inconclusive = entries.filter(e => e.result.ensemble?.inconclusive).length;
+  layout.title("Batch summary");
+  layout.row("Files", String(entries.length));
+  layout.row("Synthetic", String(synthetic), RED);
+  layout.row("Authentic", String(entries.length - synthetic - inconclusive), GREEN);
+  if (inconclusive > 0) layout.row("Inconclusive", String(inconclusive), AMBER);
+  layout.heading("Results");
+  layout.table([4, 38, 6, 36], ['#', 'FILE', 'SCORE', 'VERDICT'], entries.map((e, idx) => [
+    String(idx + 1),
+    e.fileName ?? '-',
+    String(round(e.result.score)),
+    verdictText(e.result),
+  ]));
+};
+
+const writeIntegrity = (layout: Layout, key: ReportSigningKey, reportId: string, generatedAt: string) => {
+  layout.heading("Report integrity");
+  layout.paragraph("This PDF is digitally signed. The signature covers every byte of the file, including the attached " +
+    `${MANIFEST_FILE_NAME}, which holds the complete machine-readable results. Any change to the file, including annotations, ` +
+    "form filling or re-saving in another program, invalidates the signature. Verify it in Pixivera under Settings > Report Signing, " +
+    "and compare the key fingerprint below with the one published by the issuing team.");
+  layout.gap(6);
+  layout.row("Report ID", reportId);
+  layout.row("Generated at", generatedAt);
+  layout.row("Signature", "ECDSA P-256 with SHA-256 over the whole file except the signature value (ByteRange)");
+  layout.row("Key fingerprint", formatFingerprint(key.fingerprint));
+  layout.row("Full fingerprint", key.fingerprint);
+  layout.row("Key created", key.createdAt);
+};
+
+/**
+ * Builds and signs the report. A single entry makes a one-result report, more
+ * than one adds a summary page and gives each result its own page.
+ */
+export const createSignedReport = async (entries: ReportEntry[]): Promise<Blob> => {
+  if (entries.length === 0) throw new Error("Nothing to report");
+  const key = await getSigningKey();
+  const reportId = crypto.randomUUID();
+  const createdAt = new Date();
+  const generatedAt = createdAt.toISOString();
+  const batch = entries.length > 1;
+  const title = batch ? `Pixivera batch forensic report (${entries.length} files)` : `Pixivera forensic report: ${entries[0].fileName ?? 'analysis'}`;
+
+  const doc = createPdfDocument();
+  const layout = createLayout(doc, `PIXIVERA FORENSIC REPORT // ${reportId} // ${generatedAt}`);
+  const manifest: ReportManifest = { format: 'pixivera-report/1', reportId, generatedAt, signingKey: key.fingerprint, entries: [] };
+
+  if (batch) writeBatchSummary(layout, entries);
+
+  // One at a time: each image is decoded at full report resolution
+  for (const [idx, entry] of entries.entries()) {
+    if (batch) layout.newPage();
+    const image = await renderEvidenceImage(entry);
+    const imageSha256 = image ? await hashFile(new Blob([image.bytes])) : undefined;
+
+    layout.title(batch ? `${idx + 1}. ${entry.fileName ?? 'Untitled'}` : entry.fileName ?? 'Forensic analysis');
+    layout.paragraph(`${verdictText(entry.result).toUpperCase()} // AI SCORE ${round(entry.result.score)}%`, { size: 11, bold: true, color: verdictColor(entry.result) });
+    if (image) {
+      layout.image(doc.addImage(image), image);
+      if (entry.result.suspiciousRegions.length > 0) layout.paragraph("Numbered boxes mark the suspicious regions listed below.", { size: 7, color: MUTED });
+    }
+    writeAssessment(layout, entry.result);
+    writeMetrics(layout, entry.result);
+    writeFindings(layout, entry.result);
+    writeProvenance(layout, entry.result);
+    writeCustody(layout, entry, imageSha256);
+    manifest.entries.push({ fileName: entry.fileName, imageSha256, result: entry.result });
+  }
+
+  writeIntegrity(layout, key, reportId, generatedAt);
+
+  layout.pages.forEach((page, idx) => {
+    page.line(MARGIN, PAGE_HEIGHT - 40, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 40, { stroke: RULE, lineWidth: 0.5 });
+    page.text(MARGIN, PAGE_HEIGHT - 28, `Signed, key ${formatFingerprint(key.fingerprint)}`, { size: 7, color: MUTED });
+    const pageLabel = `Page ${idx + 1} of ${layout.pages.length}`;
+    page.text(PAGE_WIDTH - MARGIN - pageLabel.length * 7 * CHAR_WIDTH, PAGE_HEIGHT - 28, pageLabel, { size: 7, color: MUTED });
+  });
+
+  doc.attach(MANIFEST_FILE_NAME, 'application/json', new TextEncoder().encode(JSON.stringify(manifest, null, 2)), "Results in this report, covered by the signature");
+  const built = doc.build({ title, subject: `Report ${reportId}`, createdAt }, signatureSlot(key));
+  return new Blob([await signPdf(built, key)], { type: 'application/pdf' });
+};
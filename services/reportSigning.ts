@@ -0,0 +1,154 @@
+import { ReportManifest, ReportVerification } from "../types";
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db";
+import { BuiltPdf, fillSignature, PdfSignatureSlot } from "./pdfWriter";
+
+/**
+ * REPORT SIGNING
+ * Reports are signed with an ECDSA P-256 key generated in this browser. The
+ * signature covers every byte of the PDF except the signature value itself,
+ * so any edit, including an incremental save that only appends, breaks it.
+ * Recipients check the key fingerprint printed in the report against the one
+ * the issuing team publishes.
+ */
+
+export const REPORT_SIGNATURE_FILTER = "Pixivera.ECDSA-P256-SHA256";
+export const MANIFEST_FILE_NAME = "pixivera-manifest.json";
+
+const KEY_ID = "report";
+const SIGNATURE_LENGTH = 64; // Raw r || s, as WebCrypto produces for P-256
+const ALGORITHM = { name: "ECDSA", namedCurve: "P-256" };
+const SIGN_PARAMS = { name: "ECDSA", hash: "SHA-256" };
+
+interface StoredSigningKey {
+  id: string;
+  privateKey: CryptoKey;
+  publicKey: ArrayBuffer; // SPKI
+  createdAt: string;
+}
+
+export interface ReportSigningKey {
+  privateKey: CryptoKey;
+  publicKey: Uint8Array; // SPKI
+  fingerprint: string; // SHA-256 of the SPKI, hex
+  createdAt: string;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map(b => parseInt(b, 16)));
+
+const fingerprintOf = async (spki: Uint8Array): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", spki)));
+
+// First 128 bits in groups of four, enough to compare by eye
+export const formatFingerprint = (fingerprint: string): string =>
+  (fingerprint.slice(0, 32).toUpperCase().match(/.{4}/g) ?? []).join(' ');
+
+let keyPromise: Promise<ReportSigningKey> | null = null;
+
+/**
+ * This browser's report key, created on first use. The private key is
+ * generated non-extractable: IndexedDB keeps the CryptoKey, but no script can
+ * read the key material out of it.
+ */
+export const getSigningKey = (): Promise<ReportSigningKey> => {
+  if (keyPromise) return keyPromise;
+
+  keyPromise = (async () => {
+    const db = await openDatabase();
+    let stored: StoredSigningKey | undefined = await requestToPromise(
+      db.transaction(STORES.signingKeys, 'readonly').objectStore(STORES.signingKeys).get(KEY_ID)
+    );
+    if (!stored) {
+      const pair = await crypto.subtle.generateKey(ALGORITHM, false, ['sign', 'verify']);
+      stored = {
+        id: KEY_ID,
+        privateKey: pair.privateKey,
+        publicKey: await crypto.subtle.exportKey('spki', pair.publicKey),
+        createdAt: new Date().toISOString(),
+      };
+      const tx = db.transaction(STORES.signingKeys, 'readwrite');
+      tx.objectStore(STORES.signingKeys).put(stored);
+      await transactionDone(tx);
+    }
+    const publicKey = new Uint8Array(stored.publicKey);
+    return { privateKey: stored.privateKey, publicKey, fingerprint: await fingerprintOf(publicKey), createdAt: stored.createdAt };
+  })();
+  keyPromise.catch(() => { keyPromise = null; });
+  return keyPromise;
+};
+
+export const signatureSlot = (key: ReportSigningKey): PdfSignatureSlot => ({
+  filter: REPORT_SIGNATURE_FILTER,
+  publicKey: key.publicKey,
+  maxLength: SIGNATURE_LENGTH,
+});
+
+export const signPdf = (built: BuiltPdf, key: ReportSigningKey): Promise<Uint8Array> =>
+  fillSignature(built, async data => new Uint8Array(await crypto.subtle.sign(SIGN_PARAMS, key.privateKey, data)));
+
+const SIGNATURE_PATTERN = /\/Type \/Pixivera\.Signature \/Filter \/([\w.-]+) \/PublicKey <([0-9a-f]+)> \/ByteRange \[(\d+) (\d+) (\d+) (\d+)\s*\] \/Contents <([0-9a-f]+)>/g;
+const MANIFEST_PATTERN = /\/Type \/EmbeddedFile \/Subtype \/application#2Fjson \/Length (\d+) >>\nstream\n/;
+
+const readManifest = (text: string, bytes: Uint8Array): ReportManifest | undefined => {
+  const match = MANIFEST_PATTERN.exec(text);
+  if (!match) return undefined;
+  const start = match.index + match[0].length;
+  try {
+    const manifest = JSON.parse(new TextDecoder().decode(bytes.subarray(start, start + Number(match[1]))));
+    return manifest?.format === 'pixivera-report/1' ? manifest : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Checks a report PDF produced by createSignedReport. `ownFingerprint` marks
+ * reports signed in this browser; any other key is reported by fingerprint
+ * for the recipient to compare.
+ */
+export const verifyReportPdf = async (bytes: Uint8Array, ownFingerprint?: string): Promise<ReportVerification> => {
+  // latin1 maps every byte to one character, so string offsets are byte offsets
+  const text = new TextDecoder('latin1').decode(bytes);
+  const match = Array.from(text.matchAll(SIGNATURE_PATTERN)).pop();
+  if (!match || match.index === undefined) {
+    return { status: 'unsigned', ownKey: false, issues: ["No Pixivera signature found in this file"] };
+  }
+
+  const [whole, filter, publicKeyHex, ...rest] = match;
+  const [start1, length1, start2, length2] = rest.slice(0, 4).map(Number);
+  const signatureHex = rest[4];
+  const publicKey = fromHex(publicKeyHex);
+  const keyFingerprint = await fingerprintOf(publicKey);
+  const ownKey = keyFingerprint === ownFingerprint;
+  const issues: string[] = [];
+  const contentsOffset = match.index + whole.lastIndexOf('<');
+
+  if (filter !== REPORT_SIGNATURE_FILTER) issues.push(`Unsupported signature scheme ${filter}`);
+  if (start1 !== 0 || length1 !== contentsOffset || start2 !== contentsOffset + signatureHex.length + 2) {
+    issues.push("The signed byte range does not match the signature's position in the file");
+  }
+  if (start2 + length2 < bytes.length) issues.push("Data was appended after the signed content, e.g. by an annotation or incremental save");
+  if (start2 + length2 > bytes.length) issues.push("The file is shorter than the signed content");
+
+  if (issues.length === 0) {
+    const covered = new Uint8Array(length1 + length2);
+    covered.set(bytes.subarray(0, length1), 0);
+    covered.set(bytes.subarray(start2, start2 + length2), length1);
+    try {
+      const key = await crypto.subtle.importKey('spki', publicKey, ALGORITHM, false, ['verify']);
+      if (!(await crypto.subtle.verify(SIGN_PARAMS, key, fromHex(signatureHex), covered))) {
+        issues.push("Signature does not match the content, the file was modified after signing");
+      }
+    } catch (err) {
+      issues.push(`Signature could not be checked: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (issues.length > 0) return { status: 'tampered', keyFingerprint, ownKey, issues };
+
+  const manifest = readManifest(text, bytes);
+  if (!manifest) issues.push(`Signed, but ${MANIFEST_FILE_NAME} is missing or unreadable`);
+  else if (manifest.signingKey !== keyFingerprint) issues.push("The manifest names a different signing key than the one that signed the file");
+  return { status: 'valid', keyFingerprint, ownKey, manifest, issues };
+};
@@ -0,0 +1,37 @@
+import { AnalysisResult } from "../types";
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db";
+
+interface CachedResult {
+  detectorVersion: string;
+  sourceHash: string;
+  result: AnalysisResult;
+  cachedAt: string;
+}
+
+/**
+ * Results are keyed by (detector version, source hash): bumping a provider's
+ * version naturally invalidates everything it produced before.
+ */
+export const getCachedResult = async (
+  sourceHash: string,
+  detectorVersion: string
+): Promise<AnalysisResult | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.resultCache, 'readonly');
+  const entry: CachedResult | undefined = await requestToPromise(
+    tx.objectStore(STORES.resultCache).get([detectorVersion, sourceHash])
+  );
+  return entry?.result;
+};
+
+export const putCachedResult = async (
+  sourceHash: string,
+  detectorVersion: string,
+  result: AnalysisResult
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.resultCache, 'readwrite');
+  const entry: CachedResult = { detectorVersion, sourceHash, result, cachedAt: new Date().toISOString() };
+  tx.objectStore(STORES.resultCache).put(entry);
+  await transactionDone(tx);
+};
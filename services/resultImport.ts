@@ -0,0 +1,109 @@
+import { AnalysisResult, GroundTruthLabel, ReportVerification } from "../types";
+import { isRecord, normalizeAnalysisResult } from "./resultValidator";
+import { verifyReportPdf } from "./reportSigning";
+
+/**
+ * RESULT IMPORT
+ * Reads the app's own exports back in: a single result (VERITAS_ANALYSIS_*.json),
+ * a batch (PIXIVERA_BATCH_REPORT_*.json) or a signed PDF report, whose attached
+ * manifest is used once its signature checks out. Every result goes through
+ * the normalizer with its chain-of-custody fields kept; entries that cannot
+ * be recovered are skipped and listed.
+ */
+
+export interface ImportedItem {
+  fileName?: string;
+  result: AnalysisResult;
+  thumbnail?: string; // Only data: URLs survive an export, object URLs die with the page that made them
+  duplicates?: string[];
+  label?: GroundTruthLabel;
+}
+
+export interface ImportedReport {
+  kind: 'result' | 'batch';
+  items: ImportedItem[];
+  skipped: string[]; // One message per entry that could not be restored
+  signature?: ReportVerification; // PDF reports only
+}
+
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+const parseLabel = (value: unknown): GroundTruthLabel | undefined =>
+  isRecord(value) && typeof value.synthetic === 'boolean'
+    ? { synthetic: value.synthetic, ...(typeof value.generator === 'string' ? { generator: value.generator } : {}) }
+    : undefined;
+
+// A BatchAnalysisResult ({ fileName, result, ... }) or a bare AnalysisResult (API results add a fileName)
+const toItem = (raw: unknown): ImportedItem => {
+  if (!isRecord(raw)) throw new Error("not an object");
+  const wrapped = isRecord(raw.result);
+  const result: AnalysisResult = { ...normalizeAnalysisResult(wrapped ? raw.result : raw, { keepProvenance: true }), imported: true };
+  const item: ImportedItem = { result };
+  if (typeof raw.fileName === 'string' && raw.fileName.trim()) item.fileName = raw.fileName;
+  if (wrapped) {
+    if (typeof raw.thumbnail === 'string' && raw.thumbnail.startsWith('data:image/')) item.thumbnail = raw.thumbnail;
+    if (Array.isArray(raw.duplicates)) item.duplicates = raw.duplicates.filter((d): d is string => typeof d === 'string');
+    const label = parseLabel(raw.label);
+    if (label) item.label = label;
+  }
+  return item;
+};
+
+const toItems = (entries: unknown[], skipped: string[]): ImportedItem[] =>
+  entries.flatMap((entry, idx) => {
+    try {
+      return [toItem(entry)];
+    } catch (err) {
+      const name = isRecord(entry) && typeof entry.fileName === 'string' ? entry.fileName : `Entry ${idx + 1}`;
+      skipped.push(`${name}: ${errorMessage(err)}`);
+      return [];
+    }
+  });
+
+const importPdf = async (bytes: Uint8Array, ownFingerprint?: string): Promise<ImportedReport> => {
+  const signature = await verifyReportPdf(bytes, ownFingerprint);
+  if (signature.status === 'unsigned') throw new Error("This PDF is not a signed Pixivera report");
+  if (signature.status === 'tampered') throw new Error(`Report signature check failed: ${signature.issues.join('; ')}`);
+  if (!signature.manifest) throw new Error(signature.issues[0] ?? "The report has no readable manifest");
+
+  const skipped: string[] = [];
+  const items = toItems(signature.manifest.entries, skipped);
+  return { kind: signature.manifest.entries.length === 1 ? 'result' : 'batch', items, skipped, signature };
+};
+
+/**
+ * Parses an exported file. Throws when the file is not an export at all or
+ * none of its entries could be restored. `ownFingerprint` marks PDF reports
+ * signed in this browser.
+ */
+export const parseImportFile = async (file: File, ownFingerprint?: string): Promise<ImportedReport> => {
+  if (file.size > MAX_IMPORT_BYTES) throw new Error(`File is larger than ${MAX_IMPORT_BYTES / 1024 / 1024}MB`);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  let report: ImportedReport;
+  if (new TextDecoder().decode(bytes.subarray(0, 5)) === '%PDF-') {
+    report = await importPdf(bytes, ownFingerprint);
+  } else {
+    let data: unknown;
+    try {
+      data = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+      throw new Error("Not a JSON export or PDF report");
+    }
+    const skipped: string[] = [];
+    if (Array.isArray(data)) {
+      report = { kind: 'batch', items: toItems(data, skipped), skipped };
+    } else if (isRecord(data)) {
+      report = { kind: 'result', items: toItems([data], skipped), skipped };
+    } else {
+      throw new Error("Not a result or batch export");
+    }
+  }
+
+  if (report.items.length === 0) {
+    throw new Error(report.skipped.length > 0 ? `No valid results: ${report.skipped.join('; ')}` : "The export contains no results");
+  }
+  return report;
+};
@@ -0,0 +1,456 @@
+import {
+  AnalysisResult,
+  EnsemblePass,
+  EnsembleSummary,
+  ForensicMetrics,
+  HumanPerception,
+  MediaMetadata,
+  ModelSignature,
+  PromptProfileRef,
+  ProvenanceManifest,
+  ProvenanceReport,
+  ProvenanceStatus,
+  ScoreCalibration,
+  SourceRef,
+  SuspiciousRegion,
+  VideoAnalysis,
+  WatermarkDetection,
+} from "../types";
+
+// Scores at or above this are treated as synthetic when isAI has to be reconciled
+export const AI_SCORE_THRESHOLD = 50;
+
+export interface ValidationIssue {
+  field: string;      // Dotted path, e.g. "suspiciousRegions[2].box_2d"
+  message: string;
+  repaired: boolean;  // False when the field could not be recovered
+}
+
+export class AnalysisValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid analysis result: ${issues.map(i => `${i.field} (${i.message})`).join(', ')}`);
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface NormalizeOptions {
+  // Strict mode rejects any payload that needed a repair
+  strict?: boolean;
+  // Text used when the payload omits descriptive fields (e.g. iOS bridge results)
+  defaults?: Partial<Pick<AnalysisResult, 'verdict' | 'reasoning' | 'technicalDetails' | 'modelSignature'>>;
+  // Imported results: also keep the chain-of-custody fields (hashes, URLs, metadata, C2PA, prompt profile, origin)
+  // that detectors never produce and the app otherwise adds itself
+  keepProvenance?: boolean;
+}
+
+export type RawRecord = Record<string, unknown>;
+
+// A plain JSON object, as opposed to an array or null
+export const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const clampPercent = (value: number) => Math.round(Math.min(100, Math.max(0, value)));
+
+// ---- Chain-of-custody fields, all-or-nothing: a malformed one is dropped whole ----
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const stringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) && value.every(v => typeof v === 'string') ? value : undefined;
+
+const stringRecord = (value: unknown): Record<string, string> | undefined =>
+  isRecord(value) && Object.values(value).every(v => typeof v === 'string') ? (value as Record<string, string>) : undefined;
+
+const isProvenanceStatus = (value: unknown): value is ProvenanceStatus =>
+  value === 'valid' || value === 'tampered' || value === 'unsigned';
+
+const parseSourceHash = (value: unknown): string | undefined =>
+  typeof value === 'string' && /^[0-9a-f]{64}$/.test(value) ? value : undefined;
+
+const parseMetadata = (value: unknown): MediaMetadata | undefined => {
+  if (!isRecord(value)) return undefined;
+  const [exif, xmp, iptc, text] = [value.exif, value.xmp, value.iptc, value.text].map(stringRecord);
+  return exif && xmp && iptc && text ? { exif, xmp, iptc, text, c2pa: value.c2pa === true } : undefined;
+};
+
+const parseManifest = (value: unknown): ProvenanceManifest | undefined => {
+  if (!isRecord(value) || typeof value.label !== 'string' || !isProvenanceStatus(value.status)) return undefined;
+  if (!Array.isArray(value.actions) || !Array.isArray(value.ingredients)) return undefined;
+  const actions = value.actions.filter(isRecord);
+  const ingredients = value.ingredients.filter(isRecord);
+  if (actions.some(a => typeof a.action !== 'string') || ingredients.some(i => typeof i.title !== 'string')) return undefined;
+  return {
+    label: value.label,
+    title: nonEmptyString(value.title),
+    claimGenerator: nonEmptyString(value.claimGenerator),
+    signer: nonEmptyString(value.signer),
+    issuer: nonEmptyString(value.issuer),
+    status: value.status,
+    trusted: value.trusted === true,
+    actions: actions.map(a => ({
+      action: a.action as string,
+      softwareAgent: nonEmptyString(a.softwareAgent),
+      when: nonEmptyString(a.when),
+      digitalSourceType: nonEmptyString(a.digitalSourceType),
+    })),
+    ingredients: ingredients.map(i => ({
+      title: i.title as string,
+      format: nonEmptyString(i.format),
+      relationship: nonEmptyString(i.relationship),
+      manifestLabel: nonEmptyString(i.manifestLabel),
+    })),
+    issues: stringList(value.issues) ?? [],
+  };
+};
+
+const parseProvenance = (value: unknown): ProvenanceReport | undefined => {
+  if (!isRecord(value) || !isProvenanceStatus(value.status) || !Array.isArray(value.manifests)) return undefined;
+  const manifests = value.manifests.map(parseManifest);
+  if (manifests.some(m => !m)) return undefined;
+  return {
+    status: value.status,
+    trusted: value.trusted === true,
+    hardBinding: value.hardBinding === 'match' || value.hardBinding === 'mismatch' ? value.hardBinding : 'unchecked',
+    activeManifest: nonEmptyString(value.activeManifest),
+    manifests: manifests as ProvenanceManifest[],
+    issues: stringList(value.issues) ?? [],
+  };
+};
+
+const parseProfileRef = (value: unknown): PromptProfileRef | undefined =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && Number.isInteger(value.version)
+    ? { id: value.id, name: value.name, version: value.version as number }
+    : undefined;
+
+const parseSourceRef = (value: unknown): SourceRef | undefined =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && (value.kind === 'webhook' || value.kind === 'feed')
+    ? { id: value.id, kind: value.kind, name: value.name, itemTitle: nonEmptyString(value.itemTitle) }
+    : undefined;
+
+/**
+ * Single gatekeeper between detector/bridge payloads and the UI.
+ * Clamps every 0-100 field, repairs region boxes, reconciles isAI with score
+ * and reports each field it touched. Throws AnalysisValidationError when the
+ * payload is unrecoverable (or on any repair in strict mode).
+ */
+export const normalizeAnalysisResult = (
+  raw: unknown,
+  options: NormalizeOptions = {}
+): AnalysisResult => {
+  const issues: ValidationIssue[] = [];
+  const repair = (field: string, message: string) => issues.push({ field, message, repaired: true });
+  const fail = (field: string, message: string) => issues.push({ field, message, repaired: false });
+
+  if (!isRecord(raw)) {
+    throw new AnalysisValidationError([{ field: '$', message: 'payload is not an object', repaired: false }]);
+  }
+
+  const percent = (value: unknown, field: string, fallback: number): number => {
+    if (!isFiniteNumber(value)) {
+      repair(field, 'missing or not a number');
+      return fallback;
+    }
+    const clamped = clampPercent(value);
+    if (clamped !== value) repair(field, `clamped ${value} to ${clamped}`);
+    return clamped;
+  };
+
+  // --- Score & isAI ---
+  let score: number;
+  const rawIsAI = typeof raw.isAI === 'boolean' ? raw.isAI : undefined;
+  if (isFiniteNumber(raw.score)) {
+    score = percent(raw.score, 'score', 0);
+  } else if (rawIsAI !== undefined) {
+    score = rawIsAI ? 98 : 2;
+    repair('score', 'missing, derived from isAI');
+  } else {
+    score = 0;
+    fail('score', 'neither score nor isAI present');
+  }
+
+  // Calibrated results carry their own operating threshold
+  let calibration: ScoreCalibration | undefined;
+  if (isRecord(raw.calibration) && isFiniteNumber(raw.calibration.threshold)
+    && (raw.calibration.method === 'platt' || raw.calibration.method === 'isotonic')) {
+    calibration = {
+      method: raw.calibration.method,
+      threshold: clampPercent(raw.calibration.threshold),
+      fittedAt: typeof raw.calibration.fittedAt === 'string' ? raw.calibration.fittedAt : "",
+    };
+  } else if (raw.calibration !== undefined) {
+    repair('calibration', 'malformed, dropped');
+  }
+  const rawScore = calibration && isFiniteNumber(raw.rawScore) ? clampPercent(raw.rawScore) : undefined;
+
+  const isAI = score >= (calibration?.threshold ?? AI_SCORE_THRESHOLD);
+  if (rawIsAI === undefined) {
+    repair('isAI', 'missing, derived from score');
+  } else if (rawIsAI !== isAI) {
+    repair('isAI', `contradicts score ${score}, set to ${isAI}`);
+  }
+
+  // --- Text fields ---
+  const text = (value: unknown, field: string, fallback: string): string => {
+    if (typeof value === 'string' && value.trim()) return value;
+    repair(field, 'missing or empty');
+    return fallback;
+  };
+
+  const verdict = text(
+    raw.verdict,
+    'verdict',
+    options.defaults?.verdict ?? (isAI ? "SYNTHETIC DETECTED" : "AUTHENTIC")
+  );
+  const reasoning = text(raw.reasoning, 'reasoning', options.defaults?.reasoning ?? "");
+
+  let technicalDetails: string[];
+  if (Array.isArray(raw.technicalDetails)) {
+    technicalDetails = raw.technicalDetails.filter((d): d is string => typeof d === 'string');
+    if (technicalDetails.length !== raw.technicalDetails.length) {
+      repair('technicalDetails', 'dropped non-string entries');
+    }
+  } else {
+    technicalDetails = options.defaults?.technicalDetails ?? [];
+    repair('technicalDetails', 'missing or not an array');
+  }
+
+  // --- Model signature ---
+  let modelSignature: ModelSignature;
+  if (isRecord(raw.modelSignature) && typeof raw.modelSignature.name === 'string') {
+    modelSignature = {
+      name: raw.modelSignature.name,
+      confidence: percent(raw.modelSignature.confidence, 'modelSignature.confidence', 0),
+    };
+  } else {
+    modelSignature = options.defaults?.modelSignature ?? { name: "Unknown", confidence: 0 };
+    repair('modelSignature', 'missing or malformed');
+  }
+
+  // --- Metric groups ---
+  // Missing groups are derived from the score rather than a flat 50 so they
+  // stay consistent with the verdict; repairedFields lets consumers skip them.
+  const metricGroup = <T extends object>(
+    value: unknown,
+    field: string,
+    keys: (keyof T)[],
+    fallback: (key: keyof T) => number,
+    optionalKeys: (keyof T)[] = []
+  ): T => {
+    const group = {} as Record<keyof T, number>;
+    if (!isRecord(value)) {
+      repair(field, 'missing or malformed');
+      keys.forEach(key => { group[key] = fallback(key); });
+      return group as T;
+    }
+    keys.forEach(key => {
+      group[key] = percent(value[key as string], `${field}.${String(key)}`, fallback(key));
+    });
+    // Optional metrics are kept only when present, never invented
+    optionalKeys.forEach(key => {
+      if (value[key as string] !== undefined) {
+        group[key] = percent(value[key as string], `${field}.${String(key)}`, 0);
+      }
+    });
+    return group as T;
+  };
+
+  const authenticity = 100 - score;
+  const forensicMetrics = metricGroup<ForensicMetrics>(
+    raw.forensicMetrics,
+    'forensicMetrics',
+    ['biometricIntegrity', 'textureFidelity', 'lightingConsistency', 'physicalLogic'],
+    () => authenticity,
+    ['errorLevel', 'noiseConsistency', 'spectralPeaks']
+  );
+  const humanPerception = metricGroup<HumanPerception>(
+    raw.humanPerception,
+    'humanPerception',
+    ['realnessScore', 'suspiciousnessScore', 'perceptualInconsistency', 'artifactLevel'],
+    key => (key === 'realnessScore' ? authenticity : score)
+  );
+
+  // --- Suspicious regions ---
+  const suspiciousRegions: SuspiciousRegion[] = [];
+  if (raw.suspiciousRegions !== undefined && !Array.isArray(raw.suspiciousRegions)) {
+    repair('suspiciousRegions', 'not an array, dropped');
+  }
+  (Array.isArray(raw.suspiciousRegions) ? raw.suspiciousRegions : []).forEach((region, idx) => {
+    const field = `suspiciousRegions[${idx}]`;
+    if (!isRecord(region)) {
+      repair(field, 'not an object, dropped');
+      return;
+    }
+    const box = region.box_2d;
+    if (!Array.isArray(box) || box.length !== 4 || !box.every(isFiniteNumber)) {
+      repair(`${field}.box_2d`, 'expected four numeric coordinates, dropped');
+      return;
+    }
+    let [ymin, xmin, ymax, xmax] = box.map(clampPercent);
+    if (ymin > ymax) [ymin, ymax] = [ymax, ymin];
+    if (xmin > xmax) [xmin, xmax] = [xmax, xmin];
+    if (ymin === ymax || xmin === xmax) {
+      repair(`${field}.box_2d`, 'zero-area box, dropped');
+      return;
+    }
+    if (ymin !== box[0] || xmin !== box[1] || ymax !== box[2] || xmax !== box[3]) {
+      repair(`${field}.box_2d`, 'clamped or reordered coordinates');
+    }
+    suspiciousRegions.push({
+      box_2d: [ymin, xmin, ymax, xmax],
+      label: text(region.label, `${field}.label`, "Unlabeled anomaly"),
+      confidence: percent(region.confidence, `${field}.confidence`, 0),
+    });
+  });
+
+  // --- Watermark ---
+  const watermark: WatermarkDetection = { detected: false, signatures: [] };
+  if (isRecord(raw.watermark)) {
+    const signatures = Array.isArray(raw.watermark.signatures) ? raw.watermark.signatures : [];
+    signatures.forEach((sig, idx) => {
+      const field = `watermark.signatures[${idx}]`;
+      if (!isRecord(sig) || typeof sig.provider !== 'string') {
+        repair(field, 'missing provider, dropped');
+        return;
+      }
+      watermark.signatures.push({
+        provider: sig.provider,
+        type: typeof sig.type === 'string' ? sig.type : "Unspecified",
+        confidence: percent(sig.confidence, `${field}.confidence`, 0),
+        ...(sig.source === 'metadata' || sig.source === 'model' ? { source: sig.source } : {}),
+      });
+    });
+    watermark.detected = raw.watermark.detected === true || watermark.signatures.length > 0;
+    if (raw.watermark.detected !== watermark.detected) {
+      repair('watermark.detected', `reconciled with ${watermark.signatures.length} signature(s)`);
+    }
+  } else {
+    repair('watermark', 'missing or malformed');
+  }
+
+  // --- Video (optional) ---
+  let videoAnalysis: VideoAnalysis | undefined;
+  if (isRecord(raw.videoAnalysis)) {
+    const anomalies = Array.isArray(raw.videoAnalysis.frameAnomalies) ? raw.videoAnalysis.frameAnomalies : [];
+    videoAnalysis = {
+      temporalConsistencyScore: percent(raw.videoAnalysis.temporalConsistencyScore, 'videoAnalysis.temporalConsistencyScore', authenticity),
+      frameAnomalies: anomalies.flatMap((anomaly, idx) => {
+        if (isRecord(anomaly) && isFiniteNumber(anomaly.timestamp) && anomaly.timestamp >= 0) {
+          return [{
+            timestamp: anomaly.timestamp,
+            description: typeof anomaly.description === 'string' ? anomaly.description : "",
+          }];
+        }
+        repair(`videoAnalysis.frameAnomalies[${idx}]`, 'invalid timestamp, dropped');
+        return [];
+      }),
+    };
+  } else if (raw.videoAnalysis !== undefined && raw.videoAnalysis !== null) {
+    repair('videoAnalysis', 'malformed, dropped');
+  }
+
+  // --- Ensemble (optional) ---
+  let ensemble: EnsembleSummary | undefined;
+  if (isRecord(raw.ensemble) && Array.isArray(raw.ensemble.passes)) {
+    const passes: EnsemblePass[] = raw.ensemble.passes.flatMap((pass, idx) => {
+      const field = `ensemble.passes[${idx}]`;
+      if (!isRecord(pass) || typeof pass.label !== 'string') {
+        repair(field, 'malformed, dropped');
+        return [];
+      }
+      const entry: EnsemblePass = {
+        label: pass.label,
+        detectorVersion: typeof pass.detectorVersion === 'string' ? pass.detectorVersion : "unknown",
+      };
+      if (typeof pass.error === 'string') entry.error = pass.error;
+      if (pass.result !== undefined) {
+        try {
+          // Sub-results may themselves carry provenance fields, keep the detector version
+          entry.result = { ...normalizeAnalysisResult(pass.result), detectorVersion: entry.detectorVersion };
+        } catch {
+          repair(`${field}.result`, 'invalid, dropped');
+          entry.error = entry.error ?? "Invalid sub-result";
+        }
+      }
+      return [entry];
+    });
+    const interval = Array.isArray(raw.ensemble.interval) ? raw.ensemble.interval : [];
+    const meanScore = percent(raw.ensemble.meanScore, 'ensemble.meanScore', score);
+    ensemble = {
+      passes,
+      meanScore,
+      spread: isFiniteNumber(raw.ensemble.spread) && raw.ensemble.spread >= 0 ? raw.ensemble.spread : 0,
+      interval: [
+        percent(interval[0], 'ensemble.interval[0]', meanScore),
+        percent(interval[1], 'ensemble.interval[1]', meanScore),
+      ],
+      agreement: percent(raw.ensemble.agreement, 'ensemble.agreement', 100),
+      inconclusive: raw.ensemble.inconclusive === true,
+    };
+  } else if (raw.ensemble !== undefined) {
+    repair('ensemble', 'malformed, dropped');
+  }
+
+  // --- Chain of custody (imports only) ---
+  const custody: Partial<AnalysisResult> = {};
+  if (options.keepProvenance) {
+    const keep = <K extends keyof AnalysisResult>(field: K, parsed: AnalysisResult[K] | undefined) => {
+      if (parsed !== undefined) custody[field] = parsed;
+      else if (raw[field] !== undefined && raw[field] !== null) repair(field, 'malformed, dropped');
+    };
+    keep('detectorVersion', nonEmptyString(raw.detectorVersion));
+    keep('sourceHash', parseSourceHash(raw.sourceHash));
+    keep('sourceUrl', nonEmptyString(raw.sourceUrl));
+    keep('finalUrl', nonEmptyString(raw.finalUrl));
+    keep('metadata', parseMetadata(raw.metadata));
+    keep('provenance', parseProvenance(raw.provenance));
+    keep('promptProfile', parseProfileRef(raw.promptProfile));
+    keep('origin', parseSourceRef(raw.origin));
+  }
+
+  const timestamp = typeof raw.timestamp === 'string' && !isNaN(Date.parse(raw.timestamp))
+    ? raw.timestamp
+    : new Date().toISOString();
+
+  const fatal = issues.filter(i => !i.repaired);
+  if (fatal.length > 0 || (options.strict && issues.length > 0)) {
+    throw new AnalysisValidationError(options.strict ? issues : fatal);
+  }
+  if (issues.length > 0) {
+    console.warn("Analysis result repaired:", issues);
+  }
+
+  const result: AnalysisResult = {
+    isAI,
+    score,
+    verdict,
+    reasoning,
+    technicalDetails,
+    modelSignature,
+    forensicMetrics,
+    humanPerception,
+    suspiciousRegions,
+    watermark,
+    timestamp,
+  };
+  if (videoAnalysis) result.videoAnalysis = videoAnalysis;
+  if (ensemble) result.ensemble = ensemble;
+  Object.assign(result, custody);
+  if (calibration) {
+    result.calibration = calibration;
+    if (rawScore !== undefined) result.rawScore = rawScore;
+  }
+  const previouslyRepaired = Array.isArray(raw.repairedFields)
+    ? raw.repairedFields.filter((f): f is string => typeof f === 'string')
+    : [];
+  const repairedFields = Array.from(new Set([...previouslyRepaired, ...issues.map(i => i.field)]));
+  if (repairedFields.length > 0) result.repairedFields = repairedFields;
+
+  return result;
+};
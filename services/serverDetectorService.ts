@@ -0,0 +1,69 @@
+import { AnalysisResult, ApiHistoryPage, ApiJob, ApiSubmission, ConnectivityResult, DetectorProvider, MediaPayload } from "../types";
+
+const POLL_INTERVAL_MS = 1500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const createClient = (baseUrl: string, apiKey: string) => async <T>(path: string, body?: ApiSubmission): Promise<T> => {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+    method: body ? "POST" : "GET",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(`Pixivera server responded with HTTP ${response.status}${data?.error ? `: ${data.error}` : ''}`);
+  }
+  return data as T;
+};
+
+/**
+ * PIXIVERA SERVER DETECTOR
+ * Runs scans on a Pixivera API server (server/apiServer.ts) instead of
+ * calling the detector from the browser, so the Gemini key never reaches the
+ * client. The server applies its own detector and prompt profile; the
+ * payload is submitted as JSON and the job polled until its result is ready.
+ */
+export const createServerDetector = (baseUrl: string, apiKey: string): DetectorProvider => {
+  const request = createClient(baseUrl, apiKey);
+
+  return {
+    id: 'server',
+    label: `Pixivera Server (${baseUrl || 'not configured'})`,
+    version: `server/${baseUrl}`,
+    analyze: async (payload: MediaPayload): Promise<AnalysisResult> => {
+      if (!baseUrl) throw new Error("No Pixivera server configured, set one in Settings");
+      const submission: ApiSubmission = payload.kind === 'inline'
+        ? { mimeType: payload.mimeType, data: payload.base64 }
+        : {
+            sourceMimeType: payload.sourceMimeType,
+            durationSeconds: payload.durationSeconds,
+            frames: payload.frames.map(f => ({ timestamp: f.timestamp, mimeType: f.mimeType, data: f.base64 })),
+          };
+
+      let job = await request<ApiJob>("/v1/analyses", submission);
+      while (job.status === 'queued' || job.status === 'running') {
+        await sleep(POLL_INTERVAL_MS);
+        job = await request<ApiJob>(`/v1/jobs/${job.id}`);
+      }
+      if (job.status !== 'done' || !job.resultId) throw new Error(job.error || "Server analysis failed");
+      return request<AnalysisResult>(`/v1/results/${job.resultId}`);
+    },
+  };
+};
+
+// An authenticated history read: fails on a wrong URL, a stopped server or an unknown key
+export const testServerConnection = async (baseUrl: string, apiKey: string): Promise<ConnectivityResult> => {
+  const started = performance.now();
+  const elapsed = () => Math.round(performance.now() - started);
+  if (!baseUrl) return { ok: false, message: "No server URL", latencyMs: 0 };
+  try {
+    const page = await createClient(baseUrl, apiKey)<ApiHistoryPage>("/v1/history?limit=1");
+    return { ok: true, message: `Connected, ${page.total} results in server history`, latencyMs: elapsed() };
+  } catch (error) {
+    return { ok: false, message: error instanceof Error ? error.message : String(error), latencyMs: elapsed() };
+  }
+};
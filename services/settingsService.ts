@@ -0,0 +1,152 @@
+import { AppSettings } from "../types";
+import { DEFAULT_PROFILE_ID } from "./promptProfiles";
+import { DEFAULT_VIDEO_SAMPLING } from "./videoSampler";
+import { parseEnsembleSpec } from "./ensembleService";
+
+const STORAGE_KEY = "pixivera.settings";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  apiKey: "",
+  model: DEFAULT_GEMINI_MODEL,
+  maxImageDimension: 1024,
+  jpegQuality: 0.85,
+  videoFrameInterval: DEFAULT_VIDEO_SAMPLING.intervalSeconds,
+  videoMaxFrames: DEFAULT_VIDEO_SAMPLING.maxFrames,
+  defaultProfileId: DEFAULT_PROFILE_ID,
+  serverUrl: "",
+  serverKey: "",
+  ensembleEnabled: false,
+  ensemblePasses: "",
+};
+
+// Bounds for the upload options: below 256px detail is lost, above 4096px iOS WebViews run out of canvas memory
+export const IMAGE_DIMENSION_RANGE = [256, 4096] as const;
+export const JPEG_QUALITY_RANGE = [0.5, 1] as const;
+// Each keyframe is a separate image in the detector request, so the frame count is what drives cost
+export const VIDEO_FRAME_INTERVAL_RANGE = [0.25, 10] as const;
+export const VIDEO_MAX_FRAMES_RANGE = [2, 64] as const;
+
+const [minDim, maxDim] = IMAGE_DIMENSION_RANGE;
+const [minQ, maxQ] = JPEG_QUALITY_RANGE;
+const [minInterval, maxInterval] = VIDEO_FRAME_INTERVAL_RANGE;
+const [minFrames, maxFrames] = VIDEO_MAX_FRAMES_RANGE;
+
+const ensemblePassesError = (passes: string): string | undefined => {
+  if (!passes.trim()) return undefined;
+  try {
+    parseEnsembleSpec(passes);
+    return undefined;
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+
+// Rules that judge one field on its own, in the order their messages are listed
+const FIELD_RULES: { [K in keyof AppSettings]?: (value: AppSettings[K]) => (string | undefined)[] } = {
+  model: value => [
+    value.trim() ? undefined : "Model name is required",
+    /\s/.test(value.trim()) ? "Model name cannot contain spaces" : undefined,
+  ],
+  apiKey: value => [/\s/.test(value.trim()) ? "API key cannot contain spaces" : undefined],
+  serverUrl: value => [
+    value.trim() && !/^https?:\/\/[^\s/]+/.test(value.trim()) ? "Server URL must start with http:// or https://" : undefined,
+  ],
+  serverKey: value => [/\s/.test(value.trim()) ? "Server key cannot contain spaces" : undefined],
+  maxImageDimension: value => [
+    !Number.isInteger(value) || value < minDim || value > maxDim
+      ? `Max image dimension must be a whole number between ${minDim} and ${maxDim}` : undefined,
+  ],
+  jpegQuality: value => [
+    !Number.isFinite(value) || value < minQ || value > maxQ ? `JPEG quality must be between ${minQ} and ${maxQ}` : undefined,
+  ],
+  videoFrameInterval: value => [
+    !Number.isFinite(value) || value < minInterval || value > maxInterval
+      ? `Frame interval must be between ${minInterval} and ${maxInterval} seconds` : undefined,
+  ],
+  videoMaxFrames: value => [
+    !Number.isInteger(value) || value < minFrames || value > maxFrames
+      ? `Max frames must be a whole number between ${minFrames} and ${maxFrames}` : undefined,
+  ],
+  ensemblePasses: value => [ensemblePassesError(value)],
+};
+
+// Rules that relate several fields, with the fields that reset together when a stored combination breaks one
+const CROSS_FIELD_RULES: { fields: (keyof AppSettings)[]; check: (settings: AppSettings) => string | undefined }[] = [
+  {
+    fields: ['serverUrl', 'serverKey'],
+    check: settings => (settings.serverUrl.trim() && !settings.serverKey.trim() ? "Server key is required with a server URL" : undefined),
+  },
+];
+
+const fieldErrors = <K extends keyof AppSettings>(key: K, value: AppSettings[K]): string[] =>
+  (FIELD_RULES[key]?.(value) ?? []).filter((error): error is string => !!error);
+
+/**
+ * Problems that would make the settings unusable, as user-facing messages.
+ * An empty list means the settings can be saved.
+ */
+export const validateSettings = (settings: AppSettings): string[] => [
+  ...(Object.keys(FIELD_RULES) as (keyof AppSettings)[]).flatMap(key => fieldErrors(key, settings[key])),
+  ...CROSS_FIELD_RULES.flatMap(rule => rule.check(settings) ?? []),
+];
+
+/**
+ * Stored settings may predate a field or have been edited by hand. They are
+ * merged onto the defaults and validated as a whole: a field that fails its
+ * own rules falls back to its default, and fields that only fail together
+ * (a server URL without its key) fall back as a group.
+ */
+const loadSettings = (): AppSettings => {
+  // Node services (bot, CLI) have no localStorage and run on defaults plus their environment
+  if (typeof localStorage === 'undefined') return DEFAULT_SETTINGS;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw);
+    const settings: AppSettings = { ...DEFAULT_SETTINGS };
+    const assign = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+      settings[key] = value;
+    };
+    const keys = Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[];
+    keys.forEach(key => {
+      if (typeof stored?.[key] === typeof DEFAULT_SETTINGS[key]) assign(key, stored[key]);
+    });
+    if (validateSettings(settings).length === 0) return settings;
+
+    keys.forEach(key => {
+      if (fieldErrors(key, settings[key]).length > 0) assign(key, DEFAULT_SETTINGS[key]);
+    });
+    CROSS_FIELD_RULES.forEach(rule => {
+      if (rule.check(settings)) rule.fields.forEach(key => assign(key, DEFAULT_SETTINGS[key]));
+    });
+    return settings;
+  } catch (err) {
+    console.warn("Stored settings unreadable, using defaults:", err);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let current: AppSettings = loadSettings();
+
+export const getSettings = (): AppSettings => current;
+
+export const saveSettings = (settings: AppSettings): AppSettings => {
+  const errors = validateSettings(settings);
+  if (errors.length > 0) throw new Error(errors.join(". "));
+  current = {
+    ...settings,
+    apiKey: settings.apiKey.trim(),
+    model: settings.model.trim(),
+    serverUrl: settings.serverUrl.trim().replace(/\/+$/, ''),
+    serverKey: settings.serverKey.trim(),
+    ensemblePasses: settings.ensemblePasses.trim(),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  return current;
+};
+
+// The key saved in this browser wins over the one baked in at build time
+export const getGeminiApiKey = (settings: AppSettings = current): string | undefined =>
+  settings.apiKey || process.env.API_KEY;
@@ -0,0 +1,183 @@
+import { SourceConfig, SourceConnector, SourceItem, SourceKind, SourcePollResult } from "../types";
+import { fetchTextFromUrl } from "./urlFetchService";
+
+const DEFAULT_WEBHOOK_RELAY = "http://localhost:8789/hooks";
+const MEDIA_RSS_NS = "http://search.yahoo.com/mrss/";
+
+const webhookRelayUrl = (): string => (process.env.WEBHOOK_RELAY_URL || DEFAULT_WEBHOOK_RELAY).replace(/\/+$/, '');
+
+// Where senders POST items for a webhook source. The random source id doubles as the secret
+export const webhookEndpoint = (sourceId: string): string => `${webhookRelayUrl()}/${encodeURIComponent(sourceId)}`;
+
+const isMediaType = (type: string | null | undefined): boolean =>
+  !type || type.startsWith('image/') || type.startsWith('video/');
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const toIsoDate = (value: unknown): string | undefined => {
+  const text = asString(value);
+  if (!text) return undefined;
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+// Feeds list newest first. Returned items are oldest first so history fills in publishing order
+const oldestFirst = (items: SourceItem[]): SourceItem[] =>
+  items.every(item => item.publishedAt)
+    ? [...items].sort((a, b) => a.publishedAt!.localeCompare(b.publishedAt!))
+    : [...items].reverse();
+
+const jsonFeedItems = (data: unknown): SourceItem[] => {
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { items?: unknown })?.items) ? (data as { items: unknown[] }).items : [];
+
+  const items: SourceItem[] = [];
+  for (const entry of entries) {
+    if (typeof entry === 'string') {
+      items.push({ key: entry, url: entry });
+      continue;
+    }
+    if (!entry || typeof entry !== 'object') continue;
+    const record = entry as Record<string, unknown>;
+    const attachment = Array.isArray(record.attachments)
+      ? (record.attachments as Record<string, unknown>[]).find(a => asString(a?.url) && isMediaType(asString(a.mime_type)))
+      : undefined;
+    // JSON Feed 1.1: attachments, then image, then the item link itself
+    const url = asString(attachment?.url) ?? asString(record.image) ?? asString(record.url);
+    if (!url) continue;
+    items.push({
+      key: asString(record.id) ?? url,
+      url,
+      title: asString(record.title),
+      publishedAt: toIsoDate(record.date_published ?? record.publishedAt),
+    });
+  }
+  return items;
+};
+
+const xmlFeedItems = (text: string): SourceItem[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("Feed is neither valid JSON nor XML");
+  }
+
+  const childText = (el: Element, name: string) => asString(el.getElementsByTagName(name)[0]?.textContent);
+  const mediaUrl = (el: Element) => {
+    const media = Array.from(el.getElementsByTagNameNS(MEDIA_RSS_NS, 'content'))
+      .find(m => m.getAttribute('url') && isMediaType(m.getAttribute('type')) && m.getAttribute('medium') !== 'audio');
+    return asString(media?.getAttribute('url'));
+  };
+
+  const items: SourceItem[] = [];
+
+  // RSS 2.0
+  for (const item of Array.from(doc.getElementsByTagName('item'))) {
+    const enclosure = Array.from(item.getElementsByTagName('enclosure'))
+      .find(e => e.getAttribute('url') && isMediaType(e.getAttribute('type')));
+    const url = asString(enclosure?.getAttribute('url')) ?? mediaUrl(item) ?? childText(item, 'link');
+    if (!url) continue;
+    items.push({
+      key: childText(item, 'guid') ?? url,
+      url,
+      title: childText(item, 'title'),
+      publishedAt: toIsoDate(childText(item, 'pubDate')),
+    });
+  }
+
+  // Atom
+  for (const entry of Array.from(doc.getElementsByTagName('entry'))) {
+    const links = Array.from(entry.getElementsByTagName('link'));
+    const enclosure = links.find(l => l.getAttribute('rel') === 'enclosure' && isMediaType(l.getAttribute('type')));
+    const alternate = links.find(l => !l.getAttribute('rel') || l.getAttribute('rel') === 'alternate');
+    const url = asString(enclosure?.getAttribute('href')) ?? mediaUrl(entry) ?? asString(alternate?.getAttribute('href'));
+    if (!url) continue;
+    items.push({
+      key: childText(entry, 'id') ?? url,
+      url,
+      title: childText(entry, 'title'),
+      publishedAt: toIsoDate(childText(entry, 'published') ?? childText(entry, 'updated')),
+    });
+  }
+
+  return items;
+};
+
+/**
+ * Reads RSS 2.0, Atom or JSON Feed documents, plus a bare JSON array of media
+ * URLs (or of objects with a `url`). Each item resolves to its first image or
+ * video enclosure / media:content / attachment, falling back to the item link.
+ */
+export const parseFeed = (text: string): SourceItem[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error("Feed is not valid JSON");
+    }
+    return oldestFirst(jsonFeedItems(data));
+  }
+  return oldestFirst(xmlFeedItems(trimmed));
+};
+
+/**
+ * WEBHOOK
+ * Browsers cannot accept inbound requests, so deliveries land in a local relay
+ * that queues them per source until the app drains it:
+ *
+ *   POST <WEBHOOK_RELAY_URL>/<source id>   { "url": string, "title"?: string }
+ *   GET  <WEBHOOK_RELAY_URL>/<source id>?after=<delivery id>
+ *   -> { "deliveries": [{ "id": string, "url": string, "title"?: string, "receivedAt"?: string }], "cursor"?: string }
+ */
+const webhookConnector: SourceConnector = {
+  kind: 'webhook',
+  label: "Inbound Webhook",
+  description: "Scans media URLs POSTed to this source's endpoint by your own tooling.",
+  needsUrl: false,
+  poll: async (source: SourceConfig, cursor?: string): Promise<SourcePollResult> => {
+    const query = cursor ? `?after=${encodeURIComponent(cursor)}` : '';
+    const response = await fetch(`${webhookEndpoint(source.id)}${query}`);
+    if (!response.ok) {
+      throw new Error(`Webhook relay responded with HTTP ${response.status}`);
+    }
+    const body = await response.json();
+    const deliveries: unknown[] = Array.isArray(body?.deliveries) ? body.deliveries : [];
+
+    const items: SourceItem[] = [];
+    for (const delivery of deliveries) {
+      const record = delivery as Record<string, unknown>;
+      const url = asString(record?.url);
+      const id = asString(record?.id);
+      if (!url || !id) continue;
+      items.push({ key: id, url, title: asString(record.title), publishedAt: toIsoDate(record.receivedAt) });
+    }
+
+    return { items, cursor: asString(body?.cursor) ?? items[items.length - 1]?.key ?? cursor };
+  },
+};
+
+// Polled RSS / Atom / JSON feed, fetched through the media proxy for CORS
+const feedConnector: SourceConnector = {
+  kind: 'feed',
+  label: "RSS / JSON Feed",
+  description: "Polls a feed and scans the image or video attached to each new item.",
+  needsUrl: true,
+  poll: async (source: SourceConfig): Promise<SourcePollResult> => {
+    const { text } = await fetchTextFromUrl(source.url);
+    return { items: parseFeed(text) };
+  },
+};
+
+export const SOURCE_CONNECTORS: Record<SourceKind, SourceConnector> = {
+  webhook: webhookConnector,
+  feed: feedConnector,
+};
+
+export const getConnector = (kind: SourceKind): SourceConnector => {
+  const connector = SOURCE_CONNECTORS[kind];
+  if (!connector) throw new Error(`Unknown source type "${kind}"`);
+  return connector;
+};
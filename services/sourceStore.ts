@@ -0,0 +1,24 @@
+import { SourceRecord } from "../types";
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db";
+
+// Oldest first, so sources keep the order they were added in
+export const listSources = async (): Promise<SourceRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.sources, 'readonly');
+  const sources: SourceRecord[] = await requestToPromise(tx.objectStore(STORES.sources).getAll());
+  return sources.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const putSource = async (source: SourceRecord): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.sources, 'readwrite');
+  tx.objectStore(STORES.sources).put(source);
+  await transactionDone(tx);
+};
+
+export const deleteSource = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.sources, 'readwrite');
+  tx.objectStore(STORES.sources).delete(id);
+  await transactionDone(tx);
+};
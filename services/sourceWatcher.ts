@@ -0,0 +1,167 @@
+import { SourceConfig, SourceItem, SourceRecord, SourceStatus } from "../types";
+import { isRateLimitError } from "./batchQueue";
+import { getConnector } from "./sourceConnectors";
+import { putSource } from "./sourceStore";
+
+export const POLL_INTERVAL_RANGE: [number, number] = [30, 86400]; // Seconds
+export const DEFAULT_POLL_INTERVAL = 300;
+export const MAX_ITEMS_PER_POLL = 10; // The rest waits for the next poll
+const SEEN_LIMIT = 500;
+
+export interface SourceWatcher {
+  sync: (sources: SourceRecord[]) => SourceRecord[]; // Returns the input with the watcher's current status
+  pollNow: (id: string) => void;
+  stop: () => void;
+}
+
+export type SourceDraft = Pick<SourceConfig, 'kind' | 'name' | 'url' | 'pollIntervalSeconds'>;
+
+export const validateSourceDraft = (draft: SourceDraft, needsUrl: boolean): string[] => {
+  const errors: string[] = [];
+  if (!draft.name.trim()) errors.push("Name is required");
+  if (needsUrl) {
+    try {
+      const { protocol } = new URL(draft.url);
+      if (protocol !== 'http:' && protocol !== 'https:') errors.push("Feed URL must be http(s)");
+    } catch {
+      errors.push("Feed URL is not a valid URL");
+    }
+  }
+  const [min, max] = POLL_INTERVAL_RANGE;
+  if (!Number.isFinite(draft.pollIntervalSeconds) || draft.pollIntervalSeconds < min || draft.pollIntervalSeconds > max) {
+    errors.push(`Poll interval must be between ${min} and ${max} seconds`);
+  }
+  return errors;
+};
+
+export const createSource = (draft: SourceDraft): SourceRecord => ({
+  id: crypto.randomUUID(),
+  kind: draft.kind,
+  name: draft.name.trim(),
+  url: draft.url.trim(),
+  pollIntervalSeconds: Math.round(draft.pollIntervalSeconds),
+  enabled: true,
+  createdAt: new Date().toISOString(),
+  status: { state: 'idle', itemsScanned: 0, itemsFailed: 0, seen: [] },
+});
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/**
+ * Polls every enabled source on its own interval, hands new items to `scan`
+ * one at a time and persists the resulting status after every change. The
+ * watcher owns `status`; `sync` only takes configuration from its input.
+ * Timers run while the app is open, a reopened app polls whatever came due.
+ */
+export const createSourceWatcher = (
+  scan: (item: SourceItem, source: SourceRecord) => Promise<void>,
+  onChange: (source: SourceRecord) => void
+): SourceWatcher => {
+  const sources = new Map<string, SourceRecord>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const polling = new Set<string>();
+  let stopped = false;
+
+  const update = (id: string, patch: Partial<SourceStatus>) => {
+    const current = sources.get(id);
+    if (!current) return; // Deleted mid-poll
+    const next = { ...current, status: { ...current.status, ...patch } };
+    sources.set(id, next);
+    onChange(next);
+    putSource(next).catch(err => console.error("Source status save failed:", err));
+  };
+
+  const schedule = (id: string, delayMs?: number) => {
+    clearTimeout(timers.get(id));
+    timers.delete(id);
+    const source = sources.get(id);
+    if (stopped || !source?.enabled) return;
+
+    const interval = source.pollIntervalSeconds * 1000;
+    const due = delayMs ?? (source.status.lastScanAt
+      ? Date.parse(source.status.lastScanAt) + interval - Date.now()
+      : 0);
+    timers.set(id, setTimeout(() => poll(id), Math.max(0, Math.min(due, interval))));
+  };
+
+  const poll = async (id: string) => {
+    const source = sources.get(id);
+    if (!source || polling.has(id)) return;
+    polling.add(id);
+    update(id, { state: 'polling' });
+
+    try {
+      const { items, cursor } = await getConnector(source.kind).poll(source, source.status.cursor);
+      const seen = new Set(source.status.seen);
+      const fresh = items.filter(item => !seen.has(item.key));
+      const batch = fresh.slice(0, MAX_ITEMS_PER_POLL);
+      let handled = 0;
+      let lastError: string | undefined;
+
+      for (const item of batch) {
+        const current = sources.get(id);
+        if (stopped || !current?.enabled) break;
+        try {
+          await scan(item, current);
+          update(id, { itemsScanned: current.status.itemsScanned + 1, lastItemAt: new Date().toISOString() });
+        } catch (error) {
+          lastError = `${item.title || item.url}: ${errorMessage(error)}`;
+          // Leave rate-limited items unseen so the next poll picks them up again
+          if (isRateLimitError(error)) break;
+          update(id, { itemsFailed: current.status.itemsFailed + 1, lastError });
+        }
+        seen.add(item.key);
+        handled += 1;
+      }
+
+      // Only move the cursor once everything before it was handled; `seen` covers partial polls
+      const complete = handled === fresh.length;
+      update(id, {
+        state: lastError ? 'error' : 'idle',
+        lastScanAt: new Date().toISOString(),
+        lastError,
+        cursor: complete ? cursor : sources.get(id)?.status.cursor,
+        seen: Array.from(seen).slice(-SEEN_LIMIT),
+      });
+    } catch (error) {
+      update(id, { state: 'error', lastError: errorMessage(error) });
+    } finally {
+      polling.delete(id);
+      schedule(id, (sources.get(id)?.pollIntervalSeconds ?? 0) * 1000);
+    }
+  };
+
+  return {
+    sync: (next: SourceRecord[]) => {
+      const ids = new Set(next.map(s => s.id));
+      for (const id of Array.from(sources.keys())) {
+        if (!ids.has(id)) {
+          clearTimeout(timers.get(id));
+          timers.delete(id);
+          sources.delete(id);
+        }
+      }
+      for (const source of next) {
+        const existing = sources.get(source.id);
+        const status = existing?.status
+          // A 'polling' state persisted by a closed tab is stale
+          ?? (source.status.state === 'polling' ? { ...source.status, state: 'idle' as const } : source.status);
+        sources.set(source.id, { ...source, status });
+        const changed = !existing || existing.enabled !== source.enabled || existing.pollIntervalSeconds !== source.pollIntervalSeconds;
+        if (changed && !polling.has(source.id)) schedule(source.id);
+      }
+      return next.map(source => sources.get(source.id)!);
+    },
+    pollNow: (id: string) => {
+      if (polling.has(id)) return;
+      clearTimeout(timers.get(id));
+      timers.delete(id);
+      poll(id);
+    },
+    stop: () => {
+      stopped = true;
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    },
+  };
+};
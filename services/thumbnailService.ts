@@ -0,0 +1,61 @@
+const THUMBNAIL_SIZE = 256;
+const THUMBNAIL_QUALITY = 0.7;
+
+const drawToBlob = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  size: number,
+  quality: number
+): Promise<Blob | null> => {
+  const scale = Math.min(1, size / Math.max(sourceWidth, sourceHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.resolve(null);
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+};
+
+/**
+ * Small JPEG thumbnail that can be persisted alongside a history entry.
+ * Videos use their first decodable frame. Resolves null if the browser
+ * cannot decode the media, callers should store the entry without a thumbnail.
+ * Reports ask for a larger, better-quality rendition of the same frame.
+ */
+export const createThumbnail = (
+  file: Blob,
+  size: number = THUMBNAIL_SIZE,
+  quality: number = THUMBNAIL_QUALITY
+): Promise<Blob | null> => {
+  const url = URL.createObjectURL(file);
+
+  const done = (result: Promise<Blob | null>) =>
+    result.catch(() => null).finally(() => URL.revokeObjectURL(url));
+
+  if (file.type.startsWith('video/')) {
+    return done(new Promise((resolve, reject) => {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.preload = 'auto';
+      video.onloadeddata = () => {
+        video.currentTime = Math.min(0.1, video.duration || 0);
+      };
+      video.onseeked = () => {
+        drawToBlob(video, video.videoWidth, video.videoHeight, size, quality).then(resolve, reject);
+      };
+      video.onerror = () => reject(new Error("Video thumbnail failed"));
+      video.src = url;
+    }));
+  }
+
+  return done(new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => drawToBlob(img, img.width, img.height, size, quality).then(resolve, reject);
+    img.onerror = () => reject(new Error("Image thumbnail failed"));
+    img.src = url;
+  }));
+};
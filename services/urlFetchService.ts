@@ -0,0 +1,92 @@
+const DEFAULT_MEDIA_PROXY = "http://localhost:8788/fetch";
+
+export interface FetchedMedia {
+  file: File;
+  sourceUrl: string;
+  finalUrl: string; // After redirects, as reported by the proxy
+}
+
+export const parseHttpUrl = (url: string): URL => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Invalid URL");
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error("Only http(s) URLs can be scanned");
+  }
+  return parsed;
+};
+
+export const fileNameFromUrl = (url: string, mimeType: string): string => {
+  try {
+    const last = new URL(url).pathname.split('/').filter(Boolean).pop();
+    if (last) return decodeURIComponent(last);
+  } catch {
+    // Fall through to a generated name
+  }
+  return `remote.${mimeType.split('/')[1] || 'bin'}`;
+};
+
+// Calls the proxy and turns its failures, including not running at all, into readable errors
+const fetchThroughProxy = async (url: URL, proxyUrl: string): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(`${proxyUrl}?url=${encodeURIComponent(url.href)}`);
+  } catch {
+    throw new Error(`Media proxy at ${proxyUrl} is not reachable, start it with "npm run proxy"`);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(typeof body?.error === 'string' ? body.error : `Media proxy responded with HTTP ${response.status}`);
+  }
+  return response;
+};
+
+/**
+ * URL SCANS
+ * Browsers cannot read cross-origin media bytes directly, so remote media is
+ * fetched through the media proxy (server/mediaProxy.ts):
+ *
+ *   GET <MEDIA_PROXY_URL>?url=<encoded url>
+ *   -> media bytes, Content-Type of the media, X-Final-Url header with the post-redirect URL
+ */
+export const fetchMediaFromUrl = async (
+  url: string,
+  proxyUrl: string = process.env.MEDIA_PROXY_URL || DEFAULT_MEDIA_PROXY
+): Promise<FetchedMedia> => {
+  const parsed = parseHttpUrl(url);
+  const response = await fetchThroughProxy(parsed, proxyUrl);
+
+  const blob = await response.blob();
+  const mimeType = (response.headers.get('Content-Type') || blob.type).split(';')[0].trim();
+  if (!mimeType.startsWith('image/') && !mimeType.startsWith('video/')) {
+    throw new Error(`URL did not return an image or video (got ${mimeType || 'unknown type'})`);
+  }
+
+  // Only readable cross-origin because the proxy lists it in Access-Control-Expose-Headers
+  const finalUrl = response.headers.get('X-Final-Url') || parsed.href;
+
+  return {
+    file: new File([blob], fileNameFromUrl(finalUrl, mimeType), { type: mimeType }),
+    sourceUrl: parsed.href,
+    finalUrl,
+  };
+};
+
+/**
+ * Fetches a text document (e.g. an RSS or JSON feed) through the same proxy,
+ * for sources that do not send CORS headers.
+ */
+export const fetchTextFromUrl = async (
+  url: string,
+  proxyUrl: string = process.env.MEDIA_PROXY_URL || DEFAULT_MEDIA_PROXY
+): Promise<{ text: string; contentType: string }> => {
+  const parsed = parseHttpUrl(url);
+  const response = await fetchThroughProxy(parsed, proxyUrl);
+  return {
+    text: await response.text(),
+    contentType: (response.headers.get('Content-Type') || '').split(';')[0].trim(),
+  };
+};
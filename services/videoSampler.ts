@@ -0,0 +1,105 @@
+import { VideoFrameSample } from "../types";
+
+export interface VideoSamplingOptions {
+  intervalSeconds: number; // Target spacing between keyframes
+  maxFrames: number;       // Spacing widens for long clips so we never exceed this
+  maxDimension: number;    // Longest edge of each sampled frame, in px
+  quality: number;         // JPEG quality 0-1
+}
+
+export const DEFAULT_VIDEO_SAMPLING: VideoSamplingOptions = {
+  intervalSeconds: 1,
+  maxFrames: 16,
+  maxDimension: 512,
+  quality: 0.8,
+};
+
+export interface SampledVideo {
+  durationSeconds: number;
+  frames: VideoFrameSample[];
+}
+
+const loadVideo = (url: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error("Video could not be decoded in this browser"));
+    video.src = url;
+  });
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onSeeked = () => {
+      video.removeEventListener('seeked', onSeeked);
+      resolve();
+    };
+    video.addEventListener('seeked', onSeeked);
+    video.onerror = () => reject(new Error(`Seek to ${time}s failed`));
+    video.currentTime = time;
+  });
+
+/**
+ * VIDEO PREPROCESSOR
+ * Decodes the clip in the browser and returns downsized JPEG keyframes with
+ * their timestamps, so only a few hundred KB are uploaded instead of the
+ * whole file (the same iOS memory problem optimizeImageForMobile solves).
+ */
+export const sampleVideoFrames = async (
+  file: Blob,
+  options: VideoSamplingOptions = DEFAULT_VIDEO_SAMPLING
+): Promise<SampledVideo> => {
+  const url = URL.createObjectURL(file);
+
+  try {
+    const video = await loadVideo(url);
+    const duration = video.duration;
+    if (!Number.isFinite(duration) || duration <= 0 || !video.videoWidth) {
+      throw new Error("Video has no decodable frames");
+    }
+
+    const interval = Math.max(options.intervalSeconds, duration / options.maxFrames);
+    const timestamps: number[] = [];
+    // Sample at the middle of each interval so the first frame isn't a black fade-in
+    for (let t = Math.min(interval / 2, duration / 2); t < duration && timestamps.length < options.maxFrames; t += interval) {
+      timestamps.push(Math.round(t * 100) / 100);
+    }
+
+    const scale = Math.min(1, options.maxDimension / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas context failed");
+
+    const frames: VideoFrameSample[] = [];
+    for (const timestamp of timestamps) {
+      await seekTo(video, timestamp);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push({
+        timestamp,
+        mimeType: 'image/jpeg',
+        base64: canvas.toDataURL('image/jpeg', options.quality).split(',')[1],
+      });
+    }
+
+    return { durationSeconds: duration, frames };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Model-reported anomaly times are only as precise as the frames it saw.
+ * Snap each one to the nearest sampled timestamp, inside the clip bounds.
+ */
+export const snapToSampledFrame = (timestamp: number, frames: VideoFrameSample[], duration: number): number => {
+  const clamped = Math.min(Math.max(0, timestamp), duration);
+  if (frames.length === 0) return clamped;
+  return frames.reduce((best, frame) =>
+    Math.abs(frame.timestamp - clamped) < Math.abs(best - clamped) ? frame.timestamp : best,
+    frames[0].timestamp
+  );
+};
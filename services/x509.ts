@@ -0,0 +1,248 @@
+/**
+ * Just enough DER / X.509 to identify a signer, check a certificate chain and
+ * hand public keys to WebCrypto. Not a general-purpose ASN.1 library.
+ */
+
+interface DerNode {
+  tag: number;
+  start: number; // First content byte
+  end: number;   // One past the last content byte
+  headerStart: number;
+}
+
+export interface Certificate {
+  der: Uint8Array;
+  tbs: Uint8Array; // The signed TBSCertificate bytes
+  signatureAlgorithm: string; // OID
+  signatureAlgorithmParams: Uint8Array; // Raw DER of the parameters, needed for RSASSA-PSS
+  signature: Uint8Array;
+  issuer: Uint8Array;  // Raw DER Name, compared byte-for-byte
+  subject: Uint8Array;
+  subjectName: string; // "CN, O" for display
+  issuerName: string;
+  notBefore: Date;
+  notAfter: Date;
+  spki: Uint8Array;
+  keyAlgorithm: string; // OID
+  keyCurve?: string;    // OID, EC keys only
+}
+
+const OID = {
+  commonName: '2.5.4.3',
+  organization: '2.5.4.10',
+  ecPublicKey: '1.2.840.10045.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  rsaPss: '1.2.840.113549.1.1.10',
+  ed25519: '1.3.101.112',
+  p256: '1.2.840.10045.3.1.7',
+  p384: '1.3.132.0.34',
+  p521: '1.3.132.0.35',
+};
+
+const CURVES: Record<string, { name: string; size: number }> = {
+  [OID.p256]: { name: 'P-256', size: 32 },
+  [OID.p384]: { name: 'P-384', size: 48 },
+  [OID.p521]: { name: 'P-521', size: 66 },
+};
+
+const SIGNATURE_HASHES: Record<string, string> = {
+  '1.2.840.10045.4.3.2': 'SHA-256', // ecdsa-with-SHA256
+  '1.2.840.10045.4.3.3': 'SHA-384',
+  '1.2.840.10045.4.3.4': 'SHA-512',
+  '1.2.840.113549.1.1.11': 'SHA-256', // sha256WithRSAEncryption
+  '1.2.840.113549.1.1.12': 'SHA-384',
+  '1.2.840.113549.1.1.13': 'SHA-512',
+};
+
+const readNode = (bytes: Uint8Array, offset: number): DerNode => {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) throw new Error("DER: unsupported length encoding");
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[start + i];
+    start += count;
+  }
+  const end = start + length;
+  if (end > bytes.length) throw new Error("DER: truncated");
+  return { tag, start, end, headerStart: offset };
+};
+
+const children = (bytes: Uint8Array, node: DerNode): DerNode[] => {
+  const nodes: DerNode[] = [];
+  for (let at = node.start; at < node.end;) {
+    const child = readNode(bytes, at);
+    nodes.push(child);
+    at = child.end;
+  }
+  return nodes;
+};
+
+const raw = (bytes: Uint8Array, node: DerNode) => bytes.slice(node.headerStart, node.end);
+
+const readOid = (bytes: Uint8Array, node: DerNode): string => {
+  const parts: number[] = [];
+  let value = 0;
+  for (let i = node.start; i < node.end; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      if (parts.length === 0) {
+        // The first subidentifier packs the first two arcs
+        const first = value < 80 ? Math.floor(value / 40) : 2;
+        parts.push(first, value - first * 40);
+      } else {
+        parts.push(value);
+      }
+      value = 0;
+    }
+  }
+  return parts.join('.');
+};
+
+const readTime = (bytes: Uint8Array, node: DerNode): Date => {
+  const text = new TextDecoder().decode(bytes.subarray(node.start, node.end));
+  // UTCTime (0x17) has a two-digit year, GeneralizedTime (0x18) four
+  const full = node.tag === 0x17 ? (Number(text.slice(0, 2)) >= 50 ? '19' : '20') + text : text;
+  const [y, mo, d, h, mi, s] = [0, 4, 6, 8, 10, 12].map((at, i) => Number(full.slice(at, at + (i === 0 ? 4 : 2))));
+  return new Date(Date.UTC(y, mo - 1, d, h, mi, s || 0));
+};
+
+const readName = (bytes: Uint8Array, node: DerNode): string => {
+  const fields: Record<string, string> = {};
+  children(bytes, node).forEach(rdn => {
+    children(bytes, rdn).forEach(attr => {
+      const [type, value] = children(bytes, attr);
+      if (!type || !value) return;
+      fields[readOid(bytes, type)] = new TextDecoder().decode(bytes.subarray(value.start, value.end));
+    });
+  });
+  return [fields[OID.commonName], fields[OID.organization]].filter(Boolean).join(', ') || "Unnamed";
+};
+
+export const parseCertificate = (der: Uint8Array): Certificate => {
+  const root = readNode(der, 0);
+  const [tbsNode, sigAlgNode, sigNode] = children(der, root);
+  const tbsFields = children(der, tbsNode);
+  // Skip the optional explicit [0] version
+  const fields = tbsFields[0].tag === 0xa0 ? tbsFields.slice(1) : tbsFields;
+  const [, , issuerNode, validityNode, subjectNode, spkiNode] = fields;
+
+  const [notBeforeNode, notAfterNode] = children(der, validityNode);
+  const [keyAlgNode] = children(der, spkiNode);
+  const [keyOidNode, keyParamNode] = children(der, keyAlgNode);
+  const [sigOidNode, sigParamNode] = children(der, sigAlgNode);
+
+  const keyAlgorithm = readOid(der, keyOidNode);
+
+  return {
+    der,
+    tbs: raw(der, tbsNode),
+    signatureAlgorithm: readOid(der, sigOidNode),
+    signatureAlgorithmParams: sigParamNode ? raw(der, sigParamNode) : new Uint8Array(),
+    // BIT STRING: skip the unused-bits byte
+    signature: der.slice(sigNode.start + 1, sigNode.end),
+    issuer: raw(der, issuerNode),
+    subject: raw(der, subjectNode),
+    issuerName: readName(der, issuerNode),
+    subjectName: readName(der, subjectNode),
+    notBefore: readTime(der, notBeforeNode),
+    notAfter: readTime(der, notAfterNode),
+    spki: raw(der, spkiNode),
+    keyAlgorithm,
+    keyCurve: keyAlgorithm === OID.ecPublicKey && keyParamNode?.tag === 0x06 ? readOid(der, keyParamNode) : undefined,
+  };
+};
+
+// ECDSA-Sig-Value ::= SEQUENCE { r INTEGER, s INTEGER } -> fixed-width r||s as WebCrypto expects
+const derEcdsaToRaw = (sig: Uint8Array, size: number): Uint8Array => {
+  const [r, s] = children(sig, readNode(sig, 0));
+  const out = new Uint8Array(size * 2);
+  [r, s].forEach((node, i) => {
+    let part = sig.subarray(node.start, node.end);
+    while (part.length > size && part[0] === 0) part = part.subarray(1);
+    out.set(part, i * size + (size - part.length));
+  });
+  return out;
+};
+
+type VerifyAlgorithm = { import: RsaHashedImportParams | EcKeyImportParams | Algorithm; verify: RsaPssParams | EcdsaParams | Algorithm };
+
+/**
+ * WebCrypto parameters for a key of the given certificate, signing with the
+ * given hash. `pss` selects RSASSA-PSS over PKCS#1 v1.5 for RSA keys.
+ */
+export const verifyAlgorithmFor = (key: Certificate, hash: string, pss: boolean): VerifyAlgorithm | null => {
+  if (key.keyAlgorithm === OID.ecPublicKey) {
+    const curve = key.keyCurve && CURVES[key.keyCurve];
+    if (!curve) return null;
+    return { import: { name: 'ECDSA', namedCurve: curve.name }, verify: { name: 'ECDSA', hash } };
+  }
+  if (key.keyAlgorithm === OID.rsaEncryption) {
+    if (pss) {
+      const saltLength = hash === 'SHA-512' ? 64 : hash === 'SHA-384' ? 48 : 32;
+      return { import: { name: 'RSA-PSS', hash }, verify: { name: 'RSA-PSS', saltLength } as RsaPssParams };
+    }
+    return { import: { name: 'RSASSA-PKCS1-v1_5', hash }, verify: { name: 'RSASSA-PKCS1-v1_5' } };
+  }
+  if (key.keyAlgorithm === OID.ed25519) {
+    return { import: { name: 'Ed25519' }, verify: { name: 'Ed25519' } };
+  }
+  return null; // id-RSASSA-PSS keys & others are not importable by WebCrypto
+};
+
+export const verifyWithCertificate = async (
+  key: Certificate,
+  algorithm: VerifyAlgorithm,
+  signature: Uint8Array,
+  data: Uint8Array
+): Promise<boolean> => {
+  const publicKey = await crypto.subtle.importKey('spki', key.spki, algorithm.import, false, ['verify']);
+  return crypto.subtle.verify(algorithm.verify, publicKey, signature, data);
+};
+
+export const ecCoordinateSize = (key: Certificate): number | undefined =>
+  key.keyCurve ? CURVES[key.keyCurve]?.size : undefined;
+
+// Checks that `cert` was signed by `issuer`'s key
+export const isSignedBy = async (cert: Certificate, issuer: Certificate): Promise<boolean> => {
+  let hash = SIGNATURE_HASHES[cert.signatureAlgorithm];
+  const pss = cert.signatureAlgorithm === OID.rsaPss;
+  if (pss) {
+    const params = new TextDecoder('latin1').decode(cert.signatureAlgorithmParams);
+    // The hash OID appears in the PSS parameters; its DER body is distinctive enough to search for
+    hash = params.includes('\x60\x86\x48\x01\x65\x03\x04\x02\x03') ? 'SHA-512'
+      : params.includes('\x60\x86\x48\x01\x65\x03\x04\x02\x02') ? 'SHA-384'
+      : 'SHA-256';
+  }
+  const ed25519 = cert.signatureAlgorithm === OID.ed25519;
+  if (!hash && !ed25519) return false;
+
+  const algorithm = verifyAlgorithmFor(issuer, hash, pss);
+  if (!algorithm) return false;
+
+  const size = ecCoordinateSize(issuer);
+  const signature = issuer.keyAlgorithm === OID.ecPublicKey && size ? derEcdsaToRaw(cert.signature, size) : cert.signature;
+  try {
+    return await verifyWithCertificate(issuer, algorithm, signature, cert.tbs);
+  } catch {
+    return false;
+  }
+};
+
+export const sameBytes = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((v, i) => v === b[i]);
+
+export const parsePemBundle = (pem: string): Certificate[] => {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [];
+  return blocks.flatMap(block => {
+    const base64 = block.replace(/-----(BEGIN|END) CERTIFICATE-----|\s/g, '');
+    try {
+      return [parseCertificate(Uint8Array.from(atob(base64), c => c.charCodeAt(0)))];
+    } catch (err) {
+      console.warn("Skipping unparseable trust anchor:", err);
+      return [];
+    }
+  });
+};
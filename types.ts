@@ -6,6 +6,10 @@ export enum ViewState {
   BATCH_RESULT = 'BATCH_RESULT',
   DASHBOARD = 'DASHBOARD',
   SETTINGS = 'SETTINGS',
+  CALIBRATION = 'CALIBRATION',
+  EVALUATION = 'EVALUATION',
+  PROMPTS = 'PROMPTS',
+  INTEGRATIONS = 'INTEGRATIONS',
 }
 
 export enum AnalysisStatus {
@@ -46,6 +50,17 @@ export interface ForensicMetrics {
   textureFidelity: number;    // 0-100
   lightingConsistency: number;// 0-100
   physicalLogic: number;      // 0-100
+
+  // Computed locally from pixels (images only, see forensicAnalyzers)
+  errorLevel?: number;        // 0-100 mean ELA response (higher = more recompression error)
+  noiseConsistency?: number;  // 0-100 (100 = uniform sensor-like noise residual)
+  spectralPeaks?: number;     // 0-100 periodic FFT peak strength (upsampling grids)
+}
+
+export interface ForensicLayers {
+  ela: string;      // Heatmap data URLs, same aspect ratio as the analyzed image
+  noise: string;
+  spectrum: string; // Centered log-magnitude FFT spectrum, not spatially aligned
 }
 
 export interface HumanPerception {
@@ -60,13 +75,66 @@ export interface ModelSignature {
   confidence: number;
 }
 
+export type SignatureSource = 'metadata' | 'model';
+
+export interface WatermarkSignature {
+  provider: string; // e.g. "C2PA", "Google SynthID", "OpenAI", "Meta"
+  type: string; // e.g. "Cryptographic Metadata", "Invisible Noise Watermark"
+  confidence: number;
+  source?: SignatureSource; // 'metadata' = read from the file itself, 'model' = inferred by the detector
+}
+
 export interface WatermarkDetection {
   detected: boolean;
-  signatures: {
-    provider: string; // e.g. "C2PA", "Google SynthID", "OpenAI", "Meta"
-    type: string; // e.g. "Cryptographic Metadata", "Invisible Noise Watermark"
-    confidence: number;
-  }[];
+  signatures: WatermarkSignature[];
+}
+
+// Embedded metadata read from the original file bytes, before any re-encode
+export interface MediaMetadata {
+  exif: Record<string, string>; // e.g. Make, Model, Software, DateTimeOriginal
+  xmp: Record<string, string>;  // Keyed by qualified name, e.g. "xmp:CreatorTool"
+  iptc: Record<string, string>; // IPTC-IIM record 2 datasets, e.g. Byline, Credit
+  text: Record<string, string>; // PNG tEXt/iTXt chunks, e.g. "parameters"
+  c2pa: boolean;                // A C2PA manifest store (JUMBF) is embedded
+}
+
+// 'valid' = signature & hashes check out, 'tampered' = they don't, 'unsigned' = nothing to check
+export type ProvenanceStatus = 'valid' | 'tampered' | 'unsigned';
+
+export interface ProvenanceAction {
+  action: string; // e.g. "c2pa.created", "c2pa.edited"
+  softwareAgent?: string;
+  when?: string;
+  digitalSourceType?: string;
+}
+
+export interface ProvenanceIngredient {
+  title: string;
+  format?: string;
+  relationship?: string; // "parentOf" | "componentOf" | "inputTo"
+  manifestLabel?: string; // Label of the ingredient's own manifest, when it carried one
+}
+
+export interface ProvenanceManifest {
+  label: string;
+  title?: string;
+  claimGenerator?: string;
+  signer?: string; // Leaf certificate subject
+  issuer?: string;
+  status: ProvenanceStatus;
+  trusted: boolean; // Certificate chain ends in the local trust list
+  actions: ProvenanceAction[];
+  ingredients: ProvenanceIngredient[];
+  issues: string[];
+}
+
+export interface ProvenanceReport {
+  status: ProvenanceStatus; // Of the active manifest, including the hard binding to this file
+  trusted: boolean;
+  hardBinding: 'match' | 'mismatch' | 'unchecked';
+  activeManifest?: string;
+  manifests: ProvenanceManifest[]; // Active manifest first, then its ingredients' manifests
+  issues: string[];
 }
 
 export interface VideoAnalysis {
@@ -90,17 +158,309 @@ export interface AnalysisResult {
   
   videoAnalysis?: VideoAnalysis; // Optional, only for videos
   timestamp: string;
+  repairedFields?: string[]; // Fields the normalizer had to fill in or correct
+  detectorVersion?: string; // DetectorProvider.version that produced this result
+  sourceHash?: string; // SHA-256 of the original file bytes
+  sourceUrl?: string; // Set for URL scans: the URL as submitted
+  finalUrl?: string; // Set for URL scans: the URL after redirects
+  metadata?: MediaMetadata; // Set when the original file carried any embedded metadata
+  provenance?: ProvenanceReport; // Set when the original file carried a C2PA manifest store
+  ensemble?: EnsembleSummary; // Set when the result combines several detector passes
+  rawScore?: number; // Detector score before calibration, set when `score` is calibrated
+  calibration?: ScoreCalibration; // Set when a calibration for detectorVersion was applied
+  promptProfile?: PromptProfileRef; // Set by prompt-driven detectors: the instructions that produced this result
+  origin?: SourceRef; // Set when a watched source scanned this automatically
+  imported?: boolean; // Set when the result was read back from an export, which does not carry the media
+}
+
+export type CalibrationMethod = 'platt' | 'isotonic';
+
+// What a calibrated result records about the calibration that produced it
+export interface ScoreCalibration {
+  method: CalibrationMethod;
+  threshold: number; // 0-100 operating threshold on the calibrated score
+  fittedAt: string;
+}
+
+export interface CalibrationSample {
+  fileName: string;
+  rawScore: number;
+  synthetic: boolean; // Ground-truth label
+}
+
+// Stored per detector version; `score` becomes the calibrated probability x 100
+export interface CalibrationModel extends ScoreCalibration {
+  detectorVersion: string;
+  platt?: { a: number; b: number };        // p = sigmoid(a * rawScore / 100 + b)
+  isotonic?: { x: number[]; y: number[] }; // Breakpoints (raw score -> probability), linearly interpolated
+  samples: CalibrationSample[];
+}
+
+export interface EnsemblePass {
+  label: string;           // Provider label, e.g. "Google Gemini (gemini-2.5-pro)"
+  detectorVersion: string;
+  result?: AnalysisResult; // Normalized sub-result, absent when the pass failed
+  error?: string;
+}
+
+export interface EnsembleSummary {
+  passes: EnsemblePass[];
+  meanScore: number;
+  spread: number;             // Standard deviation of the pass scores
+  interval: [number, number]; // 95% confidence interval of the mean score
+  agreement: number;          // 0-100: share of passes agreeing with the majority verdict
+  inconclusive: boolean;      // Passes disagree too much for a binary verdict
+}
+
+export interface VideoFrameSample {
+  timestamp: number; // Seconds from the start of the original file
+  mimeType: string;
+  base64: string;
+}
+
+// What gets submitted to a detector: a single inline file, or keyframes sampled from a video
+export type MediaPayload =
+  | { kind: 'inline'; base64: string; mimeType: string; source?: Blob } // `source`: original image bytes for in-browser analyzers, never submitted
+  | { kind: 'frames'; frames: VideoFrameSample[]; durationSeconds: number; sourceMimeType: string };
+
+export type DetectorId = 'gemini' | 'local-http' | 'mock' | 'server' | 'local-forensics' | 'ensemble';
+
+// A detector backend. Every provider must resolve to a full AnalysisResult
+// so the rest of the app never needs to know which one produced it.
+export interface DetectorProvider {
+  id: DetectorId;
+  label: string;
+  version: string; // Bumped whenever the provider's output may change for the same input
+  analyze: (payload: MediaPayload) => Promise<AnalysisResult>;
+  promptProfile?: PromptProfileRef; // Prompt-driven providers only
+  withPrompt?: (profile: PromptProfileVersion) => DetectorProvider; // Same provider bound to other instructions
+}
+
+// One saved revision of a system prompt. Edits never overwrite, they add a version
+export interface PromptProfileVersion {
+  id: string; // Stable slug shared by every version of the profile
+  version: number; // 1-based, increments on every save
+  name: string;
+  description?: string;
+  instruction: string;
+  note?: string; // What changed in this version
+  createdAt: string;
+  builtIn?: boolean; // Shipped with the app, version 1 lives in code rather than IndexedDB
+}
+
+// Editable fields of a profile version, as entered before saving
+export type PromptProfileDraft = Pick<PromptProfileVersion, 'name' | 'instruction'> &
+  Partial<Pick<PromptProfileVersion, 'description' | 'note'>>;
+
+// Every version of one profile, oldest first
+export interface PromptProfile {
+  id: string;
+  builtIn: boolean;
+  versions: PromptProfileVersion[];
+}
+
+export interface PromptProfileRef {
+  id: string;
+  name: string;
+  version: number;
 }
 
 export interface BatchAnalysisResult {
   fileName: string;
   result: AnalysisResult;
   thumbnail: string; // Base64 or ObjectURL
+  duplicates?: string[]; // Names of identical files in the same batch that reused this result
+  fromCache?: boolean;
+  label?: GroundTruthLabel; // Only set for evaluation runs
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'failed' | 'done';
+
+export interface BatchJobItem<I, O> {
+  id: string;
+  input: I;
+  status: BatchItemStatus;
+  attempts: number;
+  error?: string;
+  output?: O; // Set once status is 'done'
+}
+
+export interface BatchInput {
+  file: File;
+  sourceHash: string;
+  duplicates: string[]; // Other files in the batch with the same hash
+  label?: GroundTruthLabel;
+  force?: boolean; // Re-analysis: skip the cached result
+  source?: UrlSource; // Media fetched from a URL, stamped on the result
+}
+
+export type BatchItem = BatchJobItem<BatchInput, BatchAnalysisResult>;
+
+// One file of a labeled reference set queued for a calibration run
+export interface CalibrationInput {
+  file: File;
+  synthetic: boolean;
+}
+
+export type CalibrationItem = BatchJobItem<CalibrationInput, CalibrationSample>;
+
+// Known truth for one file of an evaluation set
+export interface GroundTruthLabel {
+  synthetic: boolean;
+  generator?: string; // e.g. "Midjourney v6", only meaningful for synthetic files
+}
+
+export interface EvaluationSample {
+  fileName: string;
+  sourceHash: string;
+  synthetic: boolean;
+  generator?: string;
+  score: number;
+  isAI: boolean;
+  inconclusive: boolean;
+  signature: string; // modelSignature.name as reported by the detector
+}
+
+export interface RocPoint {
+  threshold: number;
+  tpr: number; // 0-1
+  fpr: number; // 0-1
+}
+
+export interface ConfusionMatrix {
+  tp: number; // Synthetic flagged as synthetic
+  fp: number;
+  tn: number;
+  fn: number;
+}
+
+export interface GroupAccuracy {
+  name: string;
+  total: number;
+  correct: number;
+  accuracy: number;       // 0-100
+  signatureHits?: number; // Generator groups only: files whose reported signature names the generator
+}
+
+export interface EvaluationMetrics {
+  total: number;
+  accuracy: number;  // 0-100
+  precision: number; // 0-100
+  recall: number;    // 0-100
+  f1: number;        // 0-100
+  auc: number;       // 0-1
+  roc: RocPoint[];
+  confusion: ConfusionMatrix;
+  inconclusive: number;
+  bySignature: GroupAccuracy[];
+  byGenerator: GroupAccuracy[];
+}
+
+export interface EvaluationRun {
+  id: string;
+  name: string;
+  createdAt: string;
+  detectorLabel: string;
+  detectorVersion: string;
+  promptProfile?: PromptProfileRef;
+  samples: EvaluationSample[];
+  metrics: EvaluationMetrics;
+  failed: string[]; // File names that never produced a result
+  unlabeled: string[]; // File names skipped for lack of a label
+}
+
+// User preferences kept in this browser (localStorage)
+export interface AppSettings {
+  apiKey: string; // Gemini API key, empty to use the GEMINI_API_KEY the app was built with
+  model: string; // Gemini model used by the "gemini" detector
+  maxImageDimension: number; // Longest edge, in px, images are resized to before upload
+  jpegQuality: number; // 0-1, quality images are re-encoded at before upload
+  videoFrameInterval: number; // Seconds between sampled video keyframes
+  videoMaxFrames: number; // Keyframes per video at most, the interval widens for long clips
+  defaultProfileId: string; // Prompt profile selected when the app starts
+  serverUrl: string; // Pixivera API server base URL, empty to run detectors from the browser
+  serverKey: string; // API key for serverUrl
+  ensembleEnabled: boolean; // Scan with the ensemble instead of a single detector, takes over from serverUrl
+  ensemblePasses: string; // Pass list (see parseEnsembleSpec), empty for the ENSEMBLE_PASSES the app was built with
+}
+
+export interface ConnectivityResult {
+  ok: boolean;
+  message: string;
+  latencyMs: number;
 }
 
 export interface HistoryItem extends AnalysisResult {
   id: string;
-  thumbnail: string;
+  thumbnail: string; // ObjectURL for display, the blob itself lives in IndexedDB
+  fileName?: string;
+  mimeType?: string;
+}
+
+export type HistorySortKey = 'timestamp' | 'score' | 'fileName' | 'modelSignature';
+
+export type HistoryMediaType = 'image' | 'video';
+
+// History explorer filters. Unset fields match everything
+export interface HistoryQuery {
+  text: string; // Searched in verdict, reasoning, technicalDetails and file name, case-insensitive
+  minScore: number;
+  maxScore: number; // Inclusive
+  isAI?: boolean; // Either way, inconclusive ensembles do not match
+  modelSignature?: string; // Exact modelSignature.name
+  watermarkProvider?: string;
+  mediaType?: HistoryMediaType;
+  since?: string; // YYYY-MM-DD, local time, inclusive
+  until?: string; // YYYY-MM-DD, local time, inclusive
+  sort: HistorySortKey;
+  descending: boolean;
+}
+
+// Values present across the whole stored history, for the filter dropdowns
+export interface HistoryFacets {
+  modelSignatures: string[];
+  watermarkProviders: string[];
+}
+
+export type AnalyticsRange = '7d' | '30d' | '90d' | 'all';
+
+export interface DailyActivity {
+  day: string; // YYYY-MM-DD, local time
+  scans: number;
+  synthetic: number;
+  inconclusive: number; // Inconclusive ensembles, counted as neither synthetic nor authentic
+  syntheticRate: number; // 0-100 of the conclusive scans, 0 on days without any
+}
+
+export interface CountEntry {
+  name: string;
+  count: number;
+}
+
+export interface VerdictMetrics {
+  verdict: 'synthetic' | 'authentic'; // By isAI, verdict texts vary per detector; inconclusive ensembles are in neither
+  scans: number;
+  metrics: Partial<Record<keyof ForensicMetrics, number>>; // Mean over the scans that report the metric
+}
+
+export interface HistoryAnalytics {
+  range: AnalyticsRange;
+  since?: string; // YYYY-MM-DD, first day covered; unset for 'all' without scans
+  until: string;  // YYYY-MM-DD, today
+  scans: number;
+  synthetic: number;
+  inconclusive: number;
+  syntheticRate: number; // 0-100 of the conclusive scans
+  watermarked: number; // Scans with at least one watermark signature
+  daily: DailyActivity[]; // Every day from since to until, including empty ones
+  generators: CountEntry[]; // modelSignature.name of synthetic scans, most frequent first
+  watermarks: CountEntry[]; // Scans per watermark provider, most frequent first
+  metricsByVerdict: VerdictMetrics[];
+}
+
+export interface UrlSource {
+  sourceUrl: string;
+  finalUrl: string;
 }
 
 export interface FileData {
@@ -109,4 +469,136 @@ export interface FileData {
   mimeType: string;
   base64: string;
   sourceUrl?: string;
-}
\ No newline at end of file
+}
+export type SourceKind = 'webhook' | 'feed';
+
+// A watched source as configured on the Integrations screen
+export interface SourceConfig {
+  id: string;
+  kind: SourceKind;
+  name: string;
+  url: string; // Feed URL; unused by webhooks, which receive at an endpoint derived from the id
+  pollIntervalSeconds: number;
+  enabled: boolean;
+  createdAt: string;
+}
+
+export type SourceState = 'idle' | 'polling' | 'error';
+
+export interface SourceStatus {
+  state: SourceState;
+  lastScanAt?: string; // Last poll that completed, whether or not it found new items
+  lastItemAt?: string; // Last time an item from this source was analyzed
+  lastError?: string; // From the last poll or item that failed, cleared by the next clean poll
+  itemsScanned: number;
+  itemsFailed: number;
+  cursor?: string; // Connector-specific position, e.g. the webhook relay's last delivery id
+  seen: string[]; // Keys of recently handled items, newest last
+}
+
+// Persisted shape: configuration plus the status the watcher keeps up to date
+export interface SourceRecord extends SourceConfig {
+  status: SourceStatus;
+}
+
+export interface SourceItem {
+  key: string; // Stable per source: feed guid, webhook delivery id or the media URL
+  url: string; // Media URL, fetched through the media proxy like a URL scan
+  title?: string;
+  publishedAt?: string;
+}
+
+export interface SourcePollResult {
+  items: SourceItem[]; // Oldest first
+  cursor?: string;
+}
+
+// Pluggable source integration. Connectors only discover items, the watcher fetches and scans them
+export interface SourceConnector {
+  kind: SourceKind;
+  label: string;
+  description: string;
+  needsUrl: boolean;
+  poll: (source: SourceConfig, cursor?: string) => Promise<SourcePollResult>;
+}
+
+export interface SourceRef {
+  id: string;
+  kind: SourceKind;
+  name: string;
+  itemTitle?: string;
+}
+
+// Machine-readable copy of a PDF report's findings, attached to the PDF as pixivera-manifest.json
+export interface ReportManifest {
+  format: 'pixivera-report/1';
+  reportId: string;
+  generatedAt: string;
+  signingKey: string; // SHA-256 fingerprint of the public key that signed the PDF
+  entries: ReportManifestEntry[];
+}
+
+export interface ReportManifestEntry {
+  fileName?: string;
+  imageSha256?: string; // Of the annotated image embedded in the report
+  result: AnalysisResult;
+}
+
+// 'valid' = signature covers the whole file and checks out, 'tampered' = it does not, 'unsigned' = no signature found
+export type ReportSignatureStatus = 'valid' | 'tampered' | 'unsigned';
+
+export interface ReportVerification {
+  status: ReportSignatureStatus;
+  keyFingerprint?: string;
+  ownKey: boolean; // Signed by this browser's report key
+  manifest?: ReportManifest; // Only read from reports whose signature is valid
+  issues: string[];
+}
+
+// ---- API server (server/apiServer.ts); components.schemas in its OpenAPI document are generated from these ----
+
+export type ApiJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+// One submitted analysis. Jobs are kept in memory for an hour after they finish, results for good
+export interface ApiJob {
+  id: string;
+  status: ApiJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  fileName?: string;
+  sourceUrl?: string; // Set for URL submissions
+  resultId?: string; // Set once status is 'done', see GET /v1/results/{id}
+  error?: string; // Set once status is 'failed'
+}
+
+// A stored result: the history entry without a thumbnail
+export interface ApiResult extends AnalysisResult {
+  id: string;
+  jobId: string;
+  fileName?: string;
+  mimeType?: string;
+}
+
+export interface ApiHistoryPage {
+  items: ApiResult[]; // Newest first
+  total: number; // Matches for the query, before offset and limit
+  offset: number;
+  limit: number;
+}
+
+export interface ApiFrameSubmission {
+  timestamp: number; // Seconds from the start of the video
+  mimeType: string;
+  data: string; // Base64
+}
+
+// JSON bodies of POST /v1/analyses, multipart uploads send a `file` part (and optionally `profile`) instead
+export type ApiSubmission =
+  | { url: string; profile?: string }
+  | { mimeType: string; data: string; fileName?: string; profile?: string }
+  | { sourceMimeType: string; durationSeconds: number; frames: ApiFrameSubmission[]; fileName?: string; profile?: string };
+
+export interface ApiError {
+  error: string;
+}
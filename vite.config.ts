@@ -12,7 +12,14 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DETECTOR_PROVIDER': JSON.stringify(env.DETECTOR_PROVIDER),
+        'process.env.LOCAL_DETECTOR_URL': JSON.stringify(env.LOCAL_DETECTOR_URL),
+        'process.env.MEDIA_PROXY_URL': JSON.stringify(env.MEDIA_PROXY_URL),
+        'process.env.WEBHOOK_RELAY_URL': JSON.stringify(env.WEBHOOK_RELAY_URL),
+        'process.env.TELEGRAM_BOT_USERNAME': JSON.stringify(env.TELEGRAM_BOT_USERNAME),
+        'process.env.C2PA_TRUST_LIST_URL': JSON.stringify(env.C2PA_TRUST_LIST_URL),
+        'process.env.ENSEMBLE_PASSES': JSON.stringify(env.ENSEMBLE_PASSES)
       },
       resolve: {
         alias: {